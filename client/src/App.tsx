@@ -20,6 +20,11 @@ import AdminSignup from "@/pages/admin/signup";
 import AdminDashboard from "@/pages/admin/dashboard";
 import CreateTournament from "@/pages/admin/create-tournament";
 import EditTournament from "@/pages/admin/edit-tournament";
+import AdminTournamentResults from "@/pages/admin/tournament-results";
+import AdminTournamentStages from "@/pages/admin/tournament-stages";
+import AdminTournamentBracket from "@/pages/admin/tournament-bracket";
+import AdminTournamentSlots from "@/pages/admin/tournament-slots";
+import AdminTournamentRooms from "@/pages/admin/tournament-rooms";
 import AdminTeams from "@/pages/admin/teams";
 import AdminTeamDetails from "@/pages/admin/team-details";
 import AdminTeamMembers from "@/pages/admin/team-members";
@@ -27,12 +32,15 @@ import AdminUsers from "@/pages/admin/users";
 import AdminManagement from "@/pages/admin/admins";
 import AdminUserDetails from "@/pages/admin/user-details";
 import AdminSettings from "@/pages/admin/settings";
+import AdminScoringRulesets from "@/pages/admin/scoring-rulesets";
+import AdminTournamentTemplates from "@/pages/admin/tournament-templates";
 import AdminTournaments from "@/pages/admin/tournaments";
 import AdminNotifications from "@/pages/admin/notifications";
 import AdminNotificationsBroadcast from "@/pages/admin/notifications-broadcast";
 import UserDashboard from "@/pages/user/dashboard";
 import UserProfile from "@/pages/user/profile";
 import UserTeam from "@/pages/user/team";
+import JoinTeam from "@/pages/user/join-team";
 import Tournaments from "@/pages/tournaments";
 import TournamentDetails from "@/pages/tournament-details";
 import NotFound from "@/pages/not-found";
@@ -174,13 +182,21 @@ function Router() {
             <Redirect to="/admin/notifications" />
           </Route>
           <ProtectedRoute path="/admin/settings" component={AdminSettings} adminOnly={true}/>
+          <ProtectedRoute path="/admin/scoring" component={AdminScoringRulesets} adminOnly={true}/>
+          <ProtectedRoute path="/admin/templates" component={AdminTournamentTemplates} adminOnly={true}/>
           <ProtectedRoute path="/admin/tournaments/edit/:id" component={(props: any) => <EditTournament params={props.params} />} adminOnly={true} />
+          <ProtectedRoute path="/admin/tournaments/:id/results" component={AdminTournamentResults} adminOnly={true} />
+          <ProtectedRoute path="/admin/tournaments/:id/stages" component={AdminTournamentStages} adminOnly={true} />
+          <ProtectedRoute path="/admin/tournaments/:id/bracket" component={AdminTournamentBracket} adminOnly={true} />
+          <ProtectedRoute path="/admin/tournaments/:id/slots" component={AdminTournamentSlots} adminOnly={true} />
+          <ProtectedRoute path="/admin/tournaments/:id/rooms" component={AdminTournamentRooms} adminOnly={true} />
           
           {/* User Routes - protected */}
           <ProtectedRoute path="/user/dashboard" component={UserDashboard}/>
           <ProtectedRoute path="/user/profile" component={UserProfile}/>
           <ProtectedRoute path="/user/team" component={UserTeam}/>
           <ProtectedRoute path="/user/team/create" component={UserTeam}/>
+          <ProtectedRoute path="/join/:token" component={JoinTeam}/>
           
           {/* Public Routes */}
           <Route path="/tournaments" component={Tournaments}/>
@@ -1,6 +1,6 @@
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
 import { apiRequest } from "@/lib/queryClient";
@@ -29,7 +29,17 @@ import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { CalendarIcon, Trophy } from "lucide-react";
 import { format } from "date-fns";
-import { Tournament } from "@shared/schema";
+import { 
+  MemberRole, 
+  ScoringRuleset, 
+  SlotAllocationMode, 
+  Tournament, 
+  TournamentFormat, 
+  TournamentStatus, 
+  memberRoles, 
+  slotAllocationModes, 
+  tournamentFormats 
+} from "@shared/schema";
 
 type TournamentFormProps = {
   tournament?: Tournament;
@@ -39,23 +49,77 @@ type TournamentFormProps = {
 const mapTypes = ["Erangel", "Miramar", "Sanhok", "Vikendi"];
 const teamTypes = ["Solo", "Duo", "Squad"];
 const gameTypes = ["BGMI", "FREEFIRE", "COD"];
+const formats: { value: TournamentFormat; label: string }[] = [
+  { value: "battle_royale", label: "Battle Royale (points table)" },
+  { value: "single_elimination", label: "Single Elimination" },
+  { value: "double_elimination", label: "Double Elimination" },
+];
+const statuses: { value: TournamentStatus; label: string }[] = [
+  { value: "draft", label: "Draft" },
+  { value: "upcoming", label: "Upcoming" },
+  { value: "registration_closed", label: "Registration Closed" },
+  { value: "live", label: "Live" },
+  { value: "completed", label: "Completed" },
+  { value: "cancelled", label: "Cancelled" },
+];
 
 const formSchema = z.object({
   title: z.string().min(3, "Title must be at least 3 characters"),
   description: z.string().min(10, "Description must be at least 10 characters"),
   date: z.date(),
   gameType: z.string().refine((val) => gameTypes.includes(val), "Please select a valid game"),
+  scoringRulesetId: z.number().nullable(),
+  format: z.enum(tournamentFormats),
+  slotAllocation: z.enum(slotAllocationModes),
   mapType: z.string().refine((val) => mapTypes.includes(val), "Please select a valid map"),
   teamType: z.string().refine((val) => teamTypes.includes(val), "Please select a valid team type"),
   isPaid: z.boolean(),
+  requiresApproval: z.boolean(),
   entryFee: z.number().min(0).optional(),
   prizePool: z.number().min(0),
   totalSlots: z.number().min(10).max(100),
+  roomCapacity: z.number().min(2).max(100),
+  durationMinutes: z.number().min(1),
+  checkInOpensMinutes: z.number().min(1).nullable(),
+  checkInClosesMinutes: z.number().min(0),
+  registrationOpensAt: z.date().nullable(),
+  registrationClosesAt: z.date().nullable(),
+  unregisterCutoffMinutes: z.number().min(0).nullable(),
+  minRosterSize: z.number().min(1).nullable(),
+  maxRosterSize: z.number().min(1).nullable(),
+  maxSubstitutes: z.number().min(0).nullable(),
+  requiredRoles: z.array(z.enum(memberRoles)),
   status: z.string(),
+  statusLocked: z.boolean(),
   roomId: z.string().optional(),
-  password: z.string().optional()
+  password: z.string().optional(),
+  roomReleaseMinutes: z.number().min(0).nullable()
+}).refine((data) => data.checkInOpensMinutes === null || data.checkInOpensMinutes > data.checkInClosesMinutes, {
+  message: "Check-in must open before it closes",
+  path: ["checkInOpensMinutes"]
+}).refine((data) => !data.registrationOpensAt || !data.registrationClosesAt || data.registrationOpensAt < data.registrationClosesAt, {
+  message: "Registration must open before it closes",
+  path: ["registrationClosesAt"]
+}).refine((data) => !data.registrationClosesAt || data.registrationClosesAt <= data.date, {
+  message: "Registration must close before the tournament starts",
+  path: ["registrationClosesAt"]
+}).refine((data) => data.minRosterSize === null || data.maxRosterSize === null || data.minRosterSize <= data.maxRosterSize, {
+  message: "The minimum roster size cannot be larger than the maximum",
+  path: ["minRosterSize"]
 });
 
+// Roles a tournament can insist on - every team has ordinary members
+const requirableRoles: { value: MemberRole; label: string }[] = [
+  { value: "captain", label: "Require a captain" },
+  { value: "substitute", label: "Require a substitute" },
+];
+
+// Value for an optional number input, empty meaning "use the default"
+const toOptionalNumber = (value: string) => value === "" ? null : Number(value);
+
+// Value for a datetime-local input
+const toLocalInput = (date: Date | null) => date ? format(date, "yyyy-MM-dd'T'HH:mm") : "";
+
 type FormValues = z.infer<typeof formSchema>;
 
 export function TournamentForm({ tournament, isEditing = false }: TournamentFormProps) {
@@ -70,33 +134,75 @@ export function TournamentForm({ tournament, isEditing = false }: TournamentForm
           description: tournament.description,
           date: new Date(tournament.date),
           gameType: tournament.gameType || "BGMI",
+          scoringRulesetId: tournament.scoringRulesetId ?? null,
+          format: (tournament.format as TournamentFormat) || "battle_royale",
+          slotAllocation: (tournament.slotAllocation as SlotAllocationMode) || "first_come",
           mapType: tournament.mapType,
           teamType: tournament.teamType,
           isPaid: tournament.isPaid,
+          requiresApproval: tournament.requiresApproval ?? false,
           entryFee: tournament.entryFee || 0,
           prizePool: tournament.prizePool || 0,
           totalSlots: tournament.totalSlots,
+          roomCapacity: tournament.roomCapacity || 25,
+          durationMinutes: tournament.durationMinutes || 120,
+          checkInOpensMinutes: tournament.checkInOpensMinutes ?? null,
+          checkInClosesMinutes: tournament.checkInClosesMinutes ?? 10,
+          registrationOpensAt: tournament.registrationOpensAt ? new Date(tournament.registrationOpensAt) : null,
+          registrationClosesAt: tournament.registrationClosesAt ? new Date(tournament.registrationClosesAt) : null,
+          unregisterCutoffMinutes: tournament.unregisterCutoffMinutes ?? null,
+          minRosterSize: tournament.minRosterSize ?? null,
+          maxRosterSize: tournament.maxRosterSize ?? null,
+          maxSubstitutes: tournament.maxSubstitutes ?? null,
+          requiredRoles: tournament.requiredRoles ?? [],
           status: tournament.status,
+          statusLocked: tournament.statusLocked ?? false,
           roomId: tournament.roomId || "",
-          password: tournament.password || ""
+          password: tournament.password || "",
+          roomReleaseMinutes: tournament.roomReleaseMinutes ?? null
         }
       : {
           title: "",
           description: "",
           date: new Date(),
           gameType: "BGMI",
+          scoringRulesetId: null,
+          format: "battle_royale",
+          slotAllocation: "first_come",
           mapType: "Erangel",
           teamType: "Squad",
           isPaid: false,
+          requiresApproval: false,
           entryFee: 0,
           prizePool: 0,
           totalSlots: 100,
+          roomCapacity: 25,
+          durationMinutes: 120,
+          checkInOpensMinutes: null,
+          checkInClosesMinutes: 10,
+          registrationOpensAt: null,
+          registrationClosesAt: null,
+          unregisterCutoffMinutes: null,
+          minRosterSize: null,
+          maxRosterSize: null,
+          maxSubstitutes: null,
+          requiredRoles: [],
           status: "upcoming",
+          statusLocked: false,
           roomId: "",
-          password: ""
+          password: "",
+          roomReleaseMinutes: null
         }
   });
 
+  const { data: scoringRulesets = [] } = useQuery<ScoringRuleset[]>({
+    queryKey: ["/api/scoring-rulesets"],
+  });
+
+  // Only rulesets written for the selected game can score this tournament
+  const selectedGameType = form.watch("gameType");
+  const gameRulesets = scoringRulesets.filter((ruleset) => ruleset.gameType === selectedGameType);
+
   const createMutation = useMutation({
     mutationFn: async (values: FormValues) => {
       const url = isEditing ? `/api/tournaments/${tournament?.id}` : "/api/tournaments";
@@ -105,12 +211,19 @@ export function TournamentForm({ tournament, isEditing = false }: TournamentForm
       // Prepare data for API request
       
       // Create a type with optional id for our data and a date that can be string
-      type DataToSend = Omit<FormValues, 'date'> & { date: string; id?: number };
+      type DataToSend = Omit<FormValues, 'date' | 'registrationOpensAt' | 'registrationClosesAt'> & {
+        date: string;
+        registrationOpensAt: string | null;
+        registrationClosesAt: string | null;
+        id?: number;
+      };
       
       const dataToSend: DataToSend = {
         ...values,
         // Convert date to ISO string format
         date: values.date instanceof Date ? values.date.toISOString() : String(values.date),
+        registrationOpensAt: values.registrationOpensAt ? values.registrationOpensAt.toISOString() : null,
+        registrationClosesAt: values.registrationClosesAt ? values.registrationClosesAt.toISOString() : null,
       };
       
       // For PATCH requests, we need to include the id in the request body
@@ -281,7 +394,10 @@ export function TournamentForm({ tournament, isEditing = false }: TournamentForm
                 <FormItem>
                   <FormLabel className="text-white">Game</FormLabel>
                   <Select 
-                    onValueChange={field.onChange} 
+                    onValueChange={(value) => {
+                      field.onChange(value);
+                      form.setValue("scoringRulesetId", null);
+                    }} 
                     defaultValue={field.value}
                   >
                     <FormControl>
@@ -302,6 +418,65 @@ export function TournamentForm({ tournament, isEditing = false }: TournamentForm
               )}
             />
             
+            <FormField
+              control={form.control}
+              name="format"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-white">Format</FormLabel>
+                  <Select 
+                    onValueChange={field.onChange} 
+                    defaultValue={field.value}
+                  >
+                    <FormControl>
+                      <SelectTrigger className="bg-dark-surface border-gray-700 text-white">
+                        <SelectValue placeholder="Select format" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent className="bg-dark-card border-gray-700">
+                      {formats.map((option) => (
+                        <SelectItem key={option.value} value={option.value} className="text-white focus:bg-dark-surface focus:text-white">
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="scoringRulesetId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-white">Scoring Rules</FormLabel>
+                  <Select 
+                    onValueChange={(value) => field.onChange(value === "default" ? null : parseInt(value))} 
+                    value={field.value ? field.value.toString() : "default"}
+                  >
+                    <FormControl>
+                      <SelectTrigger className="bg-dark-surface border-gray-700 text-white">
+                        <SelectValue placeholder="Select scoring rules" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent className="bg-dark-card border-gray-700">
+                      <SelectItem value="default" className="text-white focus:bg-dark-surface focus:text-white">
+                        {selectedGameType} default
+                      </SelectItem>
+                      {gameRulesets.map((ruleset) => (
+                        <SelectItem key={ruleset.id} value={ruleset.id.toString()} className="text-white focus:bg-dark-surface focus:text-white">
+                          {ruleset.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
             <div className="grid grid-cols-2 gap-4">
               <FormField
                 control={form.control}
@@ -382,6 +557,31 @@ export function TournamentForm({ tournament, isEditing = false }: TournamentForm
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="requiresApproval"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between p-3 border border-gray-700 rounded-md bg-dark-surface">
+                  <div className="space-y-0.5">
+                    <FormLabel className="text-white">Review Registrations</FormLabel>
+                    <FormDescription className="text-gray-400 text-xs">
+                      {form.watch("isPaid")
+                        ? "Registrations for paid tournaments are always reviewed"
+                        : "Approve each team before it gets a slot and the room details"}
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value || form.watch("isPaid")}
+                      onCheckedChange={field.onChange}
+                      disabled={form.watch("isPaid")}
+                      className="data-[state=checked]:bg-primary"
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
             {form.watch("isPaid") && (
               <FormField
                 control={form.control}
@@ -449,35 +649,358 @@ export function TournamentForm({ tournament, isEditing = false }: TournamentForm
               )}
             />
 
-            {isEditing && (
+            <FormField
+              control={form.control}
+              name="roomCapacity"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-white">Teams per Room</FormLabel>
+                  <FormControl>
+                    <Input 
+                      type="number" 
+                      placeholder="25" 
+                      className="bg-dark-surface border-gray-700 text-white"
+                      {...field}
+                      onChange={(e) => field.onChange(Number(e.target.value))}
+                      min={2}
+                      max={100}
+                    />
+                  </FormControl>
+                  <FormDescription className="text-gray-400 text-xs">
+                    A BGMI room holds 25 squads. Bigger tournaments can be split across several rooms
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="durationMinutes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-white">Expected Duration (minutes)</FormLabel>
+                  <FormControl>
+                    <Input 
+                      type="number" 
+                      placeholder="120" 
+                      className="bg-dark-surface border-gray-700 text-white"
+                      {...field}
+                      onChange={(e) => field.onChange(Number(e.target.value))}
+                      min={1}
+                    />
+                  </FormControl>
+                  <FormDescription className="text-gray-400 text-xs">
+                    The tournament is marked as completed once this much time has passed since the start
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="checkInOpensMinutes"
+              render={({ field }) => (
+                <FormItem className="p-3 border border-gray-700 rounded-md bg-dark-surface space-y-3">
+                  <div className="flex flex-row items-center justify-between">
+                    <div className="space-y-0.5">
+                      <FormLabel className="text-white">Check-in</FormLabel>
+                      <FormDescription className="text-gray-400 text-xs">
+                        Teams that do not check in lose their slot to the waitlist
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value !== null}
+                        onCheckedChange={(checked) => field.onChange(checked ? 30 : null)}
+                        className="data-[state=checked]:bg-primary"
+                      />
+                    </FormControl>
+                  </div>
+                  {field.value !== null && (
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <FormLabel className="text-gray-400 text-xs">Opens (minutes before start)</FormLabel>
+                        <Input
+                          type="number"
+                          min={1}
+                          value={field.value}
+                          onChange={(e) => field.onChange(Number(e.target.value))}
+                          className="bg-dark-card border-gray-700 text-white"
+                        />
+                      </div>
+                      <div>
+                        <FormLabel className="text-gray-400 text-xs">Closes (minutes before start)</FormLabel>
+                        <Input
+                          type="number"
+                          min={0}
+                          value={form.watch("checkInClosesMinutes")}
+                          onChange={(e) => form.setValue("checkInClosesMinutes", Number(e.target.value))}
+                          className="bg-dark-card border-gray-700 text-white"
+                        />
+                      </div>
+                    </div>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="p-3 border border-gray-700 rounded-md bg-dark-surface space-y-3">
+              <div className="space-y-0.5">
+                <FormLabel className="text-white">Registration Window</FormLabel>
+                <FormDescription className="text-gray-400 text-xs">
+                  Leave empty to take registrations from publishing until the start
+                </FormDescription>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <FormField
+                  control={form.control}
+                  name="registrationOpensAt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-gray-400 text-xs">Opens</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="datetime-local"
+                          value={toLocalInput(field.value)}
+                          onChange={(e) => field.onChange(e.target.value ? new Date(e.target.value) : null)}
+                          className="bg-dark-card border-gray-700 text-white"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="registrationClosesAt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-gray-400 text-xs">Closes</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="datetime-local"
+                          value={toLocalInput(field.value)}
+                          onChange={(e) => field.onChange(e.target.value ? new Date(e.target.value) : null)}
+                          className="bg-dark-card border-gray-700 text-white"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
               <FormField
                 control={form.control}
-                name="status"
+                name="unregisterCutoffMinutes"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel className="text-white">Status</FormLabel>
-                    <Select 
-                      onValueChange={field.onChange} 
-                      defaultValue={field.value}
-                    >
+                    <FormLabel className="text-gray-400 text-xs">Withdrawals close (minutes before start)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={0}
+                        placeholder="Until the start"
+                        value={field.value ?? ""}
+                        onChange={(e) => field.onChange(e.target.value === "" ? null : Number(e.target.value))}
+                        className="bg-dark-card border-gray-700 text-white"
+                      />
+                    </FormControl>
+                    <FormDescription className="text-gray-400 text-xs">
+                      Teams cannot drop out after this, so lobbies can be planned
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="p-3 border border-gray-700 rounded-md bg-dark-surface space-y-3">
+              <div className="space-y-0.5">
+                <FormLabel className="text-white">Roster Rules</FormLabel>
+                <FormDescription className="text-gray-400 text-xs">
+                  Leave empty to use the usual team size for the game and team type
+                </FormDescription>
+              </div>
+              <div className="grid grid-cols-3 gap-3">
+                <FormField
+                  control={form.control}
+                  name="minRosterSize"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-gray-400 text-xs">Min players</FormLabel>
                       <FormControl>
-                        <SelectTrigger className="bg-dark-surface border-gray-700 text-white">
-                          <SelectValue placeholder="Select status" />
-                        </SelectTrigger>
+                        <Input
+                          type="number"
+                          min={1}
+                          placeholder="Default"
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(toOptionalNumber(e.target.value))}
+                          className="bg-dark-card border-gray-700 text-white"
+                        />
                       </FormControl>
-                      <SelectContent className="bg-dark-card border-gray-700">
-                        <SelectItem value="upcoming" className="text-white focus:bg-dark-surface focus:text-white">
-                          Upcoming
-                        </SelectItem>
-                        <SelectItem value="live" className="text-white focus:bg-dark-surface focus:text-white">
-                          Live
-                        </SelectItem>
-                        <SelectItem value="completed" className="text-white focus:bg-dark-surface focus:text-white">
-                          Completed
-                        </SelectItem>
-                      </SelectContent>
-                    </Select>
-                    <FormMessage />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="maxRosterSize"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-gray-400 text-xs">Max players</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={1}
+                          placeholder="Default"
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(toOptionalNumber(e.target.value))}
+                          className="bg-dark-card border-gray-700 text-white"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="maxSubstitutes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-gray-400 text-xs">Substitutes</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={0}
+                          placeholder="Default"
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(toOptionalNumber(e.target.value))}
+                          className="bg-dark-card border-gray-700 text-white"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="requiredRoles"
+                render={({ field }) => (
+                  <FormItem className="space-y-2">
+                    {requirableRoles.map((role) => (
+                      <div key={role.value} className="flex flex-row items-center justify-between">
+                        <FormLabel className="text-gray-400 text-xs">{role.label}</FormLabel>
+                        <FormControl>
+                          <Switch
+                            checked={field.value.includes(role.value)}
+                            onCheckedChange={(checked) => field.onChange(
+                              checked
+                                ? [...field.value, role.value]
+                                : field.value.filter((value) => value !== role.value)
+                            )}
+                            className="data-[state=checked]:bg-primary"
+                          />
+                        </FormControl>
+                      </div>
+                    ))}
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="slotAllocation"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-white">Slot Allocation</FormLabel>
+                  <Select 
+                    onValueChange={field.onChange} 
+                    defaultValue={field.value}
+                  >
+                    <FormControl>
+                      <SelectTrigger className="bg-dark-surface border-gray-700 text-white">
+                        <SelectValue placeholder="Select slot allocation" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent className="bg-dark-card border-gray-700">
+                      <SelectItem value="first_come" className="text-white focus:bg-dark-surface focus:text-white">
+                        First come, first served
+                      </SelectItem>
+                      <SelectItem value="random" className="text-white focus:bg-dark-surface focus:text-white">
+                        Random
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormDescription className="text-gray-400 text-xs">
+                    How teams are given their in-game slot when they register
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="status"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-white">Status</FormLabel>
+                  <Select 
+                    onValueChange={field.onChange} 
+                    defaultValue={field.value}
+                  >
+                    <FormControl>
+                      <SelectTrigger className="bg-dark-surface border-gray-700 text-white">
+                        <SelectValue placeholder="Select status" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent className="bg-dark-card border-gray-700">
+                      {/* New tournaments are either published straight away or kept as a draft */}
+                      {statuses
+                        .filter((status) => isEditing || status.value === "draft" || status.value === "upcoming")
+                        .map((status) => (
+                          <SelectItem 
+                            key={status.value} 
+                            value={status.value} 
+                            className="text-white focus:bg-dark-surface focus:text-white"
+                          >
+                            {status.label}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription className="text-gray-400 text-xs">
+                    Drafts are only visible to admins
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {isEditing && (
+              <FormField
+                control={form.control}
+                name="statusLocked"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between p-3 border border-gray-700 rounded-md bg-dark-surface">
+                    <div className="space-y-0.5">
+                      <FormLabel className="text-white">Lock Status</FormLabel>
+                      <FormDescription className="text-gray-400 text-xs">
+                        Stop the schedule from changing the status, e.g. to keep a long event live
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                        className="data-[state=checked]:bg-primary"
+                      />
+                    </FormControl>
                   </FormItem>
                 )}
               />
@@ -541,6 +1064,45 @@ export function TournamentForm({ tournament, isEditing = false }: TournamentForm
                 )}
               />
             </div>
+
+            <FormField
+              control={form.control}
+              name="roomReleaseMinutes"
+              render={({ field }) => (
+                <FormItem className="p-3 border border-gray-700 rounded-md bg-dark-card space-y-3">
+                  <div className="flex flex-row items-center justify-between">
+                    <div className="space-y-0.5">
+                      <FormLabel className="text-white">Scheduled Release</FormLabel>
+                      <FormDescription className="text-gray-400 text-xs">
+                        {tournament?.roomReleasedAt
+                          ? `Room details were sent to confirmed teams at ${format(new Date(tournament.roomReleasedAt), "PPp")}`
+                          : "Keep the room details hidden and send them to confirmed teams automatically"}
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value !== null}
+                        onCheckedChange={(checked) => field.onChange(checked ? 15 : null)}
+                        className="data-[state=checked]:bg-primary"
+                      />
+                    </FormControl>
+                  </div>
+                  {field.value !== null && (
+                    <div>
+                      <FormLabel className="text-gray-400 text-xs">Release (minutes before start)</FormLabel>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={field.value}
+                        onChange={(e) => field.onChange(Number(e.target.value))}
+                        className="bg-dark-surface border-gray-700 text-white"
+                      />
+                    </div>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
           </div>
         )}
 
@@ -0,0 +1,239 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Tournament } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Save } from "lucide-react";
+
+const mapTypes = ["Erangel", "Miramar", "Sanhok", "Vikendi"];
+
+type RegistrationWithTeam = {
+  id: number;
+  slot: number | null;
+  team?: { name: string };
+  entrantName: string; // The team's name, or the player's for solo entries
+};
+
+type ResultInput = {
+  placement: string;
+  kills: string;
+};
+
+// A group of a multi-stage tournament that matches can be played in
+export type MatchGroupOption = {
+  id: number;
+  name: string; // e.g. "Qualifiers - Group A"
+  registrationIds: number[];
+};
+
+type MatchResultsFormProps = {
+  tournament: Tournament;
+  registrations: RegistrationWithTeam[];
+  nextMatchNumber: number;
+  groups?: MatchGroupOption[];
+};
+
+export function MatchResultsForm({ tournament, registrations, nextMatchNumber, groups = [] }: MatchResultsFormProps) {
+  const { toast } = useToast();
+  const [matchNumber, setMatchNumber] = useState(nextMatchNumber);
+  const [mapType, setMapType] = useState(mapTypes.includes(tournament.mapType) ? tournament.mapType : "Erangel");
+  const [groupId, setGroupId] = useState<number | null>(null);
+  const [inputs, setInputs] = useState<Record<number, ResultInput>>({});
+
+  // Group matches only list the teams seeded into that group
+  const selectedGroup = groups.find((group) => group.id === groupId);
+  const matchRegistrations = selectedGroup
+    ? registrations.filter((registration) => selectedGroup.registrationIds.includes(registration.id))
+    : registrations;
+
+  // Move on to the next match number after results are saved
+  useEffect(() => {
+    setMatchNumber(nextMatchNumber);
+  }, [nextMatchNumber]);
+
+  const updateInput = (registrationId: number, field: keyof ResultInput, value: string) => {
+    setInputs((current) => ({
+      ...current,
+      [registrationId]: {
+        placement: current[registrationId]?.placement || "",
+        kills: current[registrationId]?.kills || "",
+        [field]: value
+      }
+    }));
+  };
+
+  const saveResultsMutation = useMutation({
+    mutationFn: async () => {
+      // Only teams with a placement entered took part in this match
+      const results = Object.entries(inputs)
+        .filter(([registrationId]) => matchRegistrations.some((r) => r.id === parseInt(registrationId)))
+        .filter(([, input]) => input.placement !== "")
+        .map(([registrationId, input]) => ({
+          registrationId: parseInt(registrationId),
+          placement: parseInt(input.placement),
+          kills: input.kills ? parseInt(input.kills) : 0
+        }));
+
+      const res = await apiRequest("POST", `/api/tournaments/${tournament.id}/results`, {
+        matchNumber,
+        groupId,
+        mapType,
+        results
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Results saved",
+        description: `Match ${matchNumber} results have been recorded`,
+      });
+      setInputs({});
+      queryClient.invalidateQueries({ queryKey: [`/api/tournaments/${tournament.id}/results`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/tournaments/${tournament.id}/standings`] });
+      if (groupId) {
+        // Group standings are keyed per stage, so refresh every stage query of this tournament
+        queryClient.invalidateQueries({
+          predicate: (query) => String(query.queryKey[0]).startsWith(`/api/tournaments/${tournament.id}/stages`),
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save results",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (registrations.length === 0) {
+    return <p className="text-gray-400 text-center py-4">No teams are registered for this tournament yet.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {groups.length > 0 && (
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-300">Group</label>
+          <Select
+            value={groupId ? groupId.toString() : "none"}
+            onValueChange={(value) => setGroupId(value === "none" ? null : parseInt(value))}
+          >
+            <SelectTrigger className="bg-dark-surface border-gray-700 text-white">
+              <SelectValue placeholder="Select group" />
+            </SelectTrigger>
+            <SelectContent className="bg-dark-card border-gray-700">
+              <SelectItem value="none" className="text-white focus:bg-dark-surface focus:text-white">
+                All teams (no group)
+              </SelectItem>
+              {groups.map((group) => (
+                <SelectItem key={group.id} value={group.id.toString()} className="text-white focus:bg-dark-surface focus:text-white">
+                  {group.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-300">Match Number</label>
+          <Input
+            type="number"
+            min={1}
+            value={matchNumber}
+            onChange={(e) => setMatchNumber(Number(e.target.value))}
+            className="bg-dark-surface border-gray-700 text-white"
+          />
+          <p className="text-gray-500 text-xs">Saving an existing match number replaces its results</p>
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-300">Map</label>
+          <Select value={mapType} onValueChange={setMapType}>
+            <SelectTrigger className="bg-dark-surface border-gray-700 text-white">
+              <SelectValue placeholder="Select map" />
+            </SelectTrigger>
+            <SelectContent className="bg-dark-card border-gray-700">
+              {mapTypes.map((map) => (
+                <SelectItem key={map} value={map} className="text-white focus:bg-dark-surface focus:text-white">
+                  {map}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="rounded-md border border-gray-800 overflow-hidden">
+        <Table>
+          <TableHeader className="bg-dark-surface">
+            <TableRow className="border-gray-800 hover:bg-transparent">
+              <TableHead className="text-gray-400 w-16">Slot</TableHead>
+              <TableHead className="text-gray-400">Team</TableHead>
+              <TableHead className="text-gray-400 w-32">Placement</TableHead>
+              <TableHead className="text-gray-400 w-32">Kills</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {matchRegistrations.map((registration, index) => (
+              <TableRow key={registration.id} className="border-gray-800 hover:bg-dark-surface/60">
+                <TableCell className="text-gray-300">{registration.slot || index + 1}</TableCell>
+                <TableCell className="font-medium text-white">{registration.entrantName}</TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={matchRegistrations.length}
+                    placeholder="-"
+                    value={inputs[registration.id]?.placement || ""}
+                    onChange={(e) => updateInput(registration.id, "placement", e.target.value)}
+                    className="bg-dark-surface border-gray-700 text-white h-8"
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min={0}
+                    placeholder="0"
+                    value={inputs[registration.id]?.kills || ""}
+                    onChange={(e) => updateInput(registration.id, "kills", e.target.value)}
+                    className="bg-dark-surface border-gray-700 text-white h-8"
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex justify-end">
+        <Button
+          className="bg-primary hover:bg-primary/90 text-white"
+          onClick={() => saveResultsMutation.mutate()}
+          disabled={saveResultsMutation.isPending || !Object.values(inputs).some((input) => input.placement !== "")}
+        >
+          <Save className="w-4 h-4 mr-2" />
+          {saveResultsMutation.isPending ? "Saving..." : `Save Match ${matchNumber} Results`}
+        </Button>
+      </div>
+    </div>
+  );
+}
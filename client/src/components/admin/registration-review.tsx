@@ -0,0 +1,402 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Registration, RegistrationStatus, Team, Tournament } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertTriangle, Check, CheckCheck, ClipboardCheck, X } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+type RegistrationWithTeam = Registration & { team?: Team; entrantName: string };
+
+type DuplicatePlayer = {
+  username: string;
+  gameId: string;
+  teams: { registrationId: number; teamName: string; status: string }[];
+};
+
+const statusFilters: { value: RegistrationStatus | null; label: string }[] = [
+  { value: "pending", label: "Pending" },
+  { value: "approved", label: "Approved" },
+  { value: "rejected", label: "Rejected" },
+  { value: "no_show", label: "No-shows" },
+  { value: null, label: "All" },
+];
+
+export function RegistrationReview() {
+  const { toast } = useToast();
+  const [tournamentId, setTournamentId] = useState<string>("");
+  const [statusFilter, setStatusFilter] = useState<RegistrationStatus | null>("pending");
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [registrationToReject, setRegistrationToReject] = useState<RegistrationWithTeam | null>(null);
+  const [rejectionReason, setRejectionReason] = useState("");
+
+  const { data: tournaments = [] } = useQuery<Tournament[]>({
+    queryKey: ["/api/tournaments"],
+    select: (data) => Array.isArray(data) ? data : []
+  });
+
+  // Completed tournaments have nothing left to review
+  const reviewableTournaments = tournaments.filter((tournament) => tournament.status !== "completed");
+
+  useEffect(() => {
+    if (!tournamentId && reviewableTournaments.length > 0) {
+      setTournamentId(reviewableTournaments[0].id.toString());
+    }
+  }, [reviewableTournaments.length]);
+
+  useEffect(() => {
+    setSelectedIds([]);
+  }, [tournamentId, statusFilter]);
+
+  const { data: registrations = [], isLoading } = useQuery<RegistrationWithTeam[]>({
+    queryKey: [`/api/tournaments/${tournamentId}/registrations`],
+    enabled: !!tournamentId,
+  });
+
+  // Players entered with more than one team - one of the teams has to be rejected or fix its roster
+  const { data: duplicatePlayers = [] } = useQuery<DuplicatePlayer[]>({
+    queryKey: [`/api/tournaments/${tournamentId}/duplicate-players`],
+    enabled: !!tournamentId,
+  });
+
+  const conflictedRegistrationIds = new Set(
+    duplicatePlayers.flatMap((player) => player.teams.map((team) => team.registrationId))
+  );
+
+  const filteredRegistrations = registrations.filter(
+    (registration) => statusFilter === null || registration.status === statusFilter
+  );
+  const pendingCount = registrations.filter((registration) => registration.status === "pending").length;
+
+  const invalidateRegistrations = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/tournaments/${tournamentId}/registrations`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/tournaments/${tournamentId}/waitlist`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/tournaments/${tournamentId}/slots`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/tournaments/${tournamentId}/duplicate-players`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/registrations/counts"] });
+  };
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, status, reason }: { id: number; status: "approved" | "rejected"; reason?: string }) => {
+      const res = await apiRequest("PATCH", `/api/registrations/${id}/status`, { status, reason });
+      return res.json();
+    },
+    onSuccess: (_, { status }) => {
+      toast({
+        title: status === "approved" ? "Registration approved" : "Registration rejected",
+        description: "The team has been notified",
+      });
+      setRegistrationToReject(null);
+      setRejectionReason("");
+      invalidateRegistrations();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to review registration",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const bulkApproveMutation = useMutation({
+    mutationFn: async (registrationIds?: number[]) => {
+      const res = await apiRequest("POST", `/api/tournaments/${tournamentId}/registrations/approve`, { registrationIds });
+      return res.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      toast({
+        title: "Registrations approved",
+        description: data.message,
+      });
+      setSelectedIds([]);
+      invalidateRegistrations();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to approve registrations",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleSelected = (id: number, checked: boolean) => {
+    setSelectedIds((current) => checked ? [...current, id] : current.filter((selectedId) => selectedId !== id));
+  };
+
+  const getStatusBadge = (status: string) => {
+    switch (status) {
+      case "approved":
+        return <Badge variant="outline" className="bg-green-900/20 text-green-400 border-green-700/30">Approved</Badge>;
+      case "rejected":
+        return <Badge variant="outline" className="bg-red-900/20 text-red-400 border-red-700/30">Rejected</Badge>;
+      case "no_show":
+        return <Badge variant="outline" className="bg-gray-800/40 text-gray-400 border-gray-700/30">No-show</Badge>;
+      default:
+        return <Badge variant="outline" className="bg-yellow-900/20 text-yellow-400 border-yellow-700/30">Pending</Badge>;
+    }
+  };
+
+  const selectablePending = filteredRegistrations.filter((registration) => registration.status === "pending");
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div className="flex items-center gap-3">
+          <ClipboardCheck className="h-5 w-5 text-primary" />
+          <h2 className="text-xl font-bold text-white">Registration Review</h2>
+          {pendingCount > 0 && (
+            <Badge variant="outline" className="bg-yellow-900/20 text-yellow-400 border-yellow-700/30">
+              {pendingCount} pending
+            </Badge>
+          )}
+        </div>
+        <Select value={tournamentId} onValueChange={setTournamentId}>
+          <SelectTrigger className="md:w-72 bg-dark-surface border-gray-700 text-white">
+            <SelectValue placeholder="Select a tournament" />
+          </SelectTrigger>
+          <SelectContent className="bg-dark-card border-gray-700">
+            {reviewableTournaments.map((tournament) => (
+              <SelectItem
+                key={tournament.id}
+                value={tournament.id.toString()}
+                className="text-white focus:bg-dark-surface focus:text-white"
+              >
+                {tournament.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div className="flex items-center gap-2">
+          {statusFilters.map((filter) => (
+            <Button
+              key={filter.label}
+              variant={statusFilter === filter.value ? "secondary" : "outline"}
+              size="sm"
+              onClick={() => setStatusFilter(filter.value)}
+              className={statusFilter === filter.value ? "bg-primary/20 text-primary border-primary/30" : "border-gray-700 text-gray-400"}
+            >
+              {filter.label}
+            </Button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            className="border-gray-700 text-white hover:bg-dark-surface"
+            onClick={() => bulkApproveMutation.mutate(selectedIds)}
+            disabled={selectedIds.length === 0 || bulkApproveMutation.isPending}
+          >
+            <Check className="mr-2 h-4 w-4" /> Approve Selected ({selectedIds.length})
+          </Button>
+          <Button
+            size="sm"
+            className="bg-primary hover:bg-primary/90 text-white"
+            onClick={() => {
+              if (confirm(`Approve all ${pendingCount} pending registrations?`)) {
+                bulkApproveMutation.mutate(undefined);
+              }
+            }}
+            disabled={pendingCount === 0 || bulkApproveMutation.isPending}
+          >
+            <CheckCheck className="mr-2 h-4 w-4" /> Approve All Pending
+          </Button>
+        </div>
+      </div>
+
+      {duplicatePlayers.length > 0 && (
+        <div className="rounded-md border border-yellow-700/30 bg-yellow-900/10 p-4">
+          <p className="flex items-center text-yellow-400 font-medium">
+            <AlertTriangle className="mr-2 h-4 w-4" />
+            {duplicatePlayers.length === 1 ? "1 player is" : `${duplicatePlayers.length} players are`} entered with more than one team
+          </p>
+          <ul className="mt-2 space-y-1 text-sm text-gray-300">
+            {duplicatePlayers.map((player) => (
+              <li key={`${player.username}-${player.gameId}`}>
+                <span className="text-white">{player.username}</span>
+                <span className="text-gray-500"> ({player.gameId})</span>
+                {" on "}
+                {player.teams.map((team) => team.teamName).join(", ")}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="rounded-md border border-gray-800 overflow-hidden">
+        <Table>
+          <TableHeader className="bg-dark-surface">
+            <TableRow className="border-gray-800 hover:bg-transparent">
+              <TableHead className="w-10">
+                <Checkbox
+                  checked={selectablePending.length > 0 && selectedIds.length === selectablePending.length}
+                  onCheckedChange={(checked) => setSelectedIds(checked ? selectablePending.map((registration) => registration.id) : [])}
+                  disabled={selectablePending.length === 0}
+                  className="border-gray-600"
+                />
+              </TableHead>
+              <TableHead className="text-gray-400">Team</TableHead>
+              <TableHead className="text-gray-400">Registered</TableHead>
+              <TableHead className="text-gray-400">Status</TableHead>
+              <TableHead className="text-gray-400 text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {!tournamentId ? (
+              <TableRow className="border-gray-800">
+                <TableCell colSpan={5} className="text-center py-6 text-gray-400">
+                  Select a tournament to review its registrations
+                </TableCell>
+              </TableRow>
+            ) : isLoading ? (
+              <TableRow className="border-gray-800">
+                <TableCell colSpan={5} className="text-center py-6 text-gray-400">
+                  Loading registrations...
+                </TableCell>
+              </TableRow>
+            ) : filteredRegistrations.length === 0 ? (
+              <TableRow className="border-gray-800">
+                <TableCell colSpan={5} className="text-center py-6 text-gray-400">
+                  No registrations to show
+                </TableCell>
+              </TableRow>
+            ) : (
+              filteredRegistrations.map((registration) => (
+                <TableRow key={registration.id} className="border-gray-800 hover:bg-dark-surface/60">
+                  <TableCell>
+                    {registration.status === "pending" && (
+                      <Checkbox
+                        checked={selectedIds.includes(registration.id)}
+                        onCheckedChange={(checked) => toggleSelected(registration.id, !!checked)}
+                        className="border-gray-600"
+                      />
+                    )}
+                  </TableCell>
+                  <TableCell className="text-white font-medium">
+                    {registration.entrantName}
+                    {conflictedRegistrationIds.has(registration.id) && (
+                      <Badge variant="outline" className="ml-2 bg-yellow-900/20 text-yellow-400 border-yellow-700/30">
+                        Duplicate player
+                      </Badge>
+                    )}
+                    {registration.status === "rejected" && registration.rejectionReason && (
+                      <p className="text-xs text-gray-500 font-normal mt-1">Reason: {registration.rejectionReason}</p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-gray-400">
+                    {registration.registeredAt ? format(new Date(registration.registeredAt), "MMM d, h:mm a") : "—"}
+                  </TableCell>
+                  <TableCell>{getStatusBadge(registration.status)}</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      {registration.status !== "approved" && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="text-green-400 hover:text-green-300 hover:bg-green-900/20"
+                          onClick={() => reviewMutation.mutate({ id: registration.id, status: "approved" })}
+                          disabled={reviewMutation.isPending}
+                        >
+                          <Check className="mr-1 h-4 w-4" /> Approve
+                        </Button>
+                      )}
+                      {registration.status !== "rejected" && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="text-red-400 hover:text-red-300 hover:bg-red-900/20"
+                          onClick={() => setRegistrationToReject(registration)}
+                        >
+                          <X className="mr-1 h-4 w-4" /> Reject
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog
+        open={!!registrationToReject}
+        onOpenChange={(open) => {
+          if (!open) {
+            setRegistrationToReject(null);
+            setRejectionReason("");
+          }
+        }}
+      >
+        <DialogContent className="bg-dark-card border-gray-800 text-white">
+          <DialogHeader>
+            <DialogTitle>Reject Registration</DialogTitle>
+            <DialogDescription className="text-gray-400">
+              {registrationToReject?.entrantName || "The team"} will be told why their registration was rejected.
+              Their slot goes to the next team on the waitlist.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={rejectionReason}
+            onChange={(e) => setRejectionReason(e.target.value)}
+            placeholder="Reason for rejection"
+            maxLength={500}
+            className="bg-dark-surface border-gray-700 text-white"
+          />
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setRegistrationToReject(null)}
+              className="border-gray-700 text-white hover:bg-dark-surface"
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => registrationToReject && reviewMutation.mutate({
+                id: registrationToReject.id,
+                status: "rejected",
+                reason: rejectionReason.trim(),
+              })}
+              disabled={!rejectionReason.trim() || reviewMutation.isPending}
+            >
+              {reviewMutation.isPending ? "Rejecting..." : "Reject"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
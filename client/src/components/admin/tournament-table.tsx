@@ -28,7 +28,7 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { Calendar, Pencil, MoreVertical, Trash2, Eye, AlertTriangle } from "lucide-react";
+import { Calendar, Pencil, MoreVertical, Trash2, Eye, AlertTriangle, ClipboardList, Layers, GitBranch, ListOrdered, DoorOpen, Lock, Copy } from "lucide-react";
 import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
@@ -41,6 +41,8 @@ export function TournamentTable() {
   const [statusFilter, setStatusFilter] = useState<string | null>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [tournamentToDelete, setTournamentToDelete] = useState<Tournament | null>(null);
+  const [tournamentToClone, setTournamentToClone] = useState<Tournament | null>(null);
+  const [cloneDate, setCloneDate] = useState("");
 
   // Fetch tournaments
   const { data: tournaments = [], isLoading } = useQuery<Tournament[]>({
@@ -76,6 +78,32 @@ export function TournamentTable() {
     },
   });
 
+  // Clone tournament mutation, the copy opens as a draft for editing
+  const cloneTournamentMutation = useMutation({
+    mutationFn: async ({ id, date }: { id: number; date: string }) => {
+      const response = await apiRequest("POST", `/api/tournaments/${id}/clone`, {
+        date: new Date(date).toISOString()
+      });
+      return response.json();
+    },
+    onSuccess: (clone: Tournament) => {
+      toast({
+        title: "Tournament cloned",
+        description: `${clone.title} has been created as a draft`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/tournaments"] });
+      setTournamentToClone(null);
+      navigate(`/admin/tournaments/${clone.id}/edit`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to clone tournament",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Filter tournaments based on search and status filter
   const filteredTournaments = tournaments
     .filter((tournament) => {
@@ -110,6 +138,11 @@ export function TournamentTable() {
     setDeleteDialogOpen(true);
   };
 
+  const handleCloneClick = (tournament: Tournament) => {
+    setTournamentToClone(tournament);
+    setCloneDate("");
+  };
+
   const confirmDelete = () => {
     if (tournamentToDelete) {
       deleteTournamentMutation.mutate(tournamentToDelete.id);
@@ -119,12 +152,18 @@ export function TournamentTable() {
   // Status badge colors
   const getStatusBadge = (status: string) => {
     switch (status) {
+      case "draft":
+        return <Badge variant="outline" className="bg-gray-800/40 text-gray-300 border-gray-600/30">Draft</Badge>;
       case "upcoming":
         return <Badge variant="outline" className="bg-blue-900/20 text-blue-400 border-blue-700/30">Upcoming</Badge>;
+      case "registration_closed":
+        return <Badge variant="outline" className="bg-amber-900/20 text-amber-400 border-amber-700/30">Registration Closed</Badge>;
       case "live":
         return <Badge variant="outline" className="bg-green-900/20 text-green-400 border-green-700/30">Live</Badge>;
       case "completed":
         return <Badge variant="outline" className="bg-gray-800/40 text-gray-400 border-gray-700/30">Completed</Badge>;
+      case "cancelled":
+        return <Badge variant="outline" className="bg-red-900/20 text-red-400 border-red-700/30">Cancelled</Badge>;
       default:
         return <Badge variant="outline" className="bg-gray-800/40 text-gray-400 border-gray-700/30">{status}</Badge>;
     }
@@ -203,6 +242,14 @@ export function TournamentTable() {
           >
             Completed
           </Button>
+          <Button
+            variant={statusFilter === "draft" ? "secondary" : "outline"}
+            size="sm"
+            onClick={() => setStatusFilter("draft")}
+            className={statusFilter === "draft" ? "bg-gray-800/40 text-gray-300 border-gray-600/30" : "border-gray-700 text-gray-400"}
+          >
+            Drafts
+          </Button>
         </div>
       </div>
 
@@ -246,7 +293,16 @@ export function TournamentTable() {
                     </span>
                   </div>
                 </TableCell>
-                <TableCell>{getStatusBadge(tournament.status)}</TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-1.5">
+                    {getStatusBadge(tournament.status)}
+                    {tournament.statusLocked && (
+                      <span title="Status is locked - the scheduler will not change it">
+                        <Lock className="h-3.5 w-3.5 text-gray-400" />
+                      </span>
+                    )}
+                  </div>
+                </TableCell>
                 <TableCell className="text-right">
                   <DropdownMenu>
                     <DropdownMenuTrigger asChild>
@@ -273,6 +329,47 @@ export function TournamentTable() {
                       >
                         <Pencil className="mr-2 h-4 w-4 text-blue-400" /> Edit
                       </DropdownMenuItem>
+                      {tournament.format === "battle_royale" ? (
+                        <>
+                          <DropdownMenuItem
+                            className="text-gray-200 focus:bg-dark-surface focus:text-white cursor-pointer"
+                            onClick={() => navigate(`/admin/tournaments/${tournament.id}/results`)}
+                          >
+                            <ClipboardList className="mr-2 h-4 w-4 text-green-400" /> Match Results
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            className="text-gray-200 focus:bg-dark-surface focus:text-white cursor-pointer"
+                            onClick={() => navigate(`/admin/tournaments/${tournament.id}/stages`)}
+                          >
+                            <Layers className="mr-2 h-4 w-4 text-purple-400" /> Stages & Groups
+                          </DropdownMenuItem>
+                        </>
+                      ) : (
+                        <DropdownMenuItem
+                          className="text-gray-200 focus:bg-dark-surface focus:text-white cursor-pointer"
+                          onClick={() => navigate(`/admin/tournaments/${tournament.id}/bracket`)}
+                        >
+                          <GitBranch className="mr-2 h-4 w-4 text-green-400" /> Bracket
+                        </DropdownMenuItem>
+                      )}
+                      <DropdownMenuItem
+                        className="text-gray-200 focus:bg-dark-surface focus:text-white cursor-pointer"
+                        onClick={() => navigate(`/admin/tournaments/${tournament.id}/slots`)}
+                      >
+                        <ListOrdered className="mr-2 h-4 w-4 text-blue-400" /> Slots
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        className="text-gray-200 focus:bg-dark-surface focus:text-white cursor-pointer"
+                        onClick={() => navigate(`/admin/tournaments/${tournament.id}/rooms`)}
+                      >
+                        <DoorOpen className="mr-2 h-4 w-4 text-blue-400" /> Rooms
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        className="text-gray-200 focus:bg-dark-surface focus:text-white cursor-pointer"
+                        onClick={() => handleCloneClick(tournament)}
+                      >
+                        <Copy className="mr-2 h-4 w-4 text-blue-400" /> Clone
+                      </DropdownMenuItem>
                       <DropdownMenuItem
                         className="text-red-400 focus:bg-red-950 focus:text-red-400 cursor-pointer"
                         onClick={() => handleDeleteClick(tournament)}
@@ -288,6 +385,50 @@ export function TournamentTable() {
         </Table>
       </div>
 
+      {/* Clone Dialog */}
+      <Dialog open={tournamentToClone !== null} onOpenChange={(open) => !open && setTournamentToClone(null)}>
+        <DialogContent className="bg-dark-card border-gray-800 text-white">
+          <DialogHeader>
+            <DialogTitle className="flex items-center">
+              <Copy className="h-5 w-5 text-primary mr-2" />
+              Clone Tournament
+            </DialogTitle>
+            <DialogDescription className="text-gray-400">
+              Creates a draft copy of{" "}
+              <span className="font-medium text-white">
+                {tournamentToClone?.title}
+              </span>{" "}
+              with the same settings. Registrations and results are not copied.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 my-2">
+            <label className="text-sm font-medium text-gray-300">New Date & Time</label>
+            <Input
+              type="datetime-local"
+              value={cloneDate}
+              onChange={(e) => setCloneDate(e.target.value)}
+              className="bg-dark-surface border-gray-700 text-white"
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setTournamentToClone(null)}
+              className="border-gray-700 text-white hover:bg-dark-surface"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={() => tournamentToClone && cloneTournamentMutation.mutate({ id: tournamentToClone.id, date: cloneDate })}
+              disabled={!cloneDate || cloneTournamentMutation.isPending}
+              className="bg-primary hover:bg-primary/90 text-white"
+            >
+              {cloneTournamentMutation.isPending ? "Cloning..." : "Clone Tournament"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <DialogContent className="bg-dark-card border-gray-800 text-white">
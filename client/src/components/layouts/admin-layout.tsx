@@ -12,7 +12,9 @@ import {
   BarChart,
   AlertTriangle,
   BellRing,
-  Megaphone
+  Megaphone,
+  Calculator,
+  CalendarClock
 } from "lucide-react";
 
 interface AdminLayoutProps {
@@ -81,6 +83,18 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
       path: "/admin/notifications",
       active: location === "/admin/notifications" || location === "/admin/notifications/broadcast"
     },
+    {
+      icon: <Calculator className="h-5 w-5 mr-3" />,
+      text: "Scoring Rules",
+      path: "/admin/scoring",
+      active: location === "/admin/scoring"
+    },
+    {
+      icon: <CalendarClock className="h-5 w-5 mr-3" />,
+      text: "Recurring Tournaments",
+      path: "/admin/templates",
+      active: location === "/admin/templates"
+    },
     {
       icon: <Settings className="h-5 w-5 mr-3" />,
       text: "Settings",
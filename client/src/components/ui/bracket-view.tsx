@@ -0,0 +1,163 @@
+import { useQuery } from "@tanstack/react-query";
+import { BracketMatch } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { GitBranch, Trophy } from "lucide-react";
+
+export type BracketMatchWithTeams = BracketMatch & {
+  team1Name: string | null;
+  team2Name: string | null;
+  team1TeamId: number | null;
+  team2TeamId: number | null;
+};
+
+export type BracketResponse = {
+  tournamentId: number;
+  format: string;
+  championRegistrationId: number | null;
+  championName: string | null;
+  matches: BracketMatchWithTeams[];
+};
+
+type BracketViewProps = {
+  tournamentId: number;
+  highlightTeamIds?: number[];
+  onMatchClick?: (match: BracketMatchWithTeams) => void; // Admins use this to report results
+};
+
+const bracketTitles: Record<string, string> = {
+  winners: "Winners Bracket",
+  losers: "Losers Bracket",
+  grand_final: "Grand Final",
+};
+
+function getRoundName(bracket: string, round: number, totalRounds: number) {
+  if (bracket === "grand_final") return round === 1 ? "Grand Final" : "Reset";
+  if (bracket === "losers") return round === totalRounds ? "Losers Final" : `Round ${round}`;
+  if (round === totalRounds) return "Final";
+  if (round === totalRounds - 1) return "Semi-finals";
+  if (round === totalRounds - 2) return "Quarter-finals";
+  return `Round ${round}`;
+}
+
+function MatchBox({
+  match,
+  highlightTeamIds,
+  onMatchClick,
+}: {
+  match: BracketMatchWithTeams;
+  highlightTeamIds: number[];
+  onMatchClick?: (match: BracketMatchWithTeams) => void;
+}) {
+  const clickable = !!onMatchClick && !match.isBye && match.status !== "pending";
+
+  const renderTeam = (
+    registrationId: number | null,
+    name: string | null,
+    teamId: number | null,
+    score: number | null
+  ) => {
+    const isWinner = match.status === "completed" && registrationId !== null && match.winnerRegistrationId === registrationId;
+    const isHighlighted = teamId !== null && highlightTeamIds.includes(teamId);
+
+    return (
+      <div
+        className={`flex items-center justify-between px-2 py-1 text-sm ${
+          isHighlighted ? "bg-primary/10" : ""
+        } ${isWinner ? "text-white font-semibold" : "text-gray-400"}`}
+      >
+        <span className="truncate">{name || (match.isBye ? "Bye" : "TBD")}</span>
+        <span className="ml-2">{match.isBye ? "" : score ?? "-"}</span>
+      </div>
+    );
+  };
+
+  return (
+    <div
+      className={`w-48 rounded border bg-dark-surface divide-y divide-gray-800 ${
+        match.status === "ready" ? "border-primary/60" : "border-gray-800"
+      } ${clickable ? "cursor-pointer hover:border-primary" : ""} ${match.isBye ? "opacity-60" : ""}`}
+      onClick={clickable ? () => onMatchClick?.(match) : undefined}
+    >
+      {renderTeam(match.team1RegistrationId, match.team1Name, match.team1TeamId, match.team1Score)}
+      {renderTeam(match.team2RegistrationId, match.team2Name, match.team2TeamId, match.team2Score)}
+    </div>
+  );
+}
+
+export function BracketView({ tournamentId, highlightTeamIds = [], onMatchClick }: BracketViewProps) {
+  const { data, isLoading } = useQuery<BracketResponse>({
+    queryKey: [`/api/tournaments/${tournamentId}/bracket`],
+  });
+
+  const brackets = ["winners", "losers", "grand_final"]
+    .map((bracket) => {
+      const matches = data?.matches.filter((match) => match.bracket === bracket) || [];
+      const rounds = Array.from(new Set(matches.map((match) => match.round))).sort((a, b) => a - b);
+      return {
+        bracket,
+        rounds: rounds.map((round) => ({
+          round,
+          matches: matches.filter((match) => match.round === round),
+        })),
+      };
+    })
+    .filter(({ rounds }) => rounds.length > 0);
+
+  return (
+    <Card className="bg-dark-card border-gray-800">
+      <CardHeader className="flex flex-row items-center justify-between pb-2">
+        <CardTitle className="text-white flex items-center">
+          <GitBranch className="mr-2 h-5 w-5 text-primary" />
+          Bracket
+        </CardTitle>
+        {data?.championName && (
+          <Badge className="bg-[#FFCC00]/20 text-[#FFCC00] hover:bg-[#FFCC00]/20">
+            <Trophy className="h-3 w-3 mr-1" />
+            {data.championName}
+          </Badge>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-gray-400 text-center py-4">Loading bracket...</p>
+        ) : brackets.length === 0 ? (
+          <div className="text-center py-8">
+            <GitBranch className="h-12 w-12 text-gray-600 mx-auto mb-3" />
+            <p className="text-gray-400">The bracket hasn't been drawn yet</p>
+            <p className="text-gray-500 text-sm mt-1">Pairings will appear once registration closes</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {brackets.map(({ bracket, rounds }) => (
+              <div key={bracket}>
+                {brackets.length > 1 && (
+                  <h4 className="text-gray-300 text-sm font-medium mb-2">{bracketTitles[bracket]}</h4>
+                )}
+                <div className="flex gap-6 overflow-x-auto pb-2">
+                  {rounds.map(({ round, matches }) => (
+                    <div key={round} className="flex flex-col">
+                      <p className="text-gray-500 text-xs uppercase mb-2">
+                        {getRoundName(bracket, round, rounds.length)}
+                      </p>
+                      <div className="flex flex-col justify-around flex-1 gap-3">
+                        {matches.map((match) => (
+                          <MatchBox
+                            key={match.id}
+                            match={match}
+                            highlightTeamIds={highlightTeamIds}
+                            onMatchClick={onMatchClick}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -74,6 +74,13 @@ export function NotificationDropdown() {
           queryClient.invalidateQueries({ queryKey: ["/api/notifications/count"] });
           queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
         }
+        
+        // Room details were just published, so refetch any open tournament pages
+        if (data.type === 'room_released') {
+          queryClient.invalidateQueries({ queryKey: [`/api/tournaments/${data.tournamentId}`] });
+          queryClient.invalidateQueries({ queryKey: ["/api/tournaments"] });
+          queryClient.invalidateQueries({ queryKey: ["/api/registrations/user"] });
+        }
       } catch (error) {
         console.error('Error processing notification update:', error);
       }
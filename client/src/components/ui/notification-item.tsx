@@ -1,4 +1,4 @@
-import { Bell, Calendar, Info, AlertTriangle, Check } from "lucide-react";
+import { Bell, Calendar, Info, AlertTriangle, Check, Users, X } from "lucide-react";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
 import { Notification } from "@shared/schema";
@@ -6,6 +6,7 @@ import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { Button } from "./button";
 import { useState, useEffect } from "react";
+import { useAnswerInvitation } from "@/components/user/member-invitations";
 
 interface NotificationItemProps {
   notification: Notification;
@@ -54,6 +55,17 @@ export function NotificationItem({
     }
   });
 
+  // Team invitations are answered from the notification, which also marks it read
+  const answerInvitation = useAnswerInvitation();
+  const isTeamInvitation = notification.type === "team_invitation" && notification.relatedId !== null;
+  
+  const answer = (action: "accept" | "decline") => {
+    answerInvitation.mutate(
+      { invitationId: notification.relatedId!, action },
+      { onSettled: () => markAsRead.mutate(notification.id) }
+    );
+  };
+
   // Get the appropriate icon based on notification type
   const getIcon = () => {
     switch (notification.type) {
@@ -63,6 +75,8 @@ export function NotificationItem({
         return <AlertTriangle className="h-5 w-5 text-red-400" />;
       case "announcement":
         return <Info className="h-5 w-5 text-blue-400" />;
+      case "team_invitation":
+        return <Users className="h-5 w-5 text-indigo-400" />;
       default:
         return <Bell className="h-5 w-5 text-indigo-400" />;
     }
@@ -104,7 +118,31 @@ export function NotificationItem({
           <div className="flex justify-between items-center mt-2">
             <span className="text-xs text-gray-500">{formattedDate}</span>
             
-            {showActions && !notification.isRead && !isMarkedAsRead && (
+            {showActions && isTeamInvitation && !notification.isRead && !isMarkedAsRead && (
+              <div className="flex gap-2">
+                <Button 
+                  size="sm" 
+                  className="text-xs h-7 px-2 bg-green-600 hover:bg-green-700 text-white"
+                  onClick={() => answer("accept")}
+                  disabled={answerInvitation.isPending}
+                >
+                  <Check className="h-3.5 w-3.5 mr-1" />
+                  Accept
+                </Button>
+                <Button 
+                  size="sm" 
+                  variant="outline" 
+                  className="text-xs h-7 px-2 border-gray-700 hover:bg-dark-surface"
+                  onClick={() => answer("decline")}
+                  disabled={answerInvitation.isPending}
+                >
+                  <X className="h-3.5 w-3.5 mr-1" />
+                  Decline
+                </Button>
+              </div>
+            )}
+            
+            {showActions && !isTeamInvitation && !notification.isRead && !isMarkedAsRead && (
               <Button 
                 size="sm" 
                 variant="outline" 
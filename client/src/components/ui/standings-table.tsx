@@ -0,0 +1,123 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { BarChart3, Trophy } from "lucide-react";
+
+export type StandingsRow = {
+  rank: number;
+  registrationId: number;
+  teamId: number | null;
+  userId: number | null;
+  teamName: string; // The player's username in solo tournaments
+  matchesPlayed: number;
+  wins: number;
+  kills: number;
+  placementPoints: number;
+  killPoints: number;
+  totalPoints: number;
+};
+
+export type StandingsResponse = {
+  tournamentId: number;
+  matchesPlayed: number;
+  isSolo: boolean;
+  rules: {
+    name: string;
+    placementPoints: number[];
+    pointsPerKill: number;
+    killCap: number | null;
+    tieBreakers: string[];
+  };
+  standings: StandingsRow[];
+};
+
+type StandingsTableProps = {
+  tournamentId: number;
+  highlightTeamIds?: number[];
+  highlightUserId?: number;
+};
+
+export function StandingsTable({ tournamentId, highlightTeamIds = [], highlightUserId }: StandingsTableProps) {
+  const { data, isLoading } = useQuery<StandingsResponse>({
+    queryKey: [`/api/tournaments/${tournamentId}/standings`],
+  });
+
+  // Solo rows have no team, so they are matched to the player instead
+  const isHighlighted = (row: StandingsRow) => row.teamId !== null
+    ? highlightTeamIds.includes(row.teamId)
+    : highlightUserId !== undefined && row.userId === highlightUserId;
+
+  const getRankDisplay = (rank: number) => {
+    if (rank === 1) return <Trophy className="h-4 w-4 text-[#FFCC00]" />;
+    return <span className="font-bold">{rank}</span>;
+  };
+
+  return (
+    <Card className="bg-dark-card border-gray-800">
+      <CardHeader className="flex flex-row items-center justify-between pb-2">
+        <CardTitle className="text-white flex items-center">
+          <BarChart3 className="mr-2 h-5 w-5 text-primary" />
+          Points Table
+        </CardTitle>
+        {data && (
+          <Badge variant="outline" className="text-gray-400 bg-dark-surface">
+            {data.matchesPlayed} {data.matchesPlayed === 1 ? "match" : "matches"} played
+          </Badge>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-gray-400 text-center py-4">Loading standings...</p>
+        ) : !data || data.matchesPlayed === 0 ? (
+          <div className="text-center py-8">
+            <BarChart3 className="h-12 w-12 text-gray-600 mx-auto mb-3" />
+            <p className="text-gray-400">No match results yet</p>
+            <p className="text-gray-500 text-sm mt-1">Standings will appear once the first match is played</p>
+          </div>
+        ) : (
+          <div className="rounded-md border border-gray-800 overflow-hidden">
+            <Table>
+              <TableHeader className="bg-dark-surface">
+                <TableRow className="border-gray-800 hover:bg-transparent">
+                  <TableHead className="text-gray-400 w-12">#</TableHead>
+                  <TableHead className="text-gray-400">{data.isSolo ? "Player" : "Team"}</TableHead>
+                  <TableHead className="text-gray-400 text-center">M</TableHead>
+                  <TableHead className="text-gray-400 text-center">WWCD</TableHead>
+                  <TableHead className="text-gray-400 text-center">Place</TableHead>
+                  <TableHead className="text-gray-400 text-center">Kills</TableHead>
+                  <TableHead className="text-gray-400 text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.standings.map((row) => (
+                  <TableRow
+                    key={row.registrationId}
+                    className={`border-gray-800 hover:bg-dark-surface/60 ${
+                      isHighlighted(row) ? "bg-primary/10" : ""
+                    }`}
+                  >
+                    <TableCell className="text-white">{getRankDisplay(row.rank)}</TableCell>
+                    <TableCell className="font-medium text-white">{row.teamName}</TableCell>
+                    <TableCell className="text-gray-300 text-center">{row.matchesPlayed}</TableCell>
+                    <TableCell className="text-gray-300 text-center">{row.wins}</TableCell>
+                    <TableCell className="text-gray-300 text-center">{row.placementPoints}</TableCell>
+                    <TableCell className="text-gray-300 text-center">{row.kills}</TableCell>
+                    <TableCell className="text-white font-bold text-right">{row.totalPoints}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
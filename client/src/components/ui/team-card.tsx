@@ -188,7 +188,7 @@ export function TeamCard({ team, members = [], onManage, onAddMember, onRemoveMe
                 if (onAddMember) onAddMember(team); 
               }}
             >
-              <Plus className="h-4 w-4 mr-2" /> Add Team Member
+              <Plus className="h-4 w-4 mr-2" /> Invite Team Member
             </Button>
           )}
           
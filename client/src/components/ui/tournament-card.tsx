@@ -2,13 +2,13 @@ import { useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { CalendarIcon, Users, MapPin, User } from "lucide-react";
+import { CalendarIcon, Users, MapPin, User, Clock } from "lucide-react";
 import { Link } from "wouter";
 import { formatDistanceToNow, format, parseISO, isPast, isToday } from "date-fns";
 import { Tournament } from "@shared/schema";
 
 type TournamentCardProps = {
-  tournament: Tournament;
+  tournament: Tournament & { credentialsHidden?: boolean };
   onRegister?: (tournamentId: number) => void;
   registered?: boolean;
   registrationsCount?: number;
@@ -20,10 +20,39 @@ export function TournamentCard({ tournament, onRegister, registered = false, reg
   // Use the actual registrations count
   const slotsTaken = registrationsCount;
   
+  // The server blanks out credentials the viewer is not allowed to see
+  const credentialsFallback = tournament.credentialsHidden
+    ? "Hidden"
+    : "Will be available soon";
+  
   const tournamentDate = parseISO(date.toString());
   const isPastEvent = isPast(tournamentDate) && !isToday(tournamentDate);
   const isTodayEvent = isToday(tournamentDate);
   
+  // Registration deadlines - closing falls back to the start time
+  const now = new Date();
+  const registrationOpensAt = tournament.registrationOpensAt ? new Date(tournament.registrationOpensAt) : null;
+  const registrationClosesAt = tournament.registrationClosesAt ? new Date(tournament.registrationClosesAt) : tournamentDate;
+  const registrationNotOpen = registrationOpensAt !== null && registrationOpensAt > now;
+  const registrationOpen = status === "upcoming" && !registrationNotOpen && registrationClosesAt > now;
+  const withdrawDeadline = new Date(tournamentDate.getTime() - (tournament.unregisterCutoffMinutes ?? 0) * 60 * 1000);
+  
+  const deadlineDisplay = () => {
+    if (status !== "upcoming") return null;
+    if (registered) {
+      return withdrawDeadline > now
+        ? `Withdrawals close in ${formatDistanceToNow(withdrawDeadline)}`
+        : "Withdrawals closed";
+    }
+    if (registrationNotOpen) {
+      return `Registration opens in ${formatDistanceToNow(registrationOpensAt!)}`;
+    }
+    return registrationOpen
+      ? `Registration closes in ${formatDistanceToNow(registrationClosesAt)}`
+      : null;
+  };
+  const deadline = deadlineDisplay();
+  
   const statusDisplay = () => {
     if (status === "live") {
       return (
@@ -62,6 +91,16 @@ export function TournamentCard({ tournament, onRegister, registered = false, reg
                 <span className="w-2 h-2 bg-white rounded-full mr-1.5"></span>
                 UPCOMING
               </Badge>
+            ) : status === "upcoming" || status === "registration_closed" ? (
+              <Badge className="bg-gradient-to-r from-amber-500 to-amber-600 text-white font-semibold shadow-sm">
+                <span className="w-2 h-2 bg-white rounded-full mr-1.5"></span>
+                REGISTRATION CLOSED
+              </Badge>
+            ) : status === "cancelled" ? (
+              <Badge className="bg-gradient-to-r from-gray-600 to-gray-700 text-white font-semibold shadow-sm">
+                <span className="w-2 h-2 bg-white rounded-full mr-1.5"></span>
+                CANCELLED
+              </Badge>
             ) : (
               <Badge className="bg-gradient-to-r from-red-500 to-red-600 text-white font-semibold shadow-sm">
                 <span className="w-2 h-2 bg-white rounded-full mr-1.5"></span>
@@ -106,6 +145,14 @@ export function TournamentCard({ tournament, onRegister, registered = false, reg
             }
           </div>
           
+          {/* Registration Deadline */}
+          {deadline && (
+            <div className="flex items-center text-amber-400 text-sm -mt-2 mb-3">
+              <Clock className="h-4 w-4 mr-2" />
+              {deadline}
+            </div>
+          )}
+          
           {/* Tournament Details */}
           <div className="grid grid-cols-3 gap-2 mb-2">
             <div className="flex items-center text-gray-400 text-sm">
@@ -142,13 +189,13 @@ export function TournamentCard({ tournament, onRegister, registered = false, reg
               <div>
                 <p className="text-xs text-indigo-300 mb-1 font-medium">Room ID</p>
                 <p className="font-mono bg-dark-card px-2 py-1 rounded-sm text-sm text-white border border-indigo-800/20">
-                  {tournament.roomId || "Will be available soon"}
+                  {tournament.roomId || credentialsFallback}
                 </p>
               </div>
               <div>
                 <p className="text-xs text-indigo-300 mb-1 font-medium">Password</p>
                 <p className="font-mono bg-dark-card px-2 py-1 rounded-sm text-sm text-white border border-indigo-800/20">
-                  {tournament.password || "Will be available soon"}
+                  {tournament.password || credentialsFallback}
                 </p>
               </div>
             </div>
@@ -173,16 +220,24 @@ export function TournamentCard({ tournament, onRegister, registered = false, reg
             <Button className="w-full bg-gradient-to-r from-rose-600 to-red-600 text-white font-medium opacity-90" disabled>
               Match Started
             </Button>
-          ) : status === "upcoming" ? (
+          ) : status === "upcoming" && registrationNotOpen ? (
+            <Button className="w-full bg-gradient-to-r from-gray-700 to-gray-800 text-gray-300 font-medium opacity-80" disabled>
+              Registration Opens Soon
+            </Button>
+          ) : registrationOpen ? (
             <Button 
               className="w-full bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700 text-white font-medium shadow-md"
               onClick={() => onRegister && onRegister(id)}
             >
               Register
             </Button>
+          ) : status === "registration_closed" ? (
+            <Button className="w-full bg-gradient-to-r from-gray-700 to-gray-800 text-gray-300 font-medium opacity-80" disabled>
+              Registration Closed
+            </Button>
           ) : (
             <Button className="w-full bg-gradient-to-r from-gray-700 to-gray-800 text-gray-300 font-medium opacity-80" disabled>
-              Completed
+              {status === "cancelled" ? "Cancelled" : "Completed"}
             </Button>
           )}
         </div>
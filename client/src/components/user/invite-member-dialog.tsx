@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Team } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Check, Search, UserPlus } from "lucide-react";
+
+type PlayerResult = {
+  id: number;
+  username: string;
+  gameId: string;
+};
+
+type InviteMemberDialogProps = {
+  team: Team | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+/**
+ * Lets a team's owner find a player by username or game ID and invite them.
+ * The player only joins once they accept.
+ */
+export function InviteMemberDialog({ team, open, onOpenChange }: InviteMemberDialogProps) {
+  const { toast } = useToast();
+  const [search, setSearch] = useState("");
+  const [selected, setSelected] = useState<PlayerResult | null>(null);
+  const [role, setRole] = useState<"member" | "substitute">("member");
+  const query = search.trim();
+
+  const { data: players = [], isFetching } = useQuery<PlayerResult[]>({
+    queryKey: [`/api/users/search?q=${encodeURIComponent(query)}`],
+    enabled: open && query.length >= 2,
+  });
+
+  const close = () => {
+    onOpenChange(false);
+    setSearch("");
+    setSelected(null);
+    setRole("member");
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/teams/${team?.id}/invitations`, {
+        userId: selected?.id,
+        role,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/teams/${team?.id}/invitations`] });
+      toast({
+        title: "Invitation sent",
+        description: `${selected?.username} will join ${team?.name} once they accept`,
+      });
+      close();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to invite player",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => (isOpen ? onOpenChange(true) : close())}>
+      <DialogContent className="bg-dark-card border-gray-800 text-white">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <UserPlus className="h-5 w-5 text-primary mr-2" />
+            Invite Team Member
+          </DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Find a player by username or game ID. They'll join {team?.name} once they accept your invitation.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="player-search" className="text-white">Player</Label>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-500" />
+              <Input
+                id="player-search"
+                placeholder="Search username or game ID"
+                className="pl-9 bg-dark-surface border-gray-700 text-white"
+                autoComplete="off"
+                value={search}
+                onChange={(e) => {
+                  setSearch(e.target.value);
+                  setSelected(null);
+                }}
+              />
+            </div>
+            {query.length >= 2 && (
+              <div className="max-h-48 overflow-y-auto space-y-1">
+                {players.map((player) => (
+                  <button
+                    key={player.id}
+                    type="button"
+                    onClick={() => setSelected(player)}
+                    className={`w-full flex items-center justify-between p-2 rounded-md text-left ${
+                      selected?.id === player.id ? "bg-indigo-600/20 border border-indigo-600/40" : "bg-dark-surface hover:bg-dark-surface/70"
+                    }`}
+                  >
+                    <div>
+                      <p className="text-white text-sm">{player.username}</p>
+                      <p className="text-gray-500 text-xs">Game ID: {player.gameId}</p>
+                    </div>
+                    {selected?.id === player.id && <Check className="h-4 w-4 text-indigo-400" />}
+                  </button>
+                ))}
+                {!isFetching && players.length === 0 && (
+                  <p className="text-xs text-gray-400">No players found</p>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="invite-role" className="text-white">Role</Label>
+            <Select value={role} onValueChange={(value) => setRole(value as "member" | "substitute")}>
+              <SelectTrigger id="invite-role" className="bg-dark-surface border-gray-700 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-dark-card border-gray-800">
+                <SelectItem value="member" className="text-white hover:bg-dark-surface">Team Member</SelectItem>
+                <SelectItem value="substitute" className="text-white hover:bg-dark-surface">Substitute</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-400">Regular team members count toward team size limits</p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={close}
+            className="border-gray-700 text-white hover:bg-dark-surface"
+          >
+            Cancel
+          </Button>
+          <Button
+            className="bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700 text-white shadow-md"
+            onClick={() => inviteMutation.mutate()}
+            disabled={!team || !selected || inviteMutation.isPending}
+          >
+            {inviteMutation.isPending ? "Inviting..." : "Send Invitation"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
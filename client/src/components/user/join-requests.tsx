@@ -0,0 +1,131 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Team, TeamJoinRequest } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Check, UserPlus, X } from "lucide-react";
+
+type PendingJoinRequest = TeamJoinRequest & {
+  username: string;
+  gameId: string;
+};
+
+type JoinRequestsProps = {
+  team: Team;
+};
+
+/**
+ * Lets a team's owner decide whether the invite code joins players straight
+ * away, and approve or decline the requests waiting on them
+ */
+export function JoinRequests({ team }: JoinRequestsProps) {
+  const { toast } = useToast();
+  const requestsKey = `/api/teams/${team.id}/join-requests`;
+
+  const { data: requests = [] } = useQuery<PendingJoinRequest[]>({
+    queryKey: [requestsKey],
+  });
+
+  const settingsMutation = useMutation({
+    mutationFn: async (requiresJoinApproval: boolean) => {
+      const res = await apiRequest("PATCH", `/api/teams/${team.id}/settings`, { requiresJoinApproval });
+      return res.json();
+    },
+    onSuccess: (updatedTeam: Team) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/teams/my"] });
+      toast({
+        title: "Team settings saved",
+        description: updatedTeam.requiresJoinApproval
+          ? "Players joining with your invite code now need your approval"
+          : "Players with your invite code now join straight away",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save team settings",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ request, action }: { request: PendingJoinRequest; action: "approve" | "decline" }) => {
+      const res = await apiRequest("POST", `${requestsKey}/${request.id}/${action}`);
+      return res.json();
+    },
+    onSuccess: (_data, { request, action }) => {
+      queryClient.invalidateQueries({ queryKey: [requestsKey] });
+      queryClient.invalidateQueries({ queryKey: [`/api/teams/${team.id}/members`] });
+      toast({
+        title: action === "approve" ? "Request approved" : "Request declined",
+        description: action === "approve"
+          ? `${request.username} has joined ${team.name}`
+          : `${request.username} will not join ${team.name}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to review request",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-row items-center justify-between p-3 border border-gray-700 rounded-md bg-dark-surface">
+        <div className="space-y-0.5">
+          <p className="text-white text-sm font-medium">Approve New Members</p>
+          <p className="text-gray-400 text-xs">
+            Players with your invite code ask to join instead of joining straight away
+          </p>
+        </div>
+        <Switch
+          checked={team.requiresJoinApproval}
+          onCheckedChange={(checked) => settingsMutation.mutate(checked)}
+          disabled={settingsMutation.isPending}
+          className="data-[state=checked]:bg-primary"
+        />
+      </div>
+
+      {requests.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-white text-sm font-medium flex items-center">
+            <UserPlus className="h-4 w-4 mr-2 text-primary" />
+            Join Requests ({requests.length})
+          </h4>
+          {requests.map((request) => (
+            <div key={request.id} className="flex items-center justify-between bg-dark-surface p-3 rounded-md border border-gray-700">
+              <div>
+                <p className="text-white text-sm">{request.username}</p>
+                <p className="text-gray-500 text-xs">Game ID: {request.gameId}</p>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  className="bg-green-600 hover:bg-green-700 text-white"
+                  onClick={() => reviewMutation.mutate({ request, action: "approve" })}
+                  disabled={reviewMutation.isPending}
+                >
+                  <Check className="h-4 w-4 mr-1" /> Approve
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="border-gray-700 text-white hover:bg-dark-card"
+                  onClick={() => reviewMutation.mutate({ request, action: "decline" })}
+                  disabled={reviewMutation.isPending}
+                >
+                  <X className="h-4 w-4 mr-1" /> Decline
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -21,6 +21,16 @@ export function JoinTeamForm() {
       return await res.json();
     },
     onSuccess: (data) => {
+      // Teams that approve new members only take a request for now
+      if (data.pending) {
+        toast({
+          title: "Request sent",
+          description: `${data.team.name} approves new members. You'll be notified once the owner reviews your request.`,
+        });
+        setInviteCode("");
+        return;
+      }
+
       toast({
         title: "Team joined successfully!",
         description: `You are now a member of the team: ${data.team.name}`,
@@ -0,0 +1,214 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { MatchLineup, RosterPlayer, RosterRules } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Lock, RefreshCw, Users } from "lucide-react";
+
+type LineupsResponse = {
+  roster: RosterPlayer[];
+  lineups: MatchLineup[];
+  rosterRules: RosterRules;
+  locked: boolean;
+  canManage: boolean;
+};
+
+type LineupPick = "starter" | "substitute" | "out";
+
+type LineupManagerProps = {
+  registrationId: number;
+};
+
+// Existing lineup for the match, or the roster's players starting and its substitutes on the bench
+function getInitialPicks(data: LineupsResponse, matchNumber: number): Record<string, LineupPick> {
+  const lineup = data.lineups.find((l) => l.matchNumber === matchNumber);
+  const picks: Record<string, LineupPick> = {};
+
+  if (lineup) {
+    data.roster.forEach((player) => {
+      picks[player.username] = lineup.starters.includes(player.username)
+        ? "starter"
+        : lineup.substitutes.includes(player.username) ? "substitute" : "out";
+    });
+    return picks;
+  }
+
+  let starters = 0;
+  data.roster.forEach((player) => {
+    if (player.role !== "substitute" && starters < data.rosterRules.maxPlayers) {
+      picks[player.username] = "starter";
+      starters++;
+    } else {
+      picks[player.username] = "substitute";
+    }
+  });
+  return picks;
+}
+
+/**
+ * Lets a team's captain pick who starts each match from the roster it registered with
+ */
+export function LineupManager({ registrationId }: LineupManagerProps) {
+  const { toast } = useToast();
+  const [matchNumber, setMatchNumber] = useState(1);
+  const [picks, setPicks] = useState<Record<string, LineupPick>>({});
+  const lineupsKey = `/api/registrations/${registrationId}/lineups`;
+
+  // Only the team's captain gets an answer, so the panel stays hidden for other members
+  const { data } = useQuery<LineupsResponse>({
+    queryKey: [lineupsKey],
+    retry: false,
+  });
+
+  useEffect(() => {
+    if (data) setPicks(getInitialPicks(data, matchNumber));
+  }, [data, matchNumber]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const usernames = Object.keys(picks);
+      const res = await apiRequest("PUT", lineupsKey, {
+        matchNumber,
+        starters: usernames.filter((username) => picks[username] === "starter"),
+        substitutes: usernames.filter((username) => picks[username] === "substitute"),
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [lineupsKey] });
+      toast({
+        title: "Lineup saved",
+        description: `Your lineup for match ${matchNumber} has been saved`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save lineup",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const refreshMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/registrations/${registrationId}/roster`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [lineupsKey] });
+      toast({
+        title: "Roster updated",
+        description: "Your registration now has your team's current members",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update roster",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!data || !data.canManage || data.roster.length === 0) return null;
+
+  const declaredMatches = data.lineups.map((lineup) => lineup.matchNumber);
+
+  return (
+    <div className="mt-6 p-4 bg-dark-surface border border-gray-700 rounded-lg">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-white font-medium flex items-center">
+            <Users className="h-5 w-5 mr-2 text-primary" />
+            Lineup
+          </h3>
+          <p className="text-gray-400 text-sm mt-1">
+            {data.rosterRules.minPlayers === data.rosterRules.maxPlayers
+              ? `${data.rosterRules.maxPlayers} starters`
+              : `${data.rosterRules.minPlayers}-${data.rosterRules.maxPlayers} starters`}
+            {data.rosterRules.maxSubstitutes > 0 && `, up to ${data.rosterRules.maxSubstitutes} substitutes`}
+          </p>
+        </div>
+        {data.locked ? (
+          <p className="text-gray-400 text-sm flex items-center">
+            <Lock className="h-4 w-4 mr-1" /> Locked after check-in
+          </p>
+        ) : (
+          <Button
+            size="sm"
+            variant="outline"
+            className="border-gray-700 text-white hover:bg-dark-card"
+            onClick={() => refreshMutation.mutate()}
+            disabled={refreshMutation.isPending}
+          >
+            <RefreshCw className="h-4 w-4 mr-1" /> Update Roster
+          </Button>
+        )}
+      </div>
+
+      <div className="flex items-center gap-3 mb-3">
+        <label className="text-sm text-gray-300">Match</label>
+        <Input
+          type="number"
+          min={1}
+          value={matchNumber}
+          onChange={(e) => setMatchNumber(Math.max(1, Number(e.target.value) || 1))}
+          className="w-20 bg-dark-card border-gray-700 text-white"
+        />
+        {declaredMatches.includes(matchNumber) ? (
+          <Badge className="bg-green-900/30 text-green-400 hover:bg-green-900/30">Declared</Badge>
+        ) : (
+          <Badge variant="outline" className="text-gray-400 border-gray-700">Not declared</Badge>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {data.roster.map((player) => (
+          <div key={player.username} className="flex items-center justify-between bg-dark-card p-2 rounded-md">
+            <div>
+              <p className="text-white text-sm">{player.username}</p>
+              <p className="text-gray-500 text-xs">Game ID: {player.gameId}</p>
+            </div>
+            <Select
+              value={picks[player.username] || "out"}
+              onValueChange={(value) => setPicks({ ...picks, [player.username]: value as LineupPick })}
+              disabled={data.locked}
+            >
+              <SelectTrigger className="w-36 bg-dark-surface border-gray-700 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-dark-card border-gray-700">
+                <SelectItem value="starter" className="text-white focus:bg-dark-surface focus:text-white">Starter</SelectItem>
+                <SelectItem value="substitute" className="text-white focus:bg-dark-surface focus:text-white">Substitute</SelectItem>
+                <SelectItem value="out" className="text-white focus:bg-dark-surface focus:text-white">Not playing</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+
+      {!data.locked && (
+        <div className="flex justify-end mt-4">
+          <Button
+            onClick={() => saveMutation.mutate()}
+            className="bg-primary hover:bg-primary/90 text-white"
+            disabled={saveMutation.isPending}
+          >
+            {saveMutation.isPending ? "Saving..." : `Save Match ${matchNumber} Lineup`}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Team, TeamMemberInvitation } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Check, Mail, X } from "lucide-react";
+
+type SentInvitation = TeamMemberInvitation & {
+  username: string;
+  gameId: string;
+};
+
+type ReceivedInvitation = TeamMemberInvitation & {
+  teamName: string;
+  gameType: string;
+};
+
+/**
+ * Answer a team invitation, refreshing everything that depends on it
+ */
+export function useAnswerInvitation() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ invitationId, action }: { invitationId: number; action: "accept" | "decline" }) => {
+      const res = await apiRequest("POST", `/api/team-invitations/${invitationId}/${action}`);
+      return res.json();
+    },
+    onSuccess: (data, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/team-invitations/my"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/teams/my"] });
+      toast(action === "accept"
+        ? {
+            title: "Team joined successfully!",
+            description: `You are now a member of the team: ${data.team.name}`,
+          }
+        : {
+            title: "Invitation declined",
+            description: "The team owner has been told",
+          });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to answer invitation",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/**
+ * Invitations a team's owner has sent that the players haven't answered yet
+ */
+export function PendingInvitations({ team }: { team: Team }) {
+  const { toast } = useToast();
+  const invitationsKey = `/api/teams/${team.id}/invitations`;
+
+  const { data: invitations = [] } = useQuery<SentInvitation[]>({
+    queryKey: [invitationsKey],
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (invitationId: number) => {
+      const res = await apiRequest("DELETE", `${invitationsKey}/${invitationId}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [invitationsKey] });
+      toast({
+        title: "Invitation withdrawn",
+        description: "The player can no longer join with it",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to withdraw invitation",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (invitations.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-white text-sm font-medium flex items-center">
+        <Mail className="h-4 w-4 mr-2 text-primary" />
+        Invited Players ({invitations.length})
+      </h4>
+      {invitations.map((invitation) => (
+        <div key={invitation.id} className="flex items-center justify-between bg-dark-surface p-3 rounded-md border border-gray-700">
+          <div>
+            <p className="text-white text-sm">
+              {invitation.username} <span className="text-gray-500 text-xs capitalize">· {invitation.role}</span>
+            </p>
+            <p className="text-gray-500 text-xs">Game ID: {invitation.gameId}</p>
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            className="border-gray-700 text-white hover:bg-dark-card"
+            onClick={() => cancelMutation.mutate(invitation.id)}
+            disabled={cancelMutation.isPending}
+          >
+            <X className="h-4 w-4 mr-1" /> Withdraw
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Invitations the current player has been sent and can accept or decline
+ */
+export function MyInvitations() {
+  const answerMutation = useAnswerInvitation();
+
+  const { data: invitations = [] } = useQuery<ReceivedInvitation[]>({
+    queryKey: ["/api/team-invitations/my"],
+  });
+
+  if (invitations.length === 0) return null;
+
+  return (
+    <Card className="bg-dark-card border-gray-800 mb-8">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center">
+          <Mail className="mr-2 h-5 w-5 text-primary" />
+          Team Invitations
+        </CardTitle>
+        <CardDescription className="text-gray-400">
+          Teams that want you on their roster
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {invitations.map((invitation) => (
+          <div key={invitation.id} className="flex items-center justify-between bg-dark-surface p-3 rounded-md border border-gray-700">
+            <div>
+              <p className="text-white text-sm">{invitation.teamName}</p>
+              <p className="text-gray-500 text-xs capitalize">{invitation.gameType} · {invitation.role}</p>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                className="bg-green-600 hover:bg-green-700 text-white"
+                onClick={() => answerMutation.mutate({ invitationId: invitation.id, action: "accept" })}
+                disabled={answerMutation.isPending}
+              >
+                <Check className="h-4 w-4 mr-1" /> Accept
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="border-gray-700 text-white hover:bg-dark-card"
+                onClick={() => answerMutation.mutate({ invitationId: invitation.id, action: "decline" })}
+                disabled={answerMutation.isPending}
+              >
+                <X className="h-4 w-4 mr-1" /> Decline
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
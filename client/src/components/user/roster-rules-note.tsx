@@ -0,0 +1,41 @@
+import { useQuery } from "@tanstack/react-query";
+import { RosterRules } from "@shared/schema";
+
+type RosterRulesNoteProps = {
+  tournamentId: number;
+};
+
+// "4 players" or "2-4 players"
+function describePlayers(rules: RosterRules) {
+  const players = rules.minPlayers === rules.maxPlayers
+    ? `${rules.minPlayers}`
+    : `${rules.minPlayers}-${rules.maxPlayers}`;
+  return `${players} ${rules.maxPlayers === 1 ? "player" : "players"}`;
+}
+
+/**
+ * The roster a team needs to register, as the tournament's rules set it
+ */
+export function RosterRulesNote({ tournamentId }: RosterRulesNoteProps) {
+  const { data: rules } = useQuery<RosterRules>({
+    queryKey: [`/api/tournaments/${tournamentId}/roster-rules`],
+  });
+
+  if (!rules) return null;
+
+  if (rules.maxPlayers === 1 && rules.maxSubstitutes === 0) {
+    return (
+      <span className="block mt-2 font-medium text-amber-400">
+        ✓ Solo tournaments don't require team members
+      </span>
+    );
+  }
+
+  return (
+    <span className="block mt-2 font-medium text-amber-400">
+      ⚠️ Teams play with {describePlayers(rules)}
+      {rules.maxSubstitutes > 0 && ` and up to ${rules.maxSubstitutes} ${rules.maxSubstitutes === 1 ? "substitute" : "substitutes"}`}
+      {rules.requiredRoles.length > 0 && `, and must include a ${rules.requiredRoles.join(" and a ")}`}
+    </span>
+  );
+}
@@ -16,8 +16,7 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { InviteMemberDialog } from "@/components/user/invite-member-dialog";
 import { Users, UserPlus, User } from "lucide-react";
 import { Team, TeamMember } from "@shared/schema";
 
@@ -33,19 +32,7 @@ const teamFormSchema = z.object({
   gameType: z.string().default("BGMI"),
 });
 
-const memberFormSchema = z.object({
-  username: z.string().min(3, "Username must be at least 3 characters"),
-  gameId: z.string().min(3, "Game ID must be at least 3 characters"),
-  role: z.enum(["captain", "member", "substitute"], {
-    required_error: "Please select a role",
-  }),
-}).refine(data => data.username !== data.gameId, {
-  message: "Username and Game ID cannot be the same",
-  path: ["gameId"],
-});
-
 type TeamFormValues = z.infer<typeof teamFormSchema>;
-type MemberFormValues = z.infer<typeof memberFormSchema>;
 
 export function TeamForm({ team, isEditing = false, onSuccess }: TeamFormProps) {
   const [memberDialogOpen, setMemberDialogOpen] = useState(false);
@@ -61,15 +48,6 @@ export function TeamForm({ team, isEditing = false, onSuccess }: TeamFormProps)
     },
   });
 
-  const memberForm = useForm<MemberFormValues>({
-    resolver: zodResolver(memberFormSchema),
-    defaultValues: {
-      username: "",
-      gameId: "",
-      role: "member",
-    },
-  });
-
   const createTeamMutation = useMutation({
     mutationFn: async (values: TeamFormValues) => {
       const res = await apiRequest("POST", "/api/teams", values);
@@ -99,61 +77,10 @@ export function TeamForm({ team, isEditing = false, onSuccess }: TeamFormProps)
     },
   });
 
-  const addMemberMutation = useMutation({
-    mutationFn: async (values: MemberFormValues & { teamId: number }) => {
-      try {
-        const res = await apiRequest("POST", `/api/teams/${values.teamId}/members`, {
-          username: values.username,
-          gameId: values.gameId,
-          role: values.role,
-        });
-        return await res.json();
-      } catch (error: any) {
-        // Extract the message from the error response
-        if (error?.message?.includes("does not exist")) {
-          throw new Error(`User '${values.username}' does not exist. They need to sign up first.`);
-        }
-        throw error;
-      }
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [`/api/teams/${team?.id}/members`] });
-      toast({
-        title: "Team member added",
-        description: "The team member has been added successfully",
-      });
-      setMemberDialogOpen(false);
-      memberForm.reset();
-    },
-    onError: (error: Error) => {
-      const message = error.message;
-      
-      // Special handling for user not found error
-      if (message.includes("need to sign up first")) {
-        toast({
-          title: "User not found",
-          description: message,
-          variant: "destructive",
-        });
-      } else {
-        toast({
-          title: "Failed to add team member",
-          description: message,
-          variant: "destructive",
-        });
-      }
-    },
-  });
-
   const onTeamSubmit = (values: TeamFormValues) => {
     createTeamMutation.mutateAsync(values);
   };
 
-  const onMemberSubmit = (values: MemberFormValues) => {
-    if (!team) return;
-    addMemberMutation.mutateAsync({ ...values, teamId: team.id });
-  };
-
   return (
     <>
       {/* Team Form */}
@@ -233,7 +160,7 @@ export function TeamForm({ team, isEditing = false, onSuccess }: TeamFormProps)
               className="bg-primary hover:bg-primary/90 text-white"
             >
               <UserPlus className="mr-2 h-4 w-4" />
-              Add Member
+              Invite Member
             </Button>
           </div>
           
@@ -243,106 +170,12 @@ export function TeamForm({ team, isEditing = false, onSuccess }: TeamFormProps)
         </div>
       )}
 
-      {/* Add Member Dialog */}
-      <Dialog open={memberDialogOpen} onOpenChange={setMemberDialogOpen}>
-        <DialogContent className="bg-dark-card border-gray-800 text-white">
-          <DialogHeader>
-            <DialogTitle>Add Team Member</DialogTitle>
-            <DialogDescription className="text-gray-400">
-              Fill in the details of your team member
-            </DialogDescription>
-          </DialogHeader>
-          
-          <Form {...memberForm}>
-            <form onSubmit={memberForm.handleSubmit(onMemberSubmit)} className="space-y-4" autoComplete="off">
-              <FormField
-                control={memberForm.control}
-                name="username"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel className="text-white">Username</FormLabel>
-                    <FormControl>
-                      <Input
-                        placeholder="Enter username"
-                        className="bg-dark-surface border-gray-700 text-white"
-                        autoComplete="off"
-                        {...field}
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              
-              <FormField
-                control={memberForm.control}
-                name="gameId"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel className="text-white">Game ID</FormLabel>
-                    <FormControl>
-                      <Input
-                        placeholder="Enter BGMI game ID"
-                        className="bg-dark-surface border-gray-700 text-white"
-                        autoComplete="off"
-                        {...field}
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              
-              <FormField
-                control={memberForm.control}
-                name="role"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel className="text-white">Role</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value}>
-                      <FormControl>
-                        <SelectTrigger className="bg-dark-surface border-gray-700 text-white">
-                          <SelectValue placeholder="Select role" />
-                        </SelectTrigger>
-                      </FormControl>
-                      <SelectContent className="bg-dark-card border-gray-700">
-                        <SelectItem value="captain" className="text-white focus:bg-dark-surface focus:text-white">
-                          Captain
-                        </SelectItem>
-                        <SelectItem value="member" className="text-white focus:bg-dark-surface focus:text-white">
-                          Member
-                        </SelectItem>
-                        <SelectItem value="substitute" className="text-white focus:bg-dark-surface focus:text-white">
-                          Substitute
-                        </SelectItem>
-                      </SelectContent>
-                    </Select>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              
-              <DialogFooter>
-                <Button
-                  type="button"
-                  variant="outline"
-                  onClick={() => setMemberDialogOpen(false)}
-                  className="border-gray-700 text-white hover:bg-dark-surface"
-                >
-                  Cancel
-                </Button>
-                <Button
-                  type="submit"
-                  className="bg-primary hover:bg-primary/90 text-white"
-                  disabled={addMemberMutation.isPending}
-                >
-                  {addMemberMutation.isPending ? "Adding..." : "Add Member"}
-                </Button>
-              </DialogFooter>
-            </form>
-          </Form>
-        </DialogContent>
-      </Dialog>
+      {/* Invite Member Dialog */}
+      <InviteMemberDialog
+        team={team ?? null}
+        open={memberDialogOpen}
+        onOpenChange={setMemberDialogOpen}
+      />
     </>
   );
 }
@@ -0,0 +1,298 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { QRCodeSVG } from "qrcode.react";
+import { Team, TeamInvite } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Copy, Link2, Plus, QrCode, RefreshCw, X } from "lucide-react";
+
+type InviteStatus = "active" | "expired" | "used_up" | "revoked";
+
+type TeamInviteRow = TeamInvite & {
+  status: InviteStatus;
+  recipient: string | null;
+};
+
+type TeamInvitesProps = {
+  team: Team;
+};
+
+// Hours an invite lasts, "never" for no expiry
+const expiryOptions = [
+  { value: "1", label: "1 hour" },
+  { value: "24", label: "1 day" },
+  { value: "168", label: "7 days" },
+  { value: "720", label: "30 days" },
+  { value: "never", label: "Never" },
+];
+
+const statusBadges: Record<InviteStatus, { label: string; className: string }> = {
+  active: { label: "Active", className: "bg-green-900/20 text-green-400 border-green-700/30" },
+  expired: { label: "Expired", className: "bg-gray-800 text-gray-400 border-gray-700" },
+  used_up: { label: "Used up", className: "bg-yellow-900/20 text-yellow-400 border-yellow-700/30" },
+  revoked: { label: "Revoked", className: "bg-red-900/20 text-red-400 border-red-700/30" },
+};
+
+function getInviteLink(invite: TeamInvite): string {
+  return `${window.location.origin}/join/${invite.token}`;
+}
+
+/**
+ * Lets a team's owner hand out invite links, revoke them once they get out,
+ * and replace the team's invite code
+ */
+export function TeamInvites({ team }: TeamInvitesProps) {
+  const { toast } = useToast();
+  const invitesKey = `/api/teams/${team.id}/invites`;
+  const [expiry, setExpiry] = useState("168");
+  const [maxUses, setMaxUses] = useState("");
+  const [recipient, setRecipient] = useState("");
+  const [qrInvite, setQrInvite] = useState<TeamInviteRow | null>(null);
+
+  const { data: invites = [] } = useQuery<TeamInviteRow[]>({
+    queryKey: [invitesKey],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", invitesKey, {
+        expiresInHours: expiry === "never" ? null : Number(expiry),
+        maxUses: maxUses ? Number(maxUses) : null,
+        recipient: recipient.trim() || undefined,
+      });
+      return res.json();
+    },
+    onSuccess: (invite: TeamInvite) => {
+      queryClient.invalidateQueries({ queryKey: [invitesKey] });
+      navigator.clipboard.writeText(getInviteLink(invite));
+      toast({
+        title: "Invite link created",
+        description: "The link has been copied to your clipboard",
+      });
+      setMaxUses("");
+      setRecipient("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to create invite link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (inviteId: number) => {
+      const res = await apiRequest("DELETE", `${invitesKey}/${inviteId}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [invitesKey] });
+      toast({
+        title: "Invite link revoked",
+        description: "Nobody can join with that link any more",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to revoke invite link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/teams/${team.id}/invite-code`);
+      return res.json();
+    },
+    onSuccess: (updatedTeam: Team) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/teams/my"] });
+      toast({
+        title: "Invite code replaced",
+        description: `Your new invite code is ${updatedTeam.inviteCode}. The old one no longer works.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to replace invite code",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyLink = (invite: TeamInvite) => {
+    navigator.clipboard.writeText(getInviteLink(invite));
+    toast({
+      title: "Invite link copied!",
+      description: "You can now share this link with players you want on your team.",
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-row items-center justify-between p-3 border border-gray-700 rounded-md bg-dark-surface">
+        <div className="space-y-0.5">
+          <p className="text-white text-sm font-medium">
+            Invite Code: <span className="font-mono tracking-wider">{team.inviteCode}</span>
+          </p>
+          <p className="text-gray-400 text-xs">
+            Replace the code if it has been shared with players who shouldn't have it
+          </p>
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          className="border-gray-700 text-white hover:bg-dark-card"
+          onClick={() => regenerateMutation.mutate()}
+          disabled={regenerateMutation.isPending}
+        >
+          <RefreshCw className={`h-4 w-4 mr-1 ${regenerateMutation.isPending ? "animate-spin" : ""}`} /> New Code
+        </Button>
+      </div>
+
+      <div className="space-y-3">
+        <h4 className="text-white text-sm font-medium flex items-center">
+          <Link2 className="h-4 w-4 mr-2 text-primary" />
+          New Invite Link
+        </h4>
+        <div className="grid md:grid-cols-3 gap-3">
+          <div className="space-y-1">
+            <Label className="text-gray-300 text-xs">Expires after</Label>
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger className="bg-dark-surface border-gray-700 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-dark-card border-gray-700">
+                {expiryOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value} className="text-white focus:bg-dark-surface focus:text-white">
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-gray-300 text-xs">Max uses</Label>
+            <Input
+              type="number"
+              min={1}
+              placeholder="Unlimited"
+              value={maxUses}
+              onChange={(e) => setMaxUses(e.target.value)}
+              className="bg-dark-surface border-gray-700 text-white"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-gray-300 text-xs">Only for player</Label>
+            <Input
+              placeholder="Anyone"
+              value={recipient}
+              onChange={(e) => setRecipient(e.target.value)}
+              className="bg-dark-surface border-gray-700 text-white"
+            />
+          </div>
+        </div>
+        <Button
+          size="sm"
+          className="bg-indigo-600 hover:bg-indigo-700 text-white"
+          onClick={() => createMutation.mutate()}
+          disabled={createMutation.isPending}
+        >
+          <Plus className="h-4 w-4 mr-1" /> Create Link
+        </Button>
+      </div>
+
+      {invites.length > 0 && (
+        <div className="space-y-2">
+          {invites.map((invite) => (
+            <div key={invite.id} className="flex items-center justify-between bg-dark-surface p-3 rounded-md border border-gray-700">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline" className={statusBadges[invite.status].className}>
+                    {statusBadges[invite.status].label}
+                  </Badge>
+                  {invite.recipient && <span className="text-white text-sm">For {invite.recipient}</span>}
+                </div>
+                <p className="text-gray-500 text-xs">
+                  {invite.maxUses !== null ? `${invite.uses}/${invite.maxUses} uses` : `${invite.uses} uses`}
+                  {" · "}
+                  {invite.expiresAt ? `Expires ${format(new Date(invite.expiresAt), "MMM d, h:mm a")}` : "Never expires"}
+                </p>
+              </div>
+              {invite.status === "active" && (
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="border-gray-700 text-white hover:bg-dark-card"
+                    onClick={() => copyLink(invite)}
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="border-gray-700 text-white hover:bg-dark-card"
+                    onClick={() => setQrInvite(invite)}
+                  >
+                    <QrCode className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="border-red-700/50 text-red-400 hover:bg-red-900/20"
+                    onClick={() => revokeMutation.mutate(invite.id)}
+                    disabled={revokeMutation.isPending}
+                  >
+                    <X className="h-4 w-4 mr-1" /> Revoke
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={qrInvite !== null} onOpenChange={(open) => !open && setQrInvite(null)}>
+        <DialogContent className="bg-dark-card border-gray-800 text-white">
+          <DialogHeader>
+            <DialogTitle>Join {team.name}</DialogTitle>
+            <DialogDescription className="text-gray-400">
+              Scan the code to open the invite link
+            </DialogDescription>
+          </DialogHeader>
+          {qrInvite && (
+            <div className="flex flex-col items-center gap-4 py-4">
+              <div className="bg-white p-4 rounded-md">
+                <QRCodeSVG value={getInviteLink(qrInvite)} size={200} />
+              </div>
+              <p className="text-gray-400 text-xs break-all text-center">{getInviteLink(qrInvite)}</p>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
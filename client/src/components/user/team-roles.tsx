@@ -0,0 +1,299 @@
+import { ReactNode, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  MemberRole,
+  Team,
+  TeamAccess,
+  TeamAction,
+  TeamMember,
+  TeamPermissions,
+  TeamRoleLevel,
+  memberRoles,
+  teamActions,
+  teamRoleLevels,
+} from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Crown, LogOut, ShieldCheck } from "lucide-react";
+
+const actionLabels: Record<TeamAction, string> = {
+  register: "Register for tournaments",
+  manageRoster: "Manage the roster",
+  editTeam: "Edit team details",
+  deleteTeam: "Delete the team",
+};
+
+const levelLabels: Record<TeamRoleLevel, string> = {
+  owner: "Owner only",
+  captain: "Captains",
+  member: "Every member",
+};
+
+/**
+ * The current user's role on a team and what it lets them do
+ */
+export function useTeamAccess(teamId: number) {
+  return useQuery<TeamAccess>({
+    queryKey: [`/api/teams/${teamId}/permissions`],
+  });
+}
+
+/**
+ * Only shows its children to players the team lets take an action
+ */
+export function TeamAccessGate({ team, action, children }: { team: Team; action: TeamAction; children: ReactNode }) {
+  const { data: access } = useTeamAccess(team.id);
+  return access?.allowed[action] ? <>{children}</> : null;
+}
+
+/**
+ * Lets a team's owner choose who may do what, set member roles and hand the
+ * team over. Every other member sees their role and can leave the team.
+ */
+export function TeamRoles({ team }: { team: Team }) {
+  const { toast } = useToast();
+  const permissionsKey = `/api/teams/${team.id}/permissions`;
+  const membersKey = `/api/teams/${team.id}/members`;
+  const [newOwnerId, setNewOwnerId] = useState<string>("");
+
+  const { data: access } = useTeamAccess(team.id);
+  const { data: members = [] } = useQuery<TeamMember[]>({
+    queryKey: [membersKey],
+  });
+
+  const refreshTeam = () => {
+    queryClient.invalidateQueries({ queryKey: [permissionsKey] });
+    queryClient.invalidateQueries({ queryKey: [membersKey] });
+    queryClient.invalidateQueries({ queryKey: ["/api/teams/my"] });
+  };
+
+  const permissionsMutation = useMutation({
+    mutationFn: async (permissions: TeamPermissions) => {
+      const res = await apiRequest("PUT", permissionsKey, permissions);
+      return res.json();
+    },
+    onSuccess: () => {
+      refreshTeam();
+      toast({
+        title: "Permissions updated",
+        description: `${team.name}'s permissions have been saved`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update permissions",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ memberId, role }: { memberId: number; role: MemberRole }) => {
+      const res = await apiRequest("PATCH", `/api/teams/members/${memberId}/role`, { role });
+      return res.json();
+    },
+    onSuccess: (member: TeamMember) => {
+      refreshTeam();
+      toast({
+        title: "Role changed",
+        description: `${member.username} is now a ${member.role}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to change role",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const transferMutation = useMutation({
+    mutationFn: async (memberId: number) => {
+      const res = await apiRequest("POST", `/api/teams/${team.id}/transfer`, { memberId });
+      return res.json();
+    },
+    onSuccess: () => {
+      const newOwner = members.find((member) => member.id === parseInt(newOwnerId));
+      setNewOwnerId("");
+      refreshTeam();
+      toast({
+        title: "Team transferred",
+        description: `${newOwner?.username ?? "The new owner"} now owns ${team.name}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to transfer team",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const leaveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/teams/${team.id}/leave`);
+      return res.json();
+    },
+    onSuccess: () => {
+      refreshTeam();
+      toast({
+        title: "You left the team",
+        description: `You are no longer a member of ${team.name}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to leave team",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!access || access.role === null) return null;
+
+  if (access.role !== "owner") {
+    return (
+      <div className="space-y-4">
+        <div className="bg-dark-surface p-3 rounded-md border border-gray-700">
+          <p className="text-white text-sm flex items-center capitalize">
+            <ShieldCheck className="h-4 w-4 mr-2 text-primary" />
+            You are a {access.role} of this team
+          </p>
+          <ul className="mt-2 space-y-1">
+            {teamActions.map((action) => (
+              <li key={action} className={`text-xs ${access.allowed[action] ? "text-green-400" : "text-gray-500"}`}>
+                {access.allowed[action] ? "✓" : "✗"} {actionLabels[action]}
+              </li>
+            ))}
+          </ul>
+        </div>
+        <Button
+          variant="outline"
+          className="border-red-800 text-red-400 hover:bg-red-900/20"
+          onClick={() => {
+            if (confirm(`Leave ${team.name}? You'll need a new invitation to rejoin.`)) {
+              leaveMutation.mutate();
+            }
+          }}
+          disabled={leaveMutation.isPending}
+        >
+          <LogOut className="h-4 w-4 mr-2" />
+          {leaveMutation.isPending ? "Leaving..." : "Leave Team"}
+        </Button>
+      </div>
+    );
+  }
+
+  const candidates = members.filter((member) => member.userId !== null && member.userId !== team.ownerId);
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h4 className="text-white text-sm font-medium">Who can...</h4>
+        {teamActions.map((action) => (
+          <div key={action} className="flex items-center justify-between gap-4">
+            <Label className="text-gray-300 text-sm">{actionLabels[action]}</Label>
+            <Select
+              value={access.permissions[action]}
+              onValueChange={(value) =>
+                permissionsMutation.mutate({ ...access.permissions, [action]: value as TeamRoleLevel })
+              }
+              disabled={permissionsMutation.isPending}
+            >
+              <SelectTrigger className="w-40 bg-dark-surface border-gray-700 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-dark-card border-gray-800">
+                {teamRoleLevels.map((level) => (
+                  <SelectItem key={level} value={level} className="text-white hover:bg-dark-surface">
+                    {levelLabels[level]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+
+      {members.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-white text-sm font-medium">Member Roles</h4>
+          {members.map((member) => (
+            <div key={member.id} className="flex items-center justify-between gap-4 bg-dark-surface p-3 rounded-md border border-gray-700">
+              <p className="text-white text-sm flex items-center">
+                {member.userId === team.ownerId && <Crown className="h-4 w-4 mr-2 text-yellow-500" />}
+                {member.username}
+              </p>
+              <Select
+                value={member.role}
+                onValueChange={(value) => roleMutation.mutate({ memberId: member.id, role: value as MemberRole })}
+                disabled={member.userId === team.ownerId || roleMutation.isPending}
+              >
+                <SelectTrigger className="w-36 bg-dark-card border-gray-700 text-white capitalize">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-dark-card border-gray-800">
+                  {memberRoles.map((role) => (
+                    <SelectItem key={role} value={role} className="text-white hover:bg-dark-surface capitalize">
+                      {role}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <h4 className="text-white text-sm font-medium flex items-center">
+          <Crown className="h-4 w-4 mr-2 text-yellow-500" />
+          Transfer Ownership
+        </h4>
+        {candidates.length === 0 ? (
+          <p className="text-xs text-gray-400">Only members with an account can take over the team</p>
+        ) : (
+          <div className="flex gap-2">
+            <Select value={newOwnerId} onValueChange={setNewOwnerId}>
+              <SelectTrigger className="bg-dark-surface border-gray-700 text-white">
+                <SelectValue placeholder="Choose the new owner" />
+              </SelectTrigger>
+              <SelectContent className="bg-dark-card border-gray-800">
+                {candidates.map((member) => (
+                  <SelectItem key={member.id} value={member.id.toString()} className="text-white hover:bg-dark-surface">
+                    {member.username}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              className="border-yellow-700 text-yellow-500 hover:bg-yellow-900/20"
+              onClick={() => {
+                if (confirm(`Hand ${team.name} over? You'll stay on as a member but lose owner rights.`)) {
+                  transferMutation.mutate(parseInt(newOwnerId));
+                }
+              }}
+              disabled={!newOwnerId || transferMutation.isPending}
+            >
+              {transferMutation.isPending ? "Transferring..." : "Transfer"}
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/lib/auth";
 import { TournamentCard } from "@/components/ui/tournament-card";
+import { RosterRulesNote } from "@/components/user/roster-rules-note";
 import { 
   Dialog,
   DialogContent,
@@ -138,7 +139,7 @@ export function TournamentList({
 
   // Registration mutation
   const registerMutation = useMutation({
-    mutationFn: async ({ tournamentId, teamId }: { tournamentId: number; teamId: number }) => {
+    mutationFn: async ({ tournamentId, teamId }: { tournamentId: number; teamId: number | null }) => {
       try {
         const res = await apiRequest("POST", `/api/tournaments/${tournamentId}/register`, { teamId });
         if (!res.ok) {
@@ -217,6 +218,14 @@ export function TournamentList({
       return;
     }
 
+    // Solo tournaments are entered by the player alone, so no team is needed
+    const tournamentType = tournament.teamType?.toLowerCase() || 'squad';
+    if (tournamentType === 'solo') {
+      setSelectedTeamId("");
+      setRegisterDialogOpen(true);
+      return;
+    }
+
     // Check if teams exist
     if (teams.length === 0) {
       toast({
@@ -227,72 +236,23 @@ export function TournamentList({
       return;
     }
 
-    // Check if it's a solo tournament (doesn't require team selection)
-    const tournamentType = tournament.teamType?.toLowerCase() || 'squad';
-    if (tournamentType === 'solo') {
-      // For solo tournaments, show confirmation dialog but with team pre-selected
-      setSelectedTeamId(teams[0].id.toString());
-      setRegisterDialogOpen(true);
-      return;
-    }
-
     // For non-solo tournaments, show team selection dialog
     setSelectedTeamId(teams[0].id.toString());
     setRegisterDialogOpen(true);
   };
 
-  // Confirm registration
-  const confirmRegistration = async () => {
-    if (!selectedTournament || !selectedTeamId) return;
-    
-    const teamId = parseInt(selectedTeamId);
-    const tournamentType = selectedTournament.teamType?.toLowerCase() || 'squad';
+  // Confirm registration - the server checks the team's roster against the tournament's rules
+  const confirmRegistration = () => {
+    if (!selectedTournament) return;
     
-    // For solo tournaments, directly register without team validation
-    if (tournamentType === 'solo') {
-      registerMutation.mutate({
-        tournamentId: selectedTournament.id,
-        teamId
-      });
-      // Dialog will be closed by the mutation's onSuccess handler
-      return;
-    }
+    const isSolo = selectedTournament.teamType?.toLowerCase() === 'solo';
+    if (!isSolo && !selectedTeamId) return;
     
-    // For duo and squad tournaments, validate team size
-    try {
-      const res = await fetch(`/api/teams/${teamId}/members`);
-      if (!res.ok) throw new Error('Failed to fetch team members');
-      
-      const teamMembers = await res.json();
-      
-      if (tournamentType === 'squad' && teamMembers.length < 4) {
-        toast({
-          title: 'Invalid Team Size',
-          description: `Squad tournaments require at least 4 team members. Your team has ${teamMembers.length}.`,
-          variant: 'destructive'
-        });
-        return;
-      } else if (tournamentType === 'duo' && teamMembers.length < 2) {
-        toast({
-          title: 'Invalid Team Size',
-          description: `Duo tournaments require at least 2 team members. Your team has ${teamMembers.length}.`,
-          variant: 'destructive'
-        });
-        return;
-      }
-      
-      registerMutation.mutate({
-        tournamentId: selectedTournament.id,
-        teamId
-      });
-      // Dialog will be closed by the mutation's onSuccess handler
-    } catch (error) {
-      toast({
-        title: 'Error',
-        description: error instanceof Error ? error.message : 'Failed to validate team',
-        variant: 'destructive'
-      });
-    }
+    registerMutation.mutate({
+      tournamentId: selectedTournament.id,
+      teamId: isSolo ? null : parseInt(selectedTeamId)
+    });
+    // Dialog will be closed by the mutation's onSuccess handler
   };
 
   // Process tournaments with all filters
@@ -560,15 +520,7 @@ export function TournamentList({
                     ? `₹${selectedTournament.entryFee}` 
                     : "Free"}
                 </span>
-                {selectedTournament?.teamType && (
-                  <span className="block mt-2 font-medium text-amber-400">
-                    {selectedTournament.teamType.toLowerCase() === 'squad' 
-                      ? '⚠️ Squad tournaments require at least 4 team members'
-                      : selectedTournament.teamType.toLowerCase() === 'duo'
-                        ? '⚠️ Duo tournaments require at least 2 team members'
-                        : '✓ Solo tournaments don\'t require team members'}
-                  </span>
-                )}
+                {selectedTournament && <RosterRulesNote tournamentId={selectedTournament.id} />}
               </p>
             </div>
           </div>
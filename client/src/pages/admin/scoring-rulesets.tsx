@@ -0,0 +1,396 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { ScoringRuleset, TieBreaker, tieBreakerOptions } from "@shared/schema";
+import AdminLayout from "@/components/layouts/admin-layout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowDown, ArrowUp, Calculator, Pencil, Plus, Trash2 } from "lucide-react";
+
+const gameTypes = ["BGMI", "FREEFIRE", "COD"];
+
+const tieBreakerLabels: Record<TieBreaker, string> = {
+  wins: "Chicken dinners",
+  placementPoints: "Placement points",
+  kills: "Total kills",
+  bestPlacement: "Best single-match finish",
+  lastPlacement: "Finish in latest match",
+};
+
+type RulesetFormState = {
+  name: string;
+  description: string;
+  gameType: string;
+  placementPoints: string; // comma separated, 1st place first
+  pointsPerKill: string;
+  killCap: string;
+  tieBreakers: TieBreaker[];
+  isDefault: boolean;
+};
+
+const emptyForm: RulesetFormState = {
+  name: "",
+  description: "",
+  gameType: "BGMI",
+  placementPoints: "20, 14, 10, 7, 6, 5, 4, 3, 2, 1",
+  pointsPerKill: "1",
+  killCap: "",
+  tieBreakers: ["wins", "placementPoints", "kills", "lastPlacement"],
+  isDefault: false,
+};
+
+export default function AdminScoringRulesets() {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingRuleset, setEditingRuleset] = useState<ScoringRuleset | null>(null);
+  const [form, setForm] = useState<RulesetFormState>(emptyForm);
+
+  const { data: rulesets = [], isLoading } = useQuery<ScoringRuleset[]>({
+    queryKey: ["/api/scoring-rulesets"],
+  });
+
+  const openCreateDialog = () => {
+    setEditingRuleset(null);
+    setForm(emptyForm);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (ruleset: ScoringRuleset) => {
+    setEditingRuleset(ruleset);
+    setForm({
+      name: ruleset.name,
+      description: ruleset.description || "",
+      gameType: ruleset.gameType,
+      placementPoints: ruleset.placementPoints.join(", "),
+      pointsPerKill: ruleset.pointsPerKill.toString(),
+      killCap: ruleset.killCap?.toString() || "",
+      tieBreakers: ruleset.tieBreakers,
+      isDefault: ruleset.isDefault,
+    });
+    setDialogOpen(true);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const data = {
+        name: form.name,
+        description: form.description,
+        gameType: form.gameType,
+        placementPoints: form.placementPoints
+          .split(",")
+          .map((value) => value.trim())
+          .filter((value) => value !== "")
+          .map(Number),
+        pointsPerKill: Number(form.pointsPerKill),
+        killCap: form.killCap ? Number(form.killCap) : null,
+        tieBreakers: form.tieBreakers,
+        isDefault: form.isDefault,
+      };
+
+      const res = editingRuleset
+        ? await apiRequest("PATCH", `/api/scoring-rulesets/${editingRuleset.id}`, data)
+        : await apiRequest("POST", "/api/scoring-rulesets", data);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: editingRuleset ? "Ruleset updated" : "Ruleset created",
+        description: `${form.name} has been saved`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/scoring-rulesets"] });
+      setDialogOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save ruleset",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteRuleset = (ruleset: ScoringRuleset) => {
+    if (!confirm(`Delete the "${ruleset.name}" ruleset?`)) return;
+
+    apiRequest("DELETE", `/api/scoring-rulesets/${ruleset.id}`)
+      .then(() => {
+        queryClient.invalidateQueries({ queryKey: ["/api/scoring-rulesets"] });
+        toast({
+          title: "Ruleset deleted",
+          description: `${ruleset.name} has been deleted`,
+        });
+      })
+      .catch((error) => {
+        toast({
+          title: "Failed to delete ruleset",
+          description: error.message,
+          variant: "destructive",
+        });
+      });
+  };
+
+  const moveTieBreaker = (index: number, direction: -1 | 1) => {
+    const tieBreakers = [...form.tieBreakers];
+    const target = index + direction;
+    if (target < 0 || target >= tieBreakers.length) return;
+    [tieBreakers[index], tieBreakers[target]] = [tieBreakers[target], tieBreakers[index]];
+    setForm({ ...form, tieBreakers });
+  };
+
+  const toggleTieBreaker = (tieBreaker: TieBreaker) => {
+    const tieBreakers = form.tieBreakers.includes(tieBreaker)
+      ? form.tieBreakers.filter((value) => value !== tieBreaker)
+      : [...form.tieBreakers, tieBreaker];
+    setForm({ ...form, tieBreakers });
+  };
+
+  return (
+    <AdminLayout>
+      <div className="container mx-auto py-8 px-4">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-8">
+          <div className="mb-4 md:mb-0">
+            <h1 className="text-3xl font-bold text-white">Scoring Rules</h1>
+            <p className="text-gray-400">Points systems that tournaments can be scored with</p>
+          </div>
+          <Button className="bg-primary hover:bg-primary/90 text-white" onClick={openCreateDialog}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Ruleset
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-gray-400">Loading rulesets...</p>
+        ) : rulesets.length === 0 ? (
+          <Card className="bg-dark-card border-gray-800">
+            <CardContent className="py-12 text-center">
+              <Calculator className="mx-auto h-12 w-12 text-gray-600 mb-4" />
+              <h3 className="text-lg font-medium text-white mb-2">No Scoring Rulesets</h3>
+              <p className="text-gray-400">Tournaments use the built-in points table for their game until a ruleset is created.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {rulesets.map((ruleset) => (
+              <Card key={ruleset.id} className="bg-dark-card border-gray-800">
+                <CardHeader className="flex flex-row items-start justify-between pb-2">
+                  <div>
+                    <CardTitle className="text-white flex items-center gap-2">
+                      {ruleset.name}
+                      {ruleset.isDefault && (
+                        <Badge className="bg-primary/20 text-primary hover:bg-primary/20">Default</Badge>
+                      )}
+                    </CardTitle>
+                    <p className="text-gray-400 text-sm mt-1">{ruleset.description}</p>
+                  </div>
+                  <Badge variant="outline" className="text-gray-300 border-gray-700">{ruleset.gameType}</Badge>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex flex-wrap gap-1 mb-3">
+                    {ruleset.placementPoints.map((points, index) => (
+                      <span key={index} className="text-xs bg-dark-surface border border-gray-700 rounded px-2 py-1 text-gray-300">
+                        #{index + 1}: {points}
+                      </span>
+                    ))}
+                  </div>
+                  <p className="text-gray-400 text-sm">
+                    {ruleset.pointsPerKill} pt per kill
+                    {ruleset.killCap !== null && ` • max ${ruleset.killCap} kills per match`}
+                  </p>
+                  <p className="text-gray-500 text-xs mt-1">
+                    Tie-breakers: {ruleset.tieBreakers.map((t) => tieBreakerLabels[t]).join(" → ")}
+                  </p>
+                  <div className="flex justify-end gap-2 mt-4">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-gray-300 hover:text-white hover:bg-dark-surface"
+                      onClick={() => openEditDialog(ruleset)}
+                    >
+                      <Pencil className="h-4 w-4 mr-1" /> Edit
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-400 hover:text-red-300 hover:bg-red-900/20"
+                      onClick={() => deleteRuleset(ruleset)}
+                    >
+                      <Trash2 className="h-4 w-4 mr-1" /> Delete
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="bg-dark-card border-gray-800 text-white max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingRuleset ? "Edit Ruleset" : "New Ruleset"}</DialogTitle>
+            <DialogDescription className="text-gray-400">
+              Placement points are listed from 1st place downwards
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-300">Name</label>
+                <Input
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g. BGMI Scrims"
+                  className="bg-dark-surface border-gray-700 text-white"
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-300">Game</label>
+                <Select value={form.gameType} onValueChange={(gameType) => setForm({ ...form, gameType })}>
+                  <SelectTrigger className="bg-dark-surface border-gray-700 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-dark-card border-gray-700">
+                    {gameTypes.map((game) => (
+                      <SelectItem key={game} value={game} className="text-white focus:bg-dark-surface focus:text-white">
+                        {game}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-300">Description</label>
+              <Textarea
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                className="bg-dark-surface border-gray-700 text-white"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-300">Placement Points</label>
+              <Input
+                value={form.placementPoints}
+                onChange={(e) => setForm({ ...form, placementPoints: e.target.value })}
+                className="bg-dark-surface border-gray-700 text-white"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-300">Points per Kill</label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={form.pointsPerKill}
+                  onChange={(e) => setForm({ ...form, pointsPerKill: e.target.value })}
+                  className="bg-dark-surface border-gray-700 text-white"
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-300">Kill Cap per Match</label>
+                <Input
+                  type="number"
+                  min={1}
+                  placeholder="No cap"
+                  value={form.killCap}
+                  onChange={(e) => setForm({ ...form, killCap: e.target.value })}
+                  className="bg-dark-surface border-gray-700 text-white"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-300">Tie-breaker Order</label>
+              <div className="space-y-1">
+                {form.tieBreakers.map((tieBreaker, index) => (
+                  <div key={tieBreaker} className="flex items-center justify-between bg-dark-surface border border-gray-700 rounded px-3 py-1">
+                    <span className="text-sm text-white">{index + 1}. {tieBreakerLabels[tieBreaker]}</span>
+                    <div className="flex items-center">
+                      <Button variant="ghost" size="sm" className="h-7 w-7 p-0 text-gray-400" onClick={() => moveTieBreaker(index, -1)}>
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" className="h-7 w-7 p-0 text-gray-400" onClick={() => moveTieBreaker(index, 1)}>
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" className="h-7 w-7 p-0 text-red-400" onClick={() => toggleTieBreaker(tieBreaker)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {tieBreakerOptions
+                  .filter((tieBreaker) => !form.tieBreakers.includes(tieBreaker))
+                  .map((tieBreaker) => (
+                    <Button
+                      key={tieBreaker}
+                      variant="outline"
+                      size="sm"
+                      className="border-gray-700 text-gray-300 hover:bg-dark-surface"
+                      onClick={() => toggleTieBreaker(tieBreaker)}
+                    >
+                      <Plus className="h-3 w-3 mr-1" /> {tieBreakerLabels[tieBreaker]}
+                    </Button>
+                  ))}
+              </div>
+            </div>
+
+            <div className="flex flex-row items-center justify-between p-3 border border-gray-700 rounded-md bg-dark-surface">
+              <div>
+                <p className="text-sm font-medium text-white">Default for {form.gameType}</p>
+                <p className="text-xs text-gray-400">Used by {form.gameType} tournaments that don't pick a ruleset</p>
+              </div>
+              <Switch
+                checked={form.isDefault}
+                onCheckedChange={(isDefault) => setForm({ ...form, isDefault })}
+                className="data-[state=checked]:bg-primary"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setDialogOpen(false)}
+              className="border-gray-700 text-white hover:bg-dark-surface"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              className="bg-primary hover:bg-primary/90 text-white"
+              disabled={saveMutation.isPending || !form.name}
+            >
+              {saveMutation.isPending ? "Saving..." : "Save Ruleset"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </AdminLayout>
+  );
+}
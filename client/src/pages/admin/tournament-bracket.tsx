@@ -0,0 +1,215 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Tournament } from "@shared/schema";
+import AdminLayout from "@/components/layouts/admin-layout";
+import { BracketMatchWithTeams, BracketView } from "@/components/ui/bracket-view";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, GitBranch, RotateCcw } from "lucide-react";
+
+export default function AdminTournamentBracket({ params }: { params: { id: string } }) {
+  const tournamentId = parseInt(params.id);
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [selectedMatch, setSelectedMatch] = useState<BracketMatchWithTeams | null>(null);
+  const [team1Score, setTeam1Score] = useState("");
+  const [team2Score, setTeam2Score] = useState("");
+
+  const { data: tournament, isLoading } = useQuery<Tournament>({
+    queryKey: [`/api/tournaments/${tournamentId}`],
+  });
+
+  const invalidateBracket = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/tournaments/${tournamentId}/bracket`] });
+  };
+
+  const openMatch = (match: BracketMatchWithTeams) => {
+    setSelectedMatch(match);
+    setTeam1Score(match.team1Score?.toString() || "");
+    setTeam2Score(match.team2Score?.toString() || "");
+  };
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/tournaments/${tournamentId}/bracket`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Bracket generated",
+        description: "Pairings have been drawn from the registered teams",
+      });
+      invalidateBracket();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to generate bracket",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reportMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest(
+        "POST",
+        `/api/tournaments/${tournamentId}/bracket/matches/${selectedMatch?.id}/result`,
+        { team1Score: parseInt(team1Score), team2Score: parseInt(team2Score) }
+      );
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Result saved",
+        description: "The winner has moved on in the bracket",
+      });
+      setSelectedMatch(null);
+      invalidateBracket();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save result",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetBracket = () => {
+    if (!confirm("Reset the bracket? Every reported result will be lost.")) return;
+
+    apiRequest("DELETE", `/api/tournaments/${tournamentId}/bracket`)
+      .then(() => {
+        invalidateBracket();
+        toast({
+          title: "Bracket reset",
+          description: "Generate a new bracket to draw fresh pairings",
+        });
+      })
+      .catch((error) => {
+        toast({
+          title: "Failed to reset bracket",
+          description: error.message,
+          variant: "destructive",
+        });
+      });
+  };
+
+  return (
+    <AdminLayout>
+      <div className="container mx-auto py-8 px-4">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-8">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="ghost"
+              className="text-gray-400 hover:text-white hover:bg-dark-surface"
+              onClick={() => navigate("/admin/tournaments")}
+            >
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <div>
+              <h1 className="text-3xl font-bold text-white">Bracket</h1>
+              {tournament && <p className="text-gray-400">{tournament.title}</p>}
+            </div>
+          </div>
+          {tournament && tournament.format !== "battle_royale" && (
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                className="border-gray-700 text-white hover:bg-dark-surface"
+                onClick={resetBracket}
+              >
+                <RotateCcw className="h-4 w-4 mr-2" /> Reset
+              </Button>
+              <Button
+                className="bg-primary hover:bg-primary/90 text-white"
+                onClick={() => generateMutation.mutate()}
+                disabled={generateMutation.isPending}
+              >
+                <GitBranch className="h-4 w-4 mr-2" />
+                {generateMutation.isPending ? "Generating..." : "Generate Bracket"}
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {isLoading ? (
+          <p className="text-gray-400">Loading...</p>
+        ) : !tournament ? (
+          <p className="text-red-500">Tournament not found</p>
+        ) : tournament.format === "battle_royale" ? (
+          <p className="text-gray-400">
+            This is a battle royale tournament. Change its format to single or double elimination to use a bracket.
+          </p>
+        ) : (
+          <>
+            <p className="text-gray-500 text-sm mb-4">Click a match with both teams decided to report its score.</p>
+            <BracketView tournamentId={tournamentId} onMatchClick={openMatch} />
+          </>
+        )}
+      </div>
+
+      <Dialog open={!!selectedMatch} onOpenChange={(open) => !open && setSelectedMatch(null)}>
+        <DialogContent className="bg-dark-card border-gray-800 text-white">
+          <DialogHeader>
+            <DialogTitle>Report Result</DialogTitle>
+            <DialogDescription className="text-gray-400">
+              {selectedMatch?.status === "completed"
+                ? "Correcting a result is only possible until the teams play their next match"
+                : "Enter the final score of the match"}
+            </DialogDescription>
+          </DialogHeader>
+
+          {selectedMatch && (
+            <div className="space-y-3 py-2">
+              {[
+                { name: selectedMatch.team1Name, value: team1Score, onChange: setTeam1Score },
+                { name: selectedMatch.team2Name, value: team2Score, onChange: setTeam2Score },
+              ].map((team, index) => (
+                <div key={index} className="flex items-center justify-between gap-4">
+                  <span className="text-white font-medium truncate">{team.name}</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={team.value}
+                    onChange={(e) => team.onChange(e.target.value)}
+                    className="w-24 bg-dark-surface border-gray-700 text-white"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setSelectedMatch(null)}
+              className="border-gray-700 text-white hover:bg-dark-surface"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={() => reportMutation.mutate()}
+              className="bg-primary hover:bg-primary/90 text-white"
+              disabled={reportMutation.isPending || team1Score === "" || team2Score === "" || team1Score === team2Score}
+            >
+              {reportMutation.isPending ? "Saving..." : "Save Result"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </AdminLayout>
+  );
+}
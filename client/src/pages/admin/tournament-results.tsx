@@ -0,0 +1,245 @@
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { MatchLineup, RosterPlayer, Tournament } from "@shared/schema";
+import AdminLayout from "@/components/layouts/admin-layout";
+import { MatchGroupOption, MatchResultsForm } from "@/components/admin/match-results-form";
+import { StandingsTable } from "@/components/ui/standings-table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, ClipboardList, Trash2, Users } from "lucide-react";
+import { format } from "date-fns";
+
+type MatchWithResults = {
+  id: number;
+  matchNumber: number;
+  mapType: string;
+  playedAt: string | null;
+  results: {
+    id: number;
+    registrationId: number;
+    teamName: string;
+    placement: number;
+    kills: number;
+    totalPoints: number;
+  }[];
+};
+
+type TeamRoster = {
+  registrationId: number;
+  teamName: string;
+  slot: number | null;
+  roster: RosterPlayer[];
+  lineups: MatchLineup[];
+};
+
+export default function AdminTournamentResults({ params }: { params: { id: string } }) {
+  const tournamentId = parseInt(params.id);
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+
+  const { data: tournament, isLoading: isTournamentLoading } = useQuery<Tournament>({
+    queryKey: [`/api/tournaments/${tournamentId}`],
+  });
+
+  const { data: registrations = [] } = useQuery<any[]>({
+    queryKey: [`/api/tournaments/${tournamentId}/registrations`],
+  });
+
+  const { data: matches = [] } = useQuery<MatchWithResults[]>({
+    queryKey: [`/api/tournaments/${tournamentId}/results`],
+  });
+
+  // Rosters as registered, to check in-game names against
+  const { data: rosters = [] } = useQuery<TeamRoster[]>({
+    queryKey: [`/api/tournaments/${tournamentId}/rosters`],
+  });
+
+  const { data: stages = [] } = useQuery<any[]>({
+    queryKey: [`/api/tournaments/${tournamentId}/stages`],
+  });
+
+  const groups: MatchGroupOption[] = stages.flatMap((stage) =>
+    stage.groups.map((group: any) => ({
+      id: group.id,
+      name: `${stage.name} - ${group.name}`,
+      registrationIds: group.teams.map((team: any) => team.registrationId),
+    }))
+  );
+
+  const nextMatchNumber = matches.length > 0
+    ? Math.max(...matches.map((match) => match.matchNumber)) + 1
+    : 1;
+
+  const deleteMatch = (match: MatchWithResults) => {
+    if (!confirm(`Delete match ${match.matchNumber} and all of its results?`)) return;
+
+    apiRequest("DELETE", `/api/tournaments/${tournamentId}/matches/${match.id}`)
+      .then(() => {
+        queryClient.invalidateQueries({ queryKey: [`/api/tournaments/${tournamentId}/results`] });
+        queryClient.invalidateQueries({ queryKey: [`/api/tournaments/${tournamentId}/standings`] });
+        toast({
+          title: "Match deleted",
+          description: `Match ${match.matchNumber} has been removed from the points table`,
+        });
+      })
+      .catch((error) => {
+        toast({
+          title: "Failed to delete match",
+          description: error.message,
+          variant: "destructive",
+        });
+      });
+  };
+
+  return (
+    <AdminLayout>
+      <div className="container mx-auto py-8 px-4">
+        <div className="flex items-center gap-4 mb-8">
+          <Button
+            variant="ghost"
+            className="text-gray-400 hover:text-white hover:bg-dark-surface"
+            onClick={() => navigate("/admin/tournaments")}
+          >
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold text-white">Match Results</h1>
+            {tournament && <p className="text-gray-400">{tournament.title}</p>}
+          </div>
+        </div>
+
+        {isTournamentLoading ? (
+          <p className="text-gray-400">Loading...</p>
+        ) : !tournament ? (
+          <p className="text-red-500">Tournament not found</p>
+        ) : (
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-8">
+            <div className="space-y-8">
+              <Card className="bg-dark-card border-gray-800">
+                <CardHeader>
+                  <CardTitle className="text-white flex items-center">
+                    <ClipboardList className="mr-2 h-5 w-5 text-primary" />
+                    Record Match
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <MatchResultsForm
+                    tournament={tournament}
+                    registrations={registrations}
+                    nextMatchNumber={nextMatchNumber}
+                    groups={groups}
+                  />
+                </CardContent>
+              </Card>
+
+              <Card className="bg-dark-card border-gray-800">
+                <CardHeader>
+                  <CardTitle className="text-white">Recorded Matches</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {matches.length === 0 ? (
+                    <p className="text-gray-400 text-center py-4">No matches recorded yet</p>
+                  ) : (
+                    <div className="space-y-3">
+                      {matches.map((match) => (
+                        <div
+                          key={match.id}
+                          className="bg-dark-surface p-3 rounded-lg border border-gray-800 flex justify-between items-center"
+                        >
+                          <div>
+                            <p className="text-white font-medium">
+                              Match {match.matchNumber}: {match.mapType}
+                            </p>
+                            <p className="text-gray-400 text-xs">
+                              {match.results.length} teams
+                              {match.playedAt && ` • ${format(new Date(match.playedAt), "MMM d, h:mm a")}`}
+                              {match.results[0] && ` • Winner: ${match.results[0].teamName}`}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <Badge variant="outline" className="text-gray-400 border-gray-700">
+                              {match.results.reduce((sum, result) => sum + result.kills, 0)} kills
+                            </Badge>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-red-400 hover:text-red-300 hover:bg-red-900/20"
+                              onClick={() => deleteMatch(match)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card className="bg-dark-card border-gray-800">
+                <CardHeader>
+                  <CardTitle className="text-white flex items-center">
+                    <Users className="mr-2 h-5 w-5 text-primary" />
+                    Registered Rosters
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {rosters.length === 0 ? (
+                    <p className="text-gray-400 text-center py-4">No teams registered yet</p>
+                  ) : (
+                    <div className="space-y-3">
+                      {rosters.map((team) => {
+                        const lineup = team.lineups.find((l) => l.matchNumber === nextMatchNumber);
+                        return (
+                          <div key={team.registrationId} className="bg-dark-surface p-3 rounded-lg border border-gray-800">
+                            <div className="flex justify-between items-center mb-2">
+                              <p className="text-white font-medium">
+                                {team.slot !== null && <span className="text-gray-400 mr-2">#{team.slot}</span>}
+                                {team.teamName}
+                              </p>
+                              {lineup ? (
+                                <Badge className="bg-green-900/30 text-green-400 hover:bg-green-900/30">
+                                  Match {nextMatchNumber} lineup declared
+                                </Badge>
+                              ) : (
+                                <Badge variant="outline" className="text-gray-400 border-gray-700">
+                                  No match {nextMatchNumber} lineup
+                                </Badge>
+                              )}
+                            </div>
+                            {team.roster.length === 0 ? (
+                              <p className="text-gray-500 text-xs">Registered before roster snapshots were kept</p>
+                            ) : (
+                              <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+                                {team.roster.map((player) => (
+                                  <p key={player.username} className="text-xs">
+                                    <span className="text-gray-300">{player.username}</span>
+                                    <span className="text-gray-500"> • {player.gameId}</span>
+                                    {lineup && !lineup.starters.includes(player.username) && (
+                                      <span className="text-amber-400">
+                                        {lineup.substitutes.includes(player.username) ? " (sub)" : " (out)"}
+                                      </span>
+                                    )}
+                                  </p>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            <StandingsTable tournamentId={tournament.id} />
+          </div>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
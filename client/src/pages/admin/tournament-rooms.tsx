@@ -0,0 +1,277 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Tournament, TournamentRoom } from "@shared/schema";
+import AdminLayout from "@/components/layouts/admin-layout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, DoorOpen, Merge, Save, Send } from "lucide-react";
+
+type RoomWithTeams = TournamentRoom & {
+  teams: { registrationId: number; slot: number | null; teamName: string }[];
+};
+
+type RoomsResponse = {
+  tournamentId: number;
+  roomCapacity: number;
+  rooms: RoomWithTeams[];
+  unassignedCount: number;
+};
+
+function RoomCard({ tournamentId, room }: { tournamentId: number; room: RoomWithTeams }) {
+  const { toast } = useToast();
+  const [roomId, setRoomId] = useState(room.roomId || "");
+  const [password, setPassword] = useState(room.password || "");
+
+  useEffect(() => {
+    setRoomId(room.roomId || "");
+    setPassword(room.password || "");
+  }, [room.roomId, room.password]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", `/api/tournaments/${tournamentId}/rooms/${room.roomNumber}`, { roomId, password });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Room updated",
+        description: `Credentials saved for room ${room.roomNumber}`,
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/tournaments/${tournamentId}/rooms`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update room",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="bg-dark-card border-gray-800">
+      <CardHeader className="flex flex-row items-center justify-between pb-2">
+        <CardTitle className="text-white">Room {room.roomNumber}</CardTitle>
+        <Badge variant="outline" className="text-gray-400 bg-dark-surface">
+          {room.teams.length} teams
+        </Badge>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label className="text-gray-400 text-xs">Room ID</Label>
+            <Input
+              value={roomId}
+              onChange={(e) => setRoomId(e.target.value)}
+              placeholder="Enter room ID"
+              className="bg-dark-surface border-gray-700 text-white"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-gray-400 text-xs">Password</Label>
+            <Input
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Enter password"
+              className="bg-dark-surface border-gray-700 text-white"
+            />
+          </div>
+        </div>
+        <Button
+          size="sm"
+          className="w-full bg-primary hover:bg-primary/90 text-white"
+          onClick={() => saveMutation.mutate()}
+          disabled={!roomId || !password || saveMutation.isPending}
+        >
+          <Save className="h-4 w-4 mr-2" />
+          {saveMutation.isPending ? "Saving..." : "Save Credentials"}
+        </Button>
+        <div className="space-y-1 max-h-[240px] overflow-y-auto pr-1">
+          {room.teams.map((team) => (
+            <div key={team.registrationId} className="flex items-center gap-3 bg-dark-surface rounded-md px-3 py-2">
+              <span className="text-primary font-bold w-10">#{team.slot}</span>
+              <span className="text-white truncate">{team.teamName}</span>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function AdminTournamentRooms({ params }: { params: { id: string } }) {
+  const tournamentId = parseInt(params.id);
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [roomCapacity, setRoomCapacity] = useState("");
+
+  const { data: tournament } = useQuery<Tournament>({
+    queryKey: [`/api/tournaments/${tournamentId}`],
+  });
+
+  const { data: roomData, isLoading } = useQuery<RoomsResponse>({
+    queryKey: [`/api/tournaments/${tournamentId}/rooms`],
+  });
+
+  useEffect(() => {
+    if (roomData) setRoomCapacity(roomData.roomCapacity.toString());
+  }, [roomData?.roomCapacity]);
+
+  const invalidateRooms = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/tournaments/${tournamentId}/rooms`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/tournaments/${tournamentId}`] });
+  };
+
+  const splitMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/tournaments/${tournamentId}/rooms/split`, {
+        roomCapacity: parseInt(roomCapacity),
+      });
+      return res.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      toast({
+        title: "Rooms updated",
+        description: data.message,
+      });
+      invalidateRooms();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to split rooms",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const notifyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/tournaments/${tournamentId}/room-notification`);
+      return res.json();
+    },
+    onSuccess: (data: { notificationsCreated: number; teamsWithoutRoom: number }) => {
+      toast({
+        title: "Room info sent",
+        description: data.teamsWithoutRoom > 0
+          ? `${data.notificationsCreated} teams notified, ${data.teamsWithoutRoom} without a room were skipped`
+          : `${data.notificationsCreated} teams notified`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to send room info",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const mergeRooms = () => {
+    if (!confirm("Merge every room back into a single lobby? Room credentials will be lost.")) return;
+
+    apiRequest("DELETE", `/api/tournaments/${tournamentId}/rooms`)
+      .then(() => {
+        invalidateRooms();
+        toast({
+          title: "Rooms merged",
+          description: "Every team now uses the tournament's room ID and password",
+        });
+      })
+      .catch((error) => {
+        toast({
+          title: "Failed to merge rooms",
+          description: error.message,
+          variant: "destructive",
+        });
+      });
+  };
+
+  const rooms = roomData?.rooms || [];
+
+  return (
+    <AdminLayout>
+      <div className="container mx-auto py-8 px-4">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-8">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="ghost"
+              className="text-gray-400 hover:text-white hover:bg-dark-surface"
+              onClick={() => navigate("/admin/tournaments")}
+            >
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <div>
+              <h1 className="text-3xl font-bold text-white">Rooms</h1>
+              {tournament && <p className="text-gray-400">{tournament.title}</p>}
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <div className="flex items-center gap-2">
+              <Label className="text-gray-400 text-sm whitespace-nowrap">Teams per room</Label>
+              <Input
+                type="number"
+                min={2}
+                value={roomCapacity}
+                onChange={(e) => setRoomCapacity(e.target.value)}
+                className="w-20 bg-dark-surface border-gray-700 text-white"
+              />
+            </div>
+            <Button
+              className="bg-primary hover:bg-primary/90 text-white"
+              onClick={() => splitMutation.mutate()}
+              disabled={!roomCapacity || splitMutation.isPending}
+            >
+              <DoorOpen className="h-4 w-4 mr-2" />
+              {rooms.length > 0 ? "Re-balance Rooms" : "Split into Rooms"}
+            </Button>
+            {rooms.length > 0 && (
+              <Button
+                variant="outline"
+                className="border-gray-700 text-white hover:bg-dark-surface"
+                onClick={mergeRooms}
+              >
+                <Merge className="h-4 w-4 mr-2" /> Merge
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              className="border-gray-700 text-white hover:bg-dark-surface"
+              onClick={() => notifyMutation.mutate()}
+              disabled={notifyMutation.isPending}
+            >
+              <Send className="h-4 w-4 mr-2" /> Send Room Info
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <p className="text-gray-400">Loading rooms...</p>
+        ) : rooms.length === 0 ? (
+          <p className="text-gray-400">
+            All teams share the tournament's room. Split the lobby to give each room its own credentials.
+          </p>
+        ) : (
+          <>
+            {roomData && roomData.unassignedCount > 0 && (
+              <p className="text-yellow-500 text-sm mb-4">
+                {roomData.unassignedCount} seated team{roomData.unassignedCount === 1 ? " has" : "s have"} no room yet. Re-balance to seat them.
+              </p>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+              {rooms.map((room) => (
+                <RoomCard key={room.id} tournamentId={tournamentId} room={room} />
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
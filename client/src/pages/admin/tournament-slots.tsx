@@ -0,0 +1,209 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { SlotAllocationMode, Tournament } from "@shared/schema";
+import AdminLayout from "@/components/layouts/admin-layout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, ArrowRightLeft, ListOrdered, Shuffle } from "lucide-react";
+
+type SlotListResponse = {
+  tournamentId: number;
+  totalSlots: number;
+  slotAllocation: SlotAllocationMode;
+  slots: {
+    slot: number;
+    registrationId: number;
+    teamId: number | null;
+    teamName: string;
+  }[];
+};
+
+export default function AdminTournamentSlots({ params }: { params: { id: string } }) {
+  const tournamentId = parseInt(params.id);
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [targetSlots, setTargetSlots] = useState<Record<number, string>>({});
+
+  const { data: tournament } = useQuery<Tournament>({
+    queryKey: [`/api/tournaments/${tournamentId}`],
+  });
+
+  const { data: slotList, isLoading } = useQuery<SlotListResponse>({
+    queryKey: [`/api/tournaments/${tournamentId}/slots`],
+  });
+
+  const invalidateSlots = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/tournaments/${tournamentId}/slots`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/tournaments/${tournamentId}/registrations`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/tournaments/${tournamentId}`] });
+  };
+
+  const allocateMutation = useMutation({
+    mutationFn: async (mode: SlotAllocationMode) => {
+      const res = await apiRequest("POST", `/api/tournaments/${tournamentId}/slots/allocate`, { mode });
+      return res.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      toast({
+        title: "Slots allocated",
+        description: data.message,
+      });
+      invalidateSlots();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to allocate slots",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const moveMutation = useMutation({
+    mutationFn: async ({ registrationId, slot }: { registrationId: number; slot: number }) => {
+      const res = await apiRequest("POST", `/api/tournaments/${tournamentId}/slots/move`, { registrationId, slot });
+      return res.json();
+    },
+    onSuccess: (data: { message: string }, { registrationId }) => {
+      toast({
+        title: "Slot updated",
+        description: data.message,
+      });
+      setTargetSlots((current) => ({ ...current, [registrationId]: "" }));
+      invalidateSlots();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to move team",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const confirmAllocate = (mode: SlotAllocationMode) => {
+    const description = mode === "random" ? "shuffle every team into a random slot" : "number slots in registration order";
+    if (!confirm(`This will ${description}. Continue?`)) return;
+    allocateMutation.mutate(mode);
+  };
+
+  return (
+    <AdminLayout>
+      <div className="container mx-auto py-8 px-4">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-8">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="ghost"
+              className="text-gray-400 hover:text-white hover:bg-dark-surface"
+              onClick={() => navigate("/admin/tournaments")}
+            >
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <div>
+              <h1 className="text-3xl font-bold text-white">Slot List</h1>
+              {tournament && <p className="text-gray-400">{tournament.title}</p>}
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              className="border-gray-700 text-white hover:bg-dark-surface"
+              onClick={() => confirmAllocate("first_come")}
+              disabled={allocateMutation.isPending}
+            >
+              <ListOrdered className="h-4 w-4 mr-2" /> First Come Order
+            </Button>
+            <Button
+              className="bg-primary hover:bg-primary/90 text-white"
+              onClick={() => confirmAllocate("random")}
+              disabled={allocateMutation.isPending}
+            >
+              <Shuffle className="h-4 w-4 mr-2" /> Randomize
+            </Button>
+          </div>
+        </div>
+
+        <Card className="bg-dark-card border-gray-800">
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-white">Slots</CardTitle>
+            {slotList && (
+              <div className="flex gap-2">
+                <Badge variant="outline" className="text-gray-400 bg-dark-surface">
+                  {slotList.slotAllocation === "random" ? "Random" : "First come"}
+                </Badge>
+                <Badge variant="outline" className="text-gray-400 bg-dark-surface">
+                  {slotList.slots.length}/{slotList.totalSlots}
+                </Badge>
+              </div>
+            )}
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <p className="text-gray-400 text-center py-4">Loading slots...</p>
+            ) : !slotList || slotList.slots.length === 0 ? (
+              <p className="text-gray-400 text-center py-4">No teams hold a slot yet</p>
+            ) : (
+              <div className="rounded-md border border-gray-800 overflow-hidden">
+                <Table>
+                  <TableHeader className="bg-dark-surface">
+                    <TableRow className="border-gray-800 hover:bg-transparent">
+                      <TableHead className="text-gray-400 w-20">Slot</TableHead>
+                      <TableHead className="text-gray-400">Team</TableHead>
+                      <TableHead className="text-gray-400 w-56 text-right">Move / Swap</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {slotList.slots.map((entry) => (
+                      <TableRow key={entry.registrationId} className="border-gray-800 hover:bg-dark-surface/60">
+                        <TableCell className="text-white font-bold">#{entry.slot}</TableCell>
+                        <TableCell className="text-white">{entry.teamName}</TableCell>
+                        <TableCell>
+                          <div className="flex justify-end gap-2">
+                            <Input
+                              type="number"
+                              min={1}
+                              max={slotList.totalSlots}
+                              placeholder="Slot"
+                              value={targetSlots[entry.registrationId] || ""}
+                              onChange={(e) => setTargetSlots((current) => ({ ...current, [entry.registrationId]: e.target.value }))}
+                              className="w-20 h-8 bg-dark-surface border-gray-700 text-white"
+                            />
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="border-gray-700 text-white hover:bg-dark-surface"
+                              disabled={!targetSlots[entry.registrationId] || moveMutation.isPending}
+                              onClick={() => moveMutation.mutate({
+                                registrationId: entry.registrationId,
+                                slot: parseInt(targetSlots[entry.registrationId]),
+                              })}
+                            >
+                              <ArrowRightLeft className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+}
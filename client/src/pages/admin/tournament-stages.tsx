@@ -0,0 +1,552 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { GroupTeam, StageGroup, Tournament, TournamentStage } from "@shared/schema";
+import AdminLayout from "@/components/layouts/admin-layout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, ChevronsRight, Layers, Plus, Save, Shuffle, Trash2, X } from "lucide-react";
+
+type GroupWithTeams = StageGroup & {
+  teams: (GroupTeam & { teamId: number | null; teamName: string })[];
+};
+
+type StageWithGroups = TournamentStage & {
+  groups: GroupWithTeams[];
+};
+
+type StageStandingsResponse = {
+  stageId: number;
+  advancingPerGroup: number;
+  groups: (StageGroup & {
+    standings: {
+      rank: number;
+      registrationId: number;
+      teamName: string;
+      matchesPlayed: number;
+      wins: number;
+      kills: number;
+      totalPoints: number;
+      advancing: boolean;
+    }[];
+  })[];
+};
+
+type RegistrationWithTeam = {
+  id: number;
+  slot: number | null;
+  team?: { name: string };
+  entrantName: string; // The team's name, or the player's for solo entries
+};
+
+const statusColors: Record<string, string> = {
+  pending: "bg-gray-700/40 text-gray-300",
+  live: "bg-green-900/40 text-green-400",
+  completed: "bg-blue-900/40 text-blue-400",
+};
+
+// Spread teams across groups in snake order (A B C C B A...)
+function snakeSeed(registrationIds: number[], groupIds: number[]): Record<number, number[]> {
+  const seeding: Record<number, number[]> = {};
+  groupIds.forEach((groupId) => (seeding[groupId] = []));
+
+  registrationIds.forEach((registrationId, index) => {
+    const round = Math.floor(index / groupIds.length);
+    const position = index % groupIds.length;
+    const groupIndex = round % 2 === 0 ? position : groupIds.length - 1 - position;
+    seeding[groupIds[groupIndex]].push(registrationId);
+  });
+
+  return seeding;
+}
+
+type StageCardProps = {
+  tournamentId: number;
+  stage: StageWithGroups;
+  registrations: RegistrationWithTeam[];
+  isFinalStage: boolean;
+};
+
+function StageCard({ tournamentId, stage, registrations, isFinalStage }: StageCardProps) {
+  const { toast } = useToast();
+  const [seeding, setSeeding] = useState<Record<number, number[]>>({});
+
+  // Reset local seeding whenever the saved seeding changes
+  useEffect(() => {
+    const saved: Record<number, number[]> = {};
+    stage.groups.forEach((group) => {
+      saved[group.id] = group.teams.map((team) => team.registrationId);
+    });
+    setSeeding(saved);
+  }, [stage]);
+
+  const { data: stageStandings } = useQuery<StageStandingsResponse>({
+    queryKey: [`/api/tournaments/${tournamentId}/stages/${stage.id}/standings`],
+  });
+
+  const invalidateStages = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/tournaments/${tournamentId}/stages`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/tournaments/${tournamentId}/stages/${stage.id}/standings`] });
+  };
+
+  const teamNames: Record<number, string> = {};
+  registrations.forEach((registration) => {
+    teamNames[registration.id] = registration.entrantName || `Registration ${registration.id}`;
+  });
+
+  const seededIds = Object.values(seeding).flat();
+  const unassigned = registrations.filter((registration) => !seededIds.includes(registration.id));
+
+  const assignTeam = (registrationId: number, groupId: number) => {
+    setSeeding((current) => ({
+      ...current,
+      [groupId]: [...(current[groupId] || []), registrationId],
+    }));
+  };
+
+  const removeTeam = (registrationId: number, groupId: number) => {
+    setSeeding((current) => ({
+      ...current,
+      [groupId]: current[groupId].filter((id) => id !== registrationId),
+    }));
+  };
+
+  const autoSeed = () => {
+    const ordered = [...registrations]
+      .sort((a, b) => (a.slot ?? Number.MAX_SAFE_INTEGER) - (b.slot ?? Number.MAX_SAFE_INTEGER))
+      .map((registration) => registration.id);
+    setSeeding(snakeSeed(ordered, stage.groups.map((group) => group.id)));
+  };
+
+  const saveSeedingMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", `/api/tournaments/${tournamentId}/stages/${stage.id}/seeding`, {
+        groups: Object.entries(seeding).map(([groupId, registrationIds]) => ({
+          groupId: parseInt(groupId),
+          registrationIds,
+        })),
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Seeding saved",
+        description: `Teams have been seeded into ${stage.name}`,
+      });
+      invalidateStages();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save seeding",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const advanceMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/tournaments/${tournamentId}/stages/${stage.id}/advance`);
+      return res.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      toast({
+        title: "Stage completed",
+        description: data.message,
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/tournaments/${tournamentId}/stages`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to advance teams",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addGroup = () => {
+    apiRequest("POST", `/api/tournaments/${tournamentId}/stages/${stage.id}/groups`, {})
+      .then(invalidateStages)
+      .catch((error) => {
+        toast({
+          title: "Failed to add group",
+          description: error.message,
+          variant: "destructive",
+        });
+      });
+  };
+
+  const deleteGroup = (group: GroupWithTeams) => {
+    if (!confirm(`Delete ${group.name}?`)) return;
+
+    apiRequest("DELETE", `/api/tournaments/${tournamentId}/stages/${stage.id}/groups/${group.id}`)
+      .then(invalidateStages)
+      .catch((error) => {
+        toast({
+          title: "Failed to delete group",
+          description: error.message,
+          variant: "destructive",
+        });
+      });
+  };
+
+  const deleteStage = () => {
+    if (!confirm(`Delete ${stage.name} and all of its groups?`)) return;
+
+    apiRequest("DELETE", `/api/tournaments/${tournamentId}/stages/${stage.id}`)
+      .then(() => {
+        queryClient.invalidateQueries({ queryKey: [`/api/tournaments/${tournamentId}/stages`] });
+        toast({
+          title: "Stage deleted",
+          description: `${stage.name} has been deleted`,
+        });
+      })
+      .catch((error) => {
+        toast({
+          title: "Failed to delete stage",
+          description: error.message,
+          variant: "destructive",
+        });
+      });
+  };
+
+  const hasResults = stageStandings?.groups.some((group) =>
+    group.standings.some((row) => row.matchesPlayed > 0)
+  );
+
+  return (
+    <Card className="bg-dark-card border-gray-800">
+      <CardHeader className="flex flex-row items-start justify-between pb-2">
+        <div>
+          <CardTitle className="text-white flex items-center gap-2">
+            {stage.stageOrder}. {stage.name}
+            <Badge className={statusColors[stage.status] || statusColors.pending}>{stage.status}</Badge>
+          </CardTitle>
+          <p className="text-gray-400 text-sm mt-1">
+            {stage.groups.length} {stage.groups.length === 1 ? "group" : "groups"}
+            {!isFinalStage && stage.advancingPerGroup > 0 && ` • Top ${stage.advancingPerGroup} of each group advance`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {!isFinalStage && stage.status !== "completed" && (
+            <Button
+              size="sm"
+              className="bg-primary hover:bg-primary/90 text-white"
+              onClick={() => advanceMutation.mutate()}
+              disabled={advanceMutation.isPending || !hasResults}
+            >
+              <ChevronsRight className="h-4 w-4 mr-1" />
+              {advanceMutation.isPending ? "Advancing..." : "Advance Teams"}
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-red-400 hover:text-red-300 hover:bg-red-900/20"
+            onClick={deleteStage}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+          {stage.groups.map((group) => (
+            <div key={group.id} className="bg-dark-surface rounded-lg border border-gray-800 p-3">
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-white font-medium">{group.name}</h4>
+                <div className="flex items-center gap-1">
+                  <Badge variant="outline" className="text-gray-400 border-gray-700">
+                    {(seeding[group.id] || []).length} teams
+                  </Badge>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0 text-gray-500 hover:text-red-400"
+                    onClick={() => deleteGroup(group)}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+              {(seeding[group.id] || []).length === 0 ? (
+                <p className="text-gray-500 text-sm py-2">No teams seeded</p>
+              ) : (
+                <ul className="space-y-1">
+                  {(seeding[group.id] || []).map((registrationId, index) => (
+                    <li key={registrationId} className="flex items-center justify-between text-sm">
+                      <span className="text-gray-300">
+                        <span className="text-gray-500 mr-2">#{index + 1}</span>
+                        {teamNames[registrationId] || "Unknown Team"}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0 text-gray-500 hover:text-white"
+                        onClick={() => removeTeam(registrationId, group.id)}
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {unassigned.length > 0 && stage.groups.length > 0 && (
+          <div>
+            <h4 className="text-gray-300 text-sm font-medium mb-2">Unseeded Teams ({unassigned.length})</h4>
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-2">
+              {unassigned.map((registration) => (
+                <div key={registration.id} className="flex items-center justify-between gap-2 bg-dark-surface border border-gray-800 rounded px-3 py-1">
+                  <span className="text-sm text-white truncate">{teamNames[registration.id]}</span>
+                  <Select onValueChange={(groupId) => assignTeam(registration.id, parseInt(groupId))}>
+                    <SelectTrigger className="w-32 h-8 bg-dark-card border-gray-700 text-white">
+                      <SelectValue placeholder="Add to..." />
+                    </SelectTrigger>
+                    <SelectContent className="bg-dark-card border-gray-700">
+                      {stage.groups.map((group) => (
+                        <SelectItem key={group.id} value={group.id.toString()} className="text-white focus:bg-dark-surface focus:text-white">
+                          {group.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button
+            variant="outline"
+            className="border-gray-700 text-white hover:bg-dark-surface"
+            onClick={addGroup}
+          >
+            <Plus className="h-4 w-4 mr-2" /> Add Group
+          </Button>
+          <Button
+            variant="outline"
+            className="border-gray-700 text-white hover:bg-dark-surface"
+            onClick={autoSeed}
+            disabled={stage.groups.length === 0}
+          >
+            <Shuffle className="h-4 w-4 mr-2" /> Auto Seed All Teams
+          </Button>
+          <Button
+            className="bg-primary hover:bg-primary/90 text-white"
+            onClick={() => saveSeedingMutation.mutate()}
+            disabled={saveSeedingMutation.isPending || stage.groups.length === 0}
+          >
+            <Save className="h-4 w-4 mr-2" />
+            {saveSeedingMutation.isPending ? "Saving..." : "Save Seeding"}
+          </Button>
+        </div>
+
+        {hasResults && stageStandings && (
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+            {stageStandings.groups.map((group) => (
+              <div key={group.id} className="rounded-md border border-gray-800 overflow-hidden">
+                <div className="bg-dark-surface px-3 py-2 text-white font-medium">{group.name} Standings</div>
+                <Table>
+                  <TableHeader className="bg-dark-surface">
+                    <TableRow className="border-gray-800 hover:bg-transparent">
+                      <TableHead className="text-gray-400 w-12">#</TableHead>
+                      <TableHead className="text-gray-400">Team</TableHead>
+                      <TableHead className="text-gray-400 text-center">M</TableHead>
+                      <TableHead className="text-gray-400 text-center">Kills</TableHead>
+                      <TableHead className="text-gray-400 text-right">Total</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {group.standings.map((row) => (
+                      <TableRow
+                        key={row.registrationId}
+                        className={`border-gray-800 hover:bg-dark-surface/60 ${row.advancing ? "bg-green-900/20" : ""}`}
+                      >
+                        <TableCell className="text-white font-bold">{row.rank}</TableCell>
+                        <TableCell className="text-white">{row.teamName}</TableCell>
+                        <TableCell className="text-gray-300 text-center">{row.matchesPlayed}</TableCell>
+                        <TableCell className="text-gray-300 text-center">{row.kills}</TableCell>
+                        <TableCell className="text-white font-bold text-right">{row.totalPoints}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function AdminTournamentStages({ params }: { params: { id: string } }) {
+  const tournamentId = parseInt(params.id);
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [stageName, setStageName] = useState("");
+  const [groupCount, setGroupCount] = useState("1");
+  const [advancingPerGroup, setAdvancingPerGroup] = useState("0");
+
+  const { data: tournament, isLoading: isTournamentLoading } = useQuery<Tournament>({
+    queryKey: [`/api/tournaments/${tournamentId}`],
+  });
+
+  const { data: registrations = [] } = useQuery<RegistrationWithTeam[]>({
+    queryKey: [`/api/tournaments/${tournamentId}/registrations`],
+  });
+
+  const { data: stages = [], isLoading: isStagesLoading } = useQuery<StageWithGroups[]>({
+    queryKey: [`/api/tournaments/${tournamentId}/stages`],
+  });
+
+  const createStageMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/tournaments/${tournamentId}/stages`, {
+        name: stageName,
+        groupCount: parseInt(groupCount) || 1,
+        advancingPerGroup: parseInt(advancingPerGroup) || 0,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Stage created",
+        description: `${stageName} has been added to the tournament`,
+      });
+      setStageName("");
+      setGroupCount("1");
+      setAdvancingPerGroup("0");
+      queryClient.invalidateQueries({ queryKey: [`/api/tournaments/${tournamentId}/stages`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to create stage",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <AdminLayout>
+      <div className="container mx-auto py-8 px-4">
+        <div className="flex items-center gap-4 mb-8">
+          <Button
+            variant="ghost"
+            className="text-gray-400 hover:text-white hover:bg-dark-surface"
+            onClick={() => navigate("/admin/tournaments")}
+          >
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold text-white">Stages & Groups</h1>
+            {tournament && <p className="text-gray-400">{tournament.title}</p>}
+          </div>
+        </div>
+
+        {isTournamentLoading || isStagesLoading ? (
+          <p className="text-gray-400">Loading...</p>
+        ) : !tournament ? (
+          <p className="text-red-500">Tournament not found</p>
+        ) : (
+          <div className="space-y-8">
+            <Card className="bg-dark-card border-gray-800">
+              <CardHeader>
+                <CardTitle className="text-white flex items-center">
+                  <Layers className="mr-2 h-5 w-5 text-primary" />
+                  Add Stage
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                  <div className="space-y-2 md:col-span-2">
+                    <label className="text-sm font-medium text-gray-300">Stage Name</label>
+                    <Input
+                      value={stageName}
+                      onChange={(e) => setStageName(e.target.value)}
+                      placeholder={stages.length === 0 ? "e.g. Qualifiers" : "e.g. Grand Final"}
+                      className="bg-dark-surface border-gray-700 text-white"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-gray-300">Groups</label>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={26}
+                      value={groupCount}
+                      onChange={(e) => setGroupCount(e.target.value)}
+                      className="bg-dark-surface border-gray-700 text-white"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-gray-300">Advance per Group</label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={advancingPerGroup}
+                      onChange={(e) => setAdvancingPerGroup(e.target.value)}
+                      className="bg-dark-surface border-gray-700 text-white"
+                    />
+                  </div>
+                </div>
+                <div className="flex justify-end mt-4">
+                  <Button
+                    className="bg-primary hover:bg-primary/90 text-white"
+                    onClick={() => createStageMutation.mutate()}
+                    disabled={createStageMutation.isPending || stageName.trim().length < 2}
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    {createStageMutation.isPending ? "Adding..." : "Add Stage"}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            {stages.length === 0 ? (
+              <p className="text-gray-400 text-center py-8">
+                This tournament is played as a single stage. Add stages to split it into groups and finals.
+              </p>
+            ) : (
+              stages.map((stage, index) => (
+                <StageCard
+                  key={stage.id}
+                  tournamentId={tournamentId}
+                  stage={stage}
+                  registrations={registrations}
+                  isFinalStage={index === stages.length - 1}
+                />
+              ))
+            )}
+          </div>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
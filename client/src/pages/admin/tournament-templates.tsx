@@ -0,0 +1,531 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { RecurrenceRule, TournamentTemplate, recurrenceRules } from "@shared/schema";
+import AdminLayout from "@/components/layouts/admin-layout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { format, parseISO } from "date-fns";
+import { CalendarClock, Pause, Pencil, Play, Plus, Trash2 } from "lucide-react";
+
+type TemplateWithOccurrences = TournamentTemplate & {
+  upcomingOccurrences: string[];
+};
+
+const gameTypes = ["BGMI", "FREEFIRE", "COD"];
+const mapTypes = ["Erangel", "Miramar", "Sanhok", "Vikendi"];
+const teamTypes = ["Solo", "Duo", "Squad"];
+const weekdays = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const recurrenceLabels: Record<RecurrenceRule, string> = {
+  daily: "Every day",
+  weekdays: "Monday to Friday",
+  weekly: "Once a week",
+};
+
+type TemplateFormState = {
+  name: string;
+  title: string;
+  description: string;
+  gameType: string;
+  mapType: string;
+  teamType: string;
+  recurrence: RecurrenceRule;
+  weekday: string;
+  startTime: string;
+  daysAhead: string;
+  totalSlots: string;
+  isPaid: boolean;
+  entryFee: string;
+  prizePool: string;
+};
+
+const emptyForm: TemplateFormState = {
+  name: "",
+  title: "",
+  description: "",
+  gameType: "BGMI",
+  mapType: "Erangel",
+  teamType: "Squad",
+  recurrence: "daily",
+  weekday: "0",
+  startTime: "20:00",
+  daysAhead: "3",
+  totalSlots: "25",
+  isPaid: false,
+  entryFee: "0",
+  prizePool: "0",
+};
+
+// "Every day at 20:00", "Every Sunday at 18:30"
+function describeSchedule(template: TournamentTemplate) {
+  const days = template.recurrence === "weekly" && template.weekday !== null
+    ? `Every ${weekdays[template.weekday]}`
+    : recurrenceLabels[template.recurrence as RecurrenceRule];
+  return `${days} at ${template.startTime}`;
+}
+
+export default function AdminTournamentTemplates() {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<TournamentTemplate | null>(null);
+  const [form, setForm] = useState<TemplateFormState>(emptyForm);
+
+  const { data: templates = [], isLoading } = useQuery<TemplateWithOccurrences[]>({
+    queryKey: ["/api/tournament-templates"],
+  });
+
+  const openCreateDialog = () => {
+    setEditingTemplate(null);
+    setForm(emptyForm);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (template: TournamentTemplate) => {
+    setEditingTemplate(template);
+    setForm({
+      name: template.name,
+      title: template.title,
+      description: template.description,
+      gameType: template.gameType,
+      mapType: template.mapType,
+      teamType: template.teamType,
+      recurrence: template.recurrence as RecurrenceRule,
+      weekday: (template.weekday ?? 0).toString(),
+      startTime: template.startTime,
+      daysAhead: template.daysAhead.toString(),
+      totalSlots: template.totalSlots.toString(),
+      isPaid: template.isPaid,
+      entryFee: (template.entryFee || 0).toString(),
+      prizePool: (template.prizePool || 0).toString(),
+    });
+    setDialogOpen(true);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const data = {
+        name: form.name,
+        title: form.title,
+        description: form.description,
+        gameType: form.gameType,
+        mapType: form.mapType,
+        teamType: form.teamType,
+        gameMode: form.teamType,
+        recurrence: form.recurrence,
+        weekday: form.recurrence === "weekly" ? Number(form.weekday) : null,
+        startTime: form.startTime,
+        daysAhead: Number(form.daysAhead),
+        totalSlots: Number(form.totalSlots),
+        isPaid: form.isPaid,
+        entryFee: form.isPaid ? Number(form.entryFee) : 0,
+        prizePool: Number(form.prizePool),
+      };
+
+      // New templates run on the admin's own clock
+      const res = editingTemplate
+        ? await apiRequest("PATCH", `/api/tournament-templates/${editingTemplate.id}`, data)
+        : await apiRequest("POST", "/api/tournament-templates", {
+            ...data,
+            utcOffsetMinutes: -new Date().getTimezoneOffset(),
+          });
+      return res.json();
+    },
+    onSuccess: (data: { createdTournaments?: number }) => {
+      toast({
+        title: editingTemplate ? "Template updated" : "Template created",
+        description: data.createdTournaments
+          ? `${form.name} has been saved and ${data.createdTournaments} tournaments were scheduled`
+          : `${form.name} has been saved`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/tournament-templates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tournaments"] });
+      setDialogOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save template",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const togglePaused = (template: TournamentTemplate) => {
+    apiRequest("PATCH", `/api/tournament-templates/${template.id}`, { isPaused: !template.isPaused })
+      .then(() => {
+        queryClient.invalidateQueries({ queryKey: ["/api/tournament-templates"] });
+        toast({
+          title: template.isPaused ? "Template resumed" : "Template paused",
+          description: template.isPaused
+            ? `${template.name} will schedule tournaments again`
+            : `${template.name} will not schedule any more tournaments`,
+        });
+      })
+      .catch((error) => {
+        toast({
+          title: "Failed to update template",
+          description: error.message,
+          variant: "destructive",
+        });
+      });
+  };
+
+  const deleteTemplate = (template: TournamentTemplate) => {
+    if (!confirm(`Delete the "${template.name}" template? Tournaments it already created are kept.`)) return;
+
+    apiRequest("DELETE", `/api/tournament-templates/${template.id}`)
+      .then(() => {
+        queryClient.invalidateQueries({ queryKey: ["/api/tournament-templates"] });
+        toast({
+          title: "Template deleted",
+          description: `${template.name} has been deleted`,
+        });
+      })
+      .catch((error) => {
+        toast({
+          title: "Failed to delete template",
+          description: error.message,
+          variant: "destructive",
+        });
+      });
+  };
+
+  return (
+    <AdminLayout>
+      <div className="container mx-auto py-8 px-4">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-8">
+          <div className="mb-4 md:mb-0">
+            <h1 className="text-3xl font-bold text-white">Recurring Tournaments</h1>
+            <p className="text-gray-400">Templates that schedule tournaments such as daily scrims automatically</p>
+          </div>
+          <Button className="bg-primary hover:bg-primary/90 text-white" onClick={openCreateDialog}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Template
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-gray-400">Loading templates...</p>
+        ) : templates.length === 0 ? (
+          <Card className="bg-dark-card border-gray-800">
+            <CardContent className="py-12 text-center">
+              <CalendarClock className="mx-auto h-12 w-12 text-gray-600 mb-4" />
+              <h3 className="text-lg font-medium text-white mb-2">No Recurring Tournaments</h3>
+              <p className="text-gray-400">Create a template to have the same tournament scheduled every day or week.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {templates.map((template) => (
+              <Card key={template.id} className="bg-dark-card border-gray-800">
+                <CardHeader className="flex flex-row items-start justify-between pb-2">
+                  <div>
+                    <CardTitle className="text-white flex items-center gap-2">
+                      {template.name}
+                      {template.isPaused && (
+                        <Badge className="bg-amber-900/30 text-amber-400 hover:bg-amber-900/30">Paused</Badge>
+                      )}
+                    </CardTitle>
+                    <p className="text-gray-400 text-sm mt-1">{describeSchedule(template)}</p>
+                  </div>
+                  <Badge variant="outline" className="text-gray-300 border-gray-700">{template.gameType}</Badge>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-gray-300 text-sm">
+                    {template.title} • {template.mapType} • {template.teamType} • {template.totalSlots} slots
+                  </p>
+                  <p className="text-gray-500 text-xs mt-1">
+                    Tournaments are created {template.daysAhead} days ahead
+                  </p>
+
+                  <div className="mt-3">
+                    <p className="text-xs font-medium text-gray-400 mb-1">
+                      {template.isPaused ? "Would run next on" : "Next occurrences"}
+                    </p>
+                    <div className="flex flex-wrap gap-1">
+                      {template.upcomingOccurrences.map((occurrence) => (
+                        <span key={occurrence} className="text-xs bg-dark-surface border border-gray-700 rounded px-2 py-1 text-gray-300">
+                          {format(parseISO(occurrence), "EEE d MMM, h:mm a")}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="flex justify-end gap-2 mt-4">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-gray-300 hover:text-white hover:bg-dark-surface"
+                      onClick={() => togglePaused(template)}
+                    >
+                      {template.isPaused
+                        ? <><Play className="h-4 w-4 mr-1" /> Resume</>
+                        : <><Pause className="h-4 w-4 mr-1" /> Pause</>}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-gray-300 hover:text-white hover:bg-dark-surface"
+                      onClick={() => openEditDialog(template)}
+                    >
+                      <Pencil className="h-4 w-4 mr-1" /> Edit
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-400 hover:text-red-300 hover:bg-red-900/20"
+                      onClick={() => deleteTemplate(template)}
+                    >
+                      <Trash2 className="h-4 w-4 mr-1" /> Delete
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="bg-dark-card border-gray-800 text-white max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingTemplate ? "Edit Template" : "New Template"}</DialogTitle>
+            <DialogDescription className="text-gray-400">
+              {editingTemplate
+                ? "Changes apply to tournaments created from now on"
+                : "Each tournament is titled with its date, e.g. \"Daily Erangel Squad Scrim - 19 Oct\""}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-300">Template Name</label>
+                <Input
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g. Evening scrims"
+                  className="bg-dark-surface border-gray-700 text-white"
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-300">Tournament Title</label>
+                <Input
+                  value={form.title}
+                  onChange={(e) => setForm({ ...form, title: e.target.value })}
+                  placeholder="e.g. Daily Erangel Squad Scrim"
+                  className="bg-dark-surface border-gray-700 text-white"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-300">Description</label>
+              <Textarea
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                className="bg-dark-surface border-gray-700 text-white"
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-300">Game</label>
+                <Select value={form.gameType} onValueChange={(gameType) => setForm({ ...form, gameType })}>
+                  <SelectTrigger className="bg-dark-surface border-gray-700 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-dark-card border-gray-700">
+                    {gameTypes.map((game) => (
+                      <SelectItem key={game} value={game} className="text-white focus:bg-dark-surface focus:text-white">
+                        {game}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-300">Map</label>
+                <Select value={form.mapType} onValueChange={(mapType) => setForm({ ...form, mapType })}>
+                  <SelectTrigger className="bg-dark-surface border-gray-700 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-dark-card border-gray-700">
+                    {mapTypes.map((map) => (
+                      <SelectItem key={map} value={map} className="text-white focus:bg-dark-surface focus:text-white">
+                        {map}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-300">Team Type</label>
+                <Select value={form.teamType} onValueChange={(teamType) => setForm({ ...form, teamType })}>
+                  <SelectTrigger className="bg-dark-surface border-gray-700 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-dark-card border-gray-700">
+                    {teamTypes.map((teamType) => (
+                      <SelectItem key={teamType} value={teamType} className="text-white focus:bg-dark-surface focus:text-white">
+                        {teamType}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-300">Repeats</label>
+                <Select
+                  value={form.recurrence}
+                  onValueChange={(recurrence) => setForm({ ...form, recurrence: recurrence as RecurrenceRule })}
+                >
+                  <SelectTrigger className="bg-dark-surface border-gray-700 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-dark-card border-gray-700">
+                    {recurrenceRules.map((rule) => (
+                      <SelectItem key={rule} value={rule} className="text-white focus:bg-dark-surface focus:text-white">
+                        {recurrenceLabels[rule]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {form.recurrence === "weekly" ? (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-300">Day</label>
+                  <Select value={form.weekday} onValueChange={(weekday) => setForm({ ...form, weekday })}>
+                    <SelectTrigger className="bg-dark-surface border-gray-700 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-dark-card border-gray-700">
+                      {weekdays.map((day, index) => (
+                        <SelectItem key={day} value={index.toString()} className="text-white focus:bg-dark-surface focus:text-white">
+                          {day}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ) : <div />}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-300">Start Time</label>
+                <Input
+                  type="time"
+                  value={form.startTime}
+                  onChange={(e) => setForm({ ...form, startTime: e.target.value })}
+                  className="bg-dark-surface border-gray-700 text-white"
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-300">Schedule Days Ahead</label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={14}
+                  value={form.daysAhead}
+                  onChange={(e) => setForm({ ...form, daysAhead: e.target.value })}
+                  className="bg-dark-surface border-gray-700 text-white"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-300">Total Slots</label>
+                <Input
+                  type="number"
+                  min={2}
+                  value={form.totalSlots}
+                  onChange={(e) => setForm({ ...form, totalSlots: e.target.value })}
+                  className="bg-dark-surface border-gray-700 text-white"
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-300">Prize Pool (₹)</label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={form.prizePool}
+                  onChange={(e) => setForm({ ...form, prizePool: e.target.value })}
+                  className="bg-dark-surface border-gray-700 text-white"
+                />
+              </div>
+            </div>
+
+            <div className="p-3 border border-gray-700 rounded-md bg-dark-surface space-y-3">
+              <div className="flex flex-row items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-white">Paid Entry</p>
+                  <p className="text-xs text-gray-400">Paid tournaments review every registration</p>
+                </div>
+                <Switch
+                  checked={form.isPaid}
+                  onCheckedChange={(isPaid) => setForm({ ...form, isPaid })}
+                  className="data-[state=checked]:bg-primary"
+                />
+              </div>
+              {form.isPaid && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-300">Entry Fee (₹)</label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={form.entryFee}
+                    onChange={(e) => setForm({ ...form, entryFee: e.target.value })}
+                    className="bg-dark-card border-gray-700 text-white"
+                  />
+                </div>
+              )}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setDialogOpen(false)}
+              className="border-gray-700 text-white hover:bg-dark-surface"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              className="bg-primary hover:bg-primary/90 text-white"
+              disabled={saveMutation.isPending || !form.name || !form.title || !form.description}
+            >
+              {saveMutation.isPending ? "Saving..." : "Save Template"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </AdminLayout>
+  );
+}
@@ -1,4 +1,5 @@
 import { TournamentTable } from "@/components/admin/tournament-table";
+import { RegistrationReview } from "@/components/admin/registration-review";
 import AdminLayout from "@/components/layouts/admin-layout";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -94,6 +95,11 @@ export default function AdminTournaments() {
         <div className="bg-dark-card rounded-md border border-gray-800 p-6">
           <TournamentTable />
         </div>
+
+        {/* Registration Review */}
+        <div className="bg-dark-card rounded-md border border-gray-800 p-6 mt-8">
+          <RegistrationReview />
+        </div>
       </div>
     </AdminLayout>
   );
@@ -4,7 +4,7 @@ import { useLocation } from "wouter";
 import { useAuth } from "@/lib/auth";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { Tournament, Team, Registration } from "@shared/schema";
+import { TournamentView, Team, Registration, WaitlistEntry } from "@shared/schema";
 import { 
   Card, 
   CardContent, 
@@ -14,6 +14,9 @@ import {
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { StandingsTable, StandingsResponse } from "@/components/ui/standings-table";
+import { BracketView } from "@/components/ui/bracket-view";
 import {
   Dialog,
   DialogContent,
@@ -38,48 +41,147 @@ import {
   Clock,
   Info,
   Key,
-  AlertTriangle
+  AlertTriangle,
+  CheckCircle
 } from "lucide-react";
 import { format, parseISO } from "date-fns";
+import { RosterRulesNote } from "@/components/user/roster-rules-note";
+import { LineupManager } from "@/components/user/lineup-manager";
+
+type CheckInResponse = {
+  enabled: boolean;
+  opensAt: string | null;
+  closesAt: string | null;
+  isOpen: boolean;
+  isClosed: boolean;
+  checkedIn: number;
+  expected: number;
+};
+
+type TeamEligibility = {
+  team: Team;
+  eligible: boolean;
+  reason: string | null;
+};
+
+type WaitlistResponse = {
+  isFull: boolean;
+  entries: (WaitlistEntry & { position: number; teamName: string })[];
+};
+
+// 2 -> "2nd", 11 -> "11th", 23 -> "23rd"
+function getOrdinal(n: number) {
+  const suffixes = ["th", "st", "nd", "rd"];
+  const v = n % 100;
+  return n + (suffixes[(v - 20) % 10] || suffixes[v] || suffixes[0]);
+}
 
 export default function TournamentDetails({ params }: { params: { id: string } }) {
   const tournamentId = parseInt(params.id);
-  const { isAuthenticated, isAdmin } = useAuth();
+  const { user, isAuthenticated, isAdmin } = useAuth();
   const [, navigate] = useLocation();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [registerDialogOpen, setRegisterDialogOpen] = useState(false);
   const [selectedTeamId, setSelectedTeamId] = useState<string>("");
   const [isLocalRegistered, setIsLocalRegistered] = useState(false);
+  const [cancelDialogOpen, setCancelDialogOpen] = useState(false);
+  const [cancelReason, setCancelReason] = useState("");
 
   // Fetch tournament details
-  const { data: tournament, isLoading: isTournamentLoading } = useQuery<Tournament>({
+  const { data: tournament, isLoading: isTournamentLoading } = useQuery<TournamentView>({
     queryKey: [`/api/tournaments/${tournamentId}`],
   });
 
+  // Fetch the points table, which also carries the scoring rules in use
+  const { data: standings } = useQuery<StandingsResponse>({
+    queryKey: [`/api/tournaments/${tournamentId}/standings`],
+  });
+
   // Fetch user's teams if authenticated
   const { data: teams, isLoading: isTeamsLoading } = useQuery<Team[]>({
     queryKey: ["/api/teams/my"],
     enabled: isAuthenticated,
   });
 
+  // Fetch which of the user's teams can enter, and why the others cannot
+  const { data: teamEligibility } = useQuery<TeamEligibility[]>({
+    queryKey: [`/api/tournaments/${tournamentId}/eligible-teams`],
+    enabled: isAuthenticated && !isAdmin,
+  });
+
+  const eligibleTeams = teamEligibility?.filter((entry) => entry.eligible).map((entry) => entry.team) ?? [];
+  const ineligibleTeams = teamEligibility?.filter((entry) => !entry.eligible) ?? [];
+
   // Fetch tournament registrations
   const { data: registrations, isLoading: isRegistrationsLoading } = useQuery<any[]>({
     queryKey: [`/api/tournaments/${tournamentId}/registrations`],
   });
 
+  // Fetch the waitlist, which also tells whether every slot is taken
+  const { data: waitlist } = useQuery<WaitlistResponse>({
+    queryKey: [`/api/tournaments/${tournamentId}/waitlist`],
+  });
+
+  // Fetch the check-in window - admins watch the count live
+  const { data: checkInStatus } = useQuery<CheckInResponse>({
+    queryKey: [`/api/tournaments/${tournamentId}/check-in`],
+    refetchInterval: isAdmin ? 15000 : false,
+  });
+
   // Fetch user's registrations to check if already registered
   const { data: userRegistrations, isLoading: isUserRegistrationsLoading } = useQuery<any[]>({
     queryKey: ["/api/registrations/user"],
     enabled: isAuthenticated,
   });
 
+  const cancelMutation = useMutation({
+    mutationFn: async (reason: string) => {
+      const res = await apiRequest("POST", `/api/tournaments/${tournamentId}/cancel`, { reason });
+      return res.json();
+    },
+    onSuccess: (data: { notified: number; refunded: number }) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/tournaments/${tournamentId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/tournaments/${tournamentId}/registrations`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/tournaments/${tournamentId}/waitlist`] });
+      toast({
+        title: "Tournament cancelled",
+        description: `${data.notified} players were notified and ${data.refunded} entry fees marked as refunded`,
+      });
+      setCancelDialogOpen(false);
+      setCancelReason("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to cancel tournament",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+
+  // Solo tournaments are entered by the player alone, without picking a team
+  const isSolo = tournament?.teamType?.toLowerCase() === "solo";
+
   const registerMutation = useMutation({
-    mutationFn: async (teamId: number) => {
-      const res = await apiRequest("POST", `/api/tournaments/${tournamentId}/register`, { teamId });
+    mutationFn: async (teamId: number | null) => {
+      const res = await apiRequest("POST", `/api/tournaments/${tournamentId}/register`, { 
+        teamId, 
+        joinWaitlist: !!waitlist?.isFull 
+      });
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (data: { waitlisted?: boolean; position?: number }) => {
+      if (data.waitlisted) {
+        queryClient.invalidateQueries({ queryKey: [`/api/tournaments/${tournamentId}/waitlist`] });
+        toast({
+          title: "Added to waitlist",
+          description: `${isSolo ? "You are" : "Your team is"} number ${data.position} on the waitlist and will be registered automatically when a slot opens`,
+        });
+        setRegisterDialogOpen(false);
+        return;
+      }
+      
       // Set local registration state immediately
       setIsLocalRegistered(true);
       
@@ -122,6 +224,12 @@ export default function TournamentDetails({ params }: { params: { id: string } }
       return;
     }
 
+    if (isSolo) {
+      setSelectedTeamId("");
+      setRegisterDialogOpen(true);
+      return;
+    }
+
     if (!teams || teams.length === 0) {
       toast({
         title: "No teams found",
@@ -132,56 +240,15 @@ export default function TournamentDetails({ params }: { params: { id: string } }
       return;
     }
 
-    setSelectedTeamId(teams[0].id.toString());
+    // Teams that cannot enter are listed in the dialog with the reason
+    setSelectedTeamId(eligibleTeams[0]?.id.toString() ?? "");
     setRegisterDialogOpen(true);
   };
 
-  const confirmRegistration = async () => {
-    if (!selectedTeamId || !tournament) return;
-    
-    const teamId = parseInt(selectedTeamId);
-    const tournamentType = tournament.teamType?.toLowerCase() || 'squad';
-    
-    // For Solo tournaments, we can proceed directly
-    if (tournamentType === 'solo') {
-      registerMutation.mutate(teamId);
-      return;
-    }
-    
-    // For Squad and Duo tournaments, validate team size
-    try {
-      // Fetch team members to check team size
-      const res = await fetch(`/api/teams/${teamId}/members`);
-      if (!res.ok) throw new Error('Failed to fetch team members');
-      
-      const teamMembers = await res.json();
-      
-      // Validate team size based on tournament type
-      if (tournamentType === 'squad' && teamMembers.length < 4) {
-        toast({
-          title: 'Invalid Team Size',
-          description: `Squad tournaments require at least 4 team members. Your team has ${teamMembers.length}.`,
-          variant: 'destructive'
-        });
-        return;
-      } else if (tournamentType === 'duo' && teamMembers.length < 2) {
-        toast({
-          title: 'Invalid Team Size',
-          description: `Duo tournaments require at least 2 team members. Your team has ${teamMembers.length}.`,
-          variant: 'destructive'
-        });
-        return;
-      }
-      
-      // If validation passes, proceed with registration
-      registerMutation.mutate(teamId);
-    } catch (error) {
-      toast({
-        title: 'Error',
-        description: error instanceof Error ? error.message : 'Failed to validate team',
-        variant: 'destructive'
-      });
-    }
+  // The server checks the team's roster against the tournament's rules
+  const confirmRegistration = () => {
+    if (!tournament || (!isSolo && !selectedTeamId)) return;
+    registerMutation.mutate(isSolo ? null : parseInt(selectedTeamId));
   };
 
   // Set initial local registration state based on API data when it loads
@@ -201,6 +268,89 @@ export default function TournamentDetails({ params }: { params: { id: string } }
     return userRegistrations.some((reg: any) => reg.tournamentId === tournament.id);
   };
 
+  // Rejected and no-show teams gave their place up, so they are left out of the slot list
+  const activeRegistrations = registrations?.filter(
+    (registration: any) => registration.status === "pending" || registration.status === "approved"
+  );
+
+  // The user's own registration - only approved teams are confirmed and see the room details
+  const myRegistration = userRegistrations?.find((reg: any) => reg.tournamentId === tournamentId);
+  const isConfirmed = myRegistration?.status === "approved";
+
+  // Room details on a release schedule stay hidden from players until they go out
+  const roomReleaseTime = tournament?.roomReleaseMinutes != null && !tournament.roomReleasedAt
+    ? new Date(parseISO(tournament.date.toString()).getTime() - tournament.roomReleaseMinutes * 60 * 1000)
+    : null;
+
+  // The user's team, or the user themselves in a solo tournament, waiting for a slot
+  const myWaitlistEntry = waitlist?.entries.find((entry) => entry.teamId === null
+    ? entry.userId === user?.id
+    : teams?.some((team) => team.id === entry.teamId));
+
+  const checkInMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/tournaments/${tournamentId}/check-in`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/registrations/user"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/tournaments/${tournamentId}/check-in`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/tournaments/${tournamentId}/registrations`] });
+      toast({
+        title: "Checked in",
+        description: "Your team's attendance is confirmed",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Check-in failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const closeCheckIn = () => {
+    if (!confirm("Close check-in now? Every team that has not checked in will lose its slot.")) return;
+
+    apiRequest("POST", `/api/tournaments/${tournamentId}/check-in/close`)
+      .then((res) => res.json())
+      .then((data: { message: string }) => {
+        queryClient.invalidateQueries({ queryKey: [`/api/tournaments/${tournamentId}/check-in`] });
+        queryClient.invalidateQueries({ queryKey: [`/api/tournaments/${tournamentId}/registrations`] });
+        queryClient.invalidateQueries({ queryKey: [`/api/tournaments/${tournamentId}/waitlist`] });
+        toast({
+          title: "Check-in closed",
+          description: data.message,
+        });
+      })
+      .catch((error) => {
+        toast({
+          title: "Failed to close check-in",
+          description: error.message,
+          variant: "destructive",
+        });
+      });
+  };
+
+  const leaveWaitlist = (entryId: number) => {
+    apiRequest("DELETE", `/api/waitlist/${entryId}`)
+      .then(() => {
+        queryClient.invalidateQueries({ queryKey: [`/api/tournaments/${tournamentId}/waitlist`] });
+        toast({
+          title: "Left waitlist",
+          description: "Your team has been removed from the waitlist",
+        });
+      })
+      .catch((error) => {
+        toast({
+          title: "Failed to leave waitlist",
+          description: error.message,
+          variant: "destructive",
+        });
+      });
+  };
+
   if (isTournamentLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -226,12 +376,18 @@ export default function TournamentDetails({ params }: { params: { id: string } }
 
   const getStatusBadge = (status: string) => {
     switch (status) {
+      case "draft":
+        return <Badge variant="outline" className="text-gray-300 border-gray-600">Draft</Badge>;
       case "live":
         return <Badge className="bg-[#00CC66]/20 text-[#00CC66] hover:bg-[#00CC66]/30 hover:text-[#00CC66]"><span className="status-indicator status-live"></span>Live</Badge>;
       case "upcoming":
         return <Badge className="bg-[#FFCC00]/20 text-[#FFCC00] hover:bg-[#FFCC00]/30 hover:text-[#FFCC00]"><span className="status-indicator status-upcoming"></span>Upcoming</Badge>;
+      case "registration_closed":
+        return <Badge className="bg-[#FFCC00]/20 text-[#FFCC00] hover:bg-[#FFCC00]/30 hover:text-[#FFCC00]"><span className="status-indicator status-upcoming"></span>Registration Closed</Badge>;
       case "completed":
         return <Badge className="bg-[#FF3300]/20 text-[#FF3300] hover:bg-[#FF3300]/30 hover:text-[#FF3300]"><span className="status-indicator status-closed"></span>Completed</Badge>;
+      case "cancelled":
+        return <Badge className="bg-gray-700/40 text-gray-300 hover:bg-gray-700/50 hover:text-gray-300"><span className="status-indicator status-closed"></span>Cancelled</Badge>;
       default:
         return <Badge variant="outline">Unknown</Badge>;
     }
@@ -248,6 +404,27 @@ export default function TournamentDetails({ params }: { params: { id: string } }
           <p className="text-gray-400 max-w-3xl">{tournament.description}</p>
         </div>
 
+        {/* Cancelled tournaments stay up so players can see what happened */}
+        {tournament.status === "cancelled" && (
+          <div className="mb-8 p-4 bg-red-900/20 border border-red-700/40 rounded-lg flex items-start gap-3">
+            <AlertTriangle className="h-5 w-5 text-red-400 mt-0.5 shrink-0" />
+            <div>
+              <h3 className="text-white font-medium">This tournament has been cancelled</h3>
+              {tournament.cancellationReason && (
+                <p className="text-gray-300 text-sm mt-1">Reason: {tournament.cancellationReason}</p>
+              )}
+              {tournament.cancelledAt && (
+                <p className="text-gray-400 text-xs mt-1">
+                  Cancelled on {format(parseISO(tournament.cancelledAt.toString()), "MMM d, yyyy 'at' h:mm a")}
+                </p>
+              )}
+              {myRegistration?.paymentStatus === "refunded" && (
+                <p className="text-green-400 text-sm mt-2">Your entry fee of ₹{tournament.entryFee} is being refunded.</p>
+              )}
+            </div>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Left Column - Tournament Info */}
           <div className="lg:col-span-2">
@@ -309,21 +486,21 @@ export default function TournamentDetails({ params }: { params: { id: string } }
                     <div>
                       <h3 className="text-white text-sm font-medium">Slots</h3>
                       <p className="text-gray-400">
-                        {registrations ? registrations.length : "0"}/{tournament.totalSlots} Filled
+                        {activeRegistrations ? activeRegistrations.length : "0"}/{tournament.totalSlots} Filled
                       </p>
                     </div>
                   </div>
                 </div>
 
-                {/* Room information for admins and registered users */}
-                {(isAdmin || (isRegistered() && isAuthenticated)) && (
-                  <div className="mt-8 p-4 bg-dark-surface border border-gray-700 rounded-lg">
-                    <h3 className="text-white font-medium flex items-center mb-4">
-                      <Key className="h-5 w-5 mr-2 text-primary" />
-                      Room Information
-                    </h3>
-                    
-                    {tournament.roomId && tournament.password ? (
+                {/* Room information - the server only sends credentials to admins and confirmed teams */}
+                <div className="mt-8 p-4 bg-dark-surface border border-gray-700 rounded-lg">
+                  <h3 className="text-white font-medium flex items-center mb-4">
+                    <Key className="h-5 w-5 mr-2 text-primary" />
+                    Room Information
+                  </h3>
+                  
+                  {tournament.roomId && tournament.password ? (
+                    <>
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                         <div>
                           <p className="text-gray-400 text-sm mb-1">Room ID</p>
@@ -334,16 +511,91 @@ export default function TournamentDetails({ params }: { params: { id: string } }
                           <p className="text-white bg-dark-card px-3 py-2 rounded-md">{tournament.password}</p>
                         </div>
                       </div>
-                    ) : (
-                      <div className="bg-dark-card p-4 rounded-md text-gray-400 text-center">
-                        {tournament.status === "upcoming" ? 
-                          "Room details will be available when the tournament starts" : 
-                          "Room details have not been provided by the organizer yet"}
+                      {isAdmin && roomReleaseTime && (
+                        <p className="text-gray-400 text-xs mt-3">
+                          Hidden from players until {format(roomReleaseTime, "MMM d, h:mm a")}, when confirmed teams are sent the details
+                        </p>
+                      )}
+                    </>
+                  ) : roomReleaseTime && (isAdmin || isConfirmed) ? (
+                    <div className="bg-dark-card p-4 rounded-md text-gray-400 text-center">
+                      Room details will be released at {format(roomReleaseTime, "h:mm a")}
+                    </div>
+                  ) : tournament.credentialsHidden ? (
+                    <div className="bg-dark-card p-4 rounded-md text-gray-400 text-center">
+                      Room details are hidden. They are only shared with teams confirmed for this tournament.
+                    </div>
+                  ) : (
+                    <div className="bg-dark-card p-4 rounded-md text-gray-400 text-center">
+                      {tournament.status === "upcoming" ? 
+                        "Room details will be available when the tournament starts" : 
+                        "Room details have not been provided by the organizer yet"}
+                    </div>
+                  )}
+                </div>
+
+                {/* Check-in for confirmed teams, with the live count for admins */}
+                {checkInStatus?.enabled && (isAdmin || isConfirmed || myRegistration?.status === "no_show") && (
+                  <div className="mt-6 p-4 bg-dark-surface border border-gray-700 rounded-lg">
+                    <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                      <div>
+                        <h3 className="text-white font-medium flex items-center">
+                          <CheckCircle className="h-5 w-5 mr-2 text-primary" />
+                          Check-in
+                        </h3>
+                        <p className="text-gray-400 text-sm mt-1">
+                          {checkInStatus.opensAt && checkInStatus.closesAt && (
+                            <>
+                              {format(parseISO(checkInStatus.opensAt), "h:mm a")} - {format(parseISO(checkInStatus.closesAt), "h:mm a")}
+                              {checkInStatus.isClosed ? " • Closed" : checkInStatus.isOpen ? " • Open now" : ""}
+                            </>
+                          )}
+                        </p>
                       </div>
-                    )}
+                      {isAdmin ? (
+                        <div className="flex items-center gap-3">
+                          <Badge variant="outline" className="text-gray-300 bg-dark-card">
+                            {checkInStatus.checkedIn}/{checkInStatus.expected} checked in
+                          </Badge>
+                          {!checkInStatus.isClosed && (
+                            <Button 
+                              size="sm" 
+                              variant="outline" 
+                              className="border-gray-700 text-white hover:bg-dark-card"
+                              onClick={closeCheckIn}
+                            >
+                              Close Check-in
+                            </Button>
+                          )}
+                        </div>
+                      ) : myRegistration?.status === "no_show" ? (
+                        <p className="text-red-400 text-sm">Your team missed check-in and lost its slot</p>
+                      ) : myRegistration?.checkedInAt ? (
+                        <p className="text-green-400 text-sm flex items-center">
+                          <CheckCircle className="h-4 w-4 mr-1" /> Checked in
+                        </p>
+                      ) : checkInStatus.isOpen ? (
+                        <Button 
+                          onClick={() => checkInMutation.mutate()} 
+                          className="bg-primary hover:bg-primary/90 text-white"
+                          disabled={checkInMutation.isPending}
+                        >
+                          {checkInMutation.isPending ? "Checking in..." : "Check In"}
+                        </Button>
+                      ) : (
+                        <p className="text-gray-400 text-sm">
+                          {checkInStatus.isClosed ? "Check-in has closed" : "Check-in has not opened yet"}
+                        </p>
+                      )}
+                    </div>
                   </div>
                 )}
 
+                {/* Lineup declaration for the user's team - solo players have nobody to line up */}
+                {!isAdmin && !isSolo && (myRegistration?.status === "pending" || myRegistration?.status === "approved") && (
+                  <LineupManager registrationId={myRegistration.id} />
+                )}
+
                 <div className="mt-8 flex justify-end gap-4">
                   {isAdmin ? (
                     <>
@@ -353,7 +605,7 @@ export default function TournamentDetails({ params }: { params: { id: string } }
                       >
                         Edit Tournament
                       </Button>
-                      {tournament.status === "upcoming" && (
+                      {(tournament.status === "upcoming" || tournament.status === "registration_closed") && (
                         <Button 
                           onClick={() => {
                             // Direct update to 'live' status
@@ -403,24 +655,59 @@ export default function TournamentDetails({ params }: { params: { id: string } }
                           Complete Tournament
                         </Button>
                       )}
+                      {tournament.status !== "completed" && tournament.status !== "cancelled" && (
+                        <Button 
+                          variant="destructive"
+                          onClick={() => setCancelDialogOpen(true)}
+                        >
+                          Cancel Tournament
+                        </Button>
+                      )}
                     </>
                   ) : (
                     <>
                       {isRegistered() ? (
                         <Button disabled className="bg-gray-700 text-white">
-                          Already Registered
+                          {myRegistration?.status === "pending" 
+                            ? "Awaiting Approval" 
+                            : myRegistration?.status === "rejected" 
+                              ? "Registration Rejected" 
+                              : myRegistration?.status === "no_show" 
+                                ? "Missed Check-in" 
+                                : "Already Registered"}
                         </Button>
-                      ) : tournament.status === "completed" ? (
+                      ) : tournament.status !== "upcoming" ? (
                         <Button disabled className="bg-gray-700 text-white">
-                          Tournament Completed
+                          {tournament.status === "completed" 
+                            ? "Tournament Completed" 
+                            : tournament.status === "live" 
+                              ? "Tournament In Progress" 
+                              : tournament.status === "cancelled" 
+                                ? "Tournament Cancelled" 
+                                : "Registration Closed"}
                         </Button>
+                      ) : myWaitlistEntry ? (
+                        <>
+                          <Button 
+                            variant="outline" 
+                            className="border-gray-700 text-white hover:bg-dark-surface"
+                            onClick={() => leaveWaitlist(myWaitlistEntry.id)}
+                          >
+                            Leave Waitlist
+                          </Button>
+                          <Button disabled className="bg-gray-700 text-white">
+                            Waitlisted (#{myWaitlistEntry.position})
+                          </Button>
+                        </>
                       ) : (
                         <Button 
                           onClick={handleRegister} 
                           className="bg-primary hover:bg-primary/90 text-white"
                           disabled={registerMutation.isPending}
                         >
-                          {registerMutation.isPending ? "Processing..." : "Register for Tournament"}
+                          {registerMutation.isPending 
+                            ? "Processing..." 
+                            : waitlist?.isFull ? "Join Waitlist" : "Register for Tournament"}
                         </Button>
                       )}
                     </>
@@ -429,6 +716,24 @@ export default function TournamentDetails({ params }: { params: { id: string } }
               </CardContent>
             </Card>
 
+            {/* Head-to-head tournaments show their bracket, battle royale ones their points table */}
+            {tournament.format !== "battle_royale" ? (
+              <div className="mb-8">
+                <BracketView 
+                  tournamentId={tournament.id} 
+                  highlightTeamIds={teams?.map((team) => team.id)} 
+                />
+              </div>
+            ) : (tournament.status === "live" || tournament.status === "completed") && (
+              <div className="mb-8">
+                <StandingsTable 
+                  tournamentId={tournament.id} 
+                  highlightTeamIds={teams?.map((team) => team.id)} 
+                  highlightUserId={user?.id}
+                />
+              </div>
+            )}
+
             {/* Rules & Info */}
             <Card className="bg-dark-card border-gray-800">
               <CardHeader>
@@ -512,15 +817,40 @@ export default function TournamentDetails({ params }: { params: { id: string } }
                     )}
                   </div>
                   
-                  <h3 className="text-white text-lg font-medium mt-6 mb-4">Scoring System</h3>
+                  <h3 className="text-white text-lg font-medium mt-6 mb-4">
+                    {tournament.format === "battle_royale" ? "Scoring System" : "Match Format"}
+                  </h3>
                   
-                  <ul className="list-disc pl-5 space-y-2 text-gray-300">
-                    <li>Chicken Dinner: 20 points</li>
-                    <li>2nd Place: 14 points</li>
-                    <li>3rd Place: 10 points</li>
-                    <li>4th to 10th Place: 7-1 points (descending)</li>
-                    <li>Each Kill: 1 point</li>
-                  </ul>
+                  {tournament.format === "single_elimination" ? (
+                    <ul className="list-disc pl-5 space-y-2 text-gray-300">
+                      <li>Single elimination: one loss and your team is out</li>
+                      <li>Teams without an opponent in the first round get a bye</li>
+                      <li>The winner of the final is the champion</li>
+                    </ul>
+                  ) : tournament.format === "double_elimination" ? (
+                    <ul className="list-disc pl-5 space-y-2 text-gray-300">
+                      <li>Double elimination: a team is out after its second loss</li>
+                      <li>First losses drop teams into the losers bracket</li>
+                      <li>If the losers bracket champion wins the grand final, a deciding reset match is played</li>
+                    </ul>
+                  ) : standings ? (
+                    <>
+                      <p className="text-gray-400 text-sm mb-3">{standings.rules.name}</p>
+                      <ul className="list-disc pl-5 space-y-2 text-gray-300">
+                        {standings.rules.placementPoints.map((points, index) => (
+                          <li key={index}>
+                            {index === 0 ? "Chicken Dinner" : `${getOrdinal(index + 1)} Place`}: {points} points
+                          </li>
+                        ))}
+                        <li>
+                          Each Kill: {standings.rules.pointsPerKill} {standings.rules.pointsPerKill === 1 ? "point" : "points"}
+                          {standings.rules.killCap !== null && ` (up to ${standings.rules.killCap} kills per match)`}
+                        </li>
+                      </ul>
+                    </>
+                  ) : (
+                    <p className="text-gray-400">Loading scoring rules...</p>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -530,27 +860,38 @@ export default function TournamentDetails({ params }: { params: { id: string } }
           <div>
             <Card className="bg-dark-card border-gray-800">
               <CardHeader className="flex flex-row items-center justify-between pb-2">
-                <CardTitle className="text-white">Registered Teams</CardTitle>
+                <CardTitle className="text-white">Slot List</CardTitle>
                 <Badge variant="outline" className="text-gray-400 bg-dark-surface">
-                  {registrations ? registrations.length : "0"}/{tournament.totalSlots}
+                  {activeRegistrations ? activeRegistrations.length : "0"}/{tournament.totalSlots}
                 </Badge>
               </CardHeader>
               <CardContent>
                 {isRegistrationsLoading ? (
                   <p className="text-gray-400 text-center py-4">Loading registrations...</p>
-                ) : registrations && registrations.length > 0 ? (
+                ) : activeRegistrations && activeRegistrations.length > 0 ? (
                   <div className="space-y-3 max-h-[400px] overflow-y-auto pr-2">
-                    {registrations.map((registration: any, index) => (
+                    {[...activeRegistrations]
+                      // Seated teams first in slot order, unseated teams after them
+                      .sort((a: any, b: any) => (a.slot ?? Infinity) - (b.slot ?? Infinity))
+                      .map((registration: any) => (
                       <div 
                         key={registration.id} 
                         className="bg-dark-surface p-3 rounded-lg border border-gray-800 flex justify-between items-center"
                       >
                         <div className="flex items-center">
                           <div className="h-8 w-8 rounded-full bg-primary/20 flex items-center justify-center text-primary mr-3">
-                            <span className="font-bold">{registration.slot || index + 1}</span>
+                            <span className="font-bold">{registration.slot ?? "–"}</span>
                           </div>
                           <div>
-                            <p className="text-white font-medium">{registration.team?.name || "Team"}</p>
+                            <p className="text-white font-medium">
+                              {registration.entrantName || registration.team?.name || "Team"}
+                              {registration.status === "pending" && (
+                                <span className="ml-2 text-xs font-normal text-yellow-400">Pending approval</span>
+                              )}
+                              {registration.checkedInAt && (
+                                <CheckCircle className="inline h-4 w-4 ml-2 text-green-400" />
+                              )}
+                            </p>
                             {isAdmin && registration.team?.owner && (
                               <p className="text-gray-400 text-xs">
                                 Owner: {registration.team.owner.username} • Registered: {new Date(registration.registeredAt).toLocaleDateString()}
@@ -564,10 +905,11 @@ export default function TournamentDetails({ params }: { params: { id: string } }
                             size="sm"
                             className="text-red-400 hover:text-red-300 hover:bg-red-900/20"
                             onClick={() => {
-                              if (confirm(`Remove ${registration.team?.name || "this team"} from the tournament?`)) {
+                              if (confirm(`Remove ${registration.entrantName || "this team"} from the tournament?`)) {
                                 apiRequest("DELETE", `/api/registrations/${registration.id}`)
                                   .then(() => {
                                     queryClient.invalidateQueries({ queryKey: [`/api/tournaments/${tournamentId}/registrations`] });
+                                    queryClient.invalidateQueries({ queryKey: [`/api/tournaments/${tournamentId}/waitlist`] });
                                     toast({
                                       title: "Team removed",
                                       description: "The team has been removed from the tournament",
@@ -609,7 +951,7 @@ export default function TournamentDetails({ params }: { params: { id: string } }
                           const headers = ['Slot', 'Team Name', 'Owner', 'Email', 'Phone', 'Registration Date'];
                           const rows = registrations.map((reg: any) => [
                             reg.slot,
-                            reg.team?.name || 'Unknown',
+                            reg.entrantName || reg.team?.name || 'Unknown',
                             reg.team?.owner?.username || 'Unknown',
                             reg.team?.owner?.email || 'N/A',
                             reg.team?.owner?.phone || 'N/A',
@@ -638,6 +980,44 @@ export default function TournamentDetails({ params }: { params: { id: string } }
                 )}
               </CardContent>
             </Card>
+
+            {waitlist && waitlist.entries.length > 0 && (
+              <Card className="bg-dark-card border-gray-800 mt-8">
+                <CardHeader className="flex flex-row items-center justify-between pb-2">
+                  <CardTitle className="text-white">Waitlist</CardTitle>
+                  <Badge variant="outline" className="text-gray-400 bg-dark-surface">
+                    {waitlist.entries.length}
+                  </Badge>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2 max-h-[300px] overflow-y-auto pr-2">
+                    {waitlist.entries.map((entry) => (
+                      <div 
+                        key={entry.id} 
+                        className={`bg-dark-surface p-3 rounded-lg border flex justify-between items-center ${
+                          entry.id === myWaitlistEntry?.id ? "border-primary/60" : "border-gray-800"
+                        }`}
+                      >
+                        <div className="flex items-center">
+                          <span className="text-gray-400 font-bold w-8">#{entry.position}</span>
+                          <p className="text-white">{entry.teamName}</p>
+                        </div>
+                        {isAdmin && (
+                          <Button 
+                            variant="ghost" 
+                            size="sm"
+                            className="text-red-400 hover:text-red-300 hover:bg-red-900/20"
+                            onClick={() => leaveWaitlist(entry.id)}
+                          >
+                            Remove
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
           </div>
         </div>
       </div>
@@ -646,32 +1026,48 @@ export default function TournamentDetails({ params }: { params: { id: string } }
       <Dialog open={registerDialogOpen} onOpenChange={setRegisterDialogOpen}>
         <DialogContent className="bg-dark-card border-gray-800 text-white">
           <DialogHeader>
-            <DialogTitle>Register for Tournament</DialogTitle>
+            <DialogTitle>{waitlist?.isFull ? "Join Waitlist" : "Register for Tournament"}</DialogTitle>
             <DialogDescription className="text-gray-400">
-              Select a team to register for {tournament.title}
+              {waitlist?.isFull
+                ? `${tournament.title} is full. ${isSolo ? "You" : "Your team"} will be registered automatically if a slot opens up.`
+                : isSolo
+                  ? `Confirm your registration for ${tournament.title}`
+                  : `Select a team to register for ${tournament.title}`}
             </DialogDescription>
           </DialogHeader>
 
           <div className="py-4">
-            <div className="space-y-2">
-              <label className="text-sm font-medium text-gray-300">Select Team</label>
-              <Select value={selectedTeamId} onValueChange={setSelectedTeamId}>
-                <SelectTrigger className="bg-dark-surface border-gray-700 text-white">
-                  <SelectValue placeholder="Select a team" />
-                </SelectTrigger>
-                <SelectContent className="bg-dark-card border-gray-700">
-                  {teams?.map((team) => (
-                    <SelectItem 
-                      key={team.id} 
-                      value={team.id.toString()}
-                      className="text-white focus:bg-dark-surface focus:text-white"
-                    >
-                      {team.name}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
+            {!isSolo && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-300">Select Team</label>
+                <Select value={selectedTeamId} onValueChange={setSelectedTeamId} disabled={eligibleTeams.length === 0}>
+                  <SelectTrigger className="bg-dark-surface border-gray-700 text-white">
+                    <SelectValue placeholder={eligibleTeams.length === 0 ? "None of your teams can enter" : "Select a team"} />
+                  </SelectTrigger>
+                  <SelectContent className="bg-dark-card border-gray-700">
+                    {eligibleTeams.map((team) => (
+                      <SelectItem 
+                        key={team.id} 
+                        value={team.id.toString()}
+                        className="text-white focus:bg-dark-surface focus:text-white"
+                      >
+                        {team.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {ineligibleTeams.length > 0 && (
+                  <div className="pt-2 space-y-1">
+                    <p className="text-xs font-medium text-gray-400">Not eligible</p>
+                    {ineligibleTeams.map(({ team, reason }) => (
+                      <p key={team.id} className="text-xs text-gray-500">
+                        <span className="text-gray-300">{team.name}</span>: {reason}
+                      </p>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
 
             <div className="mt-4 p-3 bg-dark-surface border border-gray-700 rounded-md">
               <h4 className="text-sm font-medium text-white mb-2">Tournament Info</h4>
@@ -683,15 +1079,7 @@ export default function TournamentDetails({ params }: { params: { id: string } }
                     ? `₹${tournament.entryFee}` 
                     : "Free"}
                 </span>
-                {tournament.teamType && (
-                  <span className="block mt-2 font-medium text-amber-400">
-                    {tournament.teamType.toLowerCase() === 'squad' 
-                      ? '⚠️ Squad tournaments require at least 4 team members'
-                      : tournament.teamType.toLowerCase() === 'duo'
-                        ? '⚠️ Duo tournaments require at least 2 team members'
-                        : '✓ Solo tournaments don\'t require team members'}
-                  </span>
-                )}
+                <RosterRulesNote tournamentId={tournament.id} />
               </p>
             </div>
           </div>
@@ -707,9 +1095,50 @@ export default function TournamentDetails({ params }: { params: { id: string } }
             <Button
               onClick={confirmRegistration}
               className="bg-primary hover:bg-primary/90 text-white"
-              disabled={registerMutation.isPending || !selectedTeamId}
+              disabled={registerMutation.isPending || (!isSolo && !selectedTeamId)}
+            >
+              {registerMutation.isPending 
+                ? "Registering..." 
+                : waitlist?.isFull ? "Join Waitlist" : "Confirm Registration"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Cancel Tournament Dialog */}
+      <Dialog open={cancelDialogOpen} onOpenChange={setCancelDialogOpen}>
+        <DialogContent className="bg-dark-card border-gray-800 text-white">
+          <DialogHeader>
+            <DialogTitle>Cancel Tournament</DialogTitle>
+            <DialogDescription className="text-gray-400">
+              Every registered and waitlisted player will be notified, and paid entry fees will be marked as refunded. This cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="py-4 space-y-2">
+            <label className="text-sm font-medium text-gray-300">Reason</label>
+            <Textarea
+              value={cancelReason}
+              onChange={(e) => setCancelReason(e.target.value)}
+              placeholder="Tell players why the tournament is cancelled"
+              className="bg-dark-surface border-gray-700 text-white"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setCancelDialogOpen(false)}
+              className="border-gray-700 text-white hover:bg-dark-surface"
+            >
+              Keep Tournament
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => cancelMutation.mutate(cancelReason)}
+              disabled={cancelMutation.isPending || cancelReason.trim().length < 5}
             >
-              {registerMutation.isPending ? "Registering..." : "Confirm Registration"}
+              {cancelMutation.isPending ? "Cancelling..." : "Cancel Tournament"}
             </Button>
           </DialogFooter>
         </DialogContent>
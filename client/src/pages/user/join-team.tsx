@@ -0,0 +1,109 @@
+import { useLocation } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, Loader2, Users } from "lucide-react";
+
+type InvitePreview = {
+  team: { id: number; name: string; gameType: string };
+  status: "active" | "expired" | "used_up" | "revoked";
+  error: string | null;
+  expiresAt: string | null;
+};
+
+export default function JoinTeam({ params }: { params: { token: string } }) {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const inviteKey = `/api/invites/${params.token}`;
+
+  const { data: invite, isLoading, error } = useQuery<InvitePreview>({
+    queryKey: [inviteKey],
+    retry: false,
+  });
+
+  const joinMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `${inviteKey}/join`);
+      return res.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/teams/my"] });
+      toast(data.pending
+        ? {
+            title: "Request sent",
+            description: `${data.team.name} approves new members. You'll be notified once the owner reviews your request.`,
+          }
+        : {
+            title: "Team joined successfully!",
+            description: `You are now a member of the team: ${data.team.name}`,
+          });
+      navigate("/user/team");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to join team",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <Card className="max-w-md mx-auto bg-dark-card border-gray-800">
+        <CardHeader>
+          <CardTitle className="text-white flex items-center">
+            <Users className="mr-2 h-5 w-5 text-primary" />
+            {invite ? `Join ${invite.team.name}` : "Team Invite"}
+          </CardTitle>
+          <CardDescription className="text-gray-400">
+            {invite ? `You've been invited to play ${invite.team.gameType} with ${invite.team.name}` : "This invite link could not be found"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {(error || invite?.error) && (
+            <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-md">
+              <p className="text-red-400 text-sm flex items-start">
+                <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                {invite?.error || "Ask the team owner for a new invite link."}
+              </p>
+            </div>
+          )}
+        </CardContent>
+        <CardFooter className="flex justify-end gap-3">
+          <Button
+            variant="outline"
+            className="border-gray-700 text-white hover:bg-dark-surface"
+            onClick={() => navigate("/user/team")}
+          >
+            My Teams
+          </Button>
+          {invite && !invite.error && (
+            <Button
+              className="bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700 text-white shadow-md"
+              onClick={() => joinMutation.mutate()}
+              disabled={joinMutation.isPending}
+            >
+              {joinMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Joining...
+                </>
+              ) : "Join Team"}
+            </Button>
+          )}
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -5,6 +5,11 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { TeamForm } from "@/components/user/team-form";
 import { TeamCard } from "@/components/ui/team-card";
 import { JoinTeamForm } from "@/components/user/join-team-form";
+import { JoinRequests } from "@/components/user/join-requests";
+import { TeamInvites } from "@/components/user/team-invites";
+import { InviteMemberDialog } from "@/components/user/invite-member-dialog";
+import { MyInvitations, PendingInvitations } from "@/components/user/member-invitations";
+import { TeamAccessGate, TeamRoles } from "@/components/user/team-roles";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
@@ -17,11 +22,8 @@ import {
   DialogFooter,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Team, TeamMember } from "@shared/schema";
-import { Users, AlertTriangle, Plus, RefreshCw, User } from "lucide-react";
+import { Users, AlertTriangle, Plus, RefreshCw } from "lucide-react";
 
 export default function UserTeam() {
   const { isAuthenticated, isAdmin, isLoading, user } = useAuth();
@@ -33,11 +35,6 @@ export default function UserTeam() {
   const [memberToDeleteName, setMemberToDeleteName] = useState<string>("");
   const [addMemberDialogOpen, setAddMemberDialogOpen] = useState(false);
   const [selectedTeam, setSelectedTeam] = useState<Team | null>(null);
-  const [memberData, setMemberData] = useState({
-    username: "",
-    gameId: "",
-    role: "member" // default role
-  });
   const [createTeamDialogOpen, setCreateTeamDialogOpen] = useState(false);
   const [deleteTeamDialogOpen, setDeleteTeamDialogOpen] = useState(false);
   const [teamToDelete, setTeamToDelete] = useState<number | null>(null);
@@ -89,33 +86,6 @@ export default function UserTeam() {
     }
   }, [isAuthenticated, isAdmin, isLoading, navigate]);
 
-  // Add team member mutation
-  const addMemberMutation = useMutation({
-    mutationFn: async (data: { username: string; gameId: string; teamId: number; role: string }) => {
-      const res = await apiRequest("POST", `/api/teams/${data.teamId}/members`, data);
-      return res.json();
-    },
-    onSuccess: () => {
-      if (selectedTeam) {
-        queryClient.invalidateQueries({ queryKey: [`/api/teams/${selectedTeam.id}/members`] });
-        toast({
-          title: "Team member added",
-          description: "The team member has been added successfully",
-        });
-      }
-      setAddMemberDialogOpen(false);
-      setMemberData({ username: "", gameId: "", role: "member" });
-      setSelectedTeam(null);
-    },
-    onError: (error: Error) => {
-      toast({
-        title: "Failed to add team member",
-        description: error.message,
-        variant: "destructive",
-      });
-    },
-  });
-
   const handleAddMember = (team: Team) => {
     setSelectedTeam(team);
     setAddMemberDialogOpen(true);
@@ -280,6 +250,8 @@ export default function UserTeam() {
           </div>
         </div>
 
+        <MyInvitations />
+
         <div className="space-y-8">
           {!hasTeam ? (
             <div className="grid md:grid-cols-2 gap-8">
@@ -353,6 +325,34 @@ export default function UserTeam() {
                       />
                     </CardContent>
                   </Card>
+
+                  <TeamAccessGate team={team} action="manageRoster">
+                    <Card className="bg-dark-card border-gray-800">
+                      <CardHeader>
+                        <CardTitle className="text-white">Joining the Team</CardTitle>
+                        <CardDescription className="text-gray-400">
+                          Choose who gets in with your invite code and links
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent className="space-y-6">
+                        <TeamInvites team={team} />
+                        <PendingInvitations team={team} />
+                        <JoinRequests team={team} />
+                      </CardContent>
+                    </Card>
+                  </TeamAccessGate>
+
+                  <Card className="bg-dark-card border-gray-800">
+                    <CardHeader>
+                      <CardTitle className="text-white">Roles & Permissions</CardTitle>
+                      <CardDescription className="text-gray-400">
+                        Who can register, manage the roster, edit and delete the team
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <TeamRoles team={team} />
+                    </CardContent>
+                  </Card>
                 </div>
               ))}
             </>
@@ -403,115 +403,15 @@ export default function UserTeam() {
           </DialogContent>
         </Dialog>
         
-        {/* Add Team Member Dialog */}
-        <Dialog open={addMemberDialogOpen} onOpenChange={setAddMemberDialogOpen}>
-          <DialogContent className="bg-dark-card border-gray-800 text-white">
-            <DialogHeader>
-              <DialogTitle className="flex items-center">
-                <Plus className="h-5 w-5 text-primary mr-2" />
-                Add Team Member
-              </DialogTitle>
-              <DialogDescription className="text-gray-400">
-                Add a new member to your team. The user must already exist on the platform.
-              </DialogDescription>
-            </DialogHeader>
-            
-            <div className="p-2 mb-4 bg-indigo-600/10 border border-indigo-600/20 rounded-md">
-              <p className="text-indigo-400 text-sm flex items-start">
-                <User className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
-                Adding a member to <span className="font-semibold text-indigo-300 mx-1">{selectedTeam?.name}</span>
-              </p>
-            </div>
-            
-            <div className="space-y-4 py-2">
-              <div className="space-y-2">
-                <Label htmlFor="username" className="text-white">Username <span className="text-red-400">*</span></Label>
-                <Input
-                  id="username"
-                  placeholder="Enter member's username"
-                  className="bg-dark-surface border-gray-700 text-white"
-                  value={memberData.username}
-                  onChange={(e) => setMemberData({ ...memberData, username: e.target.value })}
-                />
-                <p className="text-xs text-gray-400">The username must match an existing user in the system</p>
-              </div>
-              
-              <div className="space-y-2">
-                <Label htmlFor="gameId" className="text-white">Game ID <span className="text-red-400">*</span></Label>
-                <Input
-                  id="gameId"
-                  placeholder="Enter member's BGMI ID"
-                  className="bg-dark-surface border-gray-700 text-white"
-                  value={memberData.gameId}
-                  onChange={(e) => setMemberData({ ...memberData, gameId: e.target.value })}
-                />
-                <p className="text-xs text-gray-400">Enter the in-game ID (BGMI/FREEFIRE/COD) for this member</p>
-              </div>
-              
-              <div className="space-y-2">
-                <Label htmlFor="role" className="text-white">Role <span className="text-red-400">*</span></Label>
-                <Select
-                  value={memberData.role}
-                  onValueChange={(value) => setMemberData({ ...memberData, role: value })}
-                >
-                  <SelectTrigger className="bg-dark-surface border-gray-700 text-white">
-                    <SelectValue placeholder="Select role" />
-                  </SelectTrigger>
-                  <SelectContent className="bg-dark-card border-gray-800">
-                    <SelectItem value="member" className="text-white hover:bg-dark-surface">Team Member</SelectItem>
-                    <SelectItem value="substitute" className="text-white hover:bg-dark-surface">Substitute</SelectItem>
-                  </SelectContent>
-                </Select>
-                <p className="text-xs text-gray-400">Regular team members count toward team size limits</p>
-              </div>
-            </div>
-            
-            <DialogFooter>
-              <Button 
-                variant="outline" 
-                onClick={() => {
-                  setAddMemberDialogOpen(false);
-                  setMemberData({ username: "", gameId: "", role: "member" });
-                }}
-                className="border-gray-700 text-white hover:bg-dark-surface"
-              >
-                Cancel
-              </Button>
-              <Button 
-                className="bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700 text-white shadow-md"
-                onClick={() => {
-                  if (selectedTeam && memberData.username && memberData.gameId) {
-                    addMemberMutation.mutate({
-                      teamId: selectedTeam.id,
-                      username: memberData.username,
-                      gameId: memberData.gameId,
-                      role: memberData.role
-                    });
-                  } else {
-                    toast({
-                      title: "Missing information",
-                      description: "Please fill in all fields",
-                      variant: "destructive"
-                    });
-                  }
-                }}
-                disabled={addMemberMutation.isPending || !memberData.username || !memberData.gameId}
-              >
-                {addMemberMutation.isPending ? (
-                  <>
-                    <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
-                    Adding...
-                  </>
-                ) : (
-                  <>
-                    <Plus className="h-4 w-4 mr-2" />
-                    Add Member
-                  </>
-                )}
-              </Button>
-            </DialogFooter>
-          </DialogContent>
-        </Dialog>
+        {/* Invite Team Member Dialog */}
+        <InviteMemberDialog
+          team={selectedTeam}
+          open={addMemberDialogOpen}
+          onOpenChange={(open) => {
+            setAddMemberDialogOpen(open);
+            if (!open) setSelectedTeam(null);
+          }}
+        />
         
         {/* Delete Team Confirmation Dialog */}
         <Dialog open={deleteTeamDialogOpen} onOpenChange={setDeleteTeamDialogOpen}>
@@ -0,0 +1,22 @@
+#!/usr/bin/env tsx
+/**
+ * This script links team members added before members had accounts to the
+ * account with their username. Run it once when upgrading; the server no
+ * longer matches unlinked members to accounts by name.
+ *
+ * Usage:
+ * npx tsx scripts/link-team-members.ts
+ */
+
+import 'dotenv/config';
+import { linkTeamMembers } from '../server/team-membership';
+
+linkTeamMembers()
+  .then((linked) => {
+    console.log(`Linked ${linked} team members to their user accounts`);
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Failed to link team members:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,383 @@
+/**
+ * Bracket Engine
+ * Generates single and double elimination brackets for head-to-head tournaments
+ * and moves teams through them as results are reported
+ */
+import { storage } from './storage';
+import { holdsSlot } from './slot-allocator';
+import { BracketMatch, Registration, Tournament, TournamentFormat } from '@shared/schema';
+
+type BracketSlot = 1 | 2;
+
+// A match planned before it is saved, linked to other planned matches by key
+interface PlannedMatch {
+  key: string;
+  bracket: 'winners' | 'losers' | 'grand_final';
+  round: number;
+  position: number;
+  team1RegistrationId: number | null;
+  team2RegistrationId: number | null;
+  next?: { key: string; slot: BracketSlot };
+  loserNext?: { key: string; slot: BracketSlot };
+}
+
+const matchKey = (bracket: string, round: number, position: number) => `${bracket}-${round}-${position}`;
+
+/**
+ * Registrations that take part in a tournament's bracket, seeded by slot
+ */
+export async function getBracketEntrants(tournamentId: number): Promise<Registration[]> {
+  const registrations = await storage.getRegistrationsByTournament(tournamentId);
+
+  return registrations
+    .filter(holdsSlot)
+    .sort((a, b) => (a.slot ?? Number.MAX_SAFE_INTEGER) - (b.slot ?? Number.MAX_SAFE_INTEGER));
+}
+
+/**
+ * Standard seeding order for a bracket of the given size, so that the top
+ * seeds can only meet in the later rounds: [1, 8, 4, 5, 2, 7, 3, 6] for 8
+ */
+export function getSeedOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const roundSize = order.length * 2;
+    order = order.flatMap(seed => [seed, roundSize + 1 - seed]);
+  }
+  return order;
+}
+
+/**
+ * Lay out every match of the bracket with the links between them
+ */
+function planBracket(entrantIds: number[], format: TournamentFormat): PlannedMatch[] {
+  const size = Math.max(2, Math.pow(2, Math.ceil(Math.log2(entrantIds.length))));
+  const winnersRounds = Math.log2(size);
+  const planned: PlannedMatch[] = [];
+
+  // Seeds beyond the number of entrants are byes
+  const seedOrder = getSeedOrder(size);
+  const entrantAt = (index: number) => entrantIds[seedOrder[index] - 1] ?? null;
+
+  for (let round = 1; round <= winnersRounds; round++) {
+    const matchCount = size / Math.pow(2, round);
+    for (let position = 0; position < matchCount; position++) {
+      planned.push({
+        key: matchKey('winners', round, position),
+        bracket: 'winners',
+        round,
+        position,
+        team1RegistrationId: round === 1 ? entrantAt(position * 2) : null,
+        team2RegistrationId: round === 1 ? entrantAt(position * 2 + 1) : null,
+        next: round < winnersRounds
+          ? { key: matchKey('winners', round + 1, Math.floor(position / 2)), slot: position % 2 === 0 ? 1 : 2 }
+          : undefined
+      });
+    }
+  }
+
+  if (format !== 'double_elimination') {
+    return planned;
+  }
+
+  // Losers bracket: odd rounds pair up survivors, even rounds take in the
+  // teams dropping down from the next winners round
+  const losersRounds = 2 * (winnersRounds - 1);
+  for (let round = 1; round <= losersRounds; round++) {
+    const matchCount = size / Math.pow(2, Math.ceil(round / 2) + 1);
+    for (let position = 0; position < matchCount; position++) {
+      let next: PlannedMatch['next'];
+      if (round === losersRounds) {
+        next = { key: matchKey('grand_final', 1, 0), slot: 2 };
+      } else if (round % 2 === 1) {
+        next = { key: matchKey('losers', round + 1, position), slot: 1 };
+      } else {
+        next = { key: matchKey('losers', round + 1, Math.floor(position / 2)), slot: position % 2 === 0 ? 1 : 2 };
+      }
+
+      planned.push({
+        key: matchKey('losers', round, position),
+        bracket: 'losers',
+        round,
+        position,
+        team1RegistrationId: null,
+        team2RegistrationId: null,
+        next
+      });
+    }
+  }
+
+  // Send every winners bracket loser down to the losers bracket
+  for (const match of planned) {
+    if (match.bracket !== 'winners') continue;
+
+    if (losersRounds === 0) {
+      match.loserNext = { key: matchKey('grand_final', 1, 0), slot: 2 };
+    } else if (match.round === 1) {
+      match.loserNext = { key: matchKey('losers', 1, Math.floor(match.position / 2)), slot: match.position % 2 === 0 ? 1 : 2 };
+    } else {
+      match.loserNext = { key: matchKey('losers', 2 * (match.round - 1), match.position), slot: 2 };
+    }
+
+    if (match.round === winnersRounds) {
+      match.next = { key: matchKey('grand_final', 1, 0), slot: 1 };
+    }
+  }
+
+  planned.push({
+    key: matchKey('grand_final', 1, 0),
+    bracket: 'grand_final',
+    round: 1,
+    position: 0,
+    team1RegistrationId: null,
+    team2RegistrationId: null
+  });
+
+  return planned;
+}
+
+/**
+ * The team that lost a completed match, if it was actually played
+ */
+function getLoser(match: BracketMatch): number | null {
+  if (match.isBye || match.winnerRegistrationId === null) return null;
+  return match.winnerRegistrationId === match.team1RegistrationId
+    ? match.team2RegistrationId
+    : match.team1RegistrationId;
+}
+
+/**
+ * Put a team into one slot of a match
+ */
+async function fillSlot(matchId: number | null, slot: number | null, registrationId: number | null): Promise<void> {
+  if (!matchId || !slot || registrationId === null) return;
+
+  await storage.updateBracketMatch(matchId, slot === 1
+    ? { team1RegistrationId: registrationId }
+    : { team2RegistrationId: registrationId });
+}
+
+/**
+ * Work out whether a slot of a match is still waiting for a team,
+ * or will never receive one because everything feeding it was a bye
+ */
+function isSlotDead(match: BracketMatch, slot: BracketSlot, matches: BracketMatch[]): boolean {
+  const teamId = slot === 1 ? match.team1RegistrationId : match.team2RegistrationId;
+  if (teamId !== null) return false;
+
+  const feeder = matches.find(m =>
+    (m.nextMatchId === match.id && m.nextMatchSlot === slot) ||
+    (m.loserNextMatchId === match.id && m.loserNextMatchSlot === slot)
+  );
+
+  // Nothing feeds this slot: it was an empty seed in the first round
+  if (!feeder) return true;
+  if (feeder.status !== 'completed') return false;
+
+  // The feeder has finished without producing a team for this slot
+  return feeder.nextMatchId === match.id && feeder.nextMatchSlot === slot
+    ? feeder.winnerRegistrationId === null
+    : getLoser(feeder) === null;
+}
+
+/**
+ * Resolve byes and mark matches ready once both teams are known.
+ * Repeats until nothing changes, since one bye can create another.
+ */
+export async function settleBracket(tournamentId: number): Promise<void> {
+  let changed = true;
+
+  while (changed) {
+    changed = false;
+    const matches = await storage.getBracketMatches(tournamentId);
+
+    for (const match of matches) {
+      if (match.status === 'completed') continue;
+
+      const team1 = match.team1RegistrationId;
+      const team2 = match.team2RegistrationId;
+
+      if (team1 !== null && team2 !== null) {
+        if (match.status !== 'ready') {
+          await storage.updateBracketMatch(match.id, { status: 'ready' });
+          changed = true;
+        }
+        continue;
+      }
+
+      const team1Dead = isSlotDead(match, 1, matches);
+      const team2Dead = isSlotDead(match, 2, matches);
+
+      // One team with no possible opponent walks through; no teams at all leaves an empty match
+      if ((team1Dead || team1 !== null) && (team2Dead || team2 !== null)) {
+        const winner = team1 ?? team2;
+        await storage.updateBracketMatch(match.id, {
+          status: 'completed',
+          isBye: true,
+          winnerRegistrationId: winner
+        });
+        await fillSlot(match.nextMatchId, match.nextMatchSlot, winner);
+        changed = true;
+        break; // Reload so the next pass sees the updated slots
+      }
+    }
+  }
+}
+
+/**
+ * Create the bracket for a tournament, replacing any existing one
+ * @returns Saved matches of the new bracket
+ */
+export async function generateBracket(tournament: Tournament, entrants: Registration[]): Promise<BracketMatch[]> {
+  const format = tournament.format as TournamentFormat;
+  const planned = planBracket(entrants.map(e => e.id), format);
+
+  await storage.deleteBracketMatches(tournament.id);
+
+  // Save every match first, then link them up once ids are known
+  const ids: Record<string, number> = {};
+  for (const match of planned) {
+    const saved = await storage.createBracketMatch({
+      tournamentId: tournament.id,
+      bracket: match.bracket,
+      round: match.round,
+      position: match.position,
+      team1RegistrationId: match.team1RegistrationId,
+      team2RegistrationId: match.team2RegistrationId,
+      status: 'pending'
+    });
+    ids[match.key] = saved.id;
+  }
+
+  for (const match of planned) {
+    if (!match.next && !match.loserNext) continue;
+    await storage.updateBracketMatch(ids[match.key], {
+      nextMatchId: match.next ? ids[match.next.key] : null,
+      nextMatchSlot: match.next ? match.next.slot : null,
+      loserNextMatchId: match.loserNext ? ids[match.loserNext.key] : null,
+      loserNextMatchSlot: match.loserNext ? match.loserNext.slot : null
+    });
+  }
+
+  await settleBracket(tournament.id);
+
+  return storage.getBracketMatches(tournament.id);
+}
+
+/**
+ * Take a team back out of a match slot, also undoing any bye it walked through
+ */
+async function clearSlot(matchId: number | null, slot: number | null): Promise<void> {
+  if (!matchId || !slot) return;
+
+  const match = await storage.getBracketMatch(matchId);
+  if (!match) return;
+
+  if (match.status === 'completed' && match.isBye) {
+    await clearSlot(match.nextMatchId, match.nextMatchSlot);
+  }
+
+  await storage.updateBracketMatch(matchId, {
+    ...(slot === 1 ? { team1RegistrationId: null } : { team2RegistrationId: null }),
+    winnerRegistrationId: null,
+    isBye: false,
+    status: 'pending'
+  });
+}
+
+/**
+ * Check whether the matches a result was sent on to have been played yet,
+ * following teams through any byes they walked through
+ */
+async function hasPlayedOnwards(matchId: number | null): Promise<boolean> {
+  if (!matchId) return false;
+
+  const match = await storage.getBracketMatch(matchId);
+  if (!match || match.status !== 'completed') return false;
+  if (!match.isBye) return true;
+
+  return hasPlayedOnwards(match.nextMatchId);
+}
+
+/**
+ * Check whether a reported match can still be corrected: the teams it sent
+ * on must not have played their next match yet
+ */
+export async function canCorrectResult(match: BracketMatch): Promise<boolean> {
+  if (await hasPlayedOnwards(match.nextMatchId)) return false;
+  if (await hasPlayedOnwards(match.loserNextMatchId)) return false;
+
+  // A grand final reset is played once the first grand final is in
+  if (match.bracket === 'grand_final' && match.round === 1) {
+    const matches = await storage.getBracketMatches(match.tournamentId);
+    const reset = matches.find(m => m.bracket === 'grand_final' && m.round === 2);
+    if (reset && reset.status === 'completed') return false;
+  }
+
+  return true;
+}
+
+/**
+ * Record the score of a bracket match and move both teams on
+ */
+export async function reportBracketResult(
+  match: BracketMatch,
+  team1Score: number,
+  team2Score: number
+): Promise<BracketMatch> {
+  // Undo a previous result before applying the corrected one
+  if (match.status === 'completed') {
+    await clearSlot(match.nextMatchId, match.nextMatchSlot);
+    await clearSlot(match.loserNextMatchId, match.loserNextMatchSlot);
+  }
+
+  const winner = team1Score > team2Score ? match.team1RegistrationId : match.team2RegistrationId;
+  const loser = winner === match.team1RegistrationId ? match.team2RegistrationId : match.team1RegistrationId;
+
+  const updatedMatch = await storage.updateBracketMatch(match.id, {
+    team1Score,
+    team2Score,
+    winnerRegistrationId: winner,
+    status: 'completed'
+  }) || match;
+
+  await fillSlot(match.nextMatchId, match.nextMatchSlot, winner);
+  await fillSlot(match.loserNextMatchId, match.loserNextMatchSlot, loser);
+
+  // Double elimination: the winners bracket champion has to lose twice,
+  // so a grand final won by the losers bracket side forces a reset match
+  if (match.bracket === 'grand_final' && match.round === 1) {
+    const matches = await storage.getBracketMatches(match.tournamentId);
+    const reset = matches.find(m => m.bracket === 'grand_final' && m.round === 2);
+
+    if (winner === match.team2RegistrationId && !reset) {
+      await storage.createBracketMatch({
+        tournamentId: match.tournamentId,
+        bracket: 'grand_final',
+        round: 2,
+        position: 0,
+        team1RegistrationId: match.team1RegistrationId,
+        team2RegistrationId: match.team2RegistrationId,
+        status: 'ready'
+      });
+    } else if (winner === match.team1RegistrationId && reset) {
+      await storage.deleteBracketMatch(reset.id);
+    }
+  }
+
+  await settleBracket(match.tournamentId);
+
+  return updatedMatch;
+}
+
+/**
+ * The champion of a finished bracket, or null while matches remain
+ */
+export function getBracketChampion(matches: BracketMatch[]): number | null {
+  const finals = matches.filter(m => m.nextMatchId === null && m.bracket !== 'losers');
+  if (finals.length === 0) return null;
+
+  // The last final played decides it (grand final reset, grand final, or winners final)
+  const deciding = finals[finals.length - 1];
+  return deciding.status === 'completed' ? deciding.winnerRegistrationId : null;
+}
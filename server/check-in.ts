@@ -0,0 +1,107 @@
+/**
+ * Check-in
+ * Confirmed teams confirm attendance during a window before the tournament starts.
+ * Teams that miss it are marked as no-shows and their places go to the waitlist.
+ */
+import { storage } from './storage';
+import { Registration, Tournament } from '@shared/schema';
+import { holdsSlot } from './slot-allocator';
+import { promoteFromWaitlist } from './waitlist';
+import { getEntryUserIds } from './team-membership';
+
+export type CheckInWindow = {
+  opensAt: Date;
+  closesAt: Date;
+};
+
+/**
+ * When check-in opens and closes for a tournament
+ * @returns null if the tournament does not use check-in
+ */
+export function getCheckInWindow(tournament: Tournament): CheckInWindow | null {
+  if (tournament.checkInOpensMinutes === null) return null;
+
+  const start = new Date(tournament.date).getTime();
+  return {
+    opensAt: new Date(start - tournament.checkInOpensMinutes * 60 * 1000),
+    closesAt: new Date(start - tournament.checkInClosesMinutes * 60 * 1000)
+  };
+}
+
+/**
+ * Whether teams can check in right now
+ */
+export function isCheckInOpen(tournament: Tournament, now: Date = new Date()): boolean {
+  const window = getCheckInWindow(tournament);
+  return !!window && window.opensAt <= now && now < window.closesAt && !tournament.checkInProcessedAt;
+}
+
+/**
+ * Confirmed teams that are expected to check in, and how many of them have
+ */
+export async function getCheckInCounts(tournament: Tournament): Promise<{ checkedIn: number; expected: number }> {
+  const registrations = (await storage.getRegistrationsByTournament(tournament.id)).filter(holdsSlot);
+  return {
+    checkedIn: registrations.filter(r => r.checkedInAt !== null).length,
+    expected: registrations.length
+  };
+}
+
+/**
+ * Record that a team is present
+ */
+export async function checkIn(registration: Registration): Promise<Registration> {
+  const updated = await storage.updateRegistration(registration.id, { checkedInAt: new Date() });
+  return updated || registration;
+}
+
+/**
+ * Mark every confirmed team that did not check in as a no-show, release
+ * their slots and fill them from the waitlist. Runs once per tournament.
+ * @returns The registrations marked as no-shows
+ */
+export async function releaseNoShows(tournament: Tournament): Promise<Registration[]> {
+  const registrations = await storage.getRegistrationsByTournament(tournament.id);
+  const noShows = registrations.filter(r => holdsSlot(r) && r.checkedInAt === null);
+
+  for (const registration of noShows) {
+    await storage.updateRegistration(registration.id, {
+      status: 'no_show',
+      slot: null,
+      roomNumber: null
+    });
+
+    // Every player on the team lost their place, not just whoever registered it
+    for (const userId of await getEntryUserIds(registration)) {
+      await storage.createNotification({
+        userId,
+        title: `Missed Check-in - ${tournament.title}`,
+        message: registration.teamId === null
+          ? `You did not check in before the window closed, so your slot has been given to another player.`
+          : `Your team did not check in before the window closed, so its slot has been given to another team.`,
+        type: "tournament",
+        relatedId: tournament.id
+      });
+    }
+  }
+
+  // Record the sweep first so teams promoted below are not swept up as no-shows later
+  const processed = await storage.updateTournament(tournament.id, { checkInProcessedAt: new Date() });
+  await promoteFromWaitlist(processed || tournament);
+
+  if (noShows.length > 0) {
+    console.log(`Released ${noShows.length} no-show slots in tournament #${tournament.id}`);
+  }
+
+  return noShows;
+}
+
+/**
+ * Release no-shows for a tournament once its check-in window has closed
+ */
+export async function processCheckIn(tournament: Tournament, now: Date = new Date()): Promise<void> {
+  const window = getCheckInWindow(tournament);
+  if (!window || tournament.checkInProcessedAt || now < window.closesAt) return;
+
+  await releaseNoShows(tournament);
+}
@@ -0,0 +1,107 @@
+/**
+ * Duplicate Players
+ * Finds players entered in a tournament with more than one team, matched by
+ * username or game ID. New registrations are refused when they clash, and
+ * admins get a report of clashes that slipped through, e.g. via the waitlist.
+ */
+import { storage } from './storage';
+import { Registration, RosterPlayer, Tournament } from '@shared/schema';
+import { takesPlace } from './slot-allocator';
+import { snapshotRoster } from './lineups';
+import { getEntrantName } from './entrants';
+
+export type PlayerConflict = {
+  username: string;
+  gameId: string;
+  registrationId: number;
+  teamName: string;
+};
+
+export type DuplicatePlayer = {
+  username: string;
+  gameId: string;
+  teams: { registrationId: number; teamName: string; status: string }[];
+};
+
+type PlayerIdentity = Pick<RosterPlayer, 'username' | 'gameId'>;
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+/**
+ * Whether two roster entries are the same person
+ */
+function isSamePlayer(a: PlayerIdentity, b: PlayerIdentity): boolean {
+  return normalize(a.username) === normalize(b.username) ||
+    (!!a.gameId && normalize(a.gameId) === normalize(b.gameId));
+}
+
+/**
+ * A registration's roster. Registrations made before snapshots were kept
+ * fall back to the team's current members.
+ */
+async function getRoster(tournament: Tournament, registration: Registration): Promise<RosterPlayer[]> {
+  if (registration.roster.length > 0) return registration.roster;
+  return snapshotRoster(tournament, registration.teamId, registration.userId);
+}
+
+/**
+ * Players of a roster who are already entered with another team
+ * @param excludeRegistrationId The registration the roster belongs to, if it exists yet
+ */
+export async function findPlayerConflicts(
+  tournament: Tournament,
+  roster: RosterPlayer[],
+  excludeRegistrationId?: number
+): Promise<PlayerConflict[]> {
+  const registrations = (await storage.getRegistrationsByTournament(tournament.id))
+    .filter(r => takesPlace(r) && r.id !== excludeRegistrationId);
+
+  const conflicts: PlayerConflict[] = [];
+  for (const registration of registrations) {
+    const otherRoster = await getRoster(tournament, registration);
+    const clashes = roster.filter(player => otherRoster.some(other => isSamePlayer(player, other)));
+    if (clashes.length === 0) continue;
+
+    const teamName = await getEntrantName(registration);
+    clashes.forEach(player => conflicts.push({
+      username: player.username,
+      gameId: player.gameId,
+      registrationId: registration.id,
+      teamName
+    }));
+  }
+  return conflicts;
+}
+
+/**
+ * Every player entered with more than one team in a tournament
+ */
+export async function getDuplicatePlayers(tournament: Tournament): Promise<DuplicatePlayer[]> {
+  const registrations = (await storage.getRegistrationsByTournament(tournament.id)).filter(takesPlace);
+  const duplicates: DuplicatePlayer[] = [];
+
+  for (const registration of registrations) {
+    const entry = { registrationId: registration.id, teamName: await getEntrantName(registration), status: registration.status };
+
+    for (const player of await getRoster(tournament, registration)) {
+      const duplicate = duplicates.find(d => isSamePlayer(d, player));
+      if (duplicate) {
+        if (!duplicate.teams.some(t => t.registrationId === registration.id)) {
+          duplicate.teams.push(entry);
+        }
+      } else {
+        duplicates.push({ username: player.username, gameId: player.gameId, teams: [entry] });
+      }
+    }
+  }
+
+  return duplicates.filter(d => d.teams.length > 1);
+}
+
+/**
+ * Explain a clash to the team trying to register
+ */
+export function describeConflicts(conflicts: PlayerConflict[]): string {
+  const names = conflicts.map(c => `${c.username} (${c.teamName})`);
+  return `These players are already entered with another team: ${names.join(', ')}`;
+}
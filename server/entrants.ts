@@ -0,0 +1,48 @@
+/**
+ * Entrants
+ * Who holds a registration or waitlist place. Team tournaments are entered by
+ * teams; solo tournaments by the player alone, with no team attached.
+ */
+import { storage } from './storage';
+import { Team, Tournament } from '@shared/schema';
+
+type Entry = { teamId: number | null; userId: number };
+
+/**
+ * Whether players enter a tournament on their own rather than as a team
+ */
+export function isSoloTournament(tournament: Pick<Tournament, 'teamType'>): boolean {
+  return tournament.teamType?.toLowerCase() === 'solo';
+}
+
+/**
+ * The team behind an entry, if it has one
+ */
+export async function getEntryTeam(entry: Entry): Promise<Team | undefined> {
+  return entry.teamId !== null ? storage.getTeam(entry.teamId) : undefined;
+}
+
+/**
+ * What an entry is shown as - its team's name, or the player's username for solo entries
+ */
+export async function getEntrantName(entry: Entry): Promise<string> {
+  if (entry.teamId === null) {
+    const user = await storage.getUser(entry.userId);
+    return user?.username || "Unknown Player";
+  }
+
+  const team = await storage.getTeam(entry.teamId);
+  return team?.name || "Unknown Team";
+}
+
+/**
+ * Whether a team, or for solo entries the player, is already registered for a tournament
+ */
+export async function isEntered(tournamentId: number, entry: Entry): Promise<boolean> {
+  if (entry.teamId !== null) {
+    return storage.checkRegistration(tournamentId, entry.teamId);
+  }
+
+  const registrations = await storage.getRegistrationsByUser(entry.userId);
+  return registrations.some(registration => registration.tournamentId === tournamentId);
+}
@@ -0,0 +1,47 @@
+/**
+ * Game Rules
+ * What each title on the platform supports - the modes tournaments can be
+ * played in and how many players make up a full squad.
+ */
+
+type GameRules = {
+  name: string;
+  modes: string[]; // Lower-case, as compared against a tournament's team type
+  squadSize: number;
+};
+
+const games: Record<string, GameRules> = {
+  BGMI: { name: "BGMI", modes: ['solo', 'duo', 'squad'], squadSize: 4 },
+  FREEFIRE: { name: "Free Fire", modes: ['solo', 'duo', 'squad'], squadSize: 4 },
+  // COD tournaments are 5v5 multiplayer, which has no solo or duo queue
+  COD: { name: "Call of Duty", modes: ['squad'], squadSize: 5 }
+};
+
+/**
+ * The name a game is shown by
+ */
+export function getGameName(gameType: string): string {
+  return games[gameType]?.name ?? gameType;
+}
+
+/**
+ * Players in a full squad of a game
+ */
+export function getSquadSize(gameType: string): number {
+  return games[gameType]?.squadSize ?? 4;
+}
+
+/**
+ * Check a tournament's game can be played in its mode
+ * @returns An error message, or null if the game and mode go together
+ */
+export function validateGameMode(gameType: string, mode: string): string | null {
+  const game = games[gameType];
+  if (!game) {
+    return `${gameType} is not a supported game`;
+  }
+  if (!game.modes.includes(mode.toLowerCase())) {
+    return `${game.name} tournaments cannot be played in ${mode} mode`;
+  }
+  return null;
+}
@@ -0,0 +1,131 @@
+/**
+ * Join Requests
+ * Teams that approve new members turn an invite code or link into a request
+ * to join. The owner is told about each request and the player only joins
+ * once the owner approves it.
+ */
+import { storage } from './storage';
+import { Team, TeamJoinRequest, TeamMember, User } from '@shared/schema';
+import { getTeamSizeLimit } from './roster-rules';
+import { isMemberUser } from './team-membership';
+import { checkInvite, redeemInvite } from './team-invites';
+
+/**
+ * A player's request to join a team that is still waiting on the owner
+ */
+export async function getPendingRequest(teamId: number, userId: number): Promise<TeamJoinRequest | undefined> {
+  const requests = await storage.getJoinRequestsByTeam(teamId);
+  return requests.find(request => request.userId === userId && request.status === 'pending');
+}
+
+/**
+ * Ask to join a team and let its owner know
+ * @param inviteId The invite link the player came through, if any
+ */
+export async function requestToJoin(team: Team, user: User, inviteId: number | null = null): Promise<TeamJoinRequest> {
+  const request = await storage.createJoinRequest({
+    teamId: team.id,
+    userId: user.id,
+    status: 'pending',
+    inviteId
+  });
+
+  await storage.createNotification({
+    userId: team.ownerId,
+    title: `Join Request - ${team.name}`,
+    message: `${user.username} wants to join ${team.name}. Approve or decline the request from your team page.`,
+    type: "general",
+    relatedId: team.id
+  });
+
+  return request;
+}
+
+/**
+ * Check a join request can still be approved
+ * @returns An error message, or null if the player can be added to the team
+ */
+export async function checkJoinRequest(team: Team, request: TeamJoinRequest): Promise<string | null> {
+  if (request.status !== 'pending') {
+    return `This request has already been ${request.status}`;
+  }
+
+  const user = await storage.getUser(request.userId);
+  if (!user) {
+    return "The player who made this request no longer has an account";
+  }
+
+  const members = await storage.getTeamMembers(team.id);
+  if (members.some(member => isMemberUser(member, user))) {
+    return `${user.username} is already a member of this team`;
+  }
+  if (members.length >= getTeamSizeLimit(team.gameType)) {
+    return "Team is already full";
+  }
+
+  // The link the player came through must still have a use left for them
+  if (request.inviteId !== null) {
+    const invite = await storage.getTeamInvite(request.inviteId);
+    if (!invite) {
+      return "The invite link this request came through no longer exists";
+    }
+    const inviteError = checkInvite(invite, user.id);
+    if (inviteError) {
+      return `${inviteError}, so this request can no longer be approved`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Add the player behind a join request to the team, using up a use of the
+ * invite link they came through. Call checkJoinRequest first.
+ */
+export async function approveJoinRequest(team: Team, request: TeamJoinRequest): Promise<TeamMember> {
+  const user = await storage.getUser(request.userId);
+  if (!user) {
+    throw new Error(`User ${request.userId} not found`);
+  }
+
+  const member = await storage.addTeamMember({
+    teamId: team.id,
+    userId: user.id,
+    username: user.username,
+    gameId: user.gameId,
+    role: "member"
+  });
+  await storage.updateJoinRequest(request.id, { status: 'approved', reviewedAt: new Date() });
+
+  const invite = request.inviteId !== null ? await storage.getTeamInvite(request.inviteId) : undefined;
+  if (invite) {
+    await redeemInvite(invite);
+  }
+
+  await storage.createNotification({
+    userId: user.id,
+    title: `Welcome to ${team.name}`,
+    message: `Your request to join ${team.name} was approved.`,
+    type: "general",
+    relatedId: team.id
+  });
+
+  return member;
+}
+
+/**
+ * Turn down a join request and let the player know
+ */
+export async function declineJoinRequest(team: Team, request: TeamJoinRequest): Promise<TeamJoinRequest | undefined> {
+  const declined = await storage.updateJoinRequest(request.id, { status: 'declined', reviewedAt: new Date() });
+
+  await storage.createNotification({
+    userId: request.userId,
+    title: `Join Request - ${team.name}`,
+    message: `Your request to join ${team.name} was declined.`,
+    type: "general",
+    relatedId: team.id
+  });
+
+  return declined;
+}
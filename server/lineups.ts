@@ -0,0 +1,121 @@
+/**
+ * Lineups
+ * Every registration keeps a snapshot of its team's roster from when it signed
+ * up, so admins can check in-game names against it when results come in.
+ * Captains pick who starts each match from that roster until they check in.
+ */
+import { storage } from './storage';
+import {
+  DeclareLineup,
+  MatchLineup,
+  PlayerKills,
+  Registration,
+  RosterPlayer,
+  RosterRules,
+  Team,
+  Tournament
+} from '@shared/schema';
+import { isSoloTournament } from './entrants';
+import { canTeam } from './team-permissions';
+
+/**
+ * The players a registration is made with. Solo entries are just the player
+ * who registered; teams bring their whole roster.
+ */
+export async function snapshotRoster(tournament: Tournament, teamId: number | null, userId: number): Promise<RosterPlayer[]> {
+  if (teamId === null || isSoloTournament(tournament)) {
+    const user = await storage.getUser(userId);
+    return user ? [{ username: user.username, gameId: user.gameId, role: 'captain' }] : [];
+  }
+
+  const members = await storage.getTeamMembers(teamId);
+  return members.map(member => ({
+    username: member.username,
+    gameId: member.gameId,
+    role: member.role
+  }));
+}
+
+/**
+ * Whether a team can still change its roster and lineups. They are fixed once
+ * the team checks in, check-in has closed or the tournament has started.
+ */
+export function isLineupLocked(tournament: Tournament, registration: Registration): boolean {
+  if (registration.checkedInAt || tournament.checkInProcessedAt) return true;
+  return tournament.status !== 'upcoming' && tournament.status !== 'registration_closed';
+}
+
+/**
+ * Whether a user speaks for a registered team - whoever registered it, or
+ * anyone the team lets register for tournaments
+ */
+export async function canManageLineup(registration: Registration, team: Team | undefined, userId: number, username: string): Promise<boolean> {
+  if (registration.userId === userId) return true;
+  if (!team) return false;
+
+  return canTeam(team, { id: userId, username }, 'register');
+}
+
+/**
+ * Check a declared lineup against the registration's roster and the tournament's rules
+ * @returns An error message, or null if the lineup is valid
+ */
+export function validateLineup(rules: RosterRules, roster: RosterPlayer[], lineup: DeclareLineup): string | null {
+  const rosterNames = new Set(roster.map(player => player.username));
+  const picked = [...lineup.starters, ...lineup.substitutes];
+
+  const unknown = picked.find(username => !rosterNames.has(username));
+  if (unknown) {
+    return `${unknown} was not on the team's roster when it registered`;
+  }
+  if (new Set(picked).size !== picked.length) {
+    return "A player can only be picked once per match";
+  }
+  if (lineup.starters.length < rules.minPlayers || lineup.starters.length > rules.maxPlayers) {
+    return rules.minPlayers === rules.maxPlayers
+      ? `Pick exactly ${rules.minPlayers} starting players`
+      : `Pick between ${rules.minPlayers} and ${rules.maxPlayers} starting players`;
+  }
+  if (lineup.substitutes.length > rules.maxSubstitutes) {
+    return `This tournament allows at most ${rules.maxSubstitutes} substitutes`;
+  }
+  return null;
+}
+
+/**
+ * Save a team's lineup for a match, replacing any lineup it declared before
+ */
+export async function declareLineup(registration: Registration, lineup: DeclareLineup): Promise<MatchLineup> {
+  const lineups = await storage.getLineupsByRegistration(registration.id);
+  const existing = lineups.find(l => l.matchNumber === lineup.matchNumber);
+
+  if (existing) {
+    const updated = await storage.updateMatchLineup(existing.id, {
+      starters: lineup.starters,
+      substitutes: lineup.substitutes
+    });
+    return updated || existing;
+  }
+
+  return storage.createMatchLineup({
+    registrationId: registration.id,
+    matchNumber: lineup.matchNumber,
+    starters: lineup.starters,
+    substitutes: lineup.substitutes
+  });
+}
+
+/**
+ * Players credited with kills in a result who cannot be matched to the
+ * registration - by game ID when one was given, otherwise by username
+ */
+export function findUnverifiedPlayers(registration: Registration, playerKills: PlayerKills[]): PlayerKills[] {
+  // Registrations made before snapshots existed have nothing to check against
+  if (registration.roster.length === 0) return [];
+
+  return playerKills.filter(player => !registration.roster.some(rosterPlayer =>
+    player.gameId
+      ? rosterPlayer.gameId.toLowerCase() === player.gameId.toLowerCase()
+      : rosterPlayer.username === player.username
+  ));
+}
@@ -0,0 +1,125 @@
+/**
+ * Member Invitations
+ * Team owners invite players by account rather than adding them outright.
+ * The player is sent a notification to accept or decline, and only joins the
+ * team once they accept.
+ */
+import { storage } from './storage';
+import { MemberRole, Team, TeamMember, TeamMemberInvitation, User } from '@shared/schema';
+import { getTeamSizeLimit } from './roster-rules';
+import { isMemberUser } from './team-membership';
+
+/**
+ * An invitation to a team a player hasn't answered yet
+ */
+export async function getPendingInvitation(teamId: number, userId: number): Promise<TeamMemberInvitation | undefined> {
+  const invitations = await storage.getMemberInvitationsByTeam(teamId);
+  return invitations.find(invitation => invitation.userId === userId && invitation.status === 'pending');
+}
+
+/**
+ * Check a player can be invited to a team
+ * @returns An error message, or null if the invitation can be sent
+ */
+export async function checkInvitee(team: Team, user: User): Promise<string | null> {
+  if (user.role === 'admin') {
+    return "Admins cannot be invited to teams";
+  }
+
+  const members = await storage.getTeamMembers(team.id);
+  if (members.some(member => isMemberUser(member, user))) {
+    return `${user.username} is already a member of this team`;
+  }
+  if (members.length >= getTeamSizeLimit(team.gameType)) {
+    return "Team is already full";
+  }
+  if (await getPendingInvitation(team.id, user.id)) {
+    return `${user.username} has already been invited to this team`;
+  }
+
+  return null;
+}
+
+/**
+ * Invite a player to a team and send them a notification to answer
+ */
+export async function inviteMember(team: Team, user: User, role: MemberRole, invitedBy: number): Promise<TeamMemberInvitation> {
+  const invitation = await storage.createMemberInvitation({
+    teamId: team.id,
+    userId: user.id,
+    invitedBy,
+    role,
+    status: 'pending'
+  });
+
+  await storage.createNotification({
+    userId: user.id,
+    title: `Team Invitation - ${team.name}`,
+    message: `You've been invited to join ${team.name} as a ${role}. Accept to join the team.`,
+    type: "team_invitation",
+    relatedId: invitation.id
+  });
+
+  return invitation;
+}
+
+/**
+ * Check an invitation can still be accepted
+ * @returns An error message, or null if the player can join the team
+ */
+export async function checkInvitation(team: Team, invitation: TeamMemberInvitation, user: User): Promise<string | null> {
+  if (invitation.status !== 'pending') {
+    return `This invitation has already been ${invitation.status}`;
+  }
+
+  const members = await storage.getTeamMembers(team.id);
+  if (members.some(member => isMemberUser(member, user))) {
+    return "You are already a member of this team";
+  }
+  if (members.length >= getTeamSizeLimit(team.gameType)) {
+    return "Team is already full";
+  }
+
+  return null;
+}
+
+/**
+ * Join the team an invitation is for and let the owner know. Call checkInvitation first.
+ */
+export async function acceptInvitation(team: Team, invitation: TeamMemberInvitation, user: User): Promise<TeamMember> {
+  const member = await storage.addTeamMember({
+    teamId: team.id,
+    userId: user.id,
+    username: user.username,
+    gameId: user.gameId,
+    role: invitation.role
+  });
+  await storage.updateMemberInvitation(invitation.id, { status: 'accepted', respondedAt: new Date() });
+
+  await storage.createNotification({
+    userId: team.ownerId,
+    title: `Invitation Accepted - ${team.name}`,
+    message: `${user.username} accepted your invitation and has joined ${team.name}.`,
+    type: "general",
+    relatedId: team.id
+  });
+
+  return member;
+}
+
+/**
+ * Turn down an invitation and let the owner know
+ */
+export async function declineInvitation(team: Team, invitation: TeamMemberInvitation, user: User): Promise<TeamMemberInvitation | undefined> {
+  const declined = await storage.updateMemberInvitation(invitation.id, { status: 'declined', respondedAt: new Date() });
+
+  await storage.createNotification({
+    userId: team.ownerId,
+    title: `Invitation Declined - ${team.name}`,
+    message: `${user.username} declined your invitation to join ${team.name}.`,
+    type: "general",
+    relatedId: team.id
+  });
+
+  return declined;
+}
@@ -1,10 +1,26 @@
 import { 
-  users, teams, teamMembers, tournaments, registrations, notifications, admins,
+  users, teams, teamMembers, tournaments, registrations, notifications, admins, matches, matchResults, scoringRulesets,
+  tournamentStages, stageGroups, groupTeams, bracketMatches, tournamentRooms, waitlistEntries,
+  tournamentTemplates, matchLineups, teamJoinRequests, teamInvites, teamMemberInvitations,
   type User, type InsertUser, 
   type Team, type InsertTeam, 
   type TeamMember, type InsertTeamMember,
-  type Tournament, type InsertTournament, type UpdateTournament,
+  type TeamJoinRequest, type InsertTeamJoinRequest,
+  type TeamInvite, type InsertTeamInvite,
+  type TeamMemberInvitation, type InsertTeamMemberInvitation,
+  type Tournament, type InsertTournament, type UpdateTournament, type TournamentServerUpdate,
   type Registration, type InsertRegistration,
+  type MatchLineup, type InsertMatchLineup,
+  type WaitlistEntry, type InsertWaitlistEntry,
+  type TournamentRoom, type InsertTournamentRoom,
+  type ScoringRuleset, type InsertScoringRuleset,
+  type TournamentTemplate, type InsertTournamentTemplate,
+  type TournamentStage, type InsertTournamentStage,
+  type StageGroup, type InsertStageGroup,
+  type GroupTeam, type InsertGroupTeam,
+  type Match, type InsertMatch,
+  type BracketMatch, type InsertBracketMatch,
+  type MatchResult, type InsertMatchResult,
   type Notification, type InsertNotification,
   type Admin, type InsertAdmin
 } from "@shared/schema";
@@ -12,7 +28,7 @@ import { IStorage } from "./storage";
 import { db, pool } from "./neon-db";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
-import { eq, and, desc, isNull, sql } from "drizzle-orm";
+import { eq, and, or, asc, desc, isNull, sql } from "drizzle-orm";
 
 // Create the PostgreSQL session store
 const PostgresSessionStore = connectPg(session);
@@ -199,6 +215,10 @@ export class NeonDBStorage implements IStorage {
     return member;
   }
 
+  async getTeamMembershipsByUser(userId: number): Promise<TeamMember[]> {
+    return await db.select().from(teamMembers).where(eq(teamMembers.userId, userId));
+  }
+
   async addTeamMember(insertMember: InsertTeamMember): Promise<TeamMember> {
     const [member] = await db.insert(teamMembers).values(insertMember).returning();
     return member;
@@ -218,6 +238,151 @@ export class NeonDBStorage implements IStorage {
     return !!deletedMember;
   }
 
+  // Team join request methods
+  async getJoinRequest(id: number): Promise<TeamJoinRequest | undefined> {
+    const [request] = await db.select().from(teamJoinRequests).where(eq(teamJoinRequests.id, id));
+    return request;
+  }
+
+  async getJoinRequestsByTeam(teamId: number): Promise<TeamJoinRequest[]> {
+    return await db
+      .select()
+      .from(teamJoinRequests)
+      .where(eq(teamJoinRequests.teamId, teamId))
+      .orderBy(asc(teamJoinRequests.createdAt), asc(teamJoinRequests.id));
+  }
+
+  async createJoinRequest(insertRequest: InsertTeamJoinRequest): Promise<TeamJoinRequest> {
+    const [request] = await db.insert(teamJoinRequests).values(insertRequest).returning();
+    return request;
+  }
+
+  async updateJoinRequest(id: number, requestUpdate: Partial<TeamJoinRequest>): Promise<TeamJoinRequest | undefined> {
+    const [updatedRequest] = await db
+      .update(teamJoinRequests)
+      .set(requestUpdate)
+      .where(eq(teamJoinRequests.id, id))
+      .returning();
+    return updatedRequest;
+  }
+
+  async deleteJoinRequestsByTeam(teamId: number): Promise<number> {
+    const result = await db
+      .delete(teamJoinRequests)
+      .where(eq(teamJoinRequests.teamId, teamId))
+      .returning();
+    return result.length;
+  }
+
+  async deleteJoinRequestsByUser(userId: number): Promise<number> {
+    const result = await db
+      .delete(teamJoinRequests)
+      .where(eq(teamJoinRequests.userId, userId))
+      .returning();
+    return result.length;
+  }
+
+  // Team invite methods
+  async getTeamInvite(id: number): Promise<TeamInvite | undefined> {
+    const [invite] = await db.select().from(teamInvites).where(eq(teamInvites.id, id));
+    return invite;
+  }
+
+  async getTeamInviteByToken(token: string): Promise<TeamInvite | undefined> {
+    const [invite] = await db.select().from(teamInvites).where(eq(teamInvites.token, token));
+    return invite;
+  }
+
+  async getTeamInvites(teamId: number): Promise<TeamInvite[]> {
+    return await db
+      .select()
+      .from(teamInvites)
+      .where(eq(teamInvites.teamId, teamId))
+      .orderBy(desc(teamInvites.createdAt), desc(teamInvites.id));
+  }
+
+  async createTeamInvite(insertInvite: InsertTeamInvite): Promise<TeamInvite> {
+    const [invite] = await db.insert(teamInvites).values(insertInvite).returning();
+    return invite;
+  }
+
+  async updateTeamInvite(id: number, inviteUpdate: Partial<TeamInvite>): Promise<TeamInvite | undefined> {
+    const [updatedInvite] = await db
+      .update(teamInvites)
+      .set(inviteUpdate)
+      .where(eq(teamInvites.id, id))
+      .returning();
+    return updatedInvite;
+  }
+
+  async deleteTeamInvitesByTeam(teamId: number): Promise<number> {
+    const result = await db
+      .delete(teamInvites)
+      .where(eq(teamInvites.teamId, teamId))
+      .returning();
+    return result.length;
+  }
+
+  async deleteTeamInvitesByUser(userId: number): Promise<number> {
+    const result = await db
+      .delete(teamInvites)
+      .where(or(eq(teamInvites.createdBy, userId), eq(teamInvites.recipientUserId, userId)))
+      .returning();
+    return result.length;
+  }
+
+  // Team member invitation methods
+  async getMemberInvitation(id: number): Promise<TeamMemberInvitation | undefined> {
+    const [invitation] = await db.select().from(teamMemberInvitations).where(eq(teamMemberInvitations.id, id));
+    return invitation;
+  }
+
+  async getMemberInvitationsByTeam(teamId: number): Promise<TeamMemberInvitation[]> {
+    return await db
+      .select()
+      .from(teamMemberInvitations)
+      .where(eq(teamMemberInvitations.teamId, teamId))
+      .orderBy(asc(teamMemberInvitations.createdAt), asc(teamMemberInvitations.id));
+  }
+
+  async getMemberInvitationsByUser(userId: number): Promise<TeamMemberInvitation[]> {
+    return await db
+      .select()
+      .from(teamMemberInvitations)
+      .where(eq(teamMemberInvitations.userId, userId))
+      .orderBy(asc(teamMemberInvitations.createdAt), asc(teamMemberInvitations.id));
+  }
+
+  async createMemberInvitation(insertInvitation: InsertTeamMemberInvitation): Promise<TeamMemberInvitation> {
+    const [invitation] = await db.insert(teamMemberInvitations).values(insertInvitation).returning();
+    return invitation;
+  }
+
+  async updateMemberInvitation(id: number, invitationUpdate: Partial<TeamMemberInvitation>): Promise<TeamMemberInvitation | undefined> {
+    const [updatedInvitation] = await db
+      .update(teamMemberInvitations)
+      .set(invitationUpdate)
+      .where(eq(teamMemberInvitations.id, id))
+      .returning();
+    return updatedInvitation;
+  }
+
+  async deleteMemberInvitationsByTeam(teamId: number): Promise<number> {
+    const result = await db
+      .delete(teamMemberInvitations)
+      .where(eq(teamMemberInvitations.teamId, teamId))
+      .returning();
+    return result.length;
+  }
+
+  async deleteMemberInvitationsByUser(userId: number): Promise<number> {
+    const result = await db
+      .delete(teamMemberInvitations)
+      .where(or(eq(teamMemberInvitations.userId, userId), eq(teamMemberInvitations.invitedBy, userId)))
+      .returning();
+    return result.length;
+  }
+
   // Tournament methods
   async getTournament(id: number): Promise<Tournament | undefined> {
     const [tournament] = await db.select().from(tournaments).where(eq(tournaments.id, id));
@@ -237,7 +402,7 @@ export class NeonDBStorage implements IStorage {
     return tournament;
   }
 
-  async updateTournament(id: number, tournamentUpdate: Partial<UpdateTournament>): Promise<Tournament | undefined> {
+  async updateTournament(id: number, tournamentUpdate: Partial<UpdateTournament> & TournamentServerUpdate): Promise<Tournament | undefined> {
     const [updatedTournament] = await db
       .update(tournaments)
       .set(tournamentUpdate)
@@ -247,6 +412,24 @@ export class NeonDBStorage implements IStorage {
   }
 
   async deleteTournament(id: number): Promise<boolean> {
+    // Everything that references the tournament or its registrations goes first
+    await this.deleteBracketMatches(id);
+    for (const match of await this.getMatchesByTournament(id)) {
+      await this.deleteMatch(match.id);
+    }
+    for (const stage of await this.getStagesByTournament(id)) {
+      await this.deleteTournamentStage(stage.id);
+    }
+    for (const room of await this.getRoomsByTournament(id)) {
+      await this.deleteTournamentRoom(room.id);
+    }
+    for (const entry of await this.getWaitlistByTournament(id)) {
+      await this.deleteWaitlistEntry(entry.id);
+    }
+    for (const registration of await this.getRegistrationsByTournament(id)) {
+      await this.deleteLineupsByRegistration(registration.id);
+      await this.deleteRegistration(registration.id);
+    }
     const [deletedTournament] = await db.delete(tournaments).where(eq(tournaments.id, id)).returning();
     return !!deletedTournament;
   }
@@ -280,7 +463,7 @@ export class NeonDBStorage implements IStorage {
     return !!registration;
   }
 
-  async createRegistration(insertRegistration: InsertRegistration & { status?: string, paymentStatus?: string }): Promise<Registration> {
+  async createRegistration(insertRegistration: InsertRegistration & { slot?: number | null, status?: string, paymentStatus?: string }): Promise<Registration> {
     // Ensure status and paymentStatus have defaults if not provided
     const regData = {
       ...insertRegistration,
@@ -306,6 +489,334 @@ export class NeonDBStorage implements IStorage {
     return !!deletedRegistration;
   }
 
+  // Match lineup methods
+  async getLineupsByRegistration(registrationId: number): Promise<MatchLineup[]> {
+    return await db
+      .select()
+      .from(matchLineups)
+      .where(eq(matchLineups.registrationId, registrationId))
+      .orderBy(asc(matchLineups.matchNumber));
+  }
+
+  async createMatchLineup(insertLineup: InsertMatchLineup): Promise<MatchLineup> {
+    const [lineup] = await db.insert(matchLineups).values(insertLineup).returning();
+    return lineup;
+  }
+
+  async updateMatchLineup(id: number, lineupUpdate: Partial<MatchLineup>): Promise<MatchLineup | undefined> {
+    const [updatedLineup] = await db
+      .update(matchLineups)
+      .set({ ...lineupUpdate, updatedAt: new Date() })
+      .where(eq(matchLineups.id, id))
+      .returning();
+    return updatedLineup;
+  }
+
+  async deleteLineupsByRegistration(registrationId: number): Promise<number> {
+    const result = await db
+      .delete(matchLineups)
+      .where(eq(matchLineups.registrationId, registrationId))
+      .returning();
+    return result.length;
+  }
+
+  // Waitlist methods
+  async getWaitlistEntry(id: number): Promise<WaitlistEntry | undefined> {
+    const [entry] = await db.select().from(waitlistEntries).where(eq(waitlistEntries.id, id));
+    return entry;
+  }
+
+  async getWaitlistByTournament(tournamentId: number): Promise<WaitlistEntry[]> {
+    return await db
+      .select()
+      .from(waitlistEntries)
+      .where(eq(waitlistEntries.tournamentId, tournamentId))
+      .orderBy(asc(waitlistEntries.joinedAt), asc(waitlistEntries.id));
+  }
+
+  async createWaitlistEntry(insertEntry: InsertWaitlistEntry): Promise<WaitlistEntry> {
+    const [entry] = await db.insert(waitlistEntries).values(insertEntry).returning();
+    return entry;
+  }
+
+  async deleteWaitlistEntry(id: number): Promise<boolean> {
+    const [deletedEntry] = await db.delete(waitlistEntries).where(eq(waitlistEntries.id, id)).returning();
+    return !!deletedEntry;
+  }
+
+  // Tournament room methods
+  async getRoomsByTournament(tournamentId: number): Promise<TournamentRoom[]> {
+    return await db
+      .select()
+      .from(tournamentRooms)
+      .where(eq(tournamentRooms.tournamentId, tournamentId))
+      .orderBy(asc(tournamentRooms.roomNumber));
+  }
+
+  async createTournamentRoom(insertRoom: InsertTournamentRoom): Promise<TournamentRoom> {
+    const [room] = await db.insert(tournamentRooms).values(insertRoom).returning();
+    return room;
+  }
+
+  async updateTournamentRoom(id: number, roomUpdate: Partial<TournamentRoom>): Promise<TournamentRoom | undefined> {
+    const [updatedRoom] = await db
+      .update(tournamentRooms)
+      .set(roomUpdate)
+      .where(eq(tournamentRooms.id, id))
+      .returning();
+    return updatedRoom;
+  }
+
+  async deleteTournamentRoom(id: number): Promise<boolean> {
+    const [deletedRoom] = await db.delete(tournamentRooms).where(eq(tournamentRooms.id, id)).returning();
+    return !!deletedRoom;
+  }
+
+  // Tournament template methods
+  async getTournamentTemplate(id: number): Promise<TournamentTemplate | undefined> {
+    const [template] = await db.select().from(tournamentTemplates).where(eq(tournamentTemplates.id, id));
+    return template;
+  }
+
+  async getAllTournamentTemplates(): Promise<TournamentTemplate[]> {
+    return await db.select().from(tournamentTemplates).orderBy(tournamentTemplates.name);
+  }
+
+  async createTournamentTemplate(insertTemplate: InsertTournamentTemplate): Promise<TournamentTemplate> {
+    const [template] = await db.insert(tournamentTemplates).values(insertTemplate).returning();
+    return template;
+  }
+
+  async updateTournamentTemplate(id: number, templateUpdate: Partial<TournamentTemplate>): Promise<TournamentTemplate | undefined> {
+    const [updatedTemplate] = await db
+      .update(tournamentTemplates)
+      .set(templateUpdate)
+      .where(eq(tournamentTemplates.id, id))
+      .returning();
+    return updatedTemplate;
+  }
+
+  async deleteTournamentTemplate(id: number): Promise<boolean> {
+    const [deletedTemplate] = await db.delete(tournamentTemplates).where(eq(tournamentTemplates.id, id)).returning();
+    return !!deletedTemplate;
+  }
+
+  // Scoring ruleset methods
+  async getScoringRuleset(id: number): Promise<ScoringRuleset | undefined> {
+    const [ruleset] = await db.select().from(scoringRulesets).where(eq(scoringRulesets.id, id));
+    return ruleset;
+  }
+
+  async getAllScoringRulesets(): Promise<ScoringRuleset[]> {
+    return await db.select().from(scoringRulesets).orderBy(scoringRulesets.name);
+  }
+
+  async createScoringRuleset(insertRuleset: InsertScoringRuleset): Promise<ScoringRuleset> {
+    const [ruleset] = await db.insert(scoringRulesets).values(insertRuleset).returning();
+    return ruleset;
+  }
+
+  async updateScoringRuleset(id: number, rulesetUpdate: Partial<ScoringRuleset>): Promise<ScoringRuleset | undefined> {
+    const [updatedRuleset] = await db
+      .update(scoringRulesets)
+      .set(rulesetUpdate)
+      .where(eq(scoringRulesets.id, id))
+      .returning();
+    return updatedRuleset;
+  }
+
+  async deleteScoringRuleset(id: number): Promise<boolean> {
+    const [deletedRuleset] = await db.delete(scoringRulesets).where(eq(scoringRulesets.id, id)).returning();
+    return !!deletedRuleset;
+  }
+
+  // Tournament stage methods
+  async getTournamentStage(id: number): Promise<TournamentStage | undefined> {
+    const [stage] = await db.select().from(tournamentStages).where(eq(tournamentStages.id, id));
+    return stage;
+  }
+
+  async getStagesByTournament(tournamentId: number): Promise<TournamentStage[]> {
+    return await db
+      .select()
+      .from(tournamentStages)
+      .where(eq(tournamentStages.tournamentId, tournamentId))
+      .orderBy(asc(tournamentStages.stageOrder));
+  }
+
+  async createTournamentStage(insertStage: InsertTournamentStage): Promise<TournamentStage> {
+    const [stage] = await db.insert(tournamentStages).values(insertStage).returning();
+    return stage;
+  }
+
+  async updateTournamentStage(id: number, stageUpdate: Partial<TournamentStage>): Promise<TournamentStage | undefined> {
+    const [updatedStage] = await db
+      .update(tournamentStages)
+      .set(stageUpdate)
+      .where(eq(tournamentStages.id, id))
+      .returning();
+    return updatedStage;
+  }
+
+  async deleteTournamentStage(id: number): Promise<boolean> {
+    // Groups reference the stage, so they have to go first
+    const groups = await this.getGroupsByStage(id);
+    for (const group of groups) {
+      await this.deleteStageGroup(group.id);
+    }
+    const [deletedStage] = await db.delete(tournamentStages).where(eq(tournamentStages.id, id)).returning();
+    return !!deletedStage;
+  }
+
+  // Stage group methods
+  async getStageGroup(id: number): Promise<StageGroup | undefined> {
+    const [group] = await db.select().from(stageGroups).where(eq(stageGroups.id, id));
+    return group;
+  }
+
+  async getGroupsByStage(stageId: number): Promise<StageGroup[]> {
+    return await db
+      .select()
+      .from(stageGroups)
+      .where(eq(stageGroups.stageId, stageId))
+      .orderBy(asc(stageGroups.id));
+  }
+
+  async createStageGroup(insertGroup: InsertStageGroup): Promise<StageGroup> {
+    const [group] = await db.insert(stageGroups).values(insertGroup).returning();
+    return group;
+  }
+
+  async deleteStageGroup(id: number): Promise<boolean> {
+    await this.clearGroupTeams(id);
+    const [deletedGroup] = await db.delete(stageGroups).where(eq(stageGroups.id, id)).returning();
+    return !!deletedGroup;
+  }
+
+  // Group team methods
+  async getGroupTeams(groupId: number): Promise<GroupTeam[]> {
+    return await db
+      .select()
+      .from(groupTeams)
+      .where(eq(groupTeams.groupId, groupId))
+      .orderBy(asc(groupTeams.seed));
+  }
+
+  async addGroupTeam(insertGroupTeam: InsertGroupTeam): Promise<GroupTeam> {
+    const [groupTeam] = await db.insert(groupTeams).values(insertGroupTeam).returning();
+    return groupTeam;
+  }
+
+  async clearGroupTeams(groupId: number): Promise<number> {
+    const result = await db
+      .delete(groupTeams)
+      .where(eq(groupTeams.groupId, groupId))
+      .returning();
+    return result.length;
+  }
+
+  // Match methods
+  async getMatch(id: number): Promise<Match | undefined> {
+    const [match] = await db.select().from(matches).where(eq(matches.id, id));
+    return match;
+  }
+
+  async getMatchesByTournament(tournamentId: number): Promise<Match[]> {
+    return await db
+      .select()
+      .from(matches)
+      .where(eq(matches.tournamentId, tournamentId))
+      .orderBy(asc(matches.matchNumber));
+  }
+
+  async createMatch(insertMatch: InsertMatch): Promise<Match> {
+    const [match] = await db.insert(matches).values(insertMatch).returning();
+    return match;
+  }
+
+  async updateMatch(id: number, matchUpdate: Partial<Match>): Promise<Match | undefined> {
+    const [updatedMatch] = await db
+      .update(matches)
+      .set(matchUpdate)
+      .where(eq(matches.id, id))
+      .returning();
+    return updatedMatch;
+  }
+
+  async deleteMatch(id: number): Promise<boolean> {
+    // Results reference the match, so they have to go first
+    await this.deleteMatchResults(id);
+    const [deletedMatch] = await db.delete(matches).where(eq(matches.id, id)).returning();
+    return !!deletedMatch;
+  }
+
+  // Match result methods
+  async getMatchResults(matchId: number): Promise<MatchResult[]> {
+    return await db
+      .select()
+      .from(matchResults)
+      .where(eq(matchResults.matchId, matchId))
+      .orderBy(asc(matchResults.placement));
+  }
+
+  async createMatchResult(insertResult: InsertMatchResult): Promise<MatchResult> {
+    const [result] = await db.insert(matchResults).values(insertResult).returning();
+    return result;
+  }
+
+  async deleteMatchResults(matchId: number): Promise<number> {
+    const result = await db
+      .delete(matchResults)
+      .where(eq(matchResults.matchId, matchId))
+      .returning();
+    return result.length;
+  }
+
+  // Bracket match methods
+  async getBracketMatch(id: number): Promise<BracketMatch | undefined> {
+    const [match] = await db.select().from(bracketMatches).where(eq(bracketMatches.id, id));
+    return match;
+  }
+
+  async getBracketMatches(tournamentId: number): Promise<BracketMatch[]> {
+    return await db
+      .select()
+      .from(bracketMatches)
+      .where(eq(bracketMatches.tournamentId, tournamentId))
+      .orderBy(
+        sql`case ${bracketMatches.bracket} when 'winners' then 0 when 'losers' then 1 else 2 end`,
+        asc(bracketMatches.round),
+        asc(bracketMatches.position)
+      );
+  }
+
+  async createBracketMatch(insertMatch: InsertBracketMatch): Promise<BracketMatch> {
+    const [match] = await db.insert(bracketMatches).values(insertMatch).returning();
+    return match;
+  }
+
+  async updateBracketMatch(id: number, matchUpdate: Partial<BracketMatch>): Promise<BracketMatch | undefined> {
+    const [updatedMatch] = await db
+      .update(bracketMatches)
+      .set(matchUpdate)
+      .where(eq(bracketMatches.id, id))
+      .returning();
+    return updatedMatch;
+  }
+
+  async deleteBracketMatch(id: number): Promise<boolean> {
+    const [deletedMatch] = await db.delete(bracketMatches).where(eq(bracketMatches.id, id)).returning();
+    return !!deletedMatch;
+  }
+
+  async deleteBracketMatches(tournamentId: number): Promise<number> {
+    const result = await db
+      .delete(bracketMatches)
+      .where(eq(bracketMatches.tournamentId, tournamentId))
+      .returning();
+    return result.length;
+  }
+
   // Notification methods
   async getNotification(id: number): Promise<Notification | undefined> {
     const [notification] = await db.select().from(notifications).where(eq(notifications.id, id));
@@ -0,0 +1,87 @@
+/**
+ * Registration Deadlines
+ * When teams may sign up for a tournament and until when they may pull out.
+ * Withdrawals close some time before the start so lobbies can be planned.
+ */
+import { storage } from './storage';
+import { Registration, Tournament } from '@shared/schema';
+import { acceptsRegistrations } from './tournament-status';
+import { takesPlace } from './slot-allocator';
+
+/**
+ * When registration closes - the explicit deadline, or the start time
+ */
+export function getRegistrationClosesAt(tournament: Tournament): Date {
+  return tournament.registrationClosesAt
+    ? new Date(tournament.registrationClosesAt)
+    : new Date(tournament.date);
+}
+
+/**
+ * Why a team cannot register right now
+ * @returns null if registration is open
+ */
+export function getRegistrationBlock(tournament: Tournament, now: Date = new Date()): string | null {
+  if (!acceptsRegistrations(tournament)) {
+    return "Registration is closed for this tournament";
+  }
+  if (tournament.registrationOpensAt && new Date(tournament.registrationOpensAt) > now) {
+    return "Registration for this tournament has not opened yet";
+  }
+  if (getRegistrationClosesAt(tournament) <= now) {
+    return "The registration deadline for this tournament has passed";
+  }
+  return null;
+}
+
+/**
+ * The last moment a team can withdraw its registration
+ */
+export function getUnregisterDeadline(tournament: Tournament): Date {
+  const start = new Date(tournament.date).getTime();
+  return new Date(start - (tournament.unregisterCutoffMinutes ?? 0) * 60 * 1000);
+}
+
+/**
+ * Whether a registration can still be withdrawn. Registrations that hold no
+ * place (rejected, no-show) can always be cleared away.
+ */
+export function canUnregister(tournament: Tournament, registration: Registration, now: Date = new Date()): boolean {
+  if (!takesPlace(registration)) return true;
+  return now < getUnregisterDeadline(tournament);
+}
+
+/**
+ * Check a registration has no match data that would be left pointing at it
+ * @returns An error message, or null if the registration can be removed
+ */
+export async function getMatchDataBlock(registration: Registration): Promise<string | null> {
+  const matches = await storage.getMatchesByTournament(registration.tournamentId);
+  for (const match of matches) {
+    const results = await storage.getMatchResults(match.id);
+    if (results.some(result => result.registrationId === registration.id)) {
+      return "This registration already has match results and can no longer be withdrawn";
+    }
+  }
+
+  const bracketMatches = await storage.getBracketMatches(registration.tournamentId);
+  if (bracketMatches.some(match =>
+    match.team1RegistrationId === registration.id ||
+    match.team2RegistrationId === registration.id ||
+    match.winnerRegistrationId === registration.id
+  )) {
+    return "This registration already has a place in the bracket and can no longer be withdrawn";
+  }
+
+  const stages = await storage.getStagesByTournament(registration.tournamentId);
+  for (const stage of stages) {
+    for (const group of await storage.getGroupsByStage(stage.id)) {
+      const groupTeams = await storage.getGroupTeams(group.id);
+      if (groupTeams.some(groupTeam => groupTeam.registrationId === registration.id)) {
+        return "This registration has already been seeded into a group and can no longer be withdrawn";
+      }
+    }
+  }
+
+  return null;
+}
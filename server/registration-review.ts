@@ -0,0 +1,84 @@
+/**
+ * Registration Review
+ * Approval workflow for tournament registrations. Only approved teams are
+ * confirmed participants - they get a slot and the room credentials.
+ */
+import { storage } from './storage';
+import { Registration, RegistrationStatus, Tournament } from '@shared/schema';
+import { pickSlot } from './slot-allocator';
+import { getEntrantName } from './entrants';
+import { getEntryUserIds } from './team-membership';
+
+/**
+ * Paid and invite-style tournaments review every registration before confirming it
+ */
+export function needsReview(tournament: Tournament): boolean {
+  return tournament.isPaid || tournament.requiresApproval;
+}
+
+/**
+ * Status a new registration starts in
+ */
+export function getInitialStatus(tournament: Tournament): RegistrationStatus {
+  return needsReview(tournament) ? 'pending' : 'approved';
+}
+
+/**
+ * Confirm a registration, seat the team and tell its players
+ */
+export async function approveRegistration(tournament: Tournament, registration: Registration): Promise<Registration> {
+  if (registration.status === 'approved') return registration;
+
+  const slot = registration.slot ?? await pickSlot(tournament);
+  const approved = await storage.updateRegistration(registration.id, {
+    status: 'approved',
+    rejectionReason: null,
+    reviewedAt: new Date(),
+    slot
+  });
+
+  const name = await getEntrantName(registration);
+  for (const userId of await getEntryUserIds(registration)) {
+    await storage.createNotification({
+      userId,
+      title: `Registration Approved - ${tournament.title}`,
+      message: slot !== null
+        ? `${name} is confirmed for ${tournament.title} in slot ${slot}.`
+        : `${name} is confirmed for ${tournament.title}.`,
+      type: "tournament",
+      relatedId: tournament.id
+    });
+  }
+
+  return approved || registration;
+}
+
+/**
+ * Turn a registration down, free its slot and tell its players why
+ */
+export async function rejectRegistration(
+  tournament: Tournament,
+  registration: Registration,
+  reason: string
+): Promise<Registration> {
+  const rejected = await storage.updateRegistration(registration.id, {
+    status: 'rejected',
+    rejectionReason: reason,
+    reviewedAt: new Date(),
+    slot: null,
+    roomNumber: null
+  });
+
+  const name = await getEntrantName(registration);
+  for (const userId of await getEntryUserIds(registration)) {
+    await storage.createNotification({
+      userId,
+      title: `Registration Rejected - ${tournament.title}`,
+      message: `${name} was not accepted into ${tournament.title}. Reason: ${reason}`,
+      type: "tournament",
+      relatedId: tournament.id
+    });
+  }
+
+  return rejected || registration;
+}
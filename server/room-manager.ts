@@ -0,0 +1,183 @@
+/**
+ * Room Manager
+ * Splits tournaments that outgrow one in-game room across several rooms,
+ * each with its own room ID and password, and publishes the credentials
+ * to confirmed teams
+ */
+import { storage } from './storage';
+import { Registration, Tournament, TournamentRoom } from '@shared/schema';
+import { getSlotList, holdsSlot } from './slot-allocator';
+import { getEntryUserIds } from './team-membership';
+
+export type RoomCredentials = {
+  roomNumber: number | null;
+  roomId: string | null;
+  password: string | null;
+};
+
+/**
+ * Number of rooms needed to seat a number of teams
+ */
+export function getRoomCount(tournament: Tournament, teamCount: number): number {
+  return Math.max(1, Math.ceil(teamCount / tournament.roomCapacity));
+}
+
+/**
+ * Split the seated teams of a tournament across as many rooms as they need.
+ * Teams are dealt out in slot order so each room holds a consecutive block of
+ * slots, and room sizes never differ by more than one team.
+ * Rooms that already exist keep their credentials.
+ */
+export async function splitIntoRooms(tournament: Tournament): Promise<TournamentRoom[]> {
+  const seated = await getSlotList(tournament.id);
+  const roomCount = getRoomCount(tournament, seated.length);
+  const existing = await storage.getRoomsByTournament(tournament.id);
+
+  // Drop rooms that are no longer needed, then create the missing ones
+  const rooms: TournamentRoom[] = [];
+  for (const room of existing) {
+    if (room.roomNumber > roomCount) {
+      await storage.deleteTournamentRoom(room.id);
+    } else {
+      rooms.push(room);
+    }
+  }
+  for (let roomNumber = 1; roomNumber <= roomCount; roomNumber++) {
+    if (!rooms.some(room => room.roomNumber === roomNumber)) {
+      rooms.push(await storage.createTournamentRoom({ tournamentId: tournament.id, roomNumber }));
+    }
+  }
+
+  const seatedIds = new Set(seated.map(registration => registration.id));
+  const registrations = await storage.getRegistrationsByTournament(tournament.id);
+  for (const registration of registrations) {
+    if (!seatedIds.has(registration.id) && registration.roomNumber !== null) {
+      await storage.updateRegistration(registration.id, { roomNumber: null });
+    }
+  }
+
+  for (let i = 0; i < seated.length; i++) {
+    const roomNumber = Math.floor(i * roomCount / seated.length) + 1;
+    if (seated[i].roomNumber !== roomNumber) {
+      await storage.updateRegistration(seated[i].id, { roomNumber });
+    }
+  }
+
+  return rooms.sort((a, b) => a.roomNumber - b.roomNumber);
+}
+
+/**
+ * Merge every room back into the tournament's single room
+ */
+export async function clearRooms(tournament: Tournament): Promise<void> {
+  const rooms = await storage.getRoomsByTournament(tournament.id);
+  for (const room of rooms) {
+    await storage.deleteTournamentRoom(room.id);
+  }
+
+  const registrations = await storage.getRegistrationsByTournament(tournament.id);
+  for (const registration of registrations) {
+    if (registration.roomNumber !== null) {
+      await storage.updateRegistration(registration.id, { roomNumber: null });
+    }
+  }
+}
+
+/**
+ * Credentials a registered team should use to join its room.
+ * Tournaments that were never split use their own room ID and password.
+ * @returns null if the lobby is split but the team has not been given a room
+ */
+export function getRoomCredentials(
+  tournament: Tournament,
+  rooms: TournamentRoom[],
+  registration: Registration
+): RoomCredentials | null {
+  if (rooms.length === 0) {
+    return { roomNumber: null, roomId: tournament.roomId, password: tournament.password };
+  }
+
+  const room = rooms.find(r => r.roomNumber === registration.roomNumber);
+  if (!room) return null;
+
+  return { roomNumber: room.roomNumber, roomId: room.roomId, password: room.password };
+}
+
+/**
+ * When a tournament's room details are due to be published
+ * @returns null if the admin sends them manually
+ */
+export function getRoomReleaseTime(tournament: Tournament): Date | null {
+  if (tournament.roomReleaseMinutes === null) return null;
+
+  const start = new Date(tournament.date).getTime();
+  return new Date(start - tournament.roomReleaseMinutes * 60 * 1000);
+}
+
+/**
+ * Whether players may see the room details. Scheduled credentials stay
+ * hidden until they have been published.
+ */
+export function isRoomReleased(tournament: Tournament): boolean {
+  return tournament.roomReleaseMinutes === null || !!tournament.roomReleasedAt;
+}
+
+/**
+ * Whether every room a team could be seated in has an ID and password
+ */
+export function hasRoomCredentials(tournament: Tournament, rooms: TournamentRoom[]): boolean {
+  if (rooms.length === 0) {
+    return !!tournament.roomId && !!tournament.password;
+  }
+  return rooms.every(room => !!room.roomId && !!room.password);
+}
+
+/**
+ * Whether a scheduled release is due and ready to go out
+ */
+export async function isRoomReleaseDue(tournament: Tournament, now: Date = new Date()): Promise<boolean> {
+  const releaseAt = getRoomReleaseTime(tournament);
+  if (!releaseAt || tournament.roomReleasedAt || now < releaseAt) return false;
+
+  const rooms = await storage.getRoomsByTournament(tournament.id);
+  if (!hasRoomCredentials(tournament, rooms)) {
+    console.warn(`Room details for tournament #${tournament.id} are due but not filled in yet`);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Send every confirmed team the credentials of its room and mark the
+ * tournament's room details as published
+ * @returns The users that were notified
+ */
+export async function releaseRoomCredentials(tournament: Tournament): Promise<number[]> {
+  const registrations = (await storage.getRegistrationsByTournament(tournament.id)).filter(holdsSlot);
+  const rooms = await storage.getRoomsByTournament(tournament.id);
+  const notifiedUserIds: number[] = [];
+
+  for (const registration of registrations) {
+    // In a split lobby each team only ever sees the credentials of its own room
+    const credentials = getRoomCredentials(tournament, rooms, registration);
+    if (!credentials) continue;
+
+    // Every player on the team with an account needs the credentials to join
+    for (const userId of await getEntryUserIds(registration)) {
+      await storage.createNotification({
+        userId,
+        title: `Room Info Updated - ${tournament.title}`,
+        message: credentials.roomNumber !== null
+          ? `Room ${credentials.roomNumber} - Room ID: ${credentials.roomId}, Password: ${credentials.password}`
+          : `Room ID: ${credentials.roomId}, Password: ${credentials.password}`,
+        type: "tournament",
+        relatedId: tournament.id
+      });
+      notifiedUserIds.push(userId);
+    }
+  }
+
+  await storage.updateTournament(tournament.id, { roomReleasedAt: new Date() });
+
+  return notifiedUserIds;
+}
@@ -0,0 +1,109 @@
+/**
+ * Roster Rules
+ * How many players a team fields in a tournament, how many substitutes it may
+ * bring and which roles must be filled. Tournaments can set their own rules;
+ * anything left unset falls back to the usual size for the game and mode.
+ */
+import { RosterRules, Team, TeamMember, Tournament } from '@shared/schema';
+import { getGameName, getSquadSize } from './game-rules';
+
+type RosterSettings = Pick<
+  Tournament,
+  'teamType' | 'gameMode' | 'gameType' | 'minRosterSize' | 'maxRosterSize' | 'maxSubstitutes' | 'requiredRoles'
+>;
+
+/**
+ * Players a team fields in a game mode
+ */
+function getModeSize(gameMode: string, gameType: string): number {
+  switch (gameMode.toLowerCase()) {
+    case 'solo':
+      return 1;
+    case 'duo':
+      return 2;
+    default:
+      return getSquadSize(gameType);
+  }
+}
+
+/**
+ * The usual roster for a game and mode: a full team plus one substitute
+ */
+export function getDefaultRosterRules(gameMode: string, gameType: string): RosterRules {
+  const size = getModeSize(gameMode, gameType);
+  return {
+    minPlayers: size,
+    maxPlayers: size,
+    maxSubstitutes: size === 1 ? 0 : 1,
+    requiredRoles: []
+  };
+}
+
+/**
+ * The roster rules a tournament registers teams under
+ */
+export function getRosterRules(tournament: RosterSettings): RosterRules {
+  // teamType is what the admin form sets, gameMode is only its newer alias
+  const defaults = getDefaultRosterRules(tournament.teamType || tournament.gameMode, tournament.gameType);
+  return {
+    minPlayers: tournament.minRosterSize ?? defaults.minPlayers,
+    maxPlayers: tournament.maxRosterSize ?? defaults.maxPlayers,
+    maxSubstitutes: tournament.maxSubstitutes ?? defaults.maxSubstitutes,
+    requiredRoles: tournament.requiredRoles ?? defaults.requiredRoles
+  };
+}
+
+/**
+ * Check the rules an admin configured make sense
+ * @returns An error message, or null if they are valid
+ */
+export function validateRosterRules(rules: RosterRules): string | null {
+  if (rules.minPlayers > rules.maxPlayers) {
+    return "The minimum roster size cannot be larger than the maximum";
+  }
+  return null;
+}
+
+/**
+ * The most members a team of a game may have - a full squad and a substitute
+ */
+export function getTeamSizeLimit(gameType: string): number {
+  return getSquadSize(gameType) + 1;
+}
+
+/**
+ * Check a team's members against a tournament's roster rules
+ * @returns Why the team cannot play, or null if its roster is fine
+ */
+export function checkRoster(rules: RosterRules, members: TeamMember[]): string | null {
+  const substitutes = members.filter(member => member.role === 'substitute');
+  const players = members.length - substitutes.length;
+
+  if (players < rules.minPlayers) {
+    return `This tournament requires at least ${rules.minPlayers} players. Your team has ${players}.`;
+  }
+  if (substitutes.length > rules.maxSubstitutes) {
+    return `This tournament allows at most ${rules.maxSubstitutes} substitutes. Your team has ${substitutes.length}.`;
+  }
+  if (members.length > rules.maxPlayers + rules.maxSubstitutes) {
+    return `This tournament allows at most ${rules.maxPlayers} players and ${rules.maxSubstitutes} substitutes. Your team has ${members.length} members.`;
+  }
+
+  const missingRoles = rules.requiredRoles.filter(role => !members.some(member => member.role === role));
+  if (missingRoles.length > 0) {
+    return `Your team needs a ${missingRoles.join(' and a ')} to register for this tournament`;
+  }
+  return null;
+}
+
+/**
+ * Why a team cannot enter a tournament - it plays another game, or its
+ * roster does not meet the tournament's rules
+ * @returns null if the team is eligible
+ */
+export function checkTeamEligibility(tournament: Tournament, team: Team, members: TeamMember[]): string | null {
+  if (team.gameType !== tournament.gameType) {
+    return `${team.name} is a ${getGameName(team.gameType)} team and this is a ${getGameName(tournament.gameType)} tournament`;
+  }
+  return checkRoster(getRosterRules(tournament), members);
+}
@@ -4,14 +4,40 @@ import session from 'express-session';
 import { storage } from "./storage";
 import { 
   Team,
+  TeamInvite,
+  Tournament,
+  TournamentTemplate,
   User,
+  SlotAllocationMode,
   insertUserSchema,
   insertTeamSchema, 
-  insertTeamMemberSchema, 
+  teamSettingsSchema,
+  createTeamInviteSchema,
+  inviteMemberSchema,
+  teamPermissionsSchema,
+  transferTeamSchema,
+  memberRoleSchema,
+  TeamAction,
   insertTournamentSchema, 
   updateTournamentSchema,
   insertRegistrationSchema,
-  insertNotificationSchema
+  insertNotificationSchema,
+  insertScoringRulesetSchema,
+  insertTournamentStageSchema,
+  stageSeedingSchema,
+  reportBracketResultSchema,
+  allocateSlotsSchema,
+  moveSlotSchema,
+  splitRoomsSchema,
+  reviewRegistrationSchema,
+  bulkApproveRegistrationsSchema,
+  roomCredentialsSchema,
+  cancelTournamentSchema,
+  cloneTournamentSchema,
+  insertTournamentTemplateSchema,
+  updateTournamentTemplateSchema,
+  recordMatchResultsSchema,
+  declareLineupSchema
 } from "@shared/schema";
 import { setupAuth, hashPassword } from "./auth";
 import { testDatabaseConnection } from "./neon-db";
@@ -27,6 +53,140 @@ import {
   validateHardcodedAdmin,
   logSecurityEvent
 } from "./auth-security";
+import { 
+  getScoringRules, 
+  getTournamentMatches, 
+  getTournamentStandings, 
+  scoreResult 
+} from "./scoring-engine";
+import { 
+  advanceStage, 
+  getGroupName, 
+  getStageStandings, 
+  seedGroup 
+} from "./stage-manager";
+import { 
+  canCorrectResult, 
+  generateBracket, 
+  getBracketChampion, 
+  getBracketEntrants, 
+  reportBracketResult 
+} from "./bracket-engine";
+import { 
+  allocateSlots, 
+  getSlotList, 
+  holdsSlot, 
+  moveToSlot, 
+  pickSlot, 
+  takesPlace 
+} from "./slot-allocator";
+import { 
+  clearRooms, 
+  isRoomReleased, 
+  releaseRoomCredentials, 
+  splitIntoRooms 
+} from "./room-manager";
+import { onRoomRelease } from "./tournament-manager";
+import { 
+  canTransition, 
+  getAllowedTransitions 
+} from "./tournament-status";
+import { cancelTournament } from "./tournament-cancellation";
+import { 
+  cloneTournament, 
+  generateFromTemplate, 
+  getUpcomingOccurrences 
+} from "./tournament-templates";
+import { 
+  presentTournament, 
+  presentTournaments, 
+  type Viewer 
+} from "./tournament-view";
+import { 
+  isTournamentFull, 
+  promoteFromWaitlist 
+} from "./waitlist";
+import { 
+  approveRegistration, 
+  getInitialStatus, 
+  rejectRegistration 
+} from "./registration-review";
+import { 
+  checkIn, 
+  getCheckInCounts, 
+  getCheckInWindow, 
+  isCheckInOpen, 
+  releaseNoShows 
+} from "./check-in";
+import { 
+  canUnregister, 
+  getMatchDataBlock, 
+  getRegistrationBlock 
+} from "./registration-deadlines";
+import { 
+  canManageLineup, 
+  declareLineup, 
+  findUnverifiedPlayers, 
+  isLineupLocked, 
+  snapshotRoster, 
+  validateLineup 
+} from "./lineups";
+import { 
+  checkRoster, 
+  checkTeamEligibility, 
+  getRosterRules, 
+  getTeamSizeLimit, 
+  validateRosterRules 
+} from "./roster-rules";
+import { validateGameMode } from "./game-rules";
+import { 
+  getEntryUserIds, 
+  getUserTeamIds, 
+  isMemberUser, 
+  isTeamMember, 
+  syncMemberProfile 
+} from "./team-membership";
+import { 
+  getEntrantName, 
+  getEntryTeam, 
+  isEntered, 
+  isSoloTournament 
+} from "./entrants";
+import { 
+  describeConflicts, 
+  findPlayerConflicts, 
+  getDuplicatePlayers 
+} from "./duplicate-players";
+import { 
+  approveJoinRequest, 
+  checkJoinRequest, 
+  declineJoinRequest, 
+  getPendingRequest, 
+  requestToJoin 
+} from "./join-requests";
+import { 
+  checkInvite, 
+  createInvite, 
+  getInviteStatus, 
+  redeemInvite, 
+  revokeInvite 
+} from "./team-invites";
+import { 
+  acceptInvitation, 
+  checkInvitation, 
+  checkInvitee, 
+  declineInvitation, 
+  inviteMember 
+} from "./member-invitations";
+import { 
+  canTeam, 
+  checkNewOwner, 
+  describeDenied, 
+  getTeamAccess, 
+  handOverTeam, 
+  leaveTeam, 
+  transferOwnership 
+} from "./team-permissions";
 import { WebSocketServer, WebSocket } from 'ws';
 import { z } from "zod";
 import crypto from "crypto";
@@ -878,6 +1038,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Create a schema for profile updates
       const updateProfileSchema = z.object({
+        username: z.string().min(3, "Username must be at least 3 characters").optional(),
         password: z.string().optional(),
         email: z.string().email().optional(),
         phone: z.string().optional(),
@@ -890,6 +1051,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: result.error.format() });
       }
       
+      // If updating username, check if it's already taken
+      if (result.data.username && result.data.username !== user.username) {
+        const existingUser = await storage.getUserByUsername(result.data.username);
+        if (existingUser) {
+          return res.status(400).json({ message: "Username already exists" });
+        }
+      }
+      
       // If updating email, check if it's already in use
       if (result.data.email && result.data.email !== user.email) {
         const existingEmail = await storage.getUserByEmail(result.data.email);
@@ -903,6 +1072,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Update session if needed
       if (updatedUser) {
+        // Teams list members by name, so they follow the new username and game ID
+        await syncMemberProfile(updatedUser);
+        req.session.username = updatedUser.username;
+        
         req.session.save((err) => {
           if (err) {
             return res.status(500).json({ message: "Error updating session" });
@@ -971,6 +1144,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Automatically add the team creator as team captain
       await storage.addTeamMember({
         teamId: team.id,
+        userId: user.id,
         username: user.username,
         gameId: user.gameId,
         role: "captain"
@@ -982,6 +1156,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Teams a user owns, followed by teams they are a member of
+  const getUserTeams = async (user: User) => {
+    const teams: Team[] = [];
+    for (const teamId of await getUserTeamIds(user)) {
+      const team = await storage.getTeam(teamId);
+      if (team) teams.push(team);
+    }
+    return teams;
+  };
+
   app.get("/api/teams/my", isAuthenticated, async (req, res) => {
     try {
       const userId = req.session.userId!;
@@ -991,34 +1175,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "User not found" });
       }
       
-      // Get teams owned by user
-      const ownedTeams = await storage.getTeamsByOwnerId(userId);
-      
-      // Get all teams
-      const allTeams = await storage.getAllTeams();
-      
-      // Get all team members to find teams where user is a member
-      const memberTeams: Team[] = [];
-      
-      for (const team of allTeams) {
-        // Skip teams the user already owns
-        if (ownedTeams.some(ownedTeam => ownedTeam.id === team.id)) {
-          continue;
-        }
-        
-        // Check if user is a member of this team
-        const members = await storage.getTeamMembers(team.id);
-        const isMember = members.some(member => member.username === user.username);
-        
-        if (isMember) {
-          memberTeams.push(team);
-        }
-      }
-      
-      // Combine owned teams and member teams
-      const combinedTeams = [...ownedTeams, ...memberTeams];
-      
-      res.json(combinedTeams);
+      res.json(await getUserTeams(user));
     } catch (error) {
       console.error("Error fetching user teams:", error);
       res.status(500).json({ message: "Internal server error" });
@@ -1056,6 +1213,63 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Check the current user may take an action for a team, answering the request if not
+  const requireTeamPermission = async (req: Request, res: Response, team: Team, action: TeamAction) => {
+    const allowed = await canTeam(team, { id: req.session.userId!, username: req.session.username! }, action);
+    if (!allowed) {
+      res.status(403).json({ message: describeDenied(action) });
+    }
+    return allowed;
+  };
+  
+  // Why a player can't join a team, or null if they can
+  const getJoinError = async (team: Team, user: User, needsApproval: boolean): Promise<string | null> => {
+    // Teams hold a full squad for their game plus a substitute
+    const members = await storage.getTeamMembers(team.id);
+    if (members.length >= getTeamSizeLimit(team.gameType)) {
+      return "Team is already full";
+    }
+    
+    if (members.some(member => isMemberUser(member, user))) {
+      return "You are already a member of this team";
+    }
+    
+    if (needsApproval && await getPendingRequest(team.id, user.id)) {
+      return "You have already asked to join this team";
+    }
+    
+    return null;
+  };
+  
+  // Add a player to a team, or only leave a request for the owner if the team approves new members.
+  // An invite link's use is only counted once the player is actually on the team.
+  const joinTeam = async (res: Response, team: Team, user: User, needsApproval: boolean, invite?: TeamInvite) => {
+    if (needsApproval) {
+      const request = await requestToJoin(team, user, invite?.id ?? null);
+      return res.status(202).json({
+        pending: true,
+        request,
+        team
+      });
+    }
+    
+    const newMember = await storage.addTeamMember({
+      teamId: team.id,
+      userId: user.id,
+      username: user.username,
+      gameId: user.gameId,
+      role: "member"
+    });
+    if (invite) {
+      await redeemInvite(invite);
+    }
+    
+    return res.status(201).json({
+      member: newMember,
+      team
+    });
+  };
+
   // Join team by invite code
   app.post("/api/teams/join", isAuthenticated, async (req, res) => {
     try {
@@ -1079,90 +1293,76 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Team not found with this invite code" });
       }
       
-      // Check if team already has 5 members (4 + 1 substitute)
-      const members = await storage.getTeamMembers(team.id);
-      if (members.length >= 5) {
-        return res.status(400).json({ message: "Team is already full" });
-      }
-      
-      // Check if user is already a member of this team
-      const userAlreadyInTeam = members.some(member => member.username === user.username);
-      if (userAlreadyInTeam) {
-        return res.status(400).json({ message: "You are already a member of this team" });
+      const error = await getJoinError(team, user, team.requiresJoinApproval);
+      if (error) {
+        return res.status(400).json({ message: error });
       }
       
-      // Add user to team
-      const newMember = await storage.addTeamMember({
-        teamId: team.id,
-        username: user.username,
-        gameId: user.gameId,
-        role: "member"
-      });
-      
-      res.status(201).json({
-        member: newMember,
-        team
-      });
+      return joinTeam(res, team, user, team.requiresJoinApproval);
     } catch (error) {
       res.status(500).json({ message: "Internal server error" });
     }
   });
   
-  // Team members routes
-  app.post("/api/teams/:id/members", isAuthenticated, async (req, res) => {
+  // Look up an invite link before joining with it
+  app.get("/api/invites/:token", isAuthenticated, async (req, res) => {
     try {
-      const teamId = parseInt(req.params.id);
-      const team = await storage.getTeam(teamId);
+      const invite = await storage.getTeamInviteByToken(req.params.token);
+      const team = invite && await storage.getTeam(invite.teamId);
       
-      if (!team) {
-        return res.status(404).json({ message: "Team not found" });
+      if (!invite || !team) {
+        return res.status(404).json({ message: "Invite not found" });
       }
       
-      if (team.ownerId !== req.session.userId) {
-        return res.status(403).json({ message: "You are not the owner of this team" });
+      res.json({
+        team: { id: team.id, name: team.name, gameType: team.gameType },
+        status: getInviteStatus(invite),
+        error: checkInvite(invite, req.session.userId!),
+        expiresAt: invite.expiresAt
+      });
+    } catch (error) {
+      console.error("Error fetching invite:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Join a team with an invite link
+  app.post("/api/invites/:token/join", isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
       
-      const result = insertTeamMemberSchema.safeParse({
-        ...req.body,
-        teamId
-      });
+      const invite = await storage.getTeamInviteByToken(req.params.token);
+      const team = invite && await storage.getTeam(invite.teamId);
       
-      if (!result.success) {
-        return res.status(400).json({ message: result.error.format() });
+      if (!invite || !team) {
+        return res.status(404).json({ message: "Invite not found" });
       }
       
-      // Check if team already has 5 members (4 + 1 substitute)
-      const members = await storage.getTeamMembers(teamId);
-      if (members.length >= 5) {
-        return res.status(400).json({ message: "Team cannot have more than 5 members" });
+      const inviteError = checkInvite(invite, user.id);
+      if (inviteError) {
+        return res.status(400).json({ message: inviteError });
       }
       
-      // Check if the username exists
-      const userExists = await storage.getUserByUsername(req.body.username);
-      if (!userExists) {
-        return res.status(404).json({ 
-          message: `User '${req.body.username}' does not exist. They need to sign up first.`,
-          code: "user_not_found"
-        });
-      }
+      // An invite made out to one player already has the owner's approval
+      const needsApproval = team.requiresJoinApproval && invite.recipientUserId === null;
       
-      // Check if username and gameId are the same
-      if (req.body.username === req.body.gameId) {
-        return res.status(400).json({
-          message: "Username and Game ID cannot be the same",
-          code: "invalid_data"
-        });
+      const error = await getJoinError(team, user, needsApproval);
+      if (error) {
+        return res.status(400).json({ message: error });
       }
       
-      const member = await storage.addTeamMember(result.data);
-      
-      res.status(201).json(member);
+      return joinTeam(res, team, user, needsApproval, invite);
     } catch (error) {
+      console.error("Error joining team with invite:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
-
-  app.get("/api/teams/:id/members", isAuthenticated, async (req, res) => {
+  
+  // Invite links a team has handed out
+  app.get("/api/teams/:id/invites", isAuthenticated, async (req, res) => {
     try {
       const teamId = parseInt(req.params.id);
       const team = await storage.getTeam(teamId);
@@ -1171,38 +1371,64 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Team not found" });
       }
       
-      const members = await storage.getTeamMembers(teamId);
+      if (!await requireTeamPermission(req, res, team, 'manageRoster')) return;
       
-      res.json(members);
+      const invites = await storage.getTeamInvites(teamId);
+      res.json(await Promise.all(invites.map(async (invite) => {
+        const recipient = invite.recipientUserId !== null ? await storage.getUser(invite.recipientUserId) : undefined;
+        return {
+          ...invite,
+          status: getInviteStatus(invite),
+          recipient: recipient?.username ?? null
+        };
+      })));
     } catch (error) {
+      console.error("Error fetching team invites:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
-
-  app.delete("/api/teams/members/:id", isAuthenticated, async (req, res) => {
+  
+  // Create an invite link
+  app.post("/api/teams/:id/invites", isAuthenticated, async (req, res) => {
     try {
-      const memberId = parseInt(req.params.id);
-      const teamMember = await storage.getTeamMember(memberId);
+      const teamId = parseInt(req.params.id);
+      const team = await storage.getTeam(teamId);
       
-      if (!teamMember) {
-        return res.status(404).json({ message: "Team member not found" });
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
       }
       
-      const team = await storage.getTeam(teamMember.teamId);
+      if (!await requireTeamPermission(req, res, team, 'manageRoster')) return;
+      
+      const result = createTeamInviteSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.format() });
+      }
       
-      if (!team || team.ownerId !== req.session.userId) {
-        return res.status(403).json({ message: "You are not the owner of this team" });
+      let recipientUserId: number | null = null;
+      if (result.data.recipient) {
+        const recipient = await storage.getUserByUsername(result.data.recipient);
+        if (!recipient) {
+          return res.status(404).json({ message: `User '${result.data.recipient}' does not exist` });
+        }
+        recipientUserId = recipient.id;
       }
       
-      await storage.deleteTeamMember(memberId);
+      const invite = await createInvite(team, req.session.userId!, {
+        expiresInHours: result.data.expiresInHours,
+        maxUses: result.data.maxUses,
+        recipientUserId
+      });
       
-      res.json({ message: "Team member removed successfully" });
+      res.status(201).json(invite);
     } catch (error) {
+      console.error("Error creating team invite:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
   
-  app.delete("/api/teams/:id", isAuthenticated, async (req, res) => {
+  // Revoke an invite link
+  app.delete("/api/teams/:id/invites/:inviteId", isAuthenticated, async (req, res) => {
     try {
       const teamId = parseInt(req.params.id);
       const team = await storage.getTeam(teamId);
@@ -1211,451 +1437,3043 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Team not found" });
       }
       
-      if (team.ownerId !== req.session.userId) {
-        return res.status(403).json({ message: "You are not the owner of this team" });
-      }
+      if (!await requireTeamPermission(req, res, team, 'manageRoster')) return;
       
-      // Delete all team members first
-      const members = await storage.getTeamMembers(teamId);
-      for (const member of members) {
-        await storage.deleteTeamMember(member.id);
+      const invite = await storage.getTeamInvite(parseInt(req.params.inviteId));
+      if (!invite || invite.teamId !== teamId) {
+        return res.status(404).json({ message: "Invite not found" });
       }
       
-      // Delete the team
-      const deleted = await storage.deleteTeam(teamId);
-      
-      if (deleted) {
-        res.json({ message: "Team deleted successfully" });
-      } else {
-        res.status(500).json({ message: "Failed to delete team" });
-      }
+      const revoked = await revokeInvite(invite);
+      res.json(revoked);
     } catch (error) {
+      console.error("Error revoking team invite:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
-
-  // Tournament routes
-  app.post("/api/tournaments", isAdmin, async (req, res) => {
+  
+  // Replace a team's invite code so the old one stops working
+  app.post("/api/teams/:id/invite-code", isAuthenticated, async (req, res) => {
     try {
-      const result = insertTournamentSchema.safeParse({
-        ...req.body,
-        createdBy: req.session.userId
-      });
+      const teamId = parseInt(req.params.id);
+      const team = await storage.getTeam(teamId);
       
-      if (!result.success) {
-        return res.status(400).json({ message: result.error.format() });
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
       }
       
-      const tournament = await storage.createTournament(result.data);
+      if (!await requireTeamPermission(req, res, team, 'manageRoster')) return;
       
-      res.status(201).json(tournament);
+      const inviteCode = await generate6DigitCode(storage);
+      const updatedTeam = await storage.updateTeam(teamId, { inviteCode });
+      res.json(updatedTeam);
     } catch (error) {
+      console.error("Error regenerating invite code:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
-
-  app.patch("/api/tournaments/:id", isAdmin, async (req, res) => {
+  
+  // Edit a team's details and how it is run
+  app.patch("/api/teams/:id/settings", isAuthenticated, async (req, res) => {
     try {
-      const tournamentId = parseInt(req.params.id);
-      const tournament = await storage.getTournament(tournamentId);
+      const teamId = parseInt(req.params.id);
+      const team = await storage.getTeam(teamId);
       
-      if (!tournament) {
-        return res.status(404).json({ message: "Tournament not found" });
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
       }
       
-      const result = updateTournamentSchema.safeParse({
-        id: tournamentId,
-        ...req.body
-      });
+      if (!await requireTeamPermission(req, res, team, 'editTeam')) return;
       
+      const result = teamSettingsSchema.safeParse(req.body);
       if (!result.success) {
         return res.status(400).json({ message: result.error.format() });
       }
       
-      const updatedTournament = await storage.updateTournament(tournamentId, result.data);
-      
-      // Check if room information was updated (roomId or password changed)
-      const roomInfoUpdated = 
-        (req.body.roomId && req.body.roomId !== tournament.roomId) || 
-        (req.body.password && req.body.password !== tournament.password);
-      
-      // If room info was updated, create notifications for registered users
-      if (roomInfoUpdated && updatedTournament) {
-        try {
-          // Get all registrations for this tournament
-          const registrations = await storage.getRegistrationsByTournament(tournamentId);
-          
-          // Create notifications for each registered user
-          let notificationCount = 0;
-          
-          for (const registration of registrations) {
-            if (registration.userId) {
-              await storage.createNotification({
-                userId: registration.userId,
-                title: `Room Info Updated - ${updatedTournament.title}`,
-                message: `Room ID: ${updatedTournament.roomId || 'Not set'}, Password: ${updatedTournament.password || 'Not set'}`,
-                type: "tournament",
-                relatedId: tournamentId
-              });
-              notificationCount++;
-            }
-          }
-          
-          console.log(`Created ${notificationCount} room info notifications for tournament ${tournamentId}`);
-        } catch (error) {
-          console.error("Error creating room update notifications:", error);
-          // Continue execution even if notifications fail
+      if (result.data.name && result.data.name !== team.name) {
+        const existingTeam = await storage.getTeamByName(result.data.name);
+        if (existingTeam) {
+          return res.status(400).json({ message: "Team name already exists" });
         }
       }
       
-      res.json(updatedTournament);
+      const updatedTeam = await storage.updateTeam(teamId, result.data);
+      res.json(updatedTeam);
     } catch (error) {
-      console.error("Error updating tournament:", error);
+      console.error("Error updating team settings:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
-
-  app.get("/api/tournaments", async (req, res) => {
+  
+  // Join requests waiting on the team
+  app.get("/api/teams/:id/join-requests", isAuthenticated, async (req, res) => {
     try {
-      const status = req.query.status as string | undefined;
+      const teamId = parseInt(req.params.id);
+      const team = await storage.getTeam(teamId);
       
-      let tournaments;
-      if (status) {
-        tournaments = await storage.getTournamentsByStatus(status);
-      } else {
-        tournaments = await storage.getAllTournaments();
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
       }
       
-      res.json(tournaments);
+      if (!await requireTeamPermission(req, res, team, 'manageRoster')) return;
+      
+      const requests = await storage.getJoinRequestsByTeam(teamId);
+      const pending = requests.filter(request => request.status === 'pending');
+      
+      res.json(await Promise.all(pending.map(async (request) => {
+        const user = await storage.getUser(request.userId);
+        return {
+          ...request,
+          username: user?.username || "Unknown Player",
+          gameId: user?.gameId || ""
+        };
+      })));
     } catch (error) {
+      console.error("Error fetching join requests:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
-
-  app.get("/api/tournaments/:id", async (req, res) => {
+  
+  // Look up a join request for someone who manages its team's roster, answering the request if it can't be reviewed
+  const getManagedJoinRequest = async (req: Request, res: Response) => {
+    const team = await storage.getTeam(parseInt(req.params.id));
+    if (!team) {
+      res.status(404).json({ message: "Team not found" });
+      return null;
+    }
+    
+    if (!await requireTeamPermission(req, res, team, 'manageRoster')) return null;
+    
+    const request = await storage.getJoinRequest(parseInt(req.params.requestId));
+    if (!request || request.teamId !== team.id) {
+      res.status(404).json({ message: "Join request not found" });
+      return null;
+    }
+    
+    return { team, request };
+  };
+  
+  // Approve a join request, adding the player to the team
+  app.post("/api/teams/:id/join-requests/:requestId/approve", isAuthenticated, async (req, res) => {
     try {
-      const tournamentId = parseInt(req.params.id);
-      const tournament = await storage.getTournament(tournamentId);
+      const found = await getManagedJoinRequest(req, res);
+      if (!found) return;
       
-      if (!tournament) {
-        return res.status(404).json({ message: "Tournament not found" });
+      const error = await checkJoinRequest(found.team, found.request);
+      if (error) {
+        return res.status(400).json({ message: error });
       }
       
-      res.json(tournament);
+      const member = await approveJoinRequest(found.team, found.request);
+      res.json({ member });
     } catch (error) {
+      console.error("Error approving join request:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
-
-  app.delete("/api/tournaments/:id", isAdmin, async (req, res) => {
+  
+  // Decline a join request
+  app.post("/api/teams/:id/join-requests/:requestId/decline", isAuthenticated, async (req, res) => {
     try {
-      const tournamentId = parseInt(req.params.id);
-      const tournament = await storage.getTournament(tournamentId);
+      const found = await getManagedJoinRequest(req, res);
+      if (!found) return;
       
-      if (!tournament) {
-        return res.status(404).json({ message: "Tournament not found" });
+      if (found.request.status !== 'pending') {
+        return res.status(400).json({ message: `This request has already been ${found.request.status}` });
       }
       
-      // Delete the tournament and all associated registrations
-      try {
-        await storage.deleteTournament(tournamentId);
-        
-        // Log this security-sensitive action
-        logSecurityEvent('Admin deleted tournament', req, { 
-          tournamentId,
-          tournamentInfo: `Tournament #${tournamentId}`
-        });
-        
-        res.json({ message: "Tournament deleted successfully" });
-      } catch (deleteError) {
-        console.error("Error deleting tournament:", deleteError);
-        return res.status(500).json({ 
-          message: "Failed to delete tournament", 
-          error: "There might be data associated with this tournament that cannot be deleted. Please contact support."
-        });
+      const request = await declineJoinRequest(found.team, found.request);
+      res.json({ request });
+    } catch (error) {
+      console.error("Error declining join request:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Find players to invite by username or game ID
+  app.get("/api/users/search", isAuthenticated, async (req, res) => {
+    try {
+      const query = String(req.query.q || "").trim().toLowerCase();
+      if (query.length < 2) {
+        return res.json([]);
+      }
+      
+      const users = await storage.getAllUsers();
+      const matches = users
+        .filter(user => user.role !== 'admin' && user.id !== req.session.userId)
+        .filter(user => user.username.toLowerCase().includes(query) || user.gameId.toLowerCase().includes(query))
+        .slice(0, 10);
+      
+      res.json(matches.map(user => ({ id: user.id, username: user.username, gameId: user.gameId })));
+    } catch (error) {
+      console.error("Error searching users:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Invite a player to a team - they join once they accept
+  app.post("/api/teams/:id/invitations", isAuthenticated, async (req, res) => {
+    try {
+      const teamId = parseInt(req.params.id);
+      const team = await storage.getTeam(teamId);
+      
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      if (!await requireTeamPermission(req, res, team, 'manageRoster')) return;
+      
+      const result = inviteMemberSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.format() });
+      }
+      
+      const invitee = await storage.getUser(result.data.userId);
+      if (!invitee) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const error = await checkInvitee(team, invitee);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+      
+      const invitation = await inviteMember(team, invitee, result.data.role, req.session.userId!);
+      res.status(201).json(invitation);
+    } catch (error) {
+      console.error("Error inviting team member:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Invitations a team is waiting on
+  app.get("/api/teams/:id/invitations", isAuthenticated, async (req, res) => {
+    try {
+      const teamId = parseInt(req.params.id);
+      const team = await storage.getTeam(teamId);
+      
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      if (!await requireTeamPermission(req, res, team, 'manageRoster')) return;
+      
+      const invitations = await storage.getMemberInvitationsByTeam(teamId);
+      const pending = invitations.filter(invitation => invitation.status === 'pending');
+      
+      res.json(await Promise.all(pending.map(async (invitation) => {
+        const user = await storage.getUser(invitation.userId);
+        return {
+          ...invitation,
+          username: user?.username || "Unknown Player",
+          gameId: user?.gameId || ""
+        };
+      })));
+    } catch (error) {
+      console.error("Error fetching team invitations:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Withdraw an invitation the player hasn't answered
+  app.delete("/api/teams/:id/invitations/:invitationId", isAuthenticated, async (req, res) => {
+    try {
+      const teamId = parseInt(req.params.id);
+      const team = await storage.getTeam(teamId);
+      
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      if (!await requireTeamPermission(req, res, team, 'manageRoster')) return;
+      
+      const invitation = await storage.getMemberInvitation(parseInt(req.params.invitationId));
+      if (!invitation || invitation.teamId !== teamId) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      
+      if (invitation.status !== 'pending') {
+        return res.status(400).json({ message: `This invitation has already been ${invitation.status}` });
+      }
+      
+      const cancelled = await storage.updateMemberInvitation(invitation.id, { status: 'cancelled', respondedAt: new Date() });
+      res.json(cancelled);
+    } catch (error) {
+      console.error("Error cancelling team invitation:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Invitations waiting on the current player
+  app.get("/api/team-invitations/my", isAuthenticated, async (req, res) => {
+    try {
+      const invitations = await storage.getMemberInvitationsByUser(req.session.userId!);
+      const pending = invitations.filter(invitation => invitation.status === 'pending');
+      
+      res.json(await Promise.all(pending.map(async (invitation) => {
+        const team = await storage.getTeam(invitation.teamId);
+        return {
+          ...invitation,
+          teamName: team?.name || "Unknown Team",
+          gameType: team?.gameType || ""
+        };
+      })));
+    } catch (error) {
+      console.error("Error fetching user invitations:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Look up an invitation for the player it was sent to, answering the request if it can't be answered
+  const getOwnInvitation = async (req: Request, res: Response) => {
+    const user = await storage.getUser(req.session.userId!);
+    const invitation = await storage.getMemberInvitation(parseInt(req.params.id));
+    if (!user || !invitation || invitation.userId !== user.id) {
+      res.status(404).json({ message: "Invitation not found" });
+      return null;
+    }
+    
+    const team = await storage.getTeam(invitation.teamId);
+    if (!team) {
+      res.status(404).json({ message: "Team not found" });
+      return null;
+    }
+    
+    return { user, invitation, team };
+  };
+  
+  // Accept an invitation and join the team
+  app.post("/api/team-invitations/:id/accept", isAuthenticated, async (req, res) => {
+    try {
+      const found = await getOwnInvitation(req, res);
+      if (!found) return;
+      
+      const error = await checkInvitation(found.team, found.invitation, found.user);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+      
+      const member = await acceptInvitation(found.team, found.invitation, found.user);
+      res.json({ member, team: found.team });
+    } catch (error) {
+      console.error("Error accepting team invitation:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Turn down an invitation
+  app.post("/api/team-invitations/:id/decline", isAuthenticated, async (req, res) => {
+    try {
+      const found = await getOwnInvitation(req, res);
+      if (!found) return;
+      
+      if (found.invitation.status !== 'pending') {
+        return res.status(400).json({ message: `This invitation has already been ${found.invitation.status}` });
+      }
+      
+      const invitation = await declineInvitation(found.team, found.invitation, found.user);
+      res.json(invitation);
+    } catch (error) {
+      console.error("Error declining team invitation:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Team members routes
+  app.get("/api/teams/:id/members", isAuthenticated, async (req, res) => {
+    try {
+      const teamId = parseInt(req.params.id);
+      const team = await storage.getTeam(teamId);
+      
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      const members = await storage.getTeamMembers(teamId);
+      
+      res.json(members);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/teams/members/:id", isAuthenticated, async (req, res) => {
+    try {
+      const memberId = parseInt(req.params.id);
+      const teamMember = await storage.getTeamMember(memberId);
+      
+      if (!teamMember) {
+        return res.status(404).json({ message: "Team member not found" });
+      }
+      
+      const team = await storage.getTeam(teamMember.teamId);
+      
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      if (!await requireTeamPermission(req, res, team, 'manageRoster')) return;
+      
+      if (teamMember.userId === team.ownerId) {
+        return res.status(400).json({ message: "The team owner can't be removed. Transfer ownership first." });
+      }
+      
+      await storage.deleteTeamMember(memberId);
+      
+      res.json({ message: "Team member removed successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  app.delete("/api/teams/:id", isAuthenticated, async (req, res) => {
+    try {
+      const teamId = parseInt(req.params.id);
+      const team = await storage.getTeam(teamId);
+      
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      if (!await requireTeamPermission(req, res, team, 'deleteTeam')) return;
+      
+      // Delete all team members, join requests and invitations first
+      const members = await storage.getTeamMembers(teamId);
+      for (const member of members) {
+        await storage.deleteTeamMember(member.id);
+      }
+      await storage.deleteJoinRequestsByTeam(teamId);
+      await storage.deleteTeamInvitesByTeam(teamId);
+      await storage.deleteMemberInvitationsByTeam(teamId);
+      
+      // Delete the team
+      const deleted = await storage.deleteTeam(teamId);
+      
+      if (deleted) {
+        res.json({ message: "Team deleted successfully" });
+      } else {
+        res.status(500).json({ message: "Failed to delete team" });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // The current user's role on a team and what it lets them do
+  app.get("/api/teams/:id/permissions", isAuthenticated, async (req, res) => {
+    try {
+      const team = await storage.getTeam(parseInt(req.params.id));
+      
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      res.json(await getTeamAccess(team, { id: req.session.userId!, username: req.session.username! }));
+    } catch (error) {
+      console.error("Error fetching team permissions:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Choose who may do what for a team (owner only)
+  app.put("/api/teams/:id/permissions", isAuthenticated, async (req, res) => {
+    try {
+      const teamId = parseInt(req.params.id);
+      const team = await storage.getTeam(teamId);
+      
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      if (team.ownerId !== req.session.userId) {
+        return res.status(403).json({ message: "Only the team owner can change permissions" });
+      }
+      
+      const result = teamPermissionsSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.format() });
+      }
+      
+      const updatedTeam = await storage.updateTeam(teamId, { permissions: result.data });
+      res.json(updatedTeam);
+    } catch (error) {
+      console.error("Error updating team permissions:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Change a member's role (owner only)
+  app.patch("/api/teams/members/:id/role", isAuthenticated, async (req, res) => {
+    try {
+      const member = await storage.getTeamMember(parseInt(req.params.id));
+      
+      if (!member) {
+        return res.status(404).json({ message: "Team member not found" });
+      }
+      
+      const team = await storage.getTeam(member.teamId);
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      if (team.ownerId !== req.session.userId) {
+        return res.status(403).json({ message: "Only the team owner can change roles" });
+      }
+      
+      const result = memberRoleSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.format() });
+      }
+      
+      if (member.userId === team.ownerId && result.data.role !== 'captain') {
+        return res.status(400).json({ message: "The team owner is always a captain" });
+      }
+      
+      const updatedMember = await storage.updateTeamMember(member.id, { role: result.data.role });
+      res.json(updatedMember);
+    } catch (error) {
+      console.error("Error changing member role:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Hand a team to one of its members (owner only)
+  app.post("/api/teams/:id/transfer", isAuthenticated, async (req, res) => {
+    try {
+      const teamId = parseInt(req.params.id);
+      const team = await storage.getTeam(teamId);
+      
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      if (team.ownerId !== req.session.userId) {
+        return res.status(403).json({ message: "Only the team owner can transfer the team" });
+      }
+      
+      const result = transferTeamSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.format() });
+      }
+      
+      const member = await storage.getTeamMember(result.data.memberId);
+      if (!member) {
+        return res.status(404).json({ message: "Team member not found" });
+      }
+      
+      const error = await checkNewOwner(team, member);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+      
+      const updatedTeam = await transferOwnership(team, member);
+      res.json(updatedTeam);
+    } catch (error) {
+      console.error("Error transferring team:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Leave a team
+  app.post("/api/teams/:id/leave", isAuthenticated, async (req, res) => {
+    try {
+      const teamId = parseInt(req.params.id);
+      const team = await storage.getTeam(teamId);
+      
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      if (team.ownerId === req.session.userId) {
+        return res.status(400).json({ message: "Transfer the team to another member before leaving, or delete it" });
+      }
+      
+      const members = await storage.getTeamMembers(teamId);
+      const member = members.find(m => isMemberUser(m, { id: req.session.userId!, username: req.session.username! }));
+      if (!member) {
+        return res.status(400).json({ message: "You are not a member of this team" });
+      }
+      
+      await leaveTeam(team, member);
+      res.json({ message: "You have left the team" });
+    } catch (error) {
+      console.error("Error leaving team:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Check that a tournament's scoring ruleset exists and is meant for its game
+  const validateScoringRuleset = async (rulesetId: number | null | undefined, gameType: string): Promise<string | null> => {
+    if (!rulesetId) return null;
+    
+    const ruleset = await storage.getScoringRuleset(rulesetId);
+    if (!ruleset) {
+      return "Scoring ruleset not found";
+    }
+    if (ruleset.gameType !== gameType) {
+      return `Scoring ruleset "${ruleset.name}" is for ${ruleset.gameType}, not ${gameType}`;
+    }
+    return null;
+  };
+
+  // Check-in has to open before it closes
+  const validateCheckInWindow = (opensMinutes: number | null | undefined, closesMinutes: number): string | null => {
+    if (opensMinutes == null) return null;
+    
+    if (opensMinutes <= closesMinutes) {
+      return "Check-in must open before it closes";
+    }
+    return null;
+  };
+
+  // Registration must open before it closes, and close no later than the start
+  const validateRegistrationWindow = (
+    opensAt: Date | null | undefined,
+    closesAt: Date | null | undefined,
+    start: Date
+  ): string | null => {
+    if (opensAt && closesAt && opensAt >= closesAt) {
+      return "Registration must open before it closes";
+    }
+    if (closesAt && closesAt > start) {
+      return "Registration must close before the tournament starts";
+    }
+    if (opensAt && opensAt >= start) {
+      return "Registration must open before the tournament starts";
+    }
+    return null;
+  };
+
+  // Who is asking, so responses only carry the room credentials they may see
+  const getViewer = (req: Request): Viewer => ({
+    userId: req.session.userId,
+    username: req.session.username,
+    role: req.session.role
+  });
+
+  // Tournament routes
+  app.post("/api/tournaments", isAdmin, async (req, res) => {
+    try {
+      const result = insertTournamentSchema.safeParse({
+        ...req.body,
+        createdBy: req.session.userId
+      });
+      
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.format() });
+      }
+      
+      const rulesetError = await validateScoringRuleset(result.data.scoringRulesetId, result.data.gameType || "BGMI");
+      if (rulesetError) {
+        return res.status(400).json({ message: rulesetError });
+      }
+      
+      const checkInError = validateCheckInWindow(result.data.checkInOpensMinutes, result.data.checkInClosesMinutes ?? 10);
+      if (checkInError) {
+        return res.status(400).json({ message: checkInError });
+      }
+      
+      const registrationError = validateRegistrationWindow(
+        result.data.registrationOpensAt,
+        result.data.registrationClosesAt,
+        result.data.date
+      );
+      if (registrationError) {
+        return res.status(400).json({ message: registrationError });
+      }
+      
+      const gameModeError = validateGameMode(result.data.gameType || "BGMI", result.data.teamType);
+      if (gameModeError) {
+        return res.status(400).json({ message: gameModeError });
+      }
+      
+      const rosterError = validateRosterRules(getRosterRules({
+        teamType: result.data.teamType,
+        gameMode: result.data.gameMode || result.data.teamType,
+        gameType: result.data.gameType || "BGMI",
+        minRosterSize: result.data.minRosterSize ?? null,
+        maxRosterSize: result.data.maxRosterSize ?? null,
+        maxSubstitutes: result.data.maxSubstitutes ?? null,
+        requiredRoles: result.data.requiredRoles ?? []
+      }));
+      if (rosterError) {
+        return res.status(400).json({ message: rosterError });
+      }
+      
+      const tournament = await storage.createTournament(result.data);
+      
+      res.status(201).json(tournament);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/tournaments/:id", isAdmin, async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      const tournament = await storage.getTournament(tournamentId);
+      
+      if (!tournament) {
+        return res.status(404).json({ message: "Tournament not found" });
+      }
+      
+      const result = updateTournamentSchema.safeParse({
+        id: tournamentId,
+        ...req.body
+      });
+      
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.format() });
+      }
+      
+      if (result.data.scoringRulesetId !== undefined || result.data.gameType !== undefined) {
+        const rulesetError = await validateScoringRuleset(
+          result.data.scoringRulesetId !== undefined ? result.data.scoringRulesetId : tournament.scoringRulesetId,
+          result.data.gameType || tournament.gameType
+        );
+        if (rulesetError) {
+          return res.status(400).json({ message: rulesetError });
+        }
+      }
+      
+      const checkInError = validateCheckInWindow(
+        result.data.checkInOpensMinutes !== undefined ? result.data.checkInOpensMinutes : tournament.checkInOpensMinutes,
+        result.data.checkInClosesMinutes ?? tournament.checkInClosesMinutes
+      );
+      if (checkInError) {
+        return res.status(400).json({ message: checkInError });
+      }
+      
+      const { registrationOpensAt, registrationClosesAt, date } = result.data;
+      if (registrationOpensAt !== undefined || registrationClosesAt !== undefined || date !== undefined) {
+        const registrationError = validateRegistrationWindow(
+          registrationOpensAt !== undefined ? registrationOpensAt : tournament.registrationOpensAt,
+          registrationClosesAt !== undefined ? registrationClosesAt : tournament.registrationClosesAt,
+          date || new Date(tournament.date)
+        );
+        if (registrationError) {
+          return res.status(400).json({ message: registrationError });
+        }
+      }
+      
+      if (result.data.gameType !== undefined || result.data.teamType !== undefined) {
+        const gameModeError = validateGameMode(
+          result.data.gameType || tournament.gameType,
+          result.data.teamType || tournament.teamType
+        );
+        if (gameModeError) {
+          return res.status(400).json({ message: gameModeError });
+        }
+      }
+      
+      const rosterError = validateRosterRules(getRosterRules({
+        teamType: result.data.teamType || tournament.teamType,
+        gameMode: result.data.gameMode || tournament.gameMode,
+        gameType: result.data.gameType || tournament.gameType,
+        minRosterSize: result.data.minRosterSize !== undefined ? result.data.minRosterSize : tournament.minRosterSize,
+        maxRosterSize: result.data.maxRosterSize !== undefined ? result.data.maxRosterSize : tournament.maxRosterSize,
+        maxSubstitutes: result.data.maxSubstitutes !== undefined ? result.data.maxSubstitutes : tournament.maxSubstitutes,
+        requiredRoles: result.data.requiredRoles ?? tournament.requiredRoles
+      }));
+      if (rosterError) {
+        return res.status(400).json({ message: rosterError });
+      }
+      
+      if (result.data.status === 'cancelled' && tournament.status !== 'cancelled') {
+        return res.status(400).json({ message: "Use the cancel action so players are refunded and notified" });
+      }
+      
+      if (result.data.status && !canTransition(tournament.status, result.data.status)) {
+        return res.status(400).json({ 
+          message: `A ${tournament.status} tournament cannot be moved to ${result.data.status}`,
+          allowedStatuses: getAllowedTransitions(tournament.status)
+        });
+      }
+      
+      const updatedTournament = await storage.updateTournament(tournamentId, result.data);
+      
+      // Extra slots are offered to the waitlist straight away
+      if (updatedTournament && updatedTournament.totalSlots > tournament.totalSlots) {
+        try {
+          await promoteWaitlistedTeams(tournamentId);
+        } catch (error) {
+          console.error("Error promoting waitlisted teams:", error);
+        }
+      }
+      
+      // Check if room information was updated (roomId or password changed)
+      const roomInfoUpdated = 
+        (req.body.roomId && req.body.roomId !== tournament.roomId) || 
+        (req.body.password && req.body.password !== tournament.password);
+      
+      // If room info was updated, create notifications for registered users.
+      // Scheduled room details are sent when they are released instead, and
+      // teams in a split lobby only ever use their own room's details.
+      if (
+        roomInfoUpdated && updatedTournament && isRoomReleased(updatedTournament) &&
+        (await storage.getRoomsByTournament(tournamentId)).length === 0
+      ) {
+        try {
+          // Only confirmed teams get room credentials
+          const registrations = (await storage.getRegistrationsByTournament(tournamentId)).filter(holdsSlot);
+          
+          // Create notifications for every player on each registered team
+          let notificationCount = 0;
+          
+          for (const registration of registrations) {
+            for (const userId of await getEntryUserIds(registration)) {
+              await storage.createNotification({
+                userId,
+                title: `Room Info Updated - ${updatedTournament.title}`,
+                message: `Room ID: ${updatedTournament.roomId || 'Not set'}, Password: ${updatedTournament.password || 'Not set'}`,
+                type: "tournament",
+                relatedId: tournamentId
+              });
+              notificationCount++;
+            }
+          }
+          
+          console.log(`Created ${notificationCount} room info notifications for tournament ${tournamentId}`);
+        } catch (error) {
+          console.error("Error creating room update notifications:", error);
+          // Continue execution even if notifications fail
+        }
+      }
+      
+      res.json(updatedTournament);
+    } catch (error) {
+      console.error("Error updating tournament:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/tournaments", async (req, res) => {
+    try {
+      const status = req.query.status as string | undefined;
+      
+      let tournaments;
+      if (status) {
+        tournaments = await storage.getTournamentsByStatus(status);
+      } else {
+        tournaments = await storage.getAllTournaments();
+      }
+      
+      // Drafts are only visible to admins until they are published
+      if (req.session.role !== 'admin') {
+        tournaments = tournaments.filter(tournament => tournament.status !== 'draft');
+      }
+      
+      res.json(await presentTournaments(tournaments, getViewer(req)));
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/tournaments/:id", async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      const tournament = await storage.getTournament(tournamentId);
+      
+      if (!tournament || (tournament.status === 'draft' && req.session.role !== 'admin')) {
+        return res.status(404).json({ message: "Tournament not found" });
+      }
+      
+      res.json(await presentTournament(tournament, getViewer(req)));
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/tournaments/:id", isAdmin, async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      const tournament = await storage.getTournament(tournamentId);
+      
+      if (!tournament) {
+        return res.status(404).json({ message: "Tournament not found" });
+      }
+      
+      // Delete the tournament and all associated registrations
+      try {
+        await storage.deleteTournament(tournamentId);
+        
+        // Log this security-sensitive action
+        logSecurityEvent('Admin deleted tournament', req, { 
+          tournamentId,
+          tournamentInfo: `Tournament #${tournamentId}`
+        });
+        
+        res.json({ message: "Tournament deleted successfully" });
+      } catch (deleteError) {
+        console.error("Error deleting tournament:", deleteError);
+        return res.status(500).json({ 
+          message: "Failed to delete tournament", 
+          error: "There might be data associated with this tournament that cannot be deleted. Please contact support."
+        });
+      }
+    } catch (error) {
+      console.error("Tournament delete error:", error);
+      res.status(500).json({ 
+        message: "Internal server error", 
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // Copy a tournament's setup into a one-off draft on another date
+  app.post("/api/tournaments/:id/clone", isAdmin, async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      const tournament = await storage.getTournament(tournamentId);
+      
+      if (!tournament) {
+        return res.status(404).json({ message: "Tournament not found" });
+      }
+      
+      const result = cloneTournamentSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.format() });
+      }
+      
+      const clone = await cloneTournament(tournament, result.data.date, req.session.userId!, result.data.title);
+      
+      res.status(201).json(clone);
+    } catch (error) {
+      console.error("Error cloning tournament:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Call a tournament off but keep its record, refunding and notifying players
+  app.post("/api/tournaments/:id/cancel", isAdmin, async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      const tournament = await storage.getTournament(tournamentId);
+      
+      if (!tournament) {
+        return res.status(404).json({ message: "Tournament not found" });
+      }
+      
+      if (!canTransition(tournament.status, 'cancelled') || tournament.status === 'cancelled') {
+        return res.status(400).json({ message: `A ${tournament.status} tournament cannot be cancelled` });
+      }
+      
+      const result = cancelTournamentSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.format() });
+      }
+      
+      const cancellation = await cancelTournament(tournament, result.data.reason);
+      for (const userId of cancellation.notifiedUserIds) {
+        await pushNotificationCount(userId);
+      }
+      
+      logSecurityEvent('Admin cancelled tournament', req, { 
+        tournamentId,
+        reason: result.data.reason,
+        refunded: cancellation.refundedCount
+      });
+      
+      res.json({
+        tournament: cancellation.tournament,
+        notified: cancellation.notifiedUserIds.length,
+        refunded: cancellation.refundedCount
+      });
+    } catch (error) {
+      console.error("Error cancelling tournament:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Registration routes
+  
+  // Queue a team, or a solo player when teamId is null, for a full tournament instead of turning it away
+  const joinWaitlist = async (res: Response, tournamentId: number, teamId: number | null, userId: number) => {
+    if (await isEntered(tournamentId, { teamId, userId })) {
+      return res.status(400).json({ message: teamId !== null ? "Team is already registered for this tournament" : "You are already registered for this tournament" });
+    }
+    
+    const waitlist = await storage.getWaitlistByTournament(tournamentId);
+    const isWaiting = teamId !== null
+      ? waitlist.some(entry => entry.teamId === teamId)
+      : waitlist.some(entry => entry.teamId === null && entry.userId === userId);
+    if (isWaiting) {
+      return res.status(400).json({ message: teamId !== null ? "Team is already on the waitlist" : "You are already on the waitlist" });
+    }
+    
+    const entry = await storage.createWaitlistEntry({ tournamentId, teamId, userId });
+    return res.status(201).json({ ...entry, waitlisted: true, position: waitlist.length + 1 });
+  };
+  
+  // Push a user's unread notification count to every socket they have open
+  const pushNotificationCount = async (userId: number) => {
+    const count = await storage.getUnreadNotificationsCount(userId);
+    clients.forEach((client, ws) => {
+      if (ws.readyState === WebSocket.OPEN && client.userId === userId) {
+        ws.send(JSON.stringify({
+          type: 'notification_update',
+          count: count
+        }));
+      }
+    });
+  };
+  
+  // Tell players their room details are out so open pages show them straight away
+  const announceRoomRelease = async (tournament: Tournament, userIds: number[]) => {
+    for (const userId of userIds) {
+      await pushNotificationCount(userId);
+    }
+    clients.forEach((client, ws) => {
+      if (ws.readyState === WebSocket.OPEN && client.userId !== undefined && userIds.includes(client.userId)) {
+        ws.send(JSON.stringify({
+          type: 'room_released',
+          tournamentId: tournament.id
+        }));
+      }
+    });
+  };
+  
+  // Fill freed slots from the waitlist and let the promoted users know
+  const promoteWaitlistedTeams = async (tournamentId: number) => {
+    const tournament = await storage.getTournament(tournamentId);
+    if (!tournament) return;
+    
+    const promoted = await promoteFromWaitlist(tournament);
+    for (const registration of promoted) {
+      for (const userId of await getEntryUserIds(registration)) {
+        await pushNotificationCount(userId);
+      }
+    }
+    
+    if (promoted.length > 0) {
+      console.log(`Promoted ${promoted.length} waitlisted teams into tournament ${tournamentId}`);
+    }
+  };
+  
+  app.post("/api/tournaments/:id/register", isAuthenticated, async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      const userId = req.session.userId!;
+      const teamId = parseInt(req.body.teamId);
+      
+      const tournament = await storage.getTournament(tournamentId);
+      if (!tournament) {
+        return res.status(404).json({ message: "Tournament not found" });
+      }
+      
+      const registrationBlock = getRegistrationBlock(tournament);
+      if (registrationBlock) {
+        return res.status(400).json({ message: registrationBlock });
+      }
+      
+      // Get tournament details and type (Squad, Duo, Solo)
+      const tournamentType = tournament.teamType?.toLowerCase() || 'squad'; // Default to Squad if not specified
+      
+      // Solo tournaments are entered by the player alone, without a team
+      if (tournamentType === 'solo') {
+        // For Solo tournaments, the user registers directly without a team
+        // Check if user is already registered
+        const userRegistrations = await storage.getRegistrationsByUser(userId);
+        const alreadyRegistered = userRegistrations.some(reg => reg.tournamentId === tournamentId);
+        
+        if (alreadyRegistered) {
+          return res.status(400).json({ message: "You are already registered for this tournament" });
+        }
+        
+        try {
+          // A player can only be entered once, whichever team they play for
+          const roster = await snapshotRoster(tournament, null, userId);
+          const conflicts = await findPlayerConflicts(tournament, roster);
+          if (conflicts.length > 0) {
+            return res.status(400).json({ message: describeConflicts(conflicts), conflicts });
+          }
+          
+          // Check if tournament is already full
+          if (await isTournamentFull(tournament)) {
+            if (req.body.joinWaitlist) {
+              return joinWaitlist(res, tournamentId, null, userId);
+            }
+            return res.status(400).json({ message: "Tournament is already full", canJoinWaitlist: true });
+          }
+          
+          // Solo players enter on their own, with no team attached
+          // Players are only seated once their registration is approved
+          const status = getInitialStatus(tournament);
+          const soloRegistration = {
+            tournamentId,
+            userId,
+            teamId: null,
+            status,
+            slot: status === 'approved' ? await pickSlot(tournament) : null,
+            roster
+          };
+          
+          const registration = await storage.createRegistration(soloRegistration);
+          return res.status(201).json(registration);
+        } catch (err) {
+          console.error("Error creating solo registration:", err);
+          return res.status(500).json({ 
+            message: "Failed to register for solo tournament. Please try again.",
+            error: err instanceof Error ? err.message : String(err)
+          });
+        }
+      }
+      
+      // For Duo and Squad tournaments, proceed with team validation
+      const team = await storage.getTeam(teamId);
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      // Check the user may enter the team into tournaments
+      const userIsMember = await isTeamMember(teamId, { id: userId, username: req.session.username! });
+      
+      if (!userIsMember) {
+        return res.status(403).json({ message: "You are not a member of this team" });
+      }
+      
+      if (!await requireTeamPermission(req, res, team, 'register')) return;
+      
+      // Check if team is already registered, before its own players count as conflicts
+      const isRegistered = await storage.checkRegistration(tournamentId, teamId);
+      if (isRegistered) {
+        return res.status(400).json({ message: "Team is already registered for this tournament" });
+      }
+      
+      // The team must play the tournament's game and meet its roster rules
+      const teamMembers = await storage.getTeamMembers(teamId);
+      const rosterRules = getRosterRules(tournament);
+      const eligibilityError = checkTeamEligibility(tournament, team, teamMembers);
+      if (eligibilityError) {
+        return res.status(400).json({ 
+          message: eligibilityError, 
+          currentSize: teamMembers.length,
+          rosterRules
+        });
+      }
+      
+      // A player can only be entered once, whichever team they play for
+      const roster = await snapshotRoster(tournament, teamId, userId);
+      const conflicts = await findPlayerConflicts(tournament, roster);
+      if (conflicts.length > 0) {
+        return res.status(400).json({ message: describeConflicts(conflicts), conflicts });
+      }
+      
+      // Check if tournament is already full
+      if (await isTournamentFull(tournament)) {
+        if (req.body.joinWaitlist) {
+          return joinWaitlist(res, tournamentId, teamId, userId);
+        }
+        return res.status(400).json({ message: "Tournament is already full", canJoinWaitlist: true });
+      }
+      
+      const result = insertRegistrationSchema.safeParse({
+        tournamentId,
+        teamId,
+        userId
+      });
+      
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.format() });
+      }
+      
+      // Teams are only seated once their registration is approved
+      const status = getInitialStatus(tournament);
+      const registration = await storage.createRegistration({
+        ...result.data,
+        status,
+        slot: status === 'approved' ? await pickSlot(tournament) : null,
+        roster
+      });
+      
+      res.status(201).json(registration);
+    } catch (error) {
+      console.error("Tournament registration error:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to register for tournament. Please try again." });
+    }
+  });
+
+  app.get("/api/registrations/counts", async (req, res) => {
+    try {
+      // Get all tournaments
+      const tournaments = await storage.getAllTournaments();
+      
+      // Create a map to store tournament ID -> registration count
+      const counts: Record<number, number> = {};
+      
+      // Populate the counts for each tournament
+      for (const tournament of tournaments) {
+        const registrations = await storage.getRegistrationsByTournament(tournament.id);
+        counts[tournament.id] = registrations.filter(takesPlace).length;
+      }
+      
+      res.json(counts);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/registrations/user", isAuthenticated, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const username = req.session.username!;
+      
+      // First, get all teams that the user owns or is a member of
+      const userTeamIds = await getUserTeamIds({ id: userId, username });
+      
+      // Now, get all registrations for all these teams
+      let allRegistrations: any[] = [];
+      
+      // 1. Get registrations made by the user directly
+      const userRegistrations = await storage.getRegistrationsByUser(userId);
+      allRegistrations = [...userRegistrations];
+      
+      // 2. Get registrations for all teams the user is a member of
+      for (const teamId of userTeamIds) {
+        const teamRegistrations = await storage.getRegistrationsByTeam(teamId);
+        // Avoid duplicates by checking if registration is already in the array
+        for (const reg of teamRegistrations) {
+          if (!allRegistrations.some(r => r.id === reg.id)) {
+            allRegistrations.push(reg);
+          }
+        }
+      }
+      
+      // Tournaments are shaped for the user so they only carry credentials the user may see
+      const tournaments: Tournament[] = [];
+      for (const registration of allRegistrations) {
+        const tournament = await storage.getTournament(registration.tournamentId);
+        if (tournament && !tournaments.some(t => t.id === tournament.id)) {
+          tournaments.push(tournament);
+        }
+      }
+      const tournamentViews = await presentTournaments(tournaments, getViewer(req));
+      
+      // Get additional information for each registration
+      const result = await Promise.all(
+        allRegistrations.map(async (registration) => {
+          const tournament = tournamentViews.find(t => t.id === registration.tournamentId);
+          const team = await getEntryTeam(registration);
+          
+          return {
+            ...registration,
+            tournament,
+            team,
+            entrantName: await getEntrantName(registration),
+            // Add a flag to indicate if this registration was made by the current user
+            isRegisteredByMe: registration.userId === userId
+          };
+        })
+      );
+      
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching user registrations:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  app.get("/api/tournaments/:id/registrations", async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      const isAdminUser = req.session?.role === "admin";
+      
+      // Drafts aren't published yet, so only admins see who is in them
+      const tournament = await storage.getTournament(tournamentId);
+      if (!tournament || (tournament.status === 'draft' && !isAdminUser)) {
+        return res.status(404).json({ message: "Tournament not found" });
+      }
+      
+      const registrations = await storage.getRegistrationsByTournament(tournamentId);
+      
+      // Get team info for each registration - solo entries are shown by the player's name
+      const result = await Promise.all(
+        registrations.map(async (registration) => {
+          const team = await getEntryTeam(registration);
+          const entry = {
+            ...registration,
+            team,
+            entrantName: await getEntrantName(registration)
+          };
+          
+          // Player game IDs and review notes are only for admins and the team itself
+          const userId = req.session?.userId;
+          if (isAdminUser || (userId && (await getEntryUserIds(registration)).includes(userId))) {
+            return entry;
+          }
+          const { roster, rejectionReason, ...publicEntry } = entry;
+          return publicEntry;
+        })
+      );
+      
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/registrations/:id", isAuthenticated, async (req, res) => {
+    try {
+      const registrationId = parseInt(req.params.id);
+      const registration = await storage.getRegistration(registrationId);
+      
+      if (!registration) {
+        return res.status(404).json({ message: "Registration not found" });
+      }
+      
+      if (registration.userId !== req.session.userId) {
+        return res.status(403).json({ message: "You did not create this registration" });
+      }
+      
+      const tournament = await storage.getTournament(registration.tournamentId);
+      if (tournament && !canUnregister(tournament, registration)) {
+        return res.status(400).json({ 
+          message: tournament.unregisterCutoffMinutes
+            ? `Registrations can no longer be withdrawn within ${tournament.unregisterCutoffMinutes} minutes of the start`
+            : "Registrations can no longer be withdrawn once the tournament has started"
+        });
+      }
+      
+      const matchDataBlock = await getMatchDataBlock(registration);
+      if (matchDataBlock) {
+        return res.status(400).json({ message: matchDataBlock });
+      }
+      
+      try {
+        await storage.deleteLineupsByRegistration(registrationId);
+        await storage.deleteRegistration(registrationId);
+      } catch (deleteError) {
+        console.error("Error deleting registration:", deleteError);
+        return res.status(500).json({ 
+          message: "Failed to cancel registration", 
+          error: "There was an error processing your request. Please try again later."
+        });
+      }
+      
+      // The freed slot goes to the next team on the waitlist
+      try {
+        await promoteWaitlistedTeams(registration.tournamentId);
+      } catch (promoteError) {
+        console.error("Error promoting waitlisted teams:", promoteError);
+        // Continue execution, the registration itself was canceled
+      }
+      
+      res.json({ message: "Registration canceled successfully" });
+    } catch (error) {
+      console.error("Registration cancellation error:", error);
+      res.status(500).json({ 
+        message: "Internal server error", 
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // The roster a team registered with and the lineups it has declared
+  app.get("/api/registrations/:id/lineups", isAuthenticated, async (req, res) => {
+    try {
+      const registrationId = parseInt(req.params.id);
+      const registration = await storage.getRegistration(registrationId);
+      
+      if (!registration) {
+        return res.status(404).json({ message: "Registration not found" });
+      }
+      
+      const tournament = await storage.getTournament(registration.tournamentId);
+      if (!tournament) {
+        return res.status(404).json({ message: "Tournament not found" });
+      }
+      
+      const team = await getEntryTeam(registration);
+      const canManage = await canManageLineup(registration, team, req.session.userId!, req.session.username!);
+      if (!canManage && req.session.role !== 'admin') {
+        return res.status(403).json({ message: "Only the team's captain can view its lineups" });
+      }
+      
+      res.json({
+        roster: registration.roster,
+        lineups: await storage.getLineupsByRegistration(registrationId),
+        rosterRules: getRosterRules(tournament),
+        locked: isLineupLocked(tournament, registration),
+        canManage
+      });
+    } catch (error) {
+      console.error("Error fetching lineups:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Declare who starts a match and who is on the bench
+  app.put("/api/registrations/:id/lineups", isAuthenticated, async (req, res) => {
+    try {
+      const registrationId = parseInt(req.params.id);
+      const registration = await storage.getRegistration(registrationId);
+      
+      if (!registration) {
+        return res.status(404).json({ message: "Registration not found" });
+      }
+      
+      const tournament = await storage.getTournament(registration.tournamentId);
+      if (!tournament) {
+        return res.status(404).json({ message: "Tournament not found" });
+      }
+      
+      const team = await getEntryTeam(registration);
+      if (!await canManageLineup(registration, team, req.session.userId!, req.session.username!)) {
+        return res.status(403).json({ message: "Only the team's captain can declare its lineup" });
+      }
+      
+      if (isLineupLocked(tournament, registration)) {
+        return res.status(400).json({ message: "Lineups cannot be changed after check-in" });
+      }
+      
+      const result = declareLineupSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.format() });
+      }
+      
+      const lineupError = validateLineup(getRosterRules(tournament), registration.roster, result.data);
+      if (lineupError) {
+        return res.status(400).json({ message: lineupError });
+      }
+      
+      const lineup = await declareLineup(registration, result.data);
+      
+      res.json(lineup);
+    } catch (error) {
+      console.error("Error declaring lineup:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Take a fresh roster snapshot after the team's members changed
+  app.post("/api/registrations/:id/roster", isAuthenticated, async (req, res) => {
+    try {
+      const registrationId = parseInt(req.params.id);
+      const registration = await storage.getRegistration(registrationId);
+      
+      if (!registration) {
+        return res.status(404).json({ message: "Registration not found" });
+      }
+      
+      const tournament = await storage.getTournament(registration.tournamentId);
+      if (!tournament) {
+        return res.status(404).json({ message: "Tournament not found" });
+      }
+      
+      const team = await getEntryTeam(registration);
+      if (!await canManageLineup(registration, team, req.session.userId!, req.session.username!)) {
+        return res.status(403).json({ message: "Only the team's captain can update its roster" });
+      }
+      
+      if (isLineupLocked(tournament, registration)) {
+        return res.status(400).json({ message: "The roster cannot be changed after check-in" });
+      }
+      
+      if (!isSoloTournament(tournament) && registration.teamId !== null) {
+        const rosterError = checkRoster(getRosterRules(tournament), await storage.getTeamMembers(registration.teamId));
+        if (rosterError) {
+          return res.status(400).json({ message: rosterError });
+        }
+      }
+      
+      const roster = await snapshotRoster(tournament, registration.teamId, registration.userId);
+      const conflicts = await findPlayerConflicts(tournament, roster, registrationId);
+      if (conflicts.length > 0) {
+        return res.status(400).json({ message: describeConflicts(conflicts), conflicts });
+      }
+      
+      const updated = await storage.updateRegistration(registrationId, { roster });
+      
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating roster snapshot:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Every registered team's roster and lineups, for checking in-game names against results
+  app.get("/api/tournaments/:id/rosters", isAdmin, async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      const tournament = await storage.getTournament(tournamentId);
+      
+      if (!tournament) {
+        return res.status(404).json({ message: "Tournament not found" });
+      }
+      
+      const registrations = (await storage.getRegistrationsByTournament(tournamentId)).filter(takesPlace);
+      const rosters = [];
+      for (const registration of registrations) {
+        rosters.push({
+          registrationId: registration.id,
+          teamName: await getEntrantName(registration),
+          slot: registration.slot,
+          roster: registration.roster,
+          lineups: await storage.getLineupsByRegistration(registration.id)
+        });
+      }
+      
+      res.json(rosters);
+    } catch (error) {
+      console.error("Error fetching rosters:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Players entered with more than one team, e.g. after a waitlist promotion or a roster change
+  app.get("/api/tournaments/:id/duplicate-players", isAdmin, async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      const tournament = await storage.getTournament(tournamentId);
+      
+      if (!tournament) {
+        return res.status(404).json({ message: "Tournament not found" });
+      }
+      
+      res.json(await getDuplicatePlayers(tournament));
+    } catch (error) {
+      console.error("Error checking for duplicate players:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Approve or reject a single registration
+  app.patch("/api/registrations/:id/status", isAdmin, async (req, res) => {
+    try {
+      const registrationId = parseInt(req.params.id);
+      const registration = await storage.getRegistration(registrationId);
+      
+      if (!registration) {
+        return res.status(404).json({ message: "Registration not found" });
+      }
+      
+      const tournament = await storage.getTournament(registration.tournamentId);
+      if (!tournament) {
+        return res.status(404).json({ message: "Tournament not found" });
+      }
+      
+      const result = reviewRegistrationSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.format() });
+      }
+      
+      const { status, reason } = result.data;
+      let updatedRegistration;
+      
+      if (status === "approved") {
+        // A rejected or no-show team gave its place up, so it can only come back if there is room
+        if (!takesPlace(registration) && await isTournamentFull(tournament)) {
+          return res.status(400).json({ message: "Tournament is already full" });
+        }
+        updatedRegistration = await approveRegistration(tournament, registration);
+      } else {
+        if (registration.status === "rejected") {
+          return res.status(400).json({ message: "Registration is already rejected" });
+        }
+        updatedRegistration = await rejectRegistration(tournament, registration, reason!);
+      }
+      
+      for (const userId of await getEntryUserIds(registration)) {
+        await pushNotificationCount(userId);
+      }
+      
+      logSecurityEvent('Admin reviewed registration', req, { 
+        registrationId, 
+        tournamentId: tournament.id, 
+        status, 
+        reason 
+      });
+      
+      // The freed slot goes to the next team on the waitlist
+      if (status === "rejected") {
+        try {
+          await promoteWaitlistedTeams(tournament.id);
+        } catch (promoteError) {
+          console.error("Error promoting waitlisted teams:", promoteError);
+        }
+      }
+      
+      res.json(updatedRegistration);
+    } catch (error) {
+      console.error("Error reviewing registration:", error);
+      res.status(500).json({ message: "Failed to review registration" });
+    }
+  });
+
+  // Approve several registrations of a tournament at once
+  app.post("/api/tournaments/:id/registrations/approve", isAdmin, async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      const tournament = await storage.getTournament(tournamentId);
+      
+      if (!tournament) {
+        return res.status(404).json({ message: "Tournament not found" });
+      }
+      
+      const result = bulkApproveRegistrationsSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.format() });
+      }
+      
+      const { registrationIds } = result.data;
+      const registrations = await storage.getRegistrationsByTournament(tournamentId);
+      const toApprove = registrations.filter(r => 
+        r.status === "pending" && (!registrationIds || registrationIds.includes(r.id))
+      );
+      
+      const approved = [];
+      for (const registration of toApprove) {
+        approved.push(await approveRegistration(tournament, registration));
+        for (const userId of await getEntryUserIds(registration)) {
+          await pushNotificationCount(userId);
+        }
+      }
+      
+      logSecurityEvent('Admin bulk-approved registrations', req, { 
+        tournamentId, 
+        approvedCount: approved.length 
+      });
+      
+      res.json({ 
+        message: `${approved.length} registration${approved.length === 1 ? "" : "s"} approved`, 
+        registrations: approved 
+      });
+    } catch (error) {
+      console.error("Error approving registrations:", error);
+      res.status(500).json({ message: "Failed to approve registrations" });
+    }
+  });
+
+  // Roster rules teams register under, with the game mode defaults filled in
+  app.get("/api/tournaments/:id/roster-rules", async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      const tournament = await storage.getTournament(tournamentId);
+      
+      if (!tournament) {
+        return res.status(404).json({ message: "Tournament not found" });
+      }
+      
+      res.json(getRosterRules(tournament));
+    } catch (error) {
+      console.error("Error fetching roster rules:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // The user's teams, each with whether it can enter the tournament and why not
+  app.get("/api/tournaments/:id/eligible-teams", isAuthenticated, async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      const tournament = await storage.getTournament(tournamentId);
+      
+      if (!tournament) {
+        return res.status(404).json({ message: "Tournament not found" });
+      }
+      
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const teams = [];
+      for (const team of await getUserTeams(user)) {
+        const reason = await canTeam(team, user, 'register')
+          ? checkTeamEligibility(tournament, team, await storage.getTeamMembers(team.id))
+          : describeDenied('register');
+        teams.push({ team, eligible: reason === null, reason });
+      }
+      
+      res.json(teams);
+    } catch (error) {
+      console.error("Error checking team eligibility:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Check-in routes
+  app.get("/api/tournaments/:id/check-in", async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      const tournament = await storage.getTournament(tournamentId);
+      
+      if (!tournament) {
+        return res.status(404).json({ message: "Tournament not found" });
+      }
+      
+      const window = getCheckInWindow(tournament);
+      const counts = await getCheckInCounts(tournament);
+      
+      res.json({
+        enabled: !!window,
+        opensAt: window?.opensAt ?? null,
+        closesAt: window?.closesAt ?? null,
+        isOpen: isCheckInOpen(tournament),
+        isClosed: !!tournament.checkInProcessedAt,
+        ...counts
+      });
+    } catch (error) {
+      console.error("Error fetching check-in status:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/tournaments/:id/check-in", isAuthenticated, async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      const userId = req.session.userId!;
+      const tournament = await storage.getTournament(tournamentId);
+      
+      if (!tournament) {
+        return res.status(404).json({ message: "Tournament not found" });
+      }
+      
+      if (!isCheckInOpen(tournament)) {
+        return res.status(400).json({ message: "Check-in is not open for this tournament" });
+      }
+      
+      // The user who registered or anyone who can register the team can check it in
+      const registrations = await storage.getRegistrationsByTournament(tournamentId);
+      let registration = registrations.find(r => holdsSlot(r) && r.userId === userId);
+      if (!registration) {
+        for (const candidate of registrations.filter(holdsSlot)) {
+          const team = await getEntryTeam(candidate);
+          if (team && await canTeam(team, { id: userId, username: req.session.username! }, 'register')) {
+            registration = candidate;
+            break;
+          }
+        }
+      }
+      
+      if (!registration) {
+        return res.status(404).json({ message: "You have no confirmed registration for this tournament" });
+      }
+      
+      if (registration.checkedInAt) {
+        return res.status(400).json({ message: "Your team has already checked in" });
+      }
+      
+      const checkedIn = await checkIn(registration);
+      res.json(checkedIn);
+    } catch (error) {
+      console.error("Error checking in:", error);
+      res.status(500).json({ message: "Failed to check in" });
+    }
+  });
+
+  // Close check-in early and release the slots of every team that missed it
+  app.post("/api/tournaments/:id/check-in/close", isAdmin, async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      const tournament = await storage.getTournament(tournamentId);
+      
+      if (!tournament) {
+        return res.status(404).json({ message: "Tournament not found" });
+      }
+      
+      if (!getCheckInWindow(tournament)) {
+        return res.status(400).json({ message: "This tournament does not use check-in" });
+      }
+      
+      if (tournament.checkInProcessedAt) {
+        return res.status(400).json({ message: "Check-in has already closed" });
+      }
+      
+      const noShows = await releaseNoShows(tournament);
+      
+      // No-shows were told they lost their slot, promoted teams that they got one
+      const registrations = await storage.getRegistrationsByTournament(tournamentId);
+      const notifiedUserIds = new Set<number>();
+      for (const registration of [...noShows, ...registrations]) {
+        (await getEntryUserIds(registration)).forEach(userId => notifiedUserIds.add(userId));
+      }
+      for (const notifiedUserId of Array.from(notifiedUserIds)) {
+        await pushNotificationCount(notifiedUserId);
+      }
+      
+      logSecurityEvent('Admin closed tournament check-in', req, { 
+        tournamentId, 
+        noShowCount: noShows.length 
+      });
+      
+      res.json({ message: `${noShows.length} no-show${noShows.length === 1 ? "" : "s"} released`, noShows });
+    } catch (error) {
+      console.error("Error closing check-in:", error);
+      res.status(500).json({ message: "Failed to close check-in" });
+    }
+  });
+
+  // Waitlist routes
+  app.get("/api/tournaments/:id/waitlist", async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      const tournament = await storage.getTournament(tournamentId);
+      
+      if (!tournament) {
+        return res.status(404).json({ message: "Tournament not found" });
+      }
+      
+      const waitlist = await storage.getWaitlistByTournament(tournamentId);
+      const entries = await Promise.all(
+        waitlist.map(async (entry, index) => ({
+          ...entry,
+          position: index + 1,
+          teamName: await getEntrantName(entry)
+        }))
+      );
+      
+      res.json({
+        isFull: await isTournamentFull(tournament),
+        entries
+      });
+    } catch (error) {
+      console.error("Error fetching waitlist:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Leave the waitlist - the team that joined it, or an admin
+  app.delete("/api/waitlist/:id", isAuthenticated, async (req, res) => {
+    try {
+      const entryId = parseInt(req.params.id);
+      const entry = await storage.getWaitlistEntry(entryId);
+      
+      if (!entry) {
+        return res.status(404).json({ message: "Waitlist entry not found" });
+      }
+      
+      if (entry.userId !== req.session.userId && req.session.role !== 'admin') {
+        return res.status(403).json({ message: "You did not join this waitlist" });
+      }
+      
+      await storage.deleteWaitlistEntry(entryId);
+      res.json({ message: "Removed from the waitlist" });
+    } catch (error) {
+      console.error("Error leaving waitlist:", error);
+      res.status(500).json({ message: "Failed to leave waitlist" });
+    }
+  });
+
+  // Match result routes
+  app.get("/api/tournaments/:id/results", async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      const tournament = await storage.getTournament(tournamentId);
+      
+      if (!tournament) {
+        return res.status(404).json({ message: "Tournament not found" });
+      }
+      
+      const matches = await getTournamentMatches(tournamentId);
+      const rules = await getScoringRules(tournament);
+      const registrations = await storage.getRegistrationsByTournament(tournamentId);
+      
+      // Resolve team names once rather than per result
+      const teamNames: Record<number, string> = {};
+      for (const registration of registrations) {
+        teamNames[registration.id] = await getEntrantName(registration);
+      }
+      
+      const result = matches.map(({ match, results }) => ({
+        ...match,
+        results: results.map((matchResult) => ({
+          ...matchResult,
+          teamName: teamNames[matchResult.registrationId] || "Unknown Team",
+          ...scoreResult(matchResult, rules)
+        }))
+      }));
+      
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching match results:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Record (or re-record) every team's result for one match
+  app.post("/api/tournaments/:id/results", isAdmin, async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      const tournament = await storage.getTournament(tournamentId);
+      
+      if (!tournament) {
+        return res.status(404).json({ message: "Tournament not found" });
+      }
+      
+      const result = recordMatchResultsSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.format() });
+      }
+      
+      const { matchNumber, groupId, mapType, playedAt, results } = result.data;
+      
+      // Every result must belong to a team approved for this tournament
+      const registrations = (await storage.getRegistrationsByTournament(tournamentId)).filter(holdsSlot);
+      let registrationIds = new Set(registrations.map(r => r.id));
+      
+      // Group matches can only include the teams seeded into that group
+      if (groupId) {
+        const group = await storage.getStageGroup(groupId);
+        const stage = group ? await storage.getTournamentStage(group.stageId) : undefined;
+        
+        if (!group || !stage || stage.tournamentId !== tournamentId) {
+          return res.status(400).json({ message: "Group is not part of this tournament" });
+        }
+        
+        const groupTeams = await storage.getGroupTeams(groupId);
+        registrationIds = new Set(groupTeams.map(t => t.registrationId).filter(id => registrationIds.has(id)));
+      }
+      
+      const unknownResult = results.find(r => !registrationIds.has(r.registrationId));
+      if (unknownResult) {
+        return res.status(400).json({ 
+          message: groupId
+            ? `Registration ${unknownResult.registrationId} is not an approved team seeded into this group`
+            : `Registration ${unknownResult.registrationId} is not an approved team in this tournament` 
+        });
+      }
+      
+      const seenRegistrations = new Set<number>();
+      const seenPlacements = new Set<number>();
+      for (const entry of results) {
+        if (seenRegistrations.has(entry.registrationId)) {
+          return res.status(400).json({ message: "Each team can only have one result per match" });
+        }
+        if (seenPlacements.has(entry.placement)) {
+          return res.status(400).json({ message: `More than one team finished in position ${entry.placement}` });
+        }
+        if (entry.placement > registrationIds.size) {
+          return res.status(400).json({ 
+            message: `Placement ${entry.placement} is higher than the number of teams in the match (${registrationIds.size})` 
+          });
+        }
+        seenRegistrations.add(entry.registrationId);
+        seenPlacements.add(entry.placement);
+      }
+      
+      // Reuse the match if it was recorded before, replacing its results
+      const existingMatches = await storage.getMatchesByTournament(tournamentId);
+      let match = existingMatches.find(m => m.matchNumber === matchNumber);
+      
+      if (match) {
+        await storage.deleteMatchResults(match.id);
+        match = await storage.updateMatch(match.id, {
+          groupId: groupId ?? match.groupId,
+          mapType: mapType || match.mapType,
+          playedAt: playedAt || match.playedAt,
+          status: "completed"
+        }) || match;
+      } else {
+        match = await storage.createMatch({
+          tournamentId,
+          groupId: groupId ?? null,
+          matchNumber,
+          mapType: mapType || tournament.mapType,
+          playedAt: playedAt || new Date(),
+          status: "completed"
+        });
+      }
+      
+      const savedResults = [];
+      for (const entry of results) {
+        savedResults.push(await storage.createMatchResult({
+          matchId: match.id,
+          registrationId: entry.registrationId,
+          placement: entry.placement,
+          kills: entry.kills,
+          playerKills: entry.playerKills || []
+        }));
+      }
+      
+      logSecurityEvent('Admin recorded match results', req, { 
+        tournamentId,
+        matchId: match.id,
+        resultCount: savedResults.length
+      });
+      
+      // Flag players who were not on their team's roster when it registered
+      const unverifiedPlayers = results.flatMap(entry => {
+        const registration = registrations.find(r => r.id === entry.registrationId);
+        return registration
+          ? findUnverifiedPlayers(registration, entry.playerKills || []).map(player => ({
+              registrationId: registration.id,
+              ...player
+            }))
+          : [];
+      });
+      
+      res.status(201).json({ ...match, results: savedResults, unverifiedPlayers });
+    } catch (error) {
+      console.error("Error recording match results:", error);
+      res.status(500).json({ message: "Failed to record match results" });
+    }
+  });
+
+  app.delete("/api/tournaments/:id/matches/:matchId", isAdmin, async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      const matchId = parseInt(req.params.matchId);
+      const match = await storage.getMatch(matchId);
+      
+      if (!match || match.tournamentId !== tournamentId) {
+        return res.status(404).json({ message: "Match not found" });
+      }
+      
+      await storage.deleteMatch(matchId);
+      
+      res.json({ message: "Match deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting match:", error);
+      res.status(500).json({ message: "Failed to delete match" });
+    }
+  });
+
+  app.get("/api/tournaments/:id/standings", async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      const tournament = await storage.getTournament(tournamentId);
+      
+      if (!tournament) {
+        return res.status(404).json({ message: "Tournament not found" });
+      }
+      
+      const { matches, rules, standings } = await getTournamentStandings(tournament);
+      
+      // Attach team info to each row of the points table - solo rows are players rather than teams
+      const rows = await Promise.all(
+        standings.map(async (row) => {
+          const registration = await storage.getRegistration(row.registrationId);
+          return {
+            ...row,
+            teamId: registration?.teamId ?? null,
+            userId: registration?.userId ?? null,
+            teamName: registration ? await getEntrantName(registration) : "Unknown Team"
+          };
+        })
+      );
+      
+      res.json({
+        tournamentId,
+        matchesPlayed: matches.length,
+        isSolo: isSoloTournament(tournament),
+        rules,
+        standings: rows
+      });
+    } catch (error) {
+      console.error("Error computing standings:", error);
+      res.status(500).json({ message: "Failed to compute standings" });
+    }
+  });
+
+  // Tournament stage routes
+  const stageStatuses = ["pending", "live", "completed"];
+
+  // Look up a stage, making sure it belongs to the tournament in the URL
+  const getStageForTournament = async (tournamentId: number, stageId: number) => {
+    const stage = await storage.getTournamentStage(stageId);
+    return stage && stage.tournamentId === tournamentId ? stage : undefined;
+  };
+
+  // Map each registration of a tournament to its team for display
+  const getRegistrationTeams = async (tournamentId: number) => {
+    const registrations = await storage.getRegistrationsByTournament(tournamentId);
+    const registrationTeams: Record<number, { teamId: number | null; teamName: string }> = {};
+    for (const registration of registrations) {
+      registrationTeams[registration.id] = {
+        teamId: registration.teamId,
+        teamName: await getEntrantName(registration)
+      };
+    }
+    return registrationTeams;
+  };
+
+  // Check whether any match has been played in one of the given groups
+  const hasGroupMatches = async (tournamentId: number, groupIds: number[]) => {
+    const matches = await storage.getMatchesByTournament(tournamentId);
+    return matches.some(match => match.groupId !== null && groupIds.includes(match.groupId));
+  };
+
+  app.get("/api/tournaments/:id/stages", async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      const tournament = await storage.getTournament(tournamentId);
+      
+      if (!tournament) {
+        return res.status(404).json({ message: "Tournament not found" });
+      }
+      
+      const stages = await storage.getStagesByTournament(tournamentId);
+      const registrationTeams = await getRegistrationTeams(tournamentId);
+      
+      const result = await Promise.all(stages.map(async (stage) => {
+        const groups = await storage.getGroupsByStage(stage.id);
+        return {
+          ...stage,
+          groups: await Promise.all(groups.map(async (group) => {
+            const groupTeams = await storage.getGroupTeams(group.id);
+            return {
+              ...group,
+              teams: groupTeams.map((groupTeam) => ({
+                ...groupTeam,
+                teamId: registrationTeams[groupTeam.registrationId]?.teamId ?? null,
+                teamName: registrationTeams[groupTeam.registrationId]?.teamName || "Unknown Team"
+              }))
+            };
+          }))
+        };
+      }));
+      
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching tournament stages:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/tournaments/:id/stages", isAdmin, async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      const tournament = await storage.getTournament(tournamentId);
+      
+      if (!tournament) {
+        return res.status(404).json({ message: "Tournament not found" });
+      }
+      
+      const result = insertTournamentStageSchema
+        .pick({ name: true, advancingPerGroup: true })
+        .extend({ groupCount: z.number().int().min(1).max(26).default(1) })
+        .safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.format() });
+      }
+      
+      const { groupCount, ...stageData } = result.data;
+      
+      // New stages are always played after the existing ones
+      const stages = await storage.getStagesByTournament(tournamentId);
+      const stageOrder = stages.length > 0 ? stages[stages.length - 1].stageOrder + 1 : 1;
+      
+      const stage = await storage.createTournamentStage({
+        ...stageData,
+        tournamentId,
+        stageOrder,
+        status: "pending"
+      });
+      
+      const groups = [];
+      for (let i = 0; i < groupCount; i++) {
+        groups.push(await storage.createStageGroup({ stageId: stage.id, name: getGroupName(i) }));
+      }
+      
+      logSecurityEvent('Admin created tournament stage', req, { tournamentId, stageId: stage.id });
+      
+      res.status(201).json({ ...stage, groups });
+    } catch (error) {
+      console.error("Error creating tournament stage:", error);
+      res.status(500).json({ message: "Failed to create stage" });
+    }
+  });
+
+  app.patch("/api/tournaments/:id/stages/:stageId", isAdmin, async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      const stage = await getStageForTournament(tournamentId, parseInt(req.params.stageId));
+      
+      if (!stage) {
+        return res.status(404).json({ message: "Stage not found" });
+      }
+      
+      const result = insertTournamentStageSchema
+        .pick({ name: true, advancingPerGroup: true })
+        .extend({ status: z.string().refine((val) => stageStatuses.includes(val), "Invalid stage status") })
+        .partial()
+        .safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.format() });
+      }
+      
+      const updatedStage = await storage.updateTournamentStage(stage.id, result.data);
+      
+      res.json(updatedStage);
+    } catch (error) {
+      console.error("Error updating tournament stage:", error);
+      res.status(500).json({ message: "Failed to update stage" });
+    }
+  });
+
+  app.delete("/api/tournaments/:id/stages/:stageId", isAdmin, async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      const stage = await getStageForTournament(tournamentId, parseInt(req.params.stageId));
+      
+      if (!stage) {
+        return res.status(404).json({ message: "Stage not found" });
+      }
+      
+      const groups = await storage.getGroupsByStage(stage.id);
+      if (await hasGroupMatches(tournamentId, groups.map(g => g.id))) {
+        return res.status(400).json({ 
+          message: "Matches have already been played in this stage. Delete its matches first." 
+        });
+      }
+      
+      await storage.deleteTournamentStage(stage.id);
+      
+      logSecurityEvent('Admin deleted tournament stage', req, { tournamentId, stageId: stage.id });
+      
+      res.json({ message: "Stage deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting tournament stage:", error);
+      res.status(500).json({ message: "Failed to delete stage" });
+    }
+  });
+
+  app.post("/api/tournaments/:id/stages/:stageId/groups", isAdmin, async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      const stage = await getStageForTournament(tournamentId, parseInt(req.params.stageId));
+      
+      if (!stage) {
+        return res.status(404).json({ message: "Stage not found" });
+      }
+      
+      const groups = await storage.getGroupsByStage(stage.id);
+      const name = typeof req.body.name === "string" && req.body.name.trim()
+        ? req.body.name.trim()
+        : getGroupName(groups.length);
+      
+      const group = await storage.createStageGroup({ stageId: stage.id, name });
+      
+      res.status(201).json({ ...group, teams: [] });
+    } catch (error) {
+      console.error("Error creating stage group:", error);
+      res.status(500).json({ message: "Failed to create group" });
+    }
+  });
+
+  app.delete("/api/tournaments/:id/stages/:stageId/groups/:groupId", isAdmin, async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      const stage = await getStageForTournament(tournamentId, parseInt(req.params.stageId));
+      const group = await storage.getStageGroup(parseInt(req.params.groupId));
+      
+      if (!stage || !group || group.stageId !== stage.id) {
+        return res.status(404).json({ message: "Group not found" });
+      }
+      
+      if (await hasGroupMatches(tournamentId, [group.id])) {
+        return res.status(400).json({ 
+          message: "Matches have already been played in this group. Delete its matches first." 
+        });
       }
+      
+      await storage.deleteStageGroup(group.id);
+      
+      res.json({ message: "Group deleted successfully" });
     } catch (error) {
-      console.error("Tournament delete error:", error);
-      res.status(500).json({ 
-        message: "Internal server error", 
-        error: error instanceof Error ? error.message : String(error)
+      console.error("Error deleting stage group:", error);
+      res.status(500).json({ message: "Failed to delete group" });
+    }
+  });
+
+  // Seed registered teams into the groups of a stage, replacing each listed group's teams
+  app.put("/api/tournaments/:id/stages/:stageId/seeding", isAdmin, async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      const stage = await getStageForTournament(tournamentId, parseInt(req.params.stageId));
+      
+      if (!stage) {
+        return res.status(404).json({ message: "Stage not found" });
+      }
+      
+      const result = stageSeedingSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.format() });
+      }
+      
+      const groups = await storage.getGroupsByStage(stage.id);
+      const groupIds = new Set(groups.map(g => g.id));
+      const registrations = (await storage.getRegistrationsByTournament(tournamentId)).filter(holdsSlot);
+      const registrationIds = new Set(registrations.map(r => r.id));
+      
+      // A team can only be seeded into one group of the stage
+      const seeded = new Set<number>();
+      for (const entry of result.data.groups) {
+        if (!groupIds.has(entry.groupId)) {
+          return res.status(400).json({ message: `Group ${entry.groupId} is not part of this stage` });
+        }
+        for (const registrationId of entry.registrationIds) {
+          if (!registrationIds.has(registrationId)) {
+            return res.status(400).json({ message: `Registration ${registrationId} is not an approved team in this tournament` });
+          }
+          if (seeded.has(registrationId)) {
+            return res.status(400).json({ message: "A team can only be seeded into one group per stage" });
+          }
+          seeded.add(registrationId);
+        }
+      }
+      
+      // Teams must not stay behind in groups that weren't part of this request
+      for (const group of groups) {
+        if (result.data.groups.some(entry => entry.groupId === group.id)) continue;
+        const groupTeams = await storage.getGroupTeams(group.id);
+        if (groupTeams.some(t => seeded.has(t.registrationId))) {
+          return res.status(400).json({ 
+            message: `A team is already seeded into ${group.name}. Include that group in the seeding.` 
+          });
+        }
+      }
+      
+      for (const entry of result.data.groups) {
+        await seedGroup(entry.groupId, entry.registrationIds);
+      }
+      
+      logSecurityEvent('Admin seeded tournament stage', req, { 
+        tournamentId, 
+        stageId: stage.id, 
+        teamCount: seeded.size 
+      });
+      
+      res.json({ message: "Seeding saved successfully" });
+    } catch (error) {
+      console.error("Error seeding stage:", error);
+      res.status(500).json({ message: "Failed to save seeding" });
+    }
+  });
+
+  app.get("/api/tournaments/:id/stages/:stageId/standings", async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      const tournament = await storage.getTournament(tournamentId);
+      const stage = await getStageForTournament(tournamentId, parseInt(req.params.stageId));
+      
+      if (!tournament || !stage) {
+        return res.status(404).json({ message: "Stage not found" });
+      }
+      
+      const stageStandings = await getStageStandings(tournament, stage);
+      const registrationTeams = await getRegistrationTeams(tournamentId);
+      
+      res.json({
+        stageId: stage.id,
+        advancingPerGroup: stage.advancingPerGroup,
+        groups: stageStandings.map(({ group, standings, advancing }) => ({
+          ...group,
+          standings: standings.map((row) => ({
+            ...row,
+            teamId: registrationTeams[row.registrationId]?.teamId ?? null,
+            teamName: registrationTeams[row.registrationId]?.teamName || "Unknown Team",
+            advancing: advancing.includes(row.registrationId)
+          }))
+        }))
+      });
+    } catch (error) {
+      console.error("Error computing stage standings:", error);
+      res.status(500).json({ message: "Failed to compute standings" });
+    }
+  });
+
+  // Complete a stage and move the top teams of each group into the next stage
+  app.post("/api/tournaments/:id/stages/:stageId/advance", isAdmin, async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      const tournament = await storage.getTournament(tournamentId);
+      const stage = await getStageForTournament(tournamentId, parseInt(req.params.stageId));
+      
+      if (!tournament || !stage) {
+        return res.status(404).json({ message: "Stage not found" });
+      }
+      
+      if (stage.status === "completed") {
+        return res.status(400).json({ message: "This stage has already been completed" });
+      }
+      
+      if (stage.advancingPerGroup < 1) {
+        return res.status(400).json({ message: "No teams advance from this stage" });
+      }
+      
+      const stages = await storage.getStagesByTournament(tournamentId);
+      const nextStage = stages.find(s => s.stageOrder > stage.stageOrder);
+      
+      if (!nextStage) {
+        return res.status(400).json({ message: "This is the final stage of the tournament" });
+      }
+      
+      const advanced = await advanceStage(tournament, stage, nextStage);
+      
+      logSecurityEvent('Admin advanced tournament stage', req, { 
+        tournamentId, 
+        stageId: stage.id, 
+        nextStageId: nextStage.id,
+        advancedCount: advanced.length 
+      });
+      
+      res.json({ 
+        message: `${advanced.length} teams advanced to ${nextStage.name}`,
+        advanced
+      });
+    } catch (error) {
+      console.error("Error advancing stage:", error);
+      res.status(500).json({ message: "Failed to advance stage" });
+    }
+  });
+
+  // Slot allocation routes
+  app.get("/api/tournaments/:id/slots", async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      const tournament = await storage.getTournament(tournamentId);
+      
+      if (!tournament) {
+        return res.status(404).json({ message: "Tournament not found" });
+      }
+      
+      const slotList = await getSlotList(tournamentId);
+      const registrationTeams = await getRegistrationTeams(tournamentId);
+      
+      res.json({
+        tournamentId,
+        totalSlots: tournament.totalSlots,
+        slotAllocation: tournament.slotAllocation,
+        slots: slotList.map((registration) => ({
+          slot: registration.slot,
+          registrationId: registration.id,
+          teamId: registration.teamId,
+          teamName: registrationTeams[registration.id]?.teamName || "Unknown Team"
+        }))
+      });
+    } catch (error) {
+      console.error("Error fetching slot list:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Re-number every slot, optionally switching the tournament's allocation mode
+  app.post("/api/tournaments/:id/slots/allocate", isAdmin, async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      let tournament = await storage.getTournament(tournamentId);
+      
+      if (!tournament) {
+        return res.status(404).json({ message: "Tournament not found" });
+      }
+      
+      const result = allocateSlotsSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.format() });
+      }
+      
+      const mode = result.data.mode || (tournament.slotAllocation as SlotAllocationMode);
+      if (mode !== tournament.slotAllocation) {
+        tournament = await storage.updateTournament(tournamentId, { slotAllocation: mode }) || tournament;
+      }
+      
+      const allocated = await allocateSlots(tournament, mode);
+      
+      logSecurityEvent('Admin allocated tournament slots', req, { 
+        tournamentId, 
+        mode, 
+        teamCount: allocated.length 
+      });
+      
+      res.json({ message: `${allocated.length} slots allocated`, mode });
+    } catch (error) {
+      console.error("Error allocating slots:", error);
+      res.status(500).json({ message: "Failed to allocate slots" });
+    }
+  });
+
+  // Move a team to another slot, swapping with whoever holds it
+  app.post("/api/tournaments/:id/slots/move", isAdmin, async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      const tournament = await storage.getTournament(tournamentId);
+      
+      if (!tournament) {
+        return res.status(404).json({ message: "Tournament not found" });
+      }
+      
+      const result = moveSlotSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.format() });
+      }
+      
+      const { registrationId, slot } = result.data;
+      const registration = await storage.getRegistration(registrationId);
+      
+      if (!registration || registration.tournamentId !== tournamentId) {
+        return res.status(404).json({ message: "Registration not found" });
+      }
+      
+      if (!holdsSlot(registration)) {
+        return res.status(400).json({ message: "Only approved teams can be given a slot" });
+      }
+      
+      if (slot > tournament.totalSlots) {
+        return res.status(400).json({ message: `This tournament only has ${tournament.totalSlots} slots` });
+      }
+      
+      await moveToSlot(registration, slot);
+      
+      logSecurityEvent('Admin moved team slot', req, { tournamentId, registrationId, slot });
+      
+      res.json({ message: `Team moved to slot ${slot}` });
+    } catch (error) {
+      console.error("Error moving slot:", error);
+      res.status(500).json({ message: "Failed to move slot" });
+    }
+  });
+
+  // Room routes - lobbies bigger than one in-game room are split across several rooms
+  app.get("/api/tournaments/:id/rooms", isAdmin, async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      const tournament = await storage.getTournament(tournamentId);
+      
+      if (!tournament) {
+        return res.status(404).json({ message: "Tournament not found" });
+      }
+      
+      const rooms = await storage.getRoomsByTournament(tournamentId);
+      const slotList = await getSlotList(tournamentId);
+      const registrationTeams = await getRegistrationTeams(tournamentId);
+      
+      res.json({
+        tournamentId,
+        roomCapacity: tournament.roomCapacity,
+        rooms: rooms.map((room) => ({
+          ...room,
+          teams: slotList
+            .filter((registration) => registration.roomNumber === room.roomNumber)
+            .map((registration) => ({
+              registrationId: registration.id,
+              slot: registration.slot,
+              teamName: registrationTeams[registration.id]?.teamName || "Unknown Team"
+            }))
+        })),
+        unassignedCount: rooms.length > 0
+          ? slotList.filter((registration) => registration.roomNumber === null).length
+          : 0
+      });
+    } catch (error) {
+      console.error("Error fetching tournament rooms:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Split (or re-balance) the seated teams across rooms
+  app.post("/api/tournaments/:id/rooms/split", isAdmin, async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      let tournament = await storage.getTournament(tournamentId);
+      
+      if (!tournament) {
+        return res.status(404).json({ message: "Tournament not found" });
+      }
+      
+      const result = splitRoomsSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.format() });
+      }
+      
+      const { roomCapacity } = result.data;
+      if (roomCapacity && roomCapacity !== tournament.roomCapacity) {
+        tournament = await storage.updateTournament(tournamentId, { roomCapacity }) || tournament;
+      }
+      
+      const rooms = await splitIntoRooms(tournament);
+      
+      logSecurityEvent('Admin split tournament into rooms', req, { 
+        tournamentId, 
+        roomCapacity: tournament.roomCapacity, 
+        roomCount: rooms.length 
+      });
+      
+      res.json({ message: `Teams split across ${rooms.length} room${rooms.length === 1 ? "" : "s"}`, rooms });
+    } catch (error) {
+      console.error("Error splitting tournament rooms:", error);
+      res.status(500).json({ message: "Failed to split rooms" });
+    }
+  });
+
+  // Merge every room back into a single lobby
+  app.delete("/api/tournaments/:id/rooms", isAdmin, async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      const tournament = await storage.getTournament(tournamentId);
+      
+      if (!tournament) {
+        return res.status(404).json({ message: "Tournament not found" });
+      }
+      
+      await clearRooms(tournament);
+      
+      logSecurityEvent('Admin merged tournament rooms', req, { tournamentId });
+      
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error merging tournament rooms:", error);
+      res.status(500).json({ message: "Failed to merge rooms" });
+    }
+  });
+
+  app.put("/api/tournaments/:id/rooms/:roomNumber", isAdmin, async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      const roomNumber = parseInt(req.params.roomNumber);
+      const rooms = await storage.getRoomsByTournament(tournamentId);
+      const room = rooms.find((r) => r.roomNumber === roomNumber);
+      
+      if (!room) {
+        return res.status(404).json({ message: "Room not found" });
+      }
+      
+      const result = roomCredentialsSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.format() });
+      }
+      
+      const updatedRoom = await storage.updateTournamentRoom(room.id, result.data);
+      
+      logSecurityEvent('Admin updated room credentials', req, { tournamentId, roomNumber });
+      
+      res.json(updatedRoom);
+    } catch (error) {
+      console.error("Error updating room credentials:", error);
+      res.status(500).json({ message: "Failed to update room" });
+    }
+  });
+
+  // Bracket routes
+  app.get("/api/tournaments/:id/bracket", async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      const tournament = await storage.getTournament(tournamentId);
+      
+      if (!tournament) {
+        return res.status(404).json({ message: "Tournament not found" });
+      }
+      
+      const matches = await storage.getBracketMatches(tournamentId);
+      const registrationTeams = await getRegistrationTeams(tournamentId);
+      const teamName = (registrationId: number | null) =>
+        registrationId !== null ? registrationTeams[registrationId]?.teamName || "Unknown Team" : null;
+      
+      const championId = getBracketChampion(matches);
+      
+      res.json({
+        tournamentId,
+        format: tournament.format,
+        championRegistrationId: championId,
+        championName: teamName(championId),
+        matches: matches.map((match) => ({
+          ...match,
+          team1Name: teamName(match.team1RegistrationId),
+          team2Name: teamName(match.team2RegistrationId),
+          team1TeamId: match.team1RegistrationId !== null ? registrationTeams[match.team1RegistrationId]?.teamId ?? null : null,
+          team2TeamId: match.team2RegistrationId !== null ? registrationTeams[match.team2RegistrationId]?.teamId ?? null : null
+        }))
+      });
+    } catch (error) {
+      console.error("Error fetching bracket:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Generate (or regenerate) the bracket from the tournament's entrants
+  app.post("/api/tournaments/:id/bracket", isAdmin, async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      const tournament = await storage.getTournament(tournamentId);
+      
+      if (!tournament) {
+        return res.status(404).json({ message: "Tournament not found" });
+      }
+      
+      if (tournament.format === "battle_royale") {
+        return res.status(400).json({ message: "Battle royale tournaments don't use brackets" });
+      }
+      
+      const existingMatches = await storage.getBracketMatches(tournamentId);
+      if (existingMatches.some(match => match.status === "completed" && !match.isBye)) {
+        return res.status(400).json({ 
+          message: "Results have already been reported. Reset the bracket before generating a new one." 
+        });
+      }
+      
+      const entrants = await getBracketEntrants(tournamentId);
+      if (entrants.length < 2) {
+        return res.status(400).json({ message: "At least 2 teams are needed to generate a bracket" });
+      }
+      
+      const matches = await generateBracket(tournament, entrants);
+      
+      logSecurityEvent('Admin generated tournament bracket', req, { 
+        tournamentId, 
+        format: tournament.format,
+        entrantCount: entrants.length 
       });
+      
+      res.status(201).json(matches);
+    } catch (error) {
+      console.error("Error generating bracket:", error);
+      res.status(500).json({ message: "Failed to generate bracket" });
+    }
+  });
+
+  app.delete("/api/tournaments/:id/bracket", isAdmin, async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      const tournament = await storage.getTournament(tournamentId);
+      
+      if (!tournament) {
+        return res.status(404).json({ message: "Tournament not found" });
+      }
+      
+      const deletedCount = await storage.deleteBracketMatches(tournamentId);
+      
+      logSecurityEvent('Admin reset tournament bracket', req, { tournamentId, deletedCount });
+      
+      res.json({ message: "Bracket reset successfully" });
+    } catch (error) {
+      console.error("Error resetting bracket:", error);
+      res.status(500).json({ message: "Failed to reset bracket" });
     }
   });
 
-  // Registration routes
-  app.post("/api/tournaments/:id/register", isAuthenticated, async (req, res) => {
+  // Report (or correct) the score of one bracket match
+  app.post("/api/tournaments/:id/bracket/matches/:matchId/result", isAdmin, async (req, res) => {
     try {
       const tournamentId = parseInt(req.params.id);
-      const userId = req.session.userId!;
-      const teamId = parseInt(req.body.teamId);
+      const match = await storage.getBracketMatch(parseInt(req.params.matchId));
       
-      const tournament = await storage.getTournament(tournamentId);
-      if (!tournament) {
-        return res.status(404).json({ message: "Tournament not found" });
+      if (!match || match.tournamentId !== tournamentId) {
+        return res.status(404).json({ message: "Match not found" });
       }
       
-      // Get tournament details and type (Squad, Duo, Solo)
-      const tournamentType = tournament.teamType?.toLowerCase() || 'squad'; // Default to Squad if not specified
+      const result = reportBracketResultSchema.safeParse(req.body);
       
-      // Check if team registration is needed (Solo tournaments don't need teams)
-      if (tournamentType === 'solo') {
-        // For Solo tournaments, the user registers directly without a team
-        // Check if user is already registered
-        const userRegistrations = await storage.getRegistrationsByUser(userId);
-        const alreadyRegistered = userRegistrations.some(reg => reg.tournamentId === tournamentId);
-        
-        if (alreadyRegistered) {
-          return res.status(400).json({ message: "You are already registered for this tournament" });
-        }
-        
-        // Check if tournament is already full
-        const registrations = await storage.getRegistrationsByTournament(tournamentId);
-        if (registrations.length >= tournament.totalSlots) {
-          return res.status(400).json({ message: "Tournament is already full" });
-        }
-        
-        try {
-          // For solo tournaments, let's use the team provided by the client
-          // This ensures we meet the foreign key constraint
-          // while still allowing solo tournament registrations
-          if (!teamId) {
-            return res.status(400).json({ message: "Team ID is required even for solo tournaments" });
-          }
-
-          // Verify this team belongs to the user
-          const team = await storage.getTeam(teamId);
-          if (!team) {
-            return res.status(404).json({ message: "Team not found" });
-          }
-          
-          // Check if user is a member or owner of the team
-          if (team.ownerId !== userId) {
-            const userIsMember = await storage.getTeamMembers(teamId)
-              .then(members => members.some(member => member.userId === userId));
-            
-            if (!userIsMember) {
-              return res.status(403).json({ message: "You are not a member of this team" });
-            }
-          }
-          
-          // Create registration with the verified team
-          const soloRegistration = {
-            tournamentId,
-            userId,
-            teamId, // Use the actual team ID
-            slot: registrations.length + 1
-          };
-          
-          const registration = await storage.createRegistration(soloRegistration);
-          return res.status(201).json(registration);
-        } catch (err) {
-          console.error("Error creating solo registration:", err);
-          return res.status(500).json({ 
-            message: "Failed to register for solo tournament. Please try again.",
-            error: err instanceof Error ? err.message : String(err)
-          });
-        }
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.format() });
       }
       
-      // For Duo and Squad tournaments, proceed with team validation
-      const team = await storage.getTeam(teamId);
-      if (!team) {
-        return res.status(404).json({ message: "Team not found" });
+      if (match.isBye) {
+        return res.status(400).json({ message: "This match is a bye and is not played" });
       }
       
-      // Check if user is a member of the team
-      const userIsMember = await storage.getTeamMembers(teamId)
-        .then(members => members.some(member => member.username === req.session.username));
-      
-      if (!userIsMember) {
-        return res.status(403).json({ message: "You are not a member of this team" });
+      if (match.status === "pending") {
+        return res.status(400).json({ message: "Both teams must be known before reporting a result" });
       }
       
-      // Get team members to check team size
-      const teamMembers = await storage.getTeamMembers(teamId);
-      
-      // Validate team size based on tournament type
-      if (tournamentType === 'squad' && teamMembers.length < 4) {
-        return res.status(400).json({ 
-          message: "Squad tournaments require at least 4 team members", 
-          currentSize: teamMembers.length,
-          requiredSize: 4
-        });
-      } else if (tournamentType === 'duo' && teamMembers.length < 2) {
+      if (match.status === "completed" && !(await canCorrectResult(match))) {
         return res.status(400).json({ 
-          message: "Duo tournaments require at least 2 team members", 
-          currentSize: teamMembers.length,
-          requiredSize: 2
+          message: "The teams from this match have already played their next match" 
         });
       }
       
-      // Check if tournament is already full
-      const registrations = await storage.getRegistrationsByTournament(tournamentId);
-      if (registrations.length >= tournament.totalSlots) {
-        return res.status(400).json({ message: "Tournament is already full" });
+      const updatedMatch = await reportBracketResult(match, result.data.team1Score, result.data.team2Score);
+      
+      logSecurityEvent('Admin reported bracket result', req, { 
+        tournamentId, 
+        matchId: match.id,
+        winnerRegistrationId: updatedMatch.winnerRegistrationId 
+      });
+      
+      res.json(updatedMatch);
+    } catch (error) {
+      console.error("Error reporting bracket result:", error);
+      res.status(500).json({ message: "Failed to report result" });
+    }
+  });
+
+  // Scoring ruleset routes
+  app.get("/api/scoring-rulesets", async (req, res) => {
+    try {
+      const gameType = req.query.gameType as string | undefined;
+      
+      let rulesets = await storage.getAllScoringRulesets();
+      if (gameType) {
+        rulesets = rulesets.filter(ruleset => ruleset.gameType === gameType);
       }
       
-      // Check if team is already registered
-      const isRegistered = await storage.checkRegistration(tournamentId, teamId);
-      if (isRegistered) {
-        return res.status(400).json({ message: "Team is already registered for this tournament" });
+      res.json(rulesets);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/scoring-rulesets/:id", async (req, res) => {
+    try {
+      const ruleset = await storage.getScoringRuleset(parseInt(req.params.id));
+      
+      if (!ruleset) {
+        return res.status(404).json({ message: "Scoring ruleset not found" });
       }
       
-      const result = insertRegistrationSchema.safeParse({
-        tournamentId,
-        teamId,
-        userId
+      res.json(ruleset);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Only one ruleset per game type can be the default
+  const clearDefaultRuleset = async (gameType: string, exceptId?: number) => {
+    const rulesets = await storage.getAllScoringRulesets();
+    for (const ruleset of rulesets) {
+      if (ruleset.isDefault && ruleset.gameType === gameType && ruleset.id !== exceptId) {
+        await storage.updateScoringRuleset(ruleset.id, { isDefault: false });
+      }
+    }
+  };
+
+  app.post("/api/scoring-rulesets", isAdmin, async (req, res) => {
+    try {
+      const result = insertScoringRulesetSchema.safeParse({
+        ...req.body,
+        createdBy: req.session.userId
       });
       
       if (!result.success) {
         return res.status(400).json({ message: result.error.format() });
       }
       
-      const registration = await storage.createRegistration(result.data);
+      const existing = (await storage.getAllScoringRulesets())
+        .find(ruleset => ruleset.name.toLowerCase() === result.data.name.toLowerCase());
+      if (existing) {
+        return res.status(400).json({ message: "A scoring ruleset with this name already exists" });
+      }
       
-      res.status(201).json(registration);
+      if (result.data.isDefault) {
+        await clearDefaultRuleset(result.data.gameType || "BGMI");
+      }
+      
+      const ruleset = await storage.createScoringRuleset(result.data);
+      
+      res.status(201).json(ruleset);
     } catch (error) {
-      console.error("Tournament registration error:", error);
-      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to register for tournament. Please try again." });
+      console.error("Error creating scoring ruleset:", error);
+      res.status(500).json({ message: "Failed to create scoring ruleset" });
     }
   });
 
-  app.get("/api/registrations/counts", async (req, res) => {
+  app.patch("/api/scoring-rulesets/:id", isAdmin, async (req, res) => {
     try {
-      // Get all tournaments
-      const tournaments = await storage.getAllTournaments();
+      const rulesetId = parseInt(req.params.id);
+      const ruleset = await storage.getScoringRuleset(rulesetId);
       
-      // Create a map to store tournament ID -> registration count
-      const counts: Record<number, number> = {};
+      if (!ruleset) {
+        return res.status(404).json({ message: "Scoring ruleset not found" });
+      }
       
-      // Populate the counts for each tournament
-      for (const tournament of tournaments) {
-        const registrations = await storage.getRegistrationsByTournament(tournament.id);
-        counts[tournament.id] = registrations.length;
+      const result = insertScoringRulesetSchema.partial().safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.format() });
       }
       
-      res.json(counts);
+      if (result.data.name && result.data.name.toLowerCase() !== ruleset.name.toLowerCase()) {
+        const existing = (await storage.getAllScoringRulesets())
+          .find(r => r.name.toLowerCase() === result.data.name!.toLowerCase());
+        if (existing) {
+          return res.status(400).json({ message: "A scoring ruleset with this name already exists" });
+        }
+      }
+      
+      const isDefault = result.data.isDefault ?? ruleset.isDefault;
+      if (isDefault) {
+        await clearDefaultRuleset(result.data.gameType || ruleset.gameType, rulesetId);
+      }
+      
+      const { createdBy, ...update } = result.data;
+      const updatedRuleset = await storage.updateScoringRuleset(rulesetId, update);
+      
+      res.json(updatedRuleset);
     } catch (error) {
-      res.status(500).json({ message: "Internal server error" });
+      console.error("Error updating scoring ruleset:", error);
+      res.status(500).json({ message: "Failed to update scoring ruleset" });
     }
   });
 
-  app.get("/api/registrations/user", isAuthenticated, async (req, res) => {
+  app.delete("/api/scoring-rulesets/:id", isAdmin, async (req, res) => {
     try {
-      const userId = req.session.userId!;
-      const username = req.session.username!;
+      const rulesetId = parseInt(req.params.id);
+      const ruleset = await storage.getScoringRuleset(rulesetId);
       
-      // First, get all teams that the user is a member of
-      const allTeams = await storage.getAllTeams();
-      const userTeamIds = new Set<number>();
+      if (!ruleset) {
+        return res.status(404).json({ message: "Scoring ruleset not found" });
+      }
       
-      // 1. Add teams the user owns
-      const ownedTeams = await storage.getTeamsByOwnerId(userId);
-      ownedTeams.forEach(team => userTeamIds.add(team.id));
+      // Tournaments keep a reference to their ruleset, so it can't be removed while in use
+      const tournaments = await storage.getAllTournaments();
+      const inUse = tournaments.filter(t => t.scoringRulesetId === rulesetId);
+      if (inUse.length > 0) {
+        return res.status(400).json({ 
+          message: `This ruleset is used by ${inUse.length} tournament(s) and cannot be deleted` 
+        });
+      }
       
-      // 2. Add teams the user is a member of
-      for (const team of allTeams) {
-        const members = await storage.getTeamMembers(team.id);
-        if (members.some(member => member.username === username)) {
-          userTeamIds.add(team.id);
-        }
+      // Templates keep one too, for the tournaments they create
+      const templates = await storage.getAllTournamentTemplates();
+      const usingTemplates = templates.filter(t => t.scoringRulesetId === rulesetId);
+      if (usingTemplates.length > 0) {
+        return res.status(400).json({ 
+          message: `This ruleset is used by the template(s) ${usingTemplates.map(t => t.name).join(', ')} and cannot be deleted` 
+        });
       }
       
-      // Now, get all registrations for all these teams
-      let allRegistrations: any[] = [];
+      await storage.deleteScoringRuleset(rulesetId);
       
-      // 1. Get registrations made by the user directly
-      const userRegistrations = await storage.getRegistrationsByUser(userId);
-      allRegistrations = [...userRegistrations];
+      res.json({ message: "Scoring ruleset deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting scoring ruleset:", error);
+      res.status(500).json({ message: "Failed to delete scoring ruleset" });
+    }
+  });
+
+  // Tournament template routes
+  
+  // A template along with the next few tournaments it will create
+  const withUpcomingOccurrences = (template: TournamentTemplate) => ({
+    ...template,
+    upcomingOccurrences: getUpcomingOccurrences(template, 5)
+  });
+  
+  // Checks shared by creating and editing a template
+  const validateTemplate = async (template: {
+    recurrence: string;
+    weekday?: number | null;
+    gameType?: string;
+    teamType: string;
+    gameMode?: string;
+    scoringRulesetId?: number | null;
+    checkInOpensMinutes?: number | null;
+    checkInClosesMinutes?: number;
+  }): Promise<string | null> => {
+    if (template.recurrence === 'weekly' && (template.weekday === null || template.weekday === undefined)) {
+      return "Weekly templates need a day of the week";
+    }
+    
+    // Tournaments created from the template have to pass the same game rules
+    const gameModeError = validateGameMode(template.gameType || "BGMI", template.teamType);
+    if (gameModeError) return gameModeError;
+    
+    const rosterError = validateRosterRules(getRosterRules({
+      teamType: template.teamType,
+      gameMode: template.gameMode || template.teamType,
+      gameType: template.gameType || "BGMI",
+      minRosterSize: null,
+      maxRosterSize: null,
+      maxSubstitutes: null,
+      requiredRoles: []
+    }));
+    if (rosterError) return rosterError;
+    
+    const rulesetError = await validateScoringRuleset(template.scoringRulesetId, template.gameType || "BGMI");
+    if (rulesetError) return rulesetError;
+    
+    return validateCheckInWindow(template.checkInOpensMinutes, template.checkInClosesMinutes ?? 10);
+  };
+
+  app.get("/api/tournament-templates", isAdmin, async (req, res) => {
+    try {
+      const templates = await storage.getAllTournamentTemplates();
+      res.json(templates.map(withUpcomingOccurrences));
+    } catch (error) {
+      console.error("Error fetching tournament templates:", error);
+      res.status(500).json({ message: "Failed to fetch tournament templates" });
+    }
+  });
+
+  app.post("/api/tournament-templates", isAdmin, async (req, res) => {
+    try {
+      const result = insertTournamentTemplateSchema.safeParse({
+        ...req.body,
+        createdBy: req.session.userId
+      });
       
-      // 2. Get registrations for all teams the user is a member of
-      // Convert Set to Array to avoid iteration issues
-      const teamIdArray = Array.from(userTeamIds);
-      for (const teamId of teamIdArray) {
-        const teamRegistrations = await storage.getRegistrationsByTeam(teamId);
-        // Avoid duplicates by checking if registration is already in the array
-        for (const reg of teamRegistrations) {
-          if (!allRegistrations.some(r => r.id === reg.id)) {
-            allRegistrations.push(reg);
-          }
-        }
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.format() });
       }
       
-      // Get additional information for each registration
-      const result = await Promise.all(
-        allRegistrations.map(async (registration) => {
-          const tournament = await storage.getTournament(registration.tournamentId);
-          const team = await storage.getTeam(registration.teamId);
-          
-          return {
-            ...registration,
-            tournament,
-            team,
-            // Add a flag to indicate if this registration was made by the current user
-            isRegisteredByMe: registration.userId === userId
-          };
-        })
-      );
+      const templateError = await validateTemplate(result.data);
+      if (templateError) {
+        return res.status(400).json({ message: templateError });
+      }
       
-      res.json(result);
+      const template = await storage.createTournamentTemplate(result.data);
+      
+      // Create the first occurrences straight away rather than on the next scheduler run
+      const created = await generateFromTemplate(template);
+      const current = await storage.getTournamentTemplate(template.id) || template;
+      
+      res.status(201).json({ ...withUpcomingOccurrences(current), createdTournaments: created.length });
     } catch (error) {
-      console.error("Error fetching user registrations:", error);
-      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+      console.error("Error creating tournament template:", error);
+      res.status(500).json({ message: "Failed to create tournament template" });
     }
   });
 
-  app.get("/api/tournaments/:id/registrations", async (req, res) => {
+  app.patch("/api/tournament-templates/:id", isAdmin, async (req, res) => {
     try {
-      const tournamentId = parseInt(req.params.id);
-      const registrations = await storage.getRegistrationsByTournament(tournamentId);
+      const templateId = parseInt(req.params.id);
+      const template = await storage.getTournamentTemplate(templateId);
       
-      // Get team info for each registration
-      const result = await Promise.all(
-        registrations.map(async (registration) => {
-          const team = await storage.getTeam(registration.teamId);
-          return {
-            ...registration,
-            team
-          };
-        })
-      );
+      if (!template) {
+        return res.status(404).json({ message: "Tournament template not found" });
+      }
       
-      res.json(result);
+      const result = updateTournamentTemplateSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.format() });
+      }
+      
+      const templateError = await validateTemplate({ ...template, ...result.data });
+      if (templateError) {
+        return res.status(400).json({ message: templateError });
+      }
+      
+      // Changes only apply to tournaments created from now on
+      const updatedTemplate = await storage.updateTournamentTemplate(templateId, result.data);
+      
+      res.json(updatedTemplate && withUpcomingOccurrences(updatedTemplate));
     } catch (error) {
-      res.status(500).json({ message: "Internal server error" });
+      console.error("Error updating tournament template:", error);
+      res.status(500).json({ message: "Failed to update tournament template" });
     }
   });
 
-  app.delete("/api/registrations/:id", isAuthenticated, async (req, res) => {
+  app.delete("/api/tournament-templates/:id", isAdmin, async (req, res) => {
     try {
-      const registrationId = parseInt(req.params.id);
-      const registration = await storage.getRegistration(registrationId);
+      const templateId = parseInt(req.params.id);
+      const template = await storage.getTournamentTemplate(templateId);
       
-      if (!registration) {
-        return res.status(404).json({ message: "Registration not found" });
+      if (!template) {
+        return res.status(404).json({ message: "Tournament template not found" });
       }
       
-      if (registration.userId !== req.session.userId) {
-        return res.status(403).json({ message: "You did not create this registration" });
+      // Tournaments already created stay, they just stop pointing at the template
+      const tournaments = await storage.getAllTournaments();
+      for (const tournament of tournaments.filter(t => t.templateId === templateId)) {
+        await storage.updateTournament(tournament.id, { templateId: null });
       }
       
-      try {
-        await storage.deleteRegistration(registrationId);
-        res.json({ message: "Registration canceled successfully" });
-      } catch (deleteError) {
-        console.error("Error deleting registration:", deleteError);
-        return res.status(500).json({ 
-          message: "Failed to cancel registration", 
-          error: "There was an error processing your request. Please try again later."
-        });
-      }
+      await storage.deleteTournamentTemplate(templateId);
+      
+      res.json({ message: "Tournament template deleted successfully" });
     } catch (error) {
-      console.error("Registration cancellation error:", error);
-      res.status(500).json({ 
-        message: "Internal server error", 
-        error: error instanceof Error ? error.message : String(error)
-      });
+      console.error("Error deleting tournament template:", error);
+      res.status(500).json({ message: "Failed to delete tournament template" });
     }
   });
 
@@ -2092,19 +4910,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       try {
-        // First, delete any teams owned by this user
+        // First, clear out the user's join requests, invite links and invitations,
+        // so nothing still points at them once their teams change hands
+        await storage.deleteJoinRequestsByUser(userId);
+        await storage.deleteTeamInvitesByUser(userId);
+        await storage.deleteMemberInvitationsByUser(userId);
+        
+        // Then hand the user's teams to another member, deleting those nobody can take
         const userTeams = await storage.getTeamsByOwnerId(userId);
         for (const team of userTeams) {
+          if (await handOverTeam(team)) continue;
+          
           // Delete team members first
           const members = await storage.getTeamMembers(team.id);
           for (const member of members) {
             await storage.deleteTeamMember(member.id);
           }
+          await storage.deleteJoinRequestsByTeam(team.id);
+          await storage.deleteTeamInvitesByTeam(team.id);
+          await storage.deleteMemberInvitationsByTeam(team.id);
           
           // Then delete the team
           await storage.deleteTeam(team.id);
         }
         
+        // Players stay on other teams' lists by name, just without the account link
+        const memberships = await storage.getTeamMembershipsByUser(userId);
+        for (const member of memberships) {
+          await storage.updateTeamMember(member.id, { userId: null });
+        }
+        
         // Delete any user-specific notifications or notification_reads
         await storage.deleteAllUserNotifications(userId);
         
@@ -2373,8 +5208,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Player already exists in this team" });
       }
       
+      // Admins can add players without an account; those who have one are linked to it
+      const account = await storage.getUserByUsername(req.body.playerName);
       const newMember = await storage.addTeamMember({
         teamId,
+        userId: account?.id ?? null,
         username: req.body.playerName,
         role: req.body.role || "Player",
         gameId: req.body.gameId || ""
@@ -2410,6 +5248,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log(`Admin attempting to delete team ${teamId}: ${team.name}`);
       
       // Delete the team and all associated data
+      await storage.deleteJoinRequestsByTeam(teamId);
+      await storage.deleteTeamInvitesByTeam(teamId);
+      await storage.deleteMemberInvitationsByTeam(teamId);
       await storage.deleteTeam(teamId);
       
       console.log(`Team ${teamId} deleted successfully`);
@@ -2699,38 +5540,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Tournament not found" });
       }
       
-      // Get all registrations for this tournament
-      const registrations = await storage.getRegistrationsByTournament(tournamentId);
-      
-      // Create notifications for each registered user
-      const notifications = [];
-      
-      for (const registration of registrations) {
-        const notification = await storage.createNotification({
-          userId: registration.userId,
-          title: `Room Info Updated - ${tournament.title}`,
-          message: `Room ID: ${tournament.roomId}, Password: ${tournament.password}`,
-          type: "tournament",
-          relatedId: tournamentId
-        });
-        
-        notifications.push(notification);
-        
-        // Find all connected clients for this user and send direct notification update
-        for (const [ws, client] of clients.entries()) {
-          if (ws.readyState === WebSocket.OPEN && client.userId === registration.userId) {
-            const count = await storage.getUnreadNotificationsCount(registration.userId);
-            ws.send(JSON.stringify({
-              type: 'notification_update',
-              count: count
-            }));
-          }
-        }
-      }
+      // Sending the details by hand publishes them, even ahead of a scheduled release
+      const confirmedCount = (await storage.getRegistrationsByTournament(tournamentId)).filter(holdsSlot).length;
+      const notifiedUserIds = await releaseRoomCredentials(tournament);
+      await announceRoomRelease(tournament, notifiedUserIds);
       
       res.status(201).json({ 
         success: true, 
-        notificationsCreated: notifications.length 
+        notificationsCreated: notifiedUserIds.length,
+        teamsWithoutRoom: confirmedCount - notifiedUserIds.length
       });
     } catch (error) {
       console.error("Error creating room notifications:", error);
@@ -2802,5 +5620,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Attach the broadcastNotification function to app for use in routes
   app.locals.broadcastNotification = broadcastNotification;
   
+  // Push scheduled room releases to the players they were sent to
+  onRoomRelease(announceRoomRelease);
+  
   return httpServer;
 }
@@ -0,0 +1,258 @@
+/**
+ * Scoring Engine
+ * Turns recorded match results into a points table for battle-royale tournaments
+ */
+import { storage } from './storage';
+import { Match, MatchResult, ScoringRuleset, TieBreaker, Tournament } from '@shared/schema';
+import { holdsSlot } from './slot-allocator';
+
+export interface ScoringRules {
+  name: string;
+  // Points awarded by finishing position, index 0 is 1st place.
+  // Placements beyond the end of the table earn 0 points.
+  placementPoints: number[];
+  pointsPerKill: number;
+  killCap: number | null; // Max kills counted per team per match
+  tieBreakers: TieBreaker[]; // Applied in order when teams are level on total points
+}
+
+// Standard BGMI points table, as advertised on the tournament details page
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  name: 'BGMI Standard',
+  placementPoints: [20, 14, 10, 7, 6, 5, 4, 3, 2, 1],
+  pointsPerKill: 1,
+  killCap: null,
+  tieBreakers: ['wins', 'placementPoints', 'kills', 'lastPlacement'],
+};
+
+// Built-in fallbacks for game types that have no default ruleset configured
+const BUILT_IN_RULES: Record<string, ScoringRules> = {
+  BGMI: DEFAULT_SCORING_RULES,
+  FREEFIRE: {
+    name: 'Free Fire Standard',
+    placementPoints: [12, 9, 8, 7, 6, 5, 4, 3, 2, 1],
+    pointsPerKill: 1,
+    killCap: null,
+    tieBreakers: ['wins', 'kills', 'placementPoints', 'lastPlacement'],
+  },
+};
+
+export interface ScoredResult {
+  placementPoints: number;
+  killPoints: number;
+  totalPoints: number;
+}
+
+export interface StandingsRow {
+  rank: number;
+  registrationId: number;
+  matchesPlayed: number;
+  wins: number; // Chicken dinners
+  kills: number;
+  placementPoints: number;
+  killPoints: number;
+  totalPoints: number;
+  bestPlacement: number | null;
+  lastPlacement: number | null; // Placement in the most recent match played
+}
+
+export interface MatchWithResults {
+  match: Match;
+  results: MatchResult[];
+}
+
+/**
+ * Get the placement points for a finishing position
+ */
+export function getPlacementPoints(placement: number, rules: ScoringRules = DEFAULT_SCORING_RULES): number {
+  if (placement < 1) return 0;
+  return rules.placementPoints[placement - 1] ?? 0;
+}
+
+/**
+ * Score a single team's result in a single match
+ */
+export function scoreResult(
+  result: Pick<MatchResult, 'placement' | 'kills'>,
+  rules: ScoringRules = DEFAULT_SCORING_RULES
+): ScoredResult {
+  const placementPoints = getPlacementPoints(result.placement, rules);
+  const countedKills = rules.killCap !== null ? Math.min(result.kills, rules.killCap) : result.kills;
+  const killPoints = countedKills * rules.pointsPerKill;
+
+  return {
+    placementPoints,
+    killPoints,
+    totalPoints: placementPoints + killPoints
+  };
+}
+
+/**
+ * Compare two rows on a single tie-breaker, better row first
+ */
+function compareOnTieBreaker(a: StandingsRow, b: StandingsRow, tieBreaker: TieBreaker): number {
+  switch (tieBreaker) {
+    case 'wins':
+      return b.wins - a.wins;
+    case 'placementPoints':
+      return b.placementPoints - a.placementPoints;
+    case 'kills':
+      return b.kills - a.kills;
+    case 'bestPlacement':
+      return (a.bestPlacement ?? Number.MAX_SAFE_INTEGER) - (b.bestPlacement ?? Number.MAX_SAFE_INTEGER);
+    case 'lastPlacement':
+      return (a.lastPlacement ?? Number.MAX_SAFE_INTEGER) - (b.lastPlacement ?? Number.MAX_SAFE_INTEGER);
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Compare two rows for the points table.
+ * Ties on total points are broken by the ruleset's tie-breakers, in order.
+ */
+function compareRows(a: StandingsRow, b: StandingsRow, rules: ScoringRules): number {
+  if (b.totalPoints !== a.totalPoints) return b.totalPoints - a.totalPoints;
+
+  for (const tieBreaker of rules.tieBreakers) {
+    const result = compareOnTieBreaker(a, b, tieBreaker);
+    if (result !== 0) return result;
+  }
+
+  return 0;
+}
+
+/**
+ * Compute the standings table from every match played in a tournament
+ * @param matches Matches with their recorded results
+ * @param rules Scoring rules to apply
+ * @param registrationIds Registrations to include even if they have no results yet
+ */
+export function computeStandings(
+  matches: MatchWithResults[],
+  rules: ScoringRules = DEFAULT_SCORING_RULES,
+  registrationIds: number[] = []
+): StandingsRow[] {
+  const rows = new Map<number, StandingsRow>();
+
+  const getRow = (registrationId: number): StandingsRow => {
+    let row = rows.get(registrationId);
+    if (!row) {
+      row = {
+        rank: 0,
+        registrationId,
+        matchesPlayed: 0,
+        wins: 0,
+        kills: 0,
+        placementPoints: 0,
+        killPoints: 0,
+        totalPoints: 0,
+        bestPlacement: null,
+        lastPlacement: null
+      };
+      rows.set(registrationId, row);
+    }
+    return row;
+  };
+
+  registrationIds.forEach(getRow);
+
+  // Walk matches in order so lastPlacement ends up holding the latest finish
+  const orderedMatches = [...matches].sort((a, b) => a.match.matchNumber - b.match.matchNumber);
+
+  for (const { results } of orderedMatches) {
+    for (const result of results) {
+      const row = getRow(result.registrationId);
+      const score = scoreResult(result, rules);
+
+      row.matchesPlayed++;
+      row.kills += result.kills;
+      row.placementPoints += score.placementPoints;
+      row.killPoints += score.killPoints;
+      row.totalPoints += score.totalPoints;
+      row.lastPlacement = result.placement;
+
+      if (result.placement === 1) {
+        row.wins++;
+      }
+      if (row.bestPlacement === null || result.placement < row.bestPlacement) {
+        row.bestPlacement = result.placement;
+      }
+    }
+  }
+
+  const standings = Array.from(rows.values()).sort((a, b) => compareRows(a, b, rules));
+
+  // Rows that are still level after every tie-breaker share a rank
+  standings.forEach((row, index) => {
+    const previous = standings[index - 1];
+    row.rank = previous && compareRows(previous, row, rules) === 0 ? previous.rank : index + 1;
+  });
+
+  return standings;
+}
+
+/**
+ * Load every match of a tournament together with its recorded results
+ */
+export async function getTournamentMatches(tournamentId: number): Promise<MatchWithResults[]> {
+  const matches = await storage.getMatchesByTournament(tournamentId);
+
+  return Promise.all(
+    matches.map(async (match) => ({
+      match,
+      results: await storage.getMatchResults(match.id)
+    }))
+  );
+}
+
+/**
+ * Convert a stored ruleset into the rules used by the engine
+ */
+export function toScoringRules(ruleset: ScoringRuleset): ScoringRules {
+  return {
+    name: ruleset.name,
+    placementPoints: ruleset.placementPoints,
+    pointsPerKill: ruleset.pointsPerKill,
+    killCap: ruleset.killCap,
+    tieBreakers: ruleset.tieBreakers,
+  };
+}
+
+/**
+ * Work out which rules a tournament is scored with.
+ * Uses the tournament's chosen ruleset, then the default ruleset for its
+ * game type, then the built-in table for the game type.
+ */
+export async function getScoringRules(tournament: Tournament): Promise<ScoringRules> {
+  if (tournament.scoringRulesetId) {
+    const ruleset = await storage.getScoringRuleset(tournament.scoringRulesetId);
+    if (ruleset) return toScoringRules(ruleset);
+  }
+
+  const rulesets = await storage.getAllScoringRulesets();
+  const gameDefault = rulesets.find(r => r.isDefault && r.gameType === tournament.gameType);
+  if (gameDefault) return toScoringRules(gameDefault);
+
+  return BUILT_IN_RULES[tournament.gameType] || DEFAULT_SCORING_RULES;
+}
+
+/**
+ * Compute the current standings of a tournament from stored results
+ */
+export async function getTournamentStandings(tournament: Tournament): Promise<{
+  matches: MatchWithResults[];
+  rules: ScoringRules;
+  standings: StandingsRow[];
+}> {
+  const [matches, registrations, rules] = await Promise.all([
+    getTournamentMatches(tournament.id),
+    storage.getRegistrationsByTournament(tournament.id),
+    getScoringRules(tournament)
+  ]);
+
+  // Only teams in the lobby get a row before they've played
+  const standings = computeStandings(matches, rules, registrations.filter(holdsSlot).map(r => r.id));
+
+  return { matches, rules, standings };
+}
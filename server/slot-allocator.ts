@@ -0,0 +1,126 @@
+/**
+ * Slot Allocator
+ * Gives every registered team a unique in-game slot number for a tournament
+ */
+import { storage } from './storage';
+import { Registration, SlotAllocationMode, Tournament } from '@shared/schema';
+
+/**
+ * Whether a registration should hold a slot.
+ * Only approved teams are confirmed participants, so only they are seated.
+ */
+export function holdsSlot(registration: Registration): boolean {
+  return registration.status === 'approved';
+}
+
+/**
+ * Whether a registration takes up one of the tournament's places.
+ * Registrations awaiting review do too, so approving them can never overbook.
+ */
+export function takesPlace(registration: Registration): boolean {
+  return registration.status === 'pending' || registration.status === 'approved';
+}
+
+/**
+ * Slot numbers of a tournament that nobody holds yet, lowest first
+ */
+export function getFreeSlots(tournament: Tournament, registrations: Registration[]): number[] {
+  const taken = new Set(registrations.map(r => r.slot).filter((slot): slot is number => slot !== null));
+
+  const free: number[] = [];
+  for (let slot = 1; slot <= tournament.totalSlots; slot++) {
+    if (!taken.has(slot)) free.push(slot);
+  }
+  return free;
+}
+
+/**
+ * Choose the slot for a newly registered team using the tournament's allocation mode
+ * @returns The slot number, or null if every slot is taken
+ */
+export async function pickSlot(tournament: Tournament): Promise<number | null> {
+  const registrations = await storage.getRegistrationsByTournament(tournament.id);
+  const free = getFreeSlots(tournament, registrations);
+
+  if (free.length === 0) return null;
+
+  if (tournament.slotAllocation === 'random') {
+    return free[Math.floor(Math.random() * free.length)];
+  }
+
+  // First come: fill the lowest gap, so slots freed by withdrawals are reused
+  return free[0];
+}
+
+/**
+ * Shuffle a copy of an array (Fisher-Yates)
+ */
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Re-number the slots of every team in a tournament from 1 upwards
+ * @param mode first_come orders by registration time, random shuffles the teams
+ */
+export async function allocateSlots(tournament: Tournament, mode: SlotAllocationMode): Promise<Registration[]> {
+  const registrations = await storage.getRegistrationsByTournament(tournament.id);
+
+  // Clear every slot first so the new numbers never collide with the old ones
+  for (const registration of registrations) {
+    if (registration.slot !== null) {
+      await storage.updateRegistration(registration.id, { slot: null });
+    }
+  }
+
+  const seated = registrations
+    .filter(holdsSlot)
+    .sort((a, b) =>
+      (a.registeredAt ? new Date(a.registeredAt).getTime() : 0) -
+      (b.registeredAt ? new Date(b.registeredAt).getTime() : 0) ||
+      a.id - b.id
+    );
+  const ordered = mode === 'random' ? shuffle(seated) : seated;
+
+  const updated: Registration[] = [];
+  for (let i = 0; i < ordered.length && i < tournament.totalSlots; i++) {
+    const registration = await storage.updateRegistration(ordered[i].id, { slot: i + 1 });
+    if (registration) updated.push(registration);
+  }
+
+  return updated;
+}
+
+/**
+ * Move a team to another slot. If the slot is taken, the two teams swap.
+ * Only call this for a registration that holds a slot.
+ */
+export async function moveToSlot(registration: Registration, slot: number): Promise<void> {
+  const registrations = await storage.getRegistrationsByTournament(registration.tournamentId);
+  const occupant = registrations.find(r => holdsSlot(r) && r.slot === slot && r.id !== registration.id);
+
+  if (occupant) {
+    // Free the target slot first so both teams never hold the same number
+    await storage.updateRegistration(occupant.id, { slot: null });
+    await storage.updateRegistration(registration.id, { slot });
+    await storage.updateRegistration(occupant.id, { slot: registration.slot });
+  } else {
+    await storage.updateRegistration(registration.id, { slot });
+  }
+}
+
+/**
+ * Teams holding a slot in a tournament, in slot order
+ */
+export async function getSlotList(tournamentId: number): Promise<Registration[]> {
+  const registrations = await storage.getRegistrationsByTournament(tournamentId);
+
+  return registrations
+    .filter(registration => holdsSlot(registration) && registration.slot !== null)
+    .sort((a, b) => (a.slot ?? 0) - (b.slot ?? 0));
+}
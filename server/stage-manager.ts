@@ -0,0 +1,123 @@
+/**
+ * Stage Manager
+ * Runs multi-stage tournaments: groups within each stage, per-group standings
+ * and advancing the top teams of every group into the next stage
+ */
+import { storage } from './storage';
+import { GroupTeam, StageGroup, Tournament, TournamentStage } from '@shared/schema';
+import { computeStandings, getScoringRules, getTournamentMatches, StandingsRow } from './scoring-engine';
+import { holdsSlot } from './slot-allocator';
+
+export interface GroupStandings {
+  group: StageGroup;
+  standings: StandingsRow[];
+  advancing: number[]; // Registration ids finishing inside the advancement places
+}
+
+/**
+ * Name groups Group A, Group B... in creation order
+ */
+export function getGroupName(index: number): string {
+  return `Group ${String.fromCharCode(65 + (index % 26))}${index >= 26 ? Math.floor(index / 26) + 1 : ''}`;
+}
+
+/**
+ * Spread an ordered list of registrations across groups in snake order
+ * (A B C C B A A B C...) so every group gets a fair share of strong seeds
+ */
+export function snakeSeed(registrationIds: number[], groupCount: number): number[][] {
+  const groups: number[][] = Array.from({ length: groupCount }, () => []);
+  if (groupCount === 0) return groups;
+
+  registrationIds.forEach((registrationId, index) => {
+    const round = Math.floor(index / groupCount);
+    const position = index % groupCount;
+    const groupIndex = round % 2 === 0 ? position : groupCount - 1 - position;
+    groups[groupIndex].push(registrationId);
+  });
+
+  return groups;
+}
+
+/**
+ * Replace the seeded teams of a group, seeding them in the order given
+ */
+export async function seedGroup(groupId: number, registrationIds: number[]): Promise<GroupTeam[]> {
+  await storage.clearGroupTeams(groupId);
+
+  const groupTeams: GroupTeam[] = [];
+  for (let i = 0; i < registrationIds.length; i++) {
+    groupTeams.push(await storage.addGroupTeam({
+      groupId,
+      registrationId: registrationIds[i],
+      seed: i + 1
+    }));
+  }
+
+  return groupTeams;
+}
+
+/**
+ * Compute the standings of every group in a stage from the matches played in that group
+ */
+export async function getStageStandings(tournament: Tournament, stage: TournamentStage): Promise<GroupStandings[]> {
+  const [groups, matches, rules, registrations] = await Promise.all([
+    storage.getGroupsByStage(stage.id),
+    getTournamentMatches(tournament.id),
+    getScoringRules(tournament),
+    storage.getRegistrationsByTournament(tournament.id)
+  ]);
+  const approvedIds = new Set(registrations.filter(holdsSlot).map(r => r.id));
+
+  return Promise.all(groups.map(async (group) => {
+    // Teams seeded before they were rejected or marked no-show don't get a row
+    const groupTeams = (await storage.getGroupTeams(group.id)).filter(t => approvedIds.has(t.registrationId));
+    const groupMatches = matches.filter(({ match }) => match.groupId === group.id);
+    const standings = computeStandings(groupMatches, rules, groupTeams.map(t => t.registrationId));
+
+    // Only teams that actually played can qualify
+    const advancing = standings
+      .filter(row => row.matchesPlayed > 0)
+      .slice(0, stage.advancingPerGroup)
+      .map(row => row.registrationId);
+
+    return { group, standings, advancing };
+  }));
+}
+
+/**
+ * Complete a stage and seed its qualifiers into the next stage.
+ * Qualifiers are ordered by group finish, then points, and snake-seeded
+ * across the next stage's groups. A single group is created if the
+ * next stage has none yet.
+ * @returns Registration ids that advanced
+ */
+export async function advanceStage(
+  tournament: Tournament,
+  stage: TournamentStage,
+  nextStage: TournamentStage
+): Promise<number[]> {
+  const stageStandings = await getStageStandings(tournament, stage);
+
+  const qualifiers = stageStandings
+    .flatMap(({ standings, advancing }) =>
+      standings.filter(row => advancing.includes(row.registrationId))
+    )
+    .sort((a, b) => a.rank - b.rank || b.totalPoints - a.totalPoints)
+    .map(row => row.registrationId);
+
+  let nextGroups = await storage.getGroupsByStage(nextStage.id);
+  if (nextGroups.length === 0) {
+    nextGroups = [await storage.createStageGroup({ stageId: nextStage.id, name: getGroupName(0) })];
+  }
+
+  const seeding = snakeSeed(qualifiers, nextGroups.length);
+  for (let i = 0; i < nextGroups.length; i++) {
+    await seedGroup(nextGroups[i].id, seeding[i]);
+  }
+
+  await storage.updateTournamentStage(stage.id, { status: 'completed' });
+  await storage.updateTournamentStage(nextStage.id, { status: 'live' });
+
+  return qualifiers;
+}
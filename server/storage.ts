@@ -3,8 +3,22 @@ import {
   type User, type InsertUser, 
   type Team, type InsertTeam, 
   type TeamMember, type InsertTeamMember,
-  type Tournament, type InsertTournament, type UpdateTournament,
+  type TeamJoinRequest, type InsertTeamJoinRequest,
+  type TeamInvite, type InsertTeamInvite,
+  type TeamMemberInvitation, type InsertTeamMemberInvitation,
+  type Tournament, type InsertTournament, type UpdateTournament, type TournamentServerUpdate,
   type Registration, type InsertRegistration,
+  type MatchLineup, type InsertMatchLineup,
+  type WaitlistEntry, type InsertWaitlistEntry,
+  type TournamentRoom, type InsertTournamentRoom,
+  type ScoringRuleset, type InsertScoringRuleset,
+  type TournamentTemplate, type InsertTournamentTemplate,
+  type TournamentStage, type InsertTournamentStage,
+  type StageGroup, type InsertStageGroup,
+  type GroupTeam, type InsertGroupTeam,
+  type Match, type InsertMatch,
+  type BracketMatch, type InsertBracketMatch,
+  type MatchResult, type InsertMatchResult,
   type Notification, type InsertNotification,
   type Admin, type InsertAdmin
 } from "@shared/schema";
@@ -49,17 +63,44 @@ export interface IStorage {
   // Team member operations
   getTeamMembers(teamId: number): Promise<TeamMember[]>;
   getTeamMember(id: number): Promise<TeamMember | undefined>;
+  getTeamMembershipsByUser(userId: number): Promise<TeamMember[]>;
   addTeamMember(member: InsertTeamMember): Promise<TeamMember>;
   updateTeamMember(id: number, member: Partial<TeamMember>): Promise<TeamMember | undefined>;
   deleteTeamMember(id: number): Promise<boolean>;
   
+  // Team join request operations
+  getJoinRequest(id: number): Promise<TeamJoinRequest | undefined>;
+  getJoinRequestsByTeam(teamId: number): Promise<TeamJoinRequest[]>; // Oldest first
+  createJoinRequest(request: InsertTeamJoinRequest): Promise<TeamJoinRequest>;
+  updateJoinRequest(id: number, request: Partial<TeamJoinRequest>): Promise<TeamJoinRequest | undefined>;
+  deleteJoinRequestsByTeam(teamId: number): Promise<number>; // Returns count of deleted requests
+  deleteJoinRequestsByUser(userId: number): Promise<number>; // Returns count of deleted requests
+  
+  // Team invite operations
+  getTeamInvite(id: number): Promise<TeamInvite | undefined>;
+  getTeamInviteByToken(token: string): Promise<TeamInvite | undefined>;
+  getTeamInvites(teamId: number): Promise<TeamInvite[]>; // Newest first
+  createTeamInvite(invite: InsertTeamInvite): Promise<TeamInvite>;
+  updateTeamInvite(id: number, invite: Partial<TeamInvite>): Promise<TeamInvite | undefined>;
+  deleteTeamInvitesByTeam(teamId: number): Promise<number>; // Returns count of deleted invites
+  deleteTeamInvitesByUser(userId: number): Promise<number>; // Invites the user created or was sent, returns count deleted
+  
+  // Team member invitation operations
+  getMemberInvitation(id: number): Promise<TeamMemberInvitation | undefined>;
+  getMemberInvitationsByTeam(teamId: number): Promise<TeamMemberInvitation[]>; // Oldest first
+  getMemberInvitationsByUser(userId: number): Promise<TeamMemberInvitation[]>; // Oldest first
+  createMemberInvitation(invitation: InsertTeamMemberInvitation): Promise<TeamMemberInvitation>;
+  updateMemberInvitation(id: number, invitation: Partial<TeamMemberInvitation>): Promise<TeamMemberInvitation | undefined>;
+  deleteMemberInvitationsByTeam(teamId: number): Promise<number>; // Returns count of deleted invitations
+  deleteMemberInvitationsByUser(userId: number): Promise<number>; // Invitations the user sent or received, returns count deleted
+  
   // Tournament operations
   getTournament(id: number): Promise<Tournament | undefined>;
   getAllTournaments(): Promise<Tournament[]>;
   getTournamentsByStatus(status: string): Promise<Tournament[]>;
   createTournament(tournament: InsertTournament): Promise<Tournament>;
-  updateTournament(id: number, tournament: Partial<UpdateTournament>): Promise<Tournament | undefined>;
-  deleteTournament(id: number): Promise<boolean>;
+  updateTournament(id: number, tournament: Partial<UpdateTournament> & TournamentServerUpdate): Promise<Tournament | undefined>;
+  deleteTournament(id: number): Promise<boolean>; // Also removes its registrations, matches, stages, rooms, waitlist and brackets
   
   // Registration operations
   getRegistration(id: number): Promise<Registration | undefined>;
@@ -67,10 +108,80 @@ export interface IStorage {
   getRegistrationsByUser(userId: number): Promise<Registration[]>;
   getRegistrationsByTeam(teamId: number): Promise<Registration[]>;
   checkRegistration(tournamentId: number, teamId: number): Promise<boolean>;
-  createRegistration(registration: InsertRegistration & { status?: string, paymentStatus?: string }): Promise<Registration>;
+  createRegistration(registration: InsertRegistration & { slot?: number | null, status?: string, paymentStatus?: string }): Promise<Registration>;
   updateRegistration(id: number, registration: Partial<Registration>): Promise<Registration | undefined>;
   deleteRegistration(id: number): Promise<boolean>;
   
+  // Match lineup operations
+  getLineupsByRegistration(registrationId: number): Promise<MatchLineup[]>; // Ordered by match number
+  createMatchLineup(lineup: InsertMatchLineup): Promise<MatchLineup>;
+  updateMatchLineup(id: number, lineup: Partial<MatchLineup>): Promise<MatchLineup | undefined>;
+  deleteLineupsByRegistration(registrationId: number): Promise<number>; // Returns count of deleted lineups
+  
+  // Waitlist operations
+  getWaitlistEntry(id: number): Promise<WaitlistEntry | undefined>;
+  getWaitlistByTournament(tournamentId: number): Promise<WaitlistEntry[]>; // Ordered by join time
+  createWaitlistEntry(entry: InsertWaitlistEntry): Promise<WaitlistEntry>;
+  deleteWaitlistEntry(id: number): Promise<boolean>;
+  
+  // Tournament room operations
+  getRoomsByTournament(tournamentId: number): Promise<TournamentRoom[]>; // Ordered by room number
+  createTournamentRoom(room: InsertTournamentRoom): Promise<TournamentRoom>;
+  updateTournamentRoom(id: number, room: Partial<TournamentRoom>): Promise<TournamentRoom | undefined>;
+  deleteTournamentRoom(id: number): Promise<boolean>;
+  
+  // Tournament template operations
+  getTournamentTemplate(id: number): Promise<TournamentTemplate | undefined>;
+  getAllTournamentTemplates(): Promise<TournamentTemplate[]>;
+  createTournamentTemplate(template: InsertTournamentTemplate): Promise<TournamentTemplate>;
+  updateTournamentTemplate(id: number, template: Partial<TournamentTemplate>): Promise<TournamentTemplate | undefined>;
+  deleteTournamentTemplate(id: number): Promise<boolean>;
+  
+  // Scoring ruleset operations
+  getScoringRuleset(id: number): Promise<ScoringRuleset | undefined>;
+  getAllScoringRulesets(): Promise<ScoringRuleset[]>;
+  createScoringRuleset(ruleset: InsertScoringRuleset): Promise<ScoringRuleset>;
+  updateScoringRuleset(id: number, ruleset: Partial<ScoringRuleset>): Promise<ScoringRuleset | undefined>;
+  deleteScoringRuleset(id: number): Promise<boolean>;
+  
+  // Tournament stage operations
+  getTournamentStage(id: number): Promise<TournamentStage | undefined>;
+  getStagesByTournament(tournamentId: number): Promise<TournamentStage[]>; // Ordered by stage order
+  createTournamentStage(stage: InsertTournamentStage): Promise<TournamentStage>;
+  updateTournamentStage(id: number, stage: Partial<TournamentStage>): Promise<TournamentStage | undefined>;
+  deleteTournamentStage(id: number): Promise<boolean>; // Also removes the stage's groups
+
+  // Stage group operations
+  getStageGroup(id: number): Promise<StageGroup | undefined>;
+  getGroupsByStage(stageId: number): Promise<StageGroup[]>;
+  createStageGroup(group: InsertStageGroup): Promise<StageGroup>;
+  deleteStageGroup(id: number): Promise<boolean>; // Also removes the group's seeded teams
+
+  // Group team operations
+  getGroupTeams(groupId: number): Promise<GroupTeam[]>; // Ordered by seed
+  addGroupTeam(groupTeam: InsertGroupTeam): Promise<GroupTeam>;
+  clearGroupTeams(groupId: number): Promise<number>; // Returns count of removed teams
+
+  // Match operations
+  getMatch(id: number): Promise<Match | undefined>;
+  getMatchesByTournament(tournamentId: number): Promise<Match[]>; // Ordered by match number
+  createMatch(match: InsertMatch): Promise<Match>;
+  updateMatch(id: number, match: Partial<Match>): Promise<Match | undefined>;
+  deleteMatch(id: number): Promise<boolean>; // Also removes the match's results
+  
+  // Match result operations
+  getMatchResults(matchId: number): Promise<MatchResult[]>;
+  createMatchResult(result: InsertMatchResult): Promise<MatchResult>;
+  deleteMatchResults(matchId: number): Promise<number>; // Returns count of deleted results
+  
+  // Bracket match operations
+  getBracketMatch(id: number): Promise<BracketMatch | undefined>;
+  getBracketMatches(tournamentId: number): Promise<BracketMatch[]>; // Ordered by bracket, round and position
+  createBracketMatch(match: InsertBracketMatch): Promise<BracketMatch>;
+  updateBracketMatch(id: number, match: Partial<BracketMatch>): Promise<BracketMatch | undefined>;
+  deleteBracketMatch(id: number): Promise<boolean>;
+  deleteBracketMatches(tournamentId: number): Promise<number>; // Returns count of deleted matches
+
   // Notification operations
   getNotification(id: number): Promise<Notification | undefined>;
   getUserNotifications(userId: number): Promise<Notification[]>;
@@ -102,18 +213,46 @@ export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private teams: Map<number, Team>;
   private teamMembers: Map<number, TeamMember>;
+  private teamJoinRequests: Map<number, TeamJoinRequest>;
+  private teamInvites: Map<number, TeamInvite>;
+  private teamMemberInvitations: Map<number, TeamMemberInvitation>;
   private tournaments: Map<number, Tournament>;
   private registrations: Map<number, Registration>;
+  private matchLineups: Map<number, MatchLineup>;
+  private waitlistEntries: Map<number, WaitlistEntry>;
+  private tournamentRooms: Map<number, TournamentRoom>;
   private notifications: Map<number, Notification>;
   private admins: Map<number, Admin>;
+  private scoringRulesets: Map<number, ScoringRuleset>;
+  private tournamentTemplates: Map<number, TournamentTemplate>;
+  private tournamentStages: Map<number, TournamentStage>;
+  private stageGroups: Map<number, StageGroup>;
+  private groupTeams: Map<number, GroupTeam>;
+  private matches: Map<number, Match>;
+  private matchResults: Map<number, MatchResult>;
+  private bracketMatches: Map<number, BracketMatch>;
   
   private userId: number;
   private teamId: number;
   private teamMemberId: number;
+  private teamJoinRequestId: number;
+  private teamInviteId: number;
+  private teamMemberInvitationId: number;
   private tournamentId: number;
   private registrationId: number;
+  private matchLineupId: number;
+  private waitlistEntryId: number;
+  private tournamentRoomId: number;
   private notificationId: number;
   private adminId: number;
+  private scoringRulesetId: number;
+  private tournamentTemplateId: number;
+  private tournamentStageId: number;
+  private stageGroupId: number;
+  private groupTeamId: number;
+  private matchId: number;
+  private matchResultId: number;
+  private bracketMatchId: number;
 
   // Session store for express-session
   sessionStore: session.Store;
@@ -122,18 +261,46 @@ export class MemStorage implements IStorage {
     this.users = new Map();
     this.teams = new Map();
     this.teamMembers = new Map();
+    this.teamJoinRequests = new Map();
+    this.teamInvites = new Map();
+    this.teamMemberInvitations = new Map();
     this.tournaments = new Map();
     this.registrations = new Map();
+    this.matchLineups = new Map();
+    this.waitlistEntries = new Map();
+    this.tournamentRooms = new Map();
     this.notifications = new Map();
     this.admins = new Map();
+    this.scoringRulesets = new Map();
+    this.tournamentTemplates = new Map();
+    this.tournamentStages = new Map();
+    this.stageGroups = new Map();
+    this.groupTeams = new Map();
+    this.matches = new Map();
+    this.matchResults = new Map();
+    this.bracketMatches = new Map();
     
     this.userId = 1;
     this.teamId = 1;
     this.teamMemberId = 1;
+    this.teamJoinRequestId = 1;
+    this.teamInviteId = 1;
+    this.teamMemberInvitationId = 1;
     this.tournamentId = 1;
     this.registrationId = 1;
+    this.matchLineupId = 1;
+    this.waitlistEntryId = 1;
+    this.tournamentRoomId = 1;
     this.notificationId = 1;
     this.adminId = 1;
+    this.scoringRulesetId = 1;
+    this.tournamentTemplateId = 1;
+    this.tournamentStageId = 1;
+    this.stageGroupId = 1;
+    this.groupTeamId = 1;
+    this.matchId = 1;
+    this.matchResultId = 1;
+    this.bracketMatchId = 1;
     
     // Initialize session store
     this.sessionStore = new MemoryStore({
@@ -295,7 +462,9 @@ export class MemStorage implements IStorage {
       ...insertTeam, 
       id, 
       createdAt,
-      gameType: insertTeam.gameType || "BGMI"
+      gameType: insertTeam.gameType || "BGMI",
+      requiresJoinApproval: insertTeam.requiresJoinApproval ?? false,
+      permissions: null
     };
     this.teams.set(id, team);
     return team;
@@ -329,6 +498,12 @@ export class MemStorage implements IStorage {
     return this.teamMembers.get(id);
   }
 
+  async getTeamMembershipsByUser(userId: number): Promise<TeamMember[]> {
+    return Array.from(this.teamMembers.values()).filter(
+      (member) => member.userId === userId,
+    );
+  }
+
   async addTeamMember(insertMember: InsertTeamMember): Promise<TeamMember> {
     const id = this.teamMemberId++;
     const createdAt = new Date();
@@ -336,6 +511,7 @@ export class MemStorage implements IStorage {
       ...insertMember, 
       id, 
       createdAt,
+      userId: insertMember.userId ?? null,
       role: insertMember.role || "member"
     };
     this.teamMembers.set(id, member);
@@ -355,6 +531,191 @@ export class MemStorage implements IStorage {
     return this.teamMembers.delete(id);
   }
 
+  // Team join request operations
+  async getJoinRequest(id: number): Promise<TeamJoinRequest | undefined> {
+    return this.teamJoinRequests.get(id);
+  }
+
+  async getJoinRequestsByTeam(teamId: number): Promise<TeamJoinRequest[]> {
+    return Array.from(this.teamJoinRequests.values())
+      .filter((request) => request.teamId === teamId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async createJoinRequest(insertRequest: InsertTeamJoinRequest): Promise<TeamJoinRequest> {
+    const id = this.teamJoinRequestId++;
+    const createdAt = new Date();
+    const request: TeamJoinRequest = {
+      ...insertRequest,
+      id,
+      createdAt,
+      status: insertRequest.status || "pending",
+      inviteId: insertRequest.inviteId ?? null,
+      reviewedAt: null
+    };
+    this.teamJoinRequests.set(id, request);
+    return request;
+  }
+
+  async updateJoinRequest(id: number, requestUpdate: Partial<TeamJoinRequest>): Promise<TeamJoinRequest | undefined> {
+    const request = this.teamJoinRequests.get(id);
+    if (!request) return undefined;
+
+    const updatedRequest = { ...request, ...requestUpdate };
+    this.teamJoinRequests.set(id, updatedRequest);
+    return updatedRequest;
+  }
+
+  async deleteJoinRequestsByTeam(teamId: number): Promise<number> {
+    let count = 0;
+    this.teamJoinRequests.forEach((request, id) => {
+      if (request.teamId === teamId) {
+        this.teamJoinRequests.delete(id);
+        count++;
+      }
+    });
+    return count;
+  }
+
+  async deleteJoinRequestsByUser(userId: number): Promise<number> {
+    let count = 0;
+    this.teamJoinRequests.forEach((request, id) => {
+      if (request.userId === userId) {
+        this.teamJoinRequests.delete(id);
+        count++;
+      }
+    });
+    return count;
+  }
+
+  // Team invite operations
+  async getTeamInvite(id: number): Promise<TeamInvite | undefined> {
+    return this.teamInvites.get(id);
+  }
+
+  async getTeamInviteByToken(token: string): Promise<TeamInvite | undefined> {
+    return Array.from(this.teamInvites.values()).find(
+      (invite) => invite.token === token,
+    );
+  }
+
+  async getTeamInvites(teamId: number): Promise<TeamInvite[]> {
+    return Array.from(this.teamInvites.values())
+      .filter((invite) => invite.teamId === teamId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async createTeamInvite(insertInvite: InsertTeamInvite): Promise<TeamInvite> {
+    const id = this.teamInviteId++;
+    const createdAt = new Date();
+    const invite: TeamInvite = {
+      ...insertInvite,
+      id,
+      createdAt,
+      recipientUserId: insertInvite.recipientUserId ?? null,
+      maxUses: insertInvite.maxUses ?? null,
+      expiresAt: insertInvite.expiresAt ?? null,
+      uses: 0,
+      revokedAt: null
+    };
+    this.teamInvites.set(id, invite);
+    return invite;
+  }
+
+  async updateTeamInvite(id: number, inviteUpdate: Partial<TeamInvite>): Promise<TeamInvite | undefined> {
+    const invite = this.teamInvites.get(id);
+    if (!invite) return undefined;
+
+    const updatedInvite = { ...invite, ...inviteUpdate };
+    this.teamInvites.set(id, updatedInvite);
+    return updatedInvite;
+  }
+
+  async deleteTeamInvitesByTeam(teamId: number): Promise<number> {
+    let count = 0;
+    this.teamInvites.forEach((invite, id) => {
+      if (invite.teamId === teamId) {
+        this.teamInvites.delete(id);
+        count++;
+      }
+    });
+    return count;
+  }
+
+  async deleteTeamInvitesByUser(userId: number): Promise<number> {
+    let count = 0;
+    this.teamInvites.forEach((invite, id) => {
+      if (invite.createdBy === userId || invite.recipientUserId === userId) {
+        this.teamInvites.delete(id);
+        count++;
+      }
+    });
+    return count;
+  }
+
+  // Team member invitation operations
+  async getMemberInvitation(id: number): Promise<TeamMemberInvitation | undefined> {
+    return this.teamMemberInvitations.get(id);
+  }
+
+  async getMemberInvitationsByTeam(teamId: number): Promise<TeamMemberInvitation[]> {
+    return Array.from(this.teamMemberInvitations.values())
+      .filter((invitation) => invitation.teamId === teamId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getMemberInvitationsByUser(userId: number): Promise<TeamMemberInvitation[]> {
+    return Array.from(this.teamMemberInvitations.values())
+      .filter((invitation) => invitation.userId === userId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async createMemberInvitation(insertInvitation: InsertTeamMemberInvitation): Promise<TeamMemberInvitation> {
+    const id = this.teamMemberInvitationId++;
+    const createdAt = new Date();
+    const invitation: TeamMemberInvitation = {
+      ...insertInvitation,
+      id,
+      createdAt,
+      role: insertInvitation.role || "member",
+      status: insertInvitation.status || "pending",
+      respondedAt: null
+    };
+    this.teamMemberInvitations.set(id, invitation);
+    return invitation;
+  }
+
+  async updateMemberInvitation(id: number, invitationUpdate: Partial<TeamMemberInvitation>): Promise<TeamMemberInvitation | undefined> {
+    const invitation = this.teamMemberInvitations.get(id);
+    if (!invitation) return undefined;
+
+    const updatedInvitation = { ...invitation, ...invitationUpdate };
+    this.teamMemberInvitations.set(id, updatedInvitation);
+    return updatedInvitation;
+  }
+
+  async deleteMemberInvitationsByTeam(teamId: number): Promise<number> {
+    let count = 0;
+    this.teamMemberInvitations.forEach((invitation, id) => {
+      if (invitation.teamId === teamId) {
+        this.teamMemberInvitations.delete(id);
+        count++;
+      }
+    });
+    return count;
+  }
+
+  async deleteMemberInvitationsByUser(userId: number): Promise<number> {
+    let count = 0;
+    this.teamMemberInvitations.forEach((invitation, id) => {
+      if (invitation.userId === userId || invitation.invitedBy === userId) {
+        this.teamMemberInvitations.delete(id);
+        count++;
+      }
+    });
+    return count;
+  }
+
   // Tournament operations
   async getTournament(id: number): Promise<Tournament | undefined> {
     return this.tournaments.get(id);
@@ -382,25 +743,47 @@ export class MemStorage implements IStorage {
       date: insertTournament.date,
       mapType: insertTournament.mapType,
       gameType: insertTournament.gameType || "BGMI",
+      format: insertTournament.format || "battle_royale",
       gameMode: insertTournament.gameMode || "Squad", // Required field
       teamType: insertTournament.teamType,
       isPaid: insertTournament.isPaid,
       totalSlots: insertTournament.totalSlots,
       slots: insertTournament.totalSlots, // Alias for totalSlots
+      slotAllocation: insertTournament.slotAllocation || "first_come",
+      requiresApproval: insertTournament.requiresApproval ?? false,
+      roomCapacity: insertTournament.roomCapacity || 25,
+      registrationOpensAt: insertTournament.registrationOpensAt ?? null,
+      registrationClosesAt: insertTournament.registrationClosesAt ?? null,
+      unregisterCutoffMinutes: insertTournament.unregisterCutoffMinutes ?? null,
+      minRosterSize: insertTournament.minRosterSize ?? null,
+      maxRosterSize: insertTournament.maxRosterSize ?? null,
+      maxSubstitutes: insertTournament.maxSubstitutes ?? null,
+      requiredRoles: insertTournament.requiredRoles ?? [],
+      checkInOpensMinutes: insertTournament.checkInOpensMinutes ?? null,
+      checkInClosesMinutes: insertTournament.checkInClosesMinutes ?? 10,
+      checkInProcessedAt: null,
       createdBy: insertTournament.createdBy,
       status: insertTournament.status || "upcoming",
+      statusLocked: insertTournament.statusLocked ?? false,
+      durationMinutes: insertTournament.durationMinutes || 120,
+      cancellationReason: null,
+      cancelledAt: null,
       entryFee: insertTournament.entryFee || 0,
       prizePool: insertTournament.prizePool || 0,
       createdAt: createdAt,
       roomId: null,
-      password: null
+      password: null,
+      roomReleaseMinutes: insertTournament.roomReleaseMinutes ?? null,
+      roomReleasedAt: null,
+      scoringRulesetId: insertTournament.scoringRulesetId ?? null,
+      templateId: insertTournament.templateId ?? null
     };
     
     this.tournaments.set(id, tournament);
     return tournament;
   }
 
-  async updateTournament(id: number, tournamentUpdate: Partial<UpdateTournament>): Promise<Tournament | undefined> {
+  async updateTournament(id: number, tournamentUpdate: Partial<UpdateTournament> & TournamentServerUpdate): Promise<Tournament | undefined> {
     const tournament = this.tournaments.get(id);
     if (!tournament) return undefined;
     
@@ -410,6 +793,24 @@ export class MemStorage implements IStorage {
   }
 
   async deleteTournament(id: number): Promise<boolean> {
+    // Everything that references the tournament or its registrations goes first
+    await this.deleteBracketMatches(id);
+    for (const match of await this.getMatchesByTournament(id)) {
+      await this.deleteMatch(match.id);
+    }
+    for (const stage of await this.getStagesByTournament(id)) {
+      await this.deleteTournamentStage(stage.id);
+    }
+    for (const room of await this.getRoomsByTournament(id)) {
+      await this.deleteTournamentRoom(room.id);
+    }
+    for (const entry of await this.getWaitlistByTournament(id)) {
+      await this.deleteWaitlistEntry(entry.id);
+    }
+    for (const registration of await this.getRegistrationsByTournament(id)) {
+      await this.deleteLineupsByRegistration(registration.id);
+      await this.deleteRegistration(registration.id);
+    }
     return this.tournaments.delete(id);
   }
 
@@ -442,24 +843,24 @@ export class MemStorage implements IStorage {
     );
   }
 
-  async createRegistration(insertRegistration: InsertRegistration & { status?: string, paymentStatus?: string }): Promise<Registration> {
+  async createRegistration(insertRegistration: InsertRegistration & { slot?: number | null, status?: string, paymentStatus?: string }): Promise<Registration> {
     const id = this.registrationId++;
     const registeredAt = new Date();
     
-    // Assign a slot number
-    const tournamentRegistrations = await this.getRegistrationsByTournament(insertRegistration.tournamentId);
-    const maxSlot = tournamentRegistrations.length > 0 
-      ? Math.max(...tournamentRegistrations.map(r => r.slot || 0))
-      : 0;
-    const slot = maxSlot + 1;
-    
+    // Slot numbers are handed out by the slot allocator
     const registration: Registration = { 
       ...insertRegistration, 
       id,
       registeredAt, 
-      slot,
+      teamId: insertRegistration.teamId ?? null,
+      slot: insertRegistration.slot ?? null,
+      roomNumber: null,
       status: insertRegistration.status || 'pending',
-      paymentStatus: insertRegistration.paymentStatus || 'pending'
+      checkedInAt: null,
+      rejectionReason: null,
+      reviewedAt: null,
+      paymentStatus: insertRegistration.paymentStatus || 'pending',
+      roster: insertRegistration.roster ?? []
     };
     
     this.registrations.set(id, registration);
@@ -479,6 +880,442 @@ export class MemStorage implements IStorage {
     return this.registrations.delete(id);
   }
 
+  // Tournament template operations
+  async getTournamentTemplate(id: number): Promise<TournamentTemplate | undefined> {
+    return this.tournamentTemplates.get(id);
+  }
+
+  async getAllTournamentTemplates(): Promise<TournamentTemplate[]> {
+    return Array.from(this.tournamentTemplates.values());
+  }
+
+  async createTournamentTemplate(insertTemplate: InsertTournamentTemplate): Promise<TournamentTemplate> {
+    const id = this.tournamentTemplateId++;
+    const template: TournamentTemplate = {
+      id,
+      name: insertTemplate.name,
+      recurrence: insertTemplate.recurrence,
+      weekday: insertTemplate.weekday ?? null,
+      startTime: insertTemplate.startTime,
+      utcOffsetMinutes: insertTemplate.utcOffsetMinutes ?? 330,
+      daysAhead: insertTemplate.daysAhead || 3,
+      isPaused: insertTemplate.isPaused ?? false,
+      lastOccurrenceAt: null,
+      title: insertTemplate.title,
+      description: insertTemplate.description,
+      mapType: insertTemplate.mapType,
+      gameMode: insertTemplate.gameMode || "Squad",
+      teamType: insertTemplate.teamType,
+      gameType: insertTemplate.gameType || "BGMI",
+      format: insertTemplate.format || "battle_royale",
+      isPaid: insertTemplate.isPaid,
+      entryFee: insertTemplate.entryFee || 0,
+      prizePool: insertTemplate.prizePool || 0,
+      totalSlots: insertTemplate.totalSlots,
+      slotAllocation: insertTemplate.slotAllocation || "first_come",
+      requiresApproval: insertTemplate.requiresApproval ?? false,
+      roomCapacity: insertTemplate.roomCapacity || 25,
+      checkInOpensMinutes: insertTemplate.checkInOpensMinutes ?? null,
+      checkInClosesMinutes: insertTemplate.checkInClosesMinutes ?? 10,
+      durationMinutes: insertTemplate.durationMinutes || 120,
+      roomReleaseMinutes: insertTemplate.roomReleaseMinutes ?? null,
+      unregisterCutoffMinutes: insertTemplate.unregisterCutoffMinutes ?? null,
+      scoringRulesetId: insertTemplate.scoringRulesetId ?? null,
+      createdBy: insertTemplate.createdBy,
+      createdAt: new Date()
+    };
+    this.tournamentTemplates.set(id, template);
+    return template;
+  }
+
+  async updateTournamentTemplate(id: number, templateUpdate: Partial<TournamentTemplate>): Promise<TournamentTemplate | undefined> {
+    const template = this.tournamentTemplates.get(id);
+    if (!template) return undefined;
+    
+    const updatedTemplate = { ...template, ...templateUpdate };
+    this.tournamentTemplates.set(id, updatedTemplate);
+    return updatedTemplate;
+  }
+
+  async deleteTournamentTemplate(id: number): Promise<boolean> {
+    return this.tournamentTemplates.delete(id);
+  }
+
+  // Scoring ruleset operations
+  async getScoringRuleset(id: number): Promise<ScoringRuleset | undefined> {
+    return this.scoringRulesets.get(id);
+  }
+
+  async getAllScoringRulesets(): Promise<ScoringRuleset[]> {
+    return Array.from(this.scoringRulesets.values());
+  }
+
+  async createScoringRuleset(insertRuleset: InsertScoringRuleset): Promise<ScoringRuleset> {
+    const id = this.scoringRulesetId++;
+    const createdAt = new Date();
+    const ruleset: ScoringRuleset = {
+      ...insertRuleset,
+      id,
+      createdAt,
+      description: insertRuleset.description || '',
+      gameType: insertRuleset.gameType || "BGMI",
+      killCap: insertRuleset.killCap ?? null,
+      tieBreakers: insertRuleset.tieBreakers || ["wins", "placementPoints", "kills", "lastPlacement"],
+      isDefault: insertRuleset.isDefault ?? false,
+      createdBy: insertRuleset.createdBy ?? null
+    };
+    this.scoringRulesets.set(id, ruleset);
+    return ruleset;
+  }
+
+  async updateScoringRuleset(id: number, rulesetUpdate: Partial<ScoringRuleset>): Promise<ScoringRuleset | undefined> {
+    const ruleset = this.scoringRulesets.get(id);
+    if (!ruleset) return undefined;
+    
+    const updatedRuleset = { ...ruleset, ...rulesetUpdate };
+    this.scoringRulesets.set(id, updatedRuleset);
+    return updatedRuleset;
+  }
+
+  async deleteScoringRuleset(id: number): Promise<boolean> {
+    return this.scoringRulesets.delete(id);
+  }
+
+  // Match lineup operations
+  async getLineupsByRegistration(registrationId: number): Promise<MatchLineup[]> {
+    return Array.from(this.matchLineups.values())
+      .filter((lineup) => lineup.registrationId === registrationId)
+      .sort((a, b) => a.matchNumber - b.matchNumber);
+  }
+
+  async createMatchLineup(insertLineup: InsertMatchLineup): Promise<MatchLineup> {
+    const id = this.matchLineupId++;
+    const lineup: MatchLineup = {
+      ...insertLineup,
+      id,
+      substitutes: insertLineup.substitutes ?? [],
+      updatedAt: new Date()
+    };
+    this.matchLineups.set(id, lineup);
+    return lineup;
+  }
+
+  async updateMatchLineup(id: number, lineupUpdate: Partial<MatchLineup>): Promise<MatchLineup | undefined> {
+    const lineup = this.matchLineups.get(id);
+    if (!lineup) return undefined;
+    
+    const updatedLineup = { ...lineup, ...lineupUpdate, updatedAt: new Date() };
+    this.matchLineups.set(id, updatedLineup);
+    return updatedLineup;
+  }
+
+  async deleteLineupsByRegistration(registrationId: number): Promise<number> {
+    let count = 0;
+    this.matchLineups.forEach((lineup, id) => {
+      if (lineup.registrationId === registrationId) {
+        this.matchLineups.delete(id);
+        count++;
+      }
+    });
+    return count;
+  }
+
+  // Waitlist operations
+  async getWaitlistEntry(id: number): Promise<WaitlistEntry | undefined> {
+    return this.waitlistEntries.get(id);
+  }
+
+  async getWaitlistByTournament(tournamentId: number): Promise<WaitlistEntry[]> {
+    return Array.from(this.waitlistEntries.values())
+      .filter((entry) => entry.tournamentId === tournamentId)
+      .sort((a, b) => (a.joinedAt?.getTime() ?? 0) - (b.joinedAt?.getTime() ?? 0) || a.id - b.id);
+  }
+
+  async createWaitlistEntry(insertEntry: InsertWaitlistEntry): Promise<WaitlistEntry> {
+    const id = this.waitlistEntryId++;
+    const joinedAt = new Date();
+    const entry: WaitlistEntry = { ...insertEntry, id, teamId: insertEntry.teamId ?? null, joinedAt };
+    this.waitlistEntries.set(id, entry);
+    return entry;
+  }
+
+  async deleteWaitlistEntry(id: number): Promise<boolean> {
+    return this.waitlistEntries.delete(id);
+  }
+
+  // Tournament room operations
+  async getRoomsByTournament(tournamentId: number): Promise<TournamentRoom[]> {
+    return Array.from(this.tournamentRooms.values())
+      .filter((room) => room.tournamentId === tournamentId)
+      .sort((a, b) => a.roomNumber - b.roomNumber);
+  }
+
+  async createTournamentRoom(insertRoom: InsertTournamentRoom): Promise<TournamentRoom> {
+    const id = this.tournamentRoomId++;
+    const createdAt = new Date();
+    const room: TournamentRoom = {
+      ...insertRoom,
+      id,
+      createdAt,
+      roomId: insertRoom.roomId ?? null,
+      password: insertRoom.password ?? null
+    };
+    this.tournamentRooms.set(id, room);
+    return room;
+  }
+
+  async updateTournamentRoom(id: number, roomUpdate: Partial<TournamentRoom>): Promise<TournamentRoom | undefined> {
+    const room = this.tournamentRooms.get(id);
+    if (!room) return undefined;
+    
+    const updatedRoom = { ...room, ...roomUpdate };
+    this.tournamentRooms.set(id, updatedRoom);
+    return updatedRoom;
+  }
+
+  async deleteTournamentRoom(id: number): Promise<boolean> {
+    return this.tournamentRooms.delete(id);
+  }
+
+  // Tournament stage operations
+  async getTournamentStage(id: number): Promise<TournamentStage | undefined> {
+    return this.tournamentStages.get(id);
+  }
+
+  async getStagesByTournament(tournamentId: number): Promise<TournamentStage[]> {
+    return Array.from(this.tournamentStages.values())
+      .filter((stage) => stage.tournamentId === tournamentId)
+      .sort((a, b) => a.stageOrder - b.stageOrder);
+  }
+
+  async createTournamentStage(insertStage: InsertTournamentStage): Promise<TournamentStage> {
+    const id = this.tournamentStageId++;
+    const createdAt = new Date();
+    const stage: TournamentStage = {
+      ...insertStage,
+      id,
+      createdAt,
+      advancingPerGroup: insertStage.advancingPerGroup ?? 0,
+      status: insertStage.status || "pending"
+    };
+    this.tournamentStages.set(id, stage);
+    return stage;
+  }
+
+  async updateTournamentStage(id: number, stageUpdate: Partial<TournamentStage>): Promise<TournamentStage | undefined> {
+    const stage = this.tournamentStages.get(id);
+    if (!stage) return undefined;
+    
+    const updatedStage = { ...stage, ...stageUpdate };
+    this.tournamentStages.set(id, updatedStage);
+    return updatedStage;
+  }
+
+  async deleteTournamentStage(id: number): Promise<boolean> {
+    const groups = await this.getGroupsByStage(id);
+    for (const group of groups) {
+      await this.deleteStageGroup(group.id);
+    }
+    return this.tournamentStages.delete(id);
+  }
+
+  // Stage group operations
+  async getStageGroup(id: number): Promise<StageGroup | undefined> {
+    return this.stageGroups.get(id);
+  }
+
+  async getGroupsByStage(stageId: number): Promise<StageGroup[]> {
+    return Array.from(this.stageGroups.values())
+      .filter((group) => group.stageId === stageId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async createStageGroup(insertGroup: InsertStageGroup): Promise<StageGroup> {
+    const id = this.stageGroupId++;
+    const createdAt = new Date();
+    const group: StageGroup = { ...insertGroup, id, createdAt };
+    this.stageGroups.set(id, group);
+    return group;
+  }
+
+  async deleteStageGroup(id: number): Promise<boolean> {
+    await this.clearGroupTeams(id);
+    return this.stageGroups.delete(id);
+  }
+
+  // Group team operations
+  async getGroupTeams(groupId: number): Promise<GroupTeam[]> {
+    return Array.from(this.groupTeams.values())
+      .filter((groupTeam) => groupTeam.groupId === groupId)
+      .sort((a, b) => (a.seed ?? Number.MAX_SAFE_INTEGER) - (b.seed ?? Number.MAX_SAFE_INTEGER));
+  }
+
+  async addGroupTeam(insertGroupTeam: InsertGroupTeam): Promise<GroupTeam> {
+    const id = this.groupTeamId++;
+    const createdAt = new Date();
+    const groupTeam: GroupTeam = {
+      ...insertGroupTeam,
+      id,
+      createdAt,
+      seed: insertGroupTeam.seed ?? null
+    };
+    this.groupTeams.set(id, groupTeam);
+    return groupTeam;
+  }
+
+  async clearGroupTeams(groupId: number): Promise<number> {
+    const teamsToRemove = await this.getGroupTeams(groupId);
+    
+    let removedCount = 0;
+    for (const groupTeam of teamsToRemove) {
+      if (this.groupTeams.delete(groupTeam.id)) {
+        removedCount++;
+      }
+    }
+    
+    return removedCount;
+  }
+
+  // Match operations
+  async getMatch(id: number): Promise<Match | undefined> {
+    return this.matches.get(id);
+  }
+
+  async getMatchesByTournament(tournamentId: number): Promise<Match[]> {
+    return Array.from(this.matches.values())
+      .filter((match) => match.tournamentId === tournamentId)
+      .sort((a, b) => a.matchNumber - b.matchNumber);
+  }
+
+  async createMatch(insertMatch: InsertMatch): Promise<Match> {
+    const id = this.matchId++;
+    const createdAt = new Date();
+    const match: Match = {
+      ...insertMatch,
+      id,
+      createdAt,
+      groupId: insertMatch.groupId ?? null,
+      status: insertMatch.status || "completed",
+      playedAt: insertMatch.playedAt || null
+    };
+    this.matches.set(id, match);
+    return match;
+  }
+
+  async updateMatch(id: number, matchUpdate: Partial<Match>): Promise<Match | undefined> {
+    const match = this.matches.get(id);
+    if (!match) return undefined;
+    
+    const updatedMatch = { ...match, ...matchUpdate };
+    this.matches.set(id, updatedMatch);
+    return updatedMatch;
+  }
+
+  async deleteMatch(id: number): Promise<boolean> {
+    await this.deleteMatchResults(id);
+    return this.matches.delete(id);
+  }
+
+  // Match result operations
+  async getMatchResults(matchId: number): Promise<MatchResult[]> {
+    return Array.from(this.matchResults.values())
+      .filter((result) => result.matchId === matchId)
+      .sort((a, b) => a.placement - b.placement);
+  }
+
+  async createMatchResult(insertResult: InsertMatchResult): Promise<MatchResult> {
+    const id = this.matchResultId++;
+    const createdAt = new Date();
+    const result: MatchResult = {
+      ...insertResult,
+      id,
+      createdAt,
+      kills: insertResult.kills ?? 0,
+      playerKills: insertResult.playerKills || []
+    };
+    this.matchResults.set(id, result);
+    return result;
+  }
+
+  async deleteMatchResults(matchId: number): Promise<number> {
+    const resultsToDelete = await this.getMatchResults(matchId);
+    
+    let deletedCount = 0;
+    for (const result of resultsToDelete) {
+      if (this.matchResults.delete(result.id)) {
+        deletedCount++;
+      }
+    }
+    
+    return deletedCount;
+  }
+
+  // Bracket match operations
+  async getBracketMatch(id: number): Promise<BracketMatch | undefined> {
+    return this.bracketMatches.get(id);
+  }
+
+  async getBracketMatches(tournamentId: number): Promise<BracketMatch[]> {
+    const bracketOrder = ["winners", "losers", "grand_final"];
+    return Array.from(this.bracketMatches.values())
+      .filter((match) => match.tournamentId === tournamentId)
+      .sort((a, b) =>
+        bracketOrder.indexOf(a.bracket) - bracketOrder.indexOf(b.bracket) ||
+        a.round - b.round ||
+        a.position - b.position
+      );
+  }
+
+  async createBracketMatch(insertMatch: InsertBracketMatch): Promise<BracketMatch> {
+    const id = this.bracketMatchId++;
+    const createdAt = new Date();
+    const match: BracketMatch = {
+      ...insertMatch,
+      id,
+      createdAt,
+      bracket: insertMatch.bracket || "winners",
+      team1RegistrationId: insertMatch.team1RegistrationId ?? null,
+      team2RegistrationId: insertMatch.team2RegistrationId ?? null,
+      team1Score: insertMatch.team1Score ?? null,
+      team2Score: insertMatch.team2Score ?? null,
+      winnerRegistrationId: insertMatch.winnerRegistrationId ?? null,
+      status: insertMatch.status || "pending",
+      isBye: insertMatch.isBye ?? false,
+      nextMatchId: insertMatch.nextMatchId ?? null,
+      nextMatchSlot: insertMatch.nextMatchSlot ?? null,
+      loserNextMatchId: insertMatch.loserNextMatchId ?? null,
+      loserNextMatchSlot: insertMatch.loserNextMatchSlot ?? null
+    };
+    this.bracketMatches.set(id, match);
+    return match;
+  }
+
+  async updateBracketMatch(id: number, matchUpdate: Partial<BracketMatch>): Promise<BracketMatch | undefined> {
+    const match = this.bracketMatches.get(id);
+    if (!match) return undefined;
+    
+    const updatedMatch = { ...match, ...matchUpdate };
+    this.bracketMatches.set(id, updatedMatch);
+    return updatedMatch;
+  }
+
+  async deleteBracketMatch(id: number): Promise<boolean> {
+    return this.bracketMatches.delete(id);
+  }
+
+  async deleteBracketMatches(tournamentId: number): Promise<number> {
+    const matchesToDelete = await this.getBracketMatches(tournamentId);
+    
+    let deletedCount = 0;
+    for (const match of matchesToDelete) {
+      if (this.bracketMatches.delete(match.id)) {
+        deletedCount++;
+      }
+    }
+    
+    return deletedCount;
+  }
+
   // Notification operations
   async getNotification(id: number): Promise<Notification | undefined> {
     return this.notifications.get(id);
@@ -3,8 +3,22 @@ import {
   type User, type InsertUser, 
   type Team, type InsertTeam, 
   type TeamMember, type InsertTeamMember,
-  type Tournament, type InsertTournament, type UpdateTournament,
+  type TeamJoinRequest, type InsertTeamJoinRequest,
+  type TeamInvite, type InsertTeamInvite,
+  type TeamMemberInvitation, type InsertTeamMemberInvitation,
+  type Tournament, type InsertTournament, type UpdateTournament, type TournamentServerUpdate,
   type Registration, type InsertRegistration,
+  type MatchLineup, type InsertMatchLineup,
+  type WaitlistEntry, type InsertWaitlistEntry,
+  type TournamentRoom, type InsertTournamentRoom,
+  type ScoringRuleset, type InsertScoringRuleset,
+  type TournamentTemplate, type InsertTournamentTemplate,
+  type TournamentStage, type InsertTournamentStage,
+  type StageGroup, type InsertStageGroup,
+  type GroupTeam, type InsertGroupTeam,
+  type Match, type InsertMatch,
+  type BracketMatch, type InsertBracketMatch,
+  type MatchResult, type InsertMatchResult,
   type Notification, type InsertNotification,
   type Admin, type InsertAdmin
 } from "@shared/schema";
@@ -203,6 +217,16 @@ export class SupabaseStorage implements IStorage {
     return data as TeamMember;
   }
 
+  async getTeamMembershipsByUser(userId: number): Promise<TeamMember[]> {
+    const { data, error } = await supabase
+      .from('team_members')
+      .select('*')
+      .eq('userId', userId);
+    
+    if (error || !data) return [];
+    return data as TeamMember[];
+  }
+
   async addTeamMember(insertMember: InsertTeamMember): Promise<TeamMember> {
     const { data, error } = await supabase
       .from('team_members')
@@ -237,6 +261,245 @@ export class SupabaseStorage implements IStorage {
     
     return !error;
   }
+
+  // Team join request operations
+  async getJoinRequest(id: number): Promise<TeamJoinRequest | undefined> {
+    const { data, error } = await supabase
+      .from('team_join_requests')
+      .select('*')
+      .eq('id', id)
+      .single();
+    
+    if (error || !data) return undefined;
+    return data as TeamJoinRequest;
+  }
+
+  async getJoinRequestsByTeam(teamId: number): Promise<TeamJoinRequest[]> {
+    const { data, error } = await supabase
+      .from('team_join_requests')
+      .select('*')
+      .eq('teamId', teamId)
+      .order('createdAt', { ascending: true })
+      .order('id', { ascending: true });
+    
+    if (error || !data) return [];
+    return data as TeamJoinRequest[];
+  }
+
+  async createJoinRequest(insertRequest: InsertTeamJoinRequest): Promise<TeamJoinRequest> {
+    const { data, error } = await supabase
+      .from('team_join_requests')
+      .insert(insertRequest)
+      .select()
+      .single();
+    
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to create join request');
+    }
+    
+    return data as TeamJoinRequest;
+  }
+
+  async updateJoinRequest(id: number, requestUpdate: Partial<TeamJoinRequest>): Promise<TeamJoinRequest | undefined> {
+    const { data, error } = await supabase
+      .from('team_join_requests')
+      .update(requestUpdate)
+      .eq('id', id)
+      .select()
+      .single();
+    
+    if (error || !data) return undefined;
+    return data as TeamJoinRequest;
+  }
+
+  async deleteJoinRequestsByTeam(teamId: number): Promise<number> {
+    const { data, error } = await supabase
+      .from('team_join_requests')
+      .delete()
+      .eq('teamId', teamId)
+      .select('id');
+    
+    if (error) return 0;
+    return data?.length || 0;
+  }
+
+  async deleteJoinRequestsByUser(userId: number): Promise<number> {
+    const { data, error } = await supabase
+      .from('team_join_requests')
+      .delete()
+      .eq('userId', userId)
+      .select('id');
+    
+    if (error) return 0;
+    return data?.length || 0;
+  }
+
+  // Team invite operations
+  async getTeamInvite(id: number): Promise<TeamInvite | undefined> {
+    const { data, error } = await supabase
+      .from('team_invites')
+      .select('*')
+      .eq('id', id)
+      .single();
+    
+    if (error || !data) return undefined;
+    return data as TeamInvite;
+  }
+
+  async getTeamInviteByToken(token: string): Promise<TeamInvite | undefined> {
+    const { data, error } = await supabase
+      .from('team_invites')
+      .select('*')
+      .eq('token', token)
+      .single();
+    
+    if (error || !data) return undefined;
+    return data as TeamInvite;
+  }
+
+  async getTeamInvites(teamId: number): Promise<TeamInvite[]> {
+    const { data, error } = await supabase
+      .from('team_invites')
+      .select('*')
+      .eq('teamId', teamId)
+      .order('createdAt', { ascending: false })
+      .order('id', { ascending: false });
+    
+    if (error || !data) return [];
+    return data as TeamInvite[];
+  }
+
+  async createTeamInvite(insertInvite: InsertTeamInvite): Promise<TeamInvite> {
+    const { data, error } = await supabase
+      .from('team_invites')
+      .insert(insertInvite)
+      .select()
+      .single();
+    
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to create team invite');
+    }
+    
+    return data as TeamInvite;
+  }
+
+  async updateTeamInvite(id: number, inviteUpdate: Partial<TeamInvite>): Promise<TeamInvite | undefined> {
+    const { data, error } = await supabase
+      .from('team_invites')
+      .update(inviteUpdate)
+      .eq('id', id)
+      .select()
+      .single();
+    
+    if (error || !data) return undefined;
+    return data as TeamInvite;
+  }
+
+  async deleteTeamInvitesByTeam(teamId: number): Promise<number> {
+    const { data, error } = await supabase
+      .from('team_invites')
+      .delete()
+      .eq('teamId', teamId)
+      .select('id');
+    
+    if (error) return 0;
+    return data?.length || 0;
+  }
+
+  async deleteTeamInvitesByUser(userId: number): Promise<number> {
+    const { data, error } = await supabase
+      .from('team_invites')
+      .delete()
+      .or(`createdBy.eq.${userId},recipientUserId.eq.${userId}`)
+      .select('id');
+    
+    if (error) return 0;
+    return data?.length || 0;
+  }
+
+  // Team member invitation operations
+  async getMemberInvitation(id: number): Promise<TeamMemberInvitation | undefined> {
+    const { data, error } = await supabase
+      .from('team_member_invitations')
+      .select('*')
+      .eq('id', id)
+      .single();
+    
+    if (error || !data) return undefined;
+    return data as TeamMemberInvitation;
+  }
+
+  async getMemberInvitationsByTeam(teamId: number): Promise<TeamMemberInvitation[]> {
+    const { data, error } = await supabase
+      .from('team_member_invitations')
+      .select('*')
+      .eq('teamId', teamId)
+      .order('createdAt', { ascending: true })
+      .order('id', { ascending: true });
+    
+    if (error || !data) return [];
+    return data as TeamMemberInvitation[];
+  }
+
+  async getMemberInvitationsByUser(userId: number): Promise<TeamMemberInvitation[]> {
+    const { data, error } = await supabase
+      .from('team_member_invitations')
+      .select('*')
+      .eq('userId', userId)
+      .order('createdAt', { ascending: true })
+      .order('id', { ascending: true });
+    
+    if (error || !data) return [];
+    return data as TeamMemberInvitation[];
+  }
+
+  async createMemberInvitation(insertInvitation: InsertTeamMemberInvitation): Promise<TeamMemberInvitation> {
+    const { data, error } = await supabase
+      .from('team_member_invitations')
+      .insert(insertInvitation)
+      .select()
+      .single();
+    
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to create member invitation');
+    }
+    
+    return data as TeamMemberInvitation;
+  }
+
+  async updateMemberInvitation(id: number, invitationUpdate: Partial<TeamMemberInvitation>): Promise<TeamMemberInvitation | undefined> {
+    const { data, error } = await supabase
+      .from('team_member_invitations')
+      .update(invitationUpdate)
+      .eq('id', id)
+      .select()
+      .single();
+    
+    if (error || !data) return undefined;
+    return data as TeamMemberInvitation;
+  }
+
+  async deleteMemberInvitationsByTeam(teamId: number): Promise<number> {
+    const { data, error } = await supabase
+      .from('team_member_invitations')
+      .delete()
+      .eq('teamId', teamId)
+      .select('id');
+    
+    if (error) return 0;
+    return data?.length || 0;
+  }
+
+  async deleteMemberInvitationsByUser(userId: number): Promise<number> {
+    const { data, error } = await supabase
+      .from('team_member_invitations')
+      .delete()
+      .or(`userId.eq.${userId},invitedBy.eq.${userId}`)
+      .select('id');
+    
+    if (error) return 0;
+    return data?.length || 0;
+  }
   
   // Tournament operations
   async getTournament(id: number): Promise<Tournament | undefined> {
@@ -285,7 +548,7 @@ export class SupabaseStorage implements IStorage {
     return data as Tournament;
   }
 
-  async updateTournament(id: number, tournamentUpdate: Partial<UpdateTournament>): Promise<Tournament | undefined> {
+  async updateTournament(id: number, tournamentUpdate: Partial<UpdateTournament> & TournamentServerUpdate): Promise<Tournament | undefined> {
     const { data, error } = await supabase
       .from('tournaments')
       .update(tournamentUpdate)
@@ -298,6 +561,25 @@ export class SupabaseStorage implements IStorage {
   }
 
   async deleteTournament(id: number): Promise<boolean> {
+    // Everything that references the tournament or its registrations goes first
+    await this.deleteBracketMatches(id);
+    for (const match of await this.getMatchesByTournament(id)) {
+      await this.deleteMatch(match.id);
+    }
+    for (const stage of await this.getStagesByTournament(id)) {
+      await this.deleteTournamentStage(stage.id);
+    }
+    for (const room of await this.getRoomsByTournament(id)) {
+      await this.deleteTournamentRoom(room.id);
+    }
+    for (const entry of await this.getWaitlistByTournament(id)) {
+      await this.deleteWaitlistEntry(entry.id);
+    }
+    for (const registration of await this.getRegistrationsByTournament(id)) {
+      await this.deleteLineupsByRegistration(registration.id);
+      await this.deleteRegistration(registration.id);
+    }
+    
     const { error } = await supabase
       .from('tournaments')
       .delete()
@@ -359,7 +641,7 @@ export class SupabaseStorage implements IStorage {
     return !error && !!data;
   }
 
-  async createRegistration(insertRegistration: InsertRegistration): Promise<Registration> {
+  async createRegistration(insertRegistration: InsertRegistration & { slot?: number | null, status?: string, paymentStatus?: string }): Promise<Registration> {
     const { data, error } = await supabase
       .from('registrations')
       .insert(insertRegistration)
@@ -393,6 +675,585 @@ export class SupabaseStorage implements IStorage {
     
     return !error;
   }
+
+  // Match lineup operations
+  async getLineupsByRegistration(registrationId: number): Promise<MatchLineup[]> {
+    const { data, error } = await supabase
+      .from('match_lineups')
+      .select('*')
+      .eq('registrationId', registrationId)
+      .order('matchNumber', { ascending: true });
+    
+    if (error || !data) return [];
+    return data as MatchLineup[];
+  }
+
+  async createMatchLineup(insertLineup: InsertMatchLineup): Promise<MatchLineup> {
+    const { data, error } = await supabase
+      .from('match_lineups')
+      .insert(insertLineup)
+      .select()
+      .single();
+    
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to create match lineup');
+    }
+    
+    return data as MatchLineup;
+  }
+
+  async updateMatchLineup(id: number, lineupUpdate: Partial<MatchLineup>): Promise<MatchLineup | undefined> {
+    const { data, error } = await supabase
+      .from('match_lineups')
+      .update({ ...lineupUpdate, updatedAt: new Date() })
+      .eq('id', id)
+      .select()
+      .single();
+    
+    if (error || !data) return undefined;
+    return data as MatchLineup;
+  }
+
+  async deleteLineupsByRegistration(registrationId: number): Promise<number> {
+    const { data, error } = await supabase
+      .from('match_lineups')
+      .delete()
+      .eq('registrationId', registrationId)
+      .select('id');
+    
+    if (error) return 0;
+    return data?.length || 0;
+  }
+
+  // Waitlist operations
+  async getWaitlistEntry(id: number): Promise<WaitlistEntry | undefined> {
+    const { data, error } = await supabase
+      .from('waitlist_entries')
+      .select('*')
+      .eq('id', id)
+      .single();
+    
+    if (error || !data) return undefined;
+    return data as WaitlistEntry;
+  }
+
+  async getWaitlistByTournament(tournamentId: number): Promise<WaitlistEntry[]> {
+    const { data, error } = await supabase
+      .from('waitlist_entries')
+      .select('*')
+      .eq('tournamentId', tournamentId)
+      .order('joinedAt', { ascending: true })
+      .order('id', { ascending: true });
+    
+    if (error || !data) return [];
+    return data as WaitlistEntry[];
+  }
+
+  async createWaitlistEntry(insertEntry: InsertWaitlistEntry): Promise<WaitlistEntry> {
+    const { data, error } = await supabase
+      .from('waitlist_entries')
+      .insert(insertEntry)
+      .select()
+      .single();
+    
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to join waitlist');
+    }
+    
+    return data as WaitlistEntry;
+  }
+
+  async deleteWaitlistEntry(id: number): Promise<boolean> {
+    const { error } = await supabase
+      .from('waitlist_entries')
+      .delete()
+      .eq('id', id);
+    
+    return !error;
+  }
+
+  // Tournament room operations
+  async getRoomsByTournament(tournamentId: number): Promise<TournamentRoom[]> {
+    const { data, error } = await supabase
+      .from('tournament_rooms')
+      .select('*')
+      .eq('tournamentId', tournamentId)
+      .order('roomNumber', { ascending: true });
+    
+    if (error || !data) return [];
+    return data as TournamentRoom[];
+  }
+
+  async createTournamentRoom(insertRoom: InsertTournamentRoom): Promise<TournamentRoom> {
+    const { data, error } = await supabase
+      .from('tournament_rooms')
+      .insert(insertRoom)
+      .select()
+      .single();
+    
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to create tournament room');
+    }
+    
+    return data as TournamentRoom;
+  }
+
+  async updateTournamentRoom(id: number, roomUpdate: Partial<TournamentRoom>): Promise<TournamentRoom | undefined> {
+    const { data, error } = await supabase
+      .from('tournament_rooms')
+      .update(roomUpdate)
+      .eq('id', id)
+      .select()
+      .single();
+    
+    if (error || !data) return undefined;
+    return data as TournamentRoom;
+  }
+
+  async deleteTournamentRoom(id: number): Promise<boolean> {
+    const { error } = await supabase
+      .from('tournament_rooms')
+      .delete()
+      .eq('id', id);
+    
+    return !error;
+  }
+
+  // Tournament template operations
+  async getTournamentTemplate(id: number): Promise<TournamentTemplate | undefined> {
+    const { data, error } = await supabase
+      .from('tournament_templates')
+      .select('*')
+      .eq('id', id)
+      .single();
+    
+    if (error || !data) return undefined;
+    return data as TournamentTemplate;
+  }
+
+  async getAllTournamentTemplates(): Promise<TournamentTemplate[]> {
+    const { data, error } = await supabase
+      .from('tournament_templates')
+      .select('*')
+      .order('name', { ascending: true });
+    
+    if (error || !data) return [];
+    return data as TournamentTemplate[];
+  }
+
+  async createTournamentTemplate(insertTemplate: InsertTournamentTemplate): Promise<TournamentTemplate> {
+    const { data, error } = await supabase
+      .from('tournament_templates')
+      .insert(insertTemplate)
+      .select()
+      .single();
+    
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to create tournament template');
+    }
+    
+    return data as TournamentTemplate;
+  }
+
+  async updateTournamentTemplate(id: number, templateUpdate: Partial<TournamentTemplate>): Promise<TournamentTemplate | undefined> {
+    const { data, error } = await supabase
+      .from('tournament_templates')
+      .update(templateUpdate)
+      .eq('id', id)
+      .select()
+      .single();
+    
+    if (error || !data) return undefined;
+    return data as TournamentTemplate;
+  }
+
+  async deleteTournamentTemplate(id: number): Promise<boolean> {
+    const { error } = await supabase
+      .from('tournament_templates')
+      .delete()
+      .eq('id', id);
+    
+    return !error;
+  }
+
+  // Scoring ruleset operations
+  async getScoringRuleset(id: number): Promise<ScoringRuleset | undefined> {
+    const { data, error } = await supabase
+      .from('scoring_rulesets')
+      .select('*')
+      .eq('id', id)
+      .single();
+    
+    if (error || !data) return undefined;
+    return data as ScoringRuleset;
+  }
+
+  async getAllScoringRulesets(): Promise<ScoringRuleset[]> {
+    const { data, error } = await supabase
+      .from('scoring_rulesets')
+      .select('*')
+      .order('name', { ascending: true });
+    
+    if (error || !data) return [];
+    return data as ScoringRuleset[];
+  }
+
+  async createScoringRuleset(insertRuleset: InsertScoringRuleset): Promise<ScoringRuleset> {
+    const { data, error } = await supabase
+      .from('scoring_rulesets')
+      .insert(insertRuleset)
+      .select()
+      .single();
+    
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to create scoring ruleset');
+    }
+    
+    return data as ScoringRuleset;
+  }
+
+  async updateScoringRuleset(id: number, rulesetUpdate: Partial<ScoringRuleset>): Promise<ScoringRuleset | undefined> {
+    const { data, error } = await supabase
+      .from('scoring_rulesets')
+      .update(rulesetUpdate)
+      .eq('id', id)
+      .select()
+      .single();
+    
+    if (error || !data) return undefined;
+    return data as ScoringRuleset;
+  }
+
+  async deleteScoringRuleset(id: number): Promise<boolean> {
+    const { error } = await supabase
+      .from('scoring_rulesets')
+      .delete()
+      .eq('id', id);
+    
+    return !error;
+  }
+
+  // Tournament stage operations
+  async getTournamentStage(id: number): Promise<TournamentStage | undefined> {
+    const { data, error } = await supabase
+      .from('tournament_stages')
+      .select('*')
+      .eq('id', id)
+      .single();
+    
+    if (error || !data) return undefined;
+    return data as TournamentStage;
+  }
+
+  async getStagesByTournament(tournamentId: number): Promise<TournamentStage[]> {
+    const { data, error } = await supabase
+      .from('tournament_stages')
+      .select('*')
+      .eq('tournamentId', tournamentId)
+      .order('stageOrder', { ascending: true });
+    
+    if (error || !data) return [];
+    return data as TournamentStage[];
+  }
+
+  async createTournamentStage(insertStage: InsertTournamentStage): Promise<TournamentStage> {
+    const { data, error } = await supabase
+      .from('tournament_stages')
+      .insert(insertStage)
+      .select()
+      .single();
+    
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to create tournament stage');
+    }
+    
+    return data as TournamentStage;
+  }
+
+  async updateTournamentStage(id: number, stageUpdate: Partial<TournamentStage>): Promise<TournamentStage | undefined> {
+    const { data, error } = await supabase
+      .from('tournament_stages')
+      .update(stageUpdate)
+      .eq('id', id)
+      .select()
+      .single();
+    
+    if (error || !data) return undefined;
+    return data as TournamentStage;
+  }
+
+  async deleteTournamentStage(id: number): Promise<boolean> {
+    const groups = await this.getGroupsByStage(id);
+    for (const group of groups) {
+      await this.deleteStageGroup(group.id);
+    }
+    
+    const { error } = await supabase
+      .from('tournament_stages')
+      .delete()
+      .eq('id', id);
+    
+    return !error;
+  }
+
+  // Stage group operations
+  async getStageGroup(id: number): Promise<StageGroup | undefined> {
+    const { data, error } = await supabase
+      .from('stage_groups')
+      .select('*')
+      .eq('id', id)
+      .single();
+    
+    if (error || !data) return undefined;
+    return data as StageGroup;
+  }
+
+  async getGroupsByStage(stageId: number): Promise<StageGroup[]> {
+    const { data, error } = await supabase
+      .from('stage_groups')
+      .select('*')
+      .eq('stageId', stageId)
+      .order('id', { ascending: true });
+    
+    if (error || !data) return [];
+    return data as StageGroup[];
+  }
+
+  async createStageGroup(insertGroup: InsertStageGroup): Promise<StageGroup> {
+    const { data, error } = await supabase
+      .from('stage_groups')
+      .insert(insertGroup)
+      .select()
+      .single();
+    
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to create stage group');
+    }
+    
+    return data as StageGroup;
+  }
+
+  async deleteStageGroup(id: number): Promise<boolean> {
+    await this.clearGroupTeams(id);
+    
+    const { error } = await supabase
+      .from('stage_groups')
+      .delete()
+      .eq('id', id);
+    
+    return !error;
+  }
+
+  // Group team operations
+  async getGroupTeams(groupId: number): Promise<GroupTeam[]> {
+    const { data, error } = await supabase
+      .from('group_teams')
+      .select('*')
+      .eq('groupId', groupId)
+      .order('seed', { ascending: true });
+    
+    if (error || !data) return [];
+    return data as GroupTeam[];
+  }
+
+  async addGroupTeam(insertGroupTeam: InsertGroupTeam): Promise<GroupTeam> {
+    const { data, error } = await supabase
+      .from('group_teams')
+      .insert(insertGroupTeam)
+      .select()
+      .single();
+    
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to add team to group');
+    }
+    
+    return data as GroupTeam;
+  }
+
+  async clearGroupTeams(groupId: number): Promise<number> {
+    const { data, error } = await supabase
+      .from('group_teams')
+      .delete()
+      .eq('groupId', groupId)
+      .select('id');
+    
+    if (error) return 0;
+    return data?.length || 0;
+  }
+
+  // Match operations
+  async getMatch(id: number): Promise<Match | undefined> {
+    const { data, error } = await supabase
+      .from('matches')
+      .select('*')
+      .eq('id', id)
+      .single();
+    
+    if (error || !data) return undefined;
+    return data as Match;
+  }
+
+  async getMatchesByTournament(tournamentId: number): Promise<Match[]> {
+    const { data, error } = await supabase
+      .from('matches')
+      .select('*')
+      .eq('tournamentId', tournamentId)
+      .order('matchNumber', { ascending: true });
+    
+    if (error || !data) return [];
+    return data as Match[];
+  }
+
+  async createMatch(insertMatch: InsertMatch): Promise<Match> {
+    const { data, error } = await supabase
+      .from('matches')
+      .insert(insertMatch)
+      .select()
+      .single();
+    
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to create match');
+    }
+    
+    return data as Match;
+  }
+
+  async updateMatch(id: number, matchUpdate: Partial<Match>): Promise<Match | undefined> {
+    const { data, error } = await supabase
+      .from('matches')
+      .update(matchUpdate)
+      .eq('id', id)
+      .select()
+      .single();
+    
+    if (error || !data) return undefined;
+    return data as Match;
+  }
+
+  async deleteMatch(id: number): Promise<boolean> {
+    await this.deleteMatchResults(id);
+    
+    const { error } = await supabase
+      .from('matches')
+      .delete()
+      .eq('id', id);
+    
+    return !error;
+  }
+  
+  // Match result operations
+  async getMatchResults(matchId: number): Promise<MatchResult[]> {
+    const { data, error } = await supabase
+      .from('match_results')
+      .select('*')
+      .eq('matchId', matchId)
+      .order('placement', { ascending: true });
+    
+    if (error || !data) return [];
+    return data as MatchResult[];
+  }
+
+  async createMatchResult(insertResult: InsertMatchResult): Promise<MatchResult> {
+    const { data, error } = await supabase
+      .from('match_results')
+      .insert(insertResult)
+      .select()
+      .single();
+    
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to create match result');
+    }
+    
+    return data as MatchResult;
+  }
+
+  async deleteMatchResults(matchId: number): Promise<number> {
+    const { data, error } = await supabase
+      .from('match_results')
+      .delete()
+      .eq('matchId', matchId)
+      .select('id');
+    
+    if (error) return 0;
+    return data?.length || 0;
+  }
+  
+  // Bracket match operations
+  async getBracketMatch(id: number): Promise<BracketMatch | undefined> {
+    const { data, error } = await supabase
+      .from('bracket_matches')
+      .select('*')
+      .eq('id', id)
+      .single();
+    
+    if (error || !data) return undefined;
+    return data as BracketMatch;
+  }
+
+  async getBracketMatches(tournamentId: number): Promise<BracketMatch[]> {
+    const { data, error } = await supabase
+      .from('bracket_matches')
+      .select('*')
+      .eq('tournamentId', tournamentId)
+      .order('round', { ascending: true })
+      .order('position', { ascending: true });
+    
+    if (error || !data) return [];
+    
+    // Winners bracket first, then losers bracket, then the grand final
+    const bracketOrder = ['winners', 'losers', 'grand_final'];
+    return (data as BracketMatch[]).sort((a, b) =>
+      bracketOrder.indexOf(a.bracket) - bracketOrder.indexOf(b.bracket) ||
+      a.round - b.round ||
+      a.position - b.position
+    );
+  }
+
+  async createBracketMatch(insertMatch: InsertBracketMatch): Promise<BracketMatch> {
+    const { data, error } = await supabase
+      .from('bracket_matches')
+      .insert(insertMatch)
+      .select()
+      .single();
+    
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to create bracket match');
+    }
+    
+    return data as BracketMatch;
+  }
+
+  async updateBracketMatch(id: number, matchUpdate: Partial<BracketMatch>): Promise<BracketMatch | undefined> {
+    const { data, error } = await supabase
+      .from('bracket_matches')
+      .update(matchUpdate)
+      .eq('id', id)
+      .select()
+      .single();
+    
+    if (error || !data) return undefined;
+    return data as BracketMatch;
+  }
+
+  async deleteBracketMatch(id: number): Promise<boolean> {
+    const { error } = await supabase
+      .from('bracket_matches')
+      .delete()
+      .eq('id', id);
+    
+    return !error;
+  }
+
+  async deleteBracketMatches(tournamentId: number): Promise<number> {
+    const { data, error } = await supabase
+      .from('bracket_matches')
+      .delete()
+      .eq('tournamentId', tournamentId)
+      .select('id');
+    
+    if (error) return 0;
+    return data?.length || 0;
+  }
   
   // Missing methods required by IStorage interface
   
@@ -0,0 +1,76 @@
+/**
+ * Team Invites
+ * Shareable /join/:token links a team hands out alongside its invite code.
+ * Each link can expire, run out of uses, be meant for a single player, or be
+ * revoked once it has got into the wrong hands.
+ */
+import crypto from 'crypto';
+import { storage } from './storage';
+import { Team, TeamInvite } from '@shared/schema';
+
+export type InviteStatus = 'active' | 'expired' | 'used_up' | 'revoked';
+
+type InviteOptions = {
+  expiresInHours: number | null;
+  maxUses: number | null;
+  recipientUserId: number | null;
+};
+
+/**
+ * Whether an invite can still be used, and if not why
+ */
+export function getInviteStatus(invite: TeamInvite, now: Date = new Date()): InviteStatus {
+  if (invite.revokedAt) return 'revoked';
+  if (invite.expiresAt && new Date(invite.expiresAt) <= now) return 'expired';
+  if (invite.maxUses !== null && invite.uses >= invite.maxUses) return 'used_up';
+  return 'active';
+}
+
+/**
+ * Check a player can join with an invite
+ * @returns An error message, or null if the invite is good for them
+ */
+export function checkInvite(invite: TeamInvite, userId: number): string | null {
+  switch (getInviteStatus(invite)) {
+    case 'revoked':
+      return "This invite link has been revoked";
+    case 'expired':
+      return "This invite link has expired";
+    case 'used_up':
+      return "This invite link has already been used";
+  }
+  if (invite.recipientUserId !== null && invite.recipientUserId !== userId) {
+    return "This invite link is meant for another player";
+  }
+  return null;
+}
+
+/**
+ * Create an invite link for a team
+ */
+export async function createInvite(team: Team, createdBy: number, options: InviteOptions): Promise<TeamInvite> {
+  return storage.createTeamInvite({
+    teamId: team.id,
+    token: crypto.randomBytes(16).toString('base64url'),
+    createdBy,
+    recipientUserId: options.recipientUserId,
+    maxUses: options.maxUses,
+    expiresAt: options.expiresInHours !== null
+      ? new Date(Date.now() + options.expiresInHours * 60 * 60 * 1000)
+      : null
+  });
+}
+
+/**
+ * Count a use of an invite
+ */
+export async function redeemInvite(invite: TeamInvite): Promise<TeamInvite | undefined> {
+  return storage.updateTeamInvite(invite.id, { uses: invite.uses + 1 });
+}
+
+/**
+ * Stop an invite from being used again
+ */
+export async function revokeInvite(invite: TeamInvite): Promise<TeamInvite | undefined> {
+  return storage.updateTeamInvite(invite.id, { revokedAt: new Date() });
+}
@@ -0,0 +1,94 @@
+/**
+ * Team Membership
+ * Team members are linked to the account they belong to, so a player stays
+ * on their teams after changing their username. Members added before the
+ * link existed are linked once by scripts/link-team-members.ts.
+ */
+import { storage } from './storage';
+import { TeamMember, User } from '@shared/schema';
+
+export type MemberIdentity = { id: number; username: string };
+
+/**
+ * Whether a team member is the given user. Members without a linked account
+ * are nobody's, whatever their username.
+ */
+export function isMemberUser(member: TeamMember, user: MemberIdentity): boolean {
+  return member.userId !== null && member.userId === user.id;
+}
+
+/**
+ * Whether a user is on a team's member list
+ */
+export async function isTeamMember(teamId: number, user: MemberIdentity): Promise<boolean> {
+  const members = await storage.getTeamMembers(teamId);
+  return members.some(member => isMemberUser(member, user));
+}
+
+/**
+ * Teams a user owns or plays for
+ */
+export async function getUserTeamIds(user: MemberIdentity): Promise<number[]> {
+  const teamIds = new Set<number>();
+
+  const ownedTeams = await storage.getTeamsByOwnerId(user.id);
+  ownedTeams.forEach(team => teamIds.add(team.id));
+
+  const memberships = await storage.getTeamMembershipsByUser(user.id);
+  memberships.forEach(member => teamIds.add(member.teamId));
+
+  return Array.from(teamIds);
+}
+
+/**
+ * The users to notify about a registration or waitlist place - whoever made
+ * it and every team member with an account
+ */
+export async function getEntryUserIds(entry: { teamId: number | null; userId: number }): Promise<number[]> {
+  const userIds = new Set<number>([entry.userId]);
+  if (entry.teamId !== null) {
+    const members = await storage.getTeamMembers(entry.teamId);
+    members.forEach(member => {
+      if (member.userId !== null) userIds.add(member.userId);
+    });
+  }
+  return Array.from(userIds);
+}
+
+/**
+ * Link members that only have a username to the account of that name. Only
+ * meant to run once, when upgrading data from before members had accounts -
+ * afterwards a new account taking an unlinked name must not inherit the spot.
+ * @returns How many members were linked
+ */
+export async function linkTeamMembers(): Promise<number> {
+  let linked = 0;
+
+  const teams = await storage.getAllTeams();
+  for (const team of teams) {
+    const members = await storage.getTeamMembers(team.id);
+    for (const member of members) {
+      if (member.userId !== null) continue;
+
+      const user = await storage.getUserByUsername(member.username);
+      if (user) {
+        await storage.updateTeamMember(member.id, { userId: user.id });
+        linked++;
+      }
+    }
+  }
+
+  return linked;
+}
+
+/**
+ * Carry a user's current username and game ID over to every team they are on
+ */
+export async function syncMemberProfile(user: User): Promise<void> {
+  const memberships = await storage.getTeamMembershipsByUser(user.id);
+  for (const member of memberships) {
+    if (member.username !== user.username || member.gameId !== user.gameId) {
+      await storage.updateTeamMember(member.id, { username: user.username, gameId: user.gameId });
+    }
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * Team Permissions
+ * What each player may do for a team. The owner can always do everything;
+ * each other action is left to the owner, opened to captains, or opened to
+ * every member as the owner chooses.
+ */
+import { storage } from './storage';
+import {
+  Team,
+  TeamAccess,
+  TeamAction,
+  TeamMember,
+  TeamPermissions,
+  TeamRoleLevel,
+  defaultTeamPermissions,
+  teamActions
+} from '@shared/schema';
+import { MemberIdentity, isMemberUser } from './team-membership';
+import { revokeInvite } from './team-invites';
+
+const levelRanks: Record<TeamRoleLevel, number> = { owner: 3, captain: 2, member: 1 };
+
+const actionDescriptions: Record<TeamAction, string> = {
+  register: "register this team for tournaments",
+  manageRoster: "manage this team's roster",
+  editTeam: "edit this team",
+  deleteTeam: "delete this team"
+};
+
+/**
+ * Who may do what for a team, with the defaults filled in
+ */
+export function getTeamPermissions(team: Team): TeamPermissions {
+  return { ...defaultTeamPermissions, ...(team.permissions ?? {}) };
+}
+
+/**
+ * A user's authority on a team, or null if they aren't on it
+ */
+export async function getTeamRole(team: Team, user: MemberIdentity): Promise<TeamRoleLevel | null> {
+  if (team.ownerId === user.id) return 'owner';
+
+  const members = await storage.getTeamMembers(team.id);
+  const member = members.find(m => isMemberUser(m, user));
+  if (!member) return null;
+  return member.role === 'captain' ? 'captain' : 'member';
+}
+
+/**
+ * Whether a user may take an action for a team
+ */
+export async function canTeam(team: Team, user: MemberIdentity, action: TeamAction): Promise<boolean> {
+  const role = await getTeamRole(team, user);
+  return role !== null && levelRanks[role] >= levelRanks[getTeamPermissions(team)[action]];
+}
+
+/**
+ * A user's role on a team and every action it lets them take
+ */
+export async function getTeamAccess(team: Team, user: MemberIdentity): Promise<TeamAccess> {
+  const role = await getTeamRole(team, user);
+  const permissions = getTeamPermissions(team);
+
+  const allowed = {} as Record<TeamAction, boolean>;
+  teamActions.forEach(action => {
+    allowed[action] = role !== null && levelRanks[role] >= levelRanks[permissions[action]];
+  });
+
+  return { role, permissions, allowed };
+}
+
+/**
+ * The message shown to a user who may not take an action
+ */
+export function describeDenied(action: TeamAction): string {
+  return `You don't have permission to ${actionDescriptions[action]}`;
+}
+
+/**
+ * Check a member can take over a team
+ * @returns An error message, or null if the team can be handed to them
+ */
+export async function checkNewOwner(team: Team, member: TeamMember): Promise<string | null> {
+  if (member.teamId !== team.id) {
+    return "That player is not on this team";
+  }
+  if (member.userId === null) {
+    return `${member.username} has no account to own the team with`;
+  }
+  if (member.userId === team.ownerId) {
+    return `${member.username} already owns this team`;
+  }
+
+  const ownedTeams = await storage.getTeamsByOwnerId(member.userId);
+  if (ownedTeams.length >= 3) {
+    return `${member.username} already owns the maximum of 3 teams`;
+  }
+
+  return null;
+}
+
+/**
+ * Hand a team to one of its members, who becomes its captain. The previous
+ * owner stays on as a member. Call checkNewOwner first.
+ */
+export async function transferOwnership(team: Team, member: TeamMember): Promise<Team | undefined> {
+  const newOwnerId = member.userId!;
+
+  const members = await storage.getTeamMembers(team.id);
+  const previousOwner = members.find(m => m.userId === team.ownerId);
+  if (previousOwner && previousOwner.role === 'captain') {
+    await storage.updateTeamMember(previousOwner.id, { role: 'member' });
+  }
+  await storage.updateTeamMember(member.id, { role: 'captain' });
+
+  const updatedTeam = await storage.updateTeam(team.id, { ownerId: newOwnerId });
+
+  await storage.createNotification({
+    userId: newOwnerId,
+    title: `You Now Own ${team.name}`,
+    message: `${team.name} has been handed over to you. You are now its owner and captain.`,
+    type: "general",
+    relatedId: team.id
+  });
+
+  return updatedTeam;
+}
+
+/**
+ * Give a team whose owner is leaving the platform to another member, captains
+ * first, so it isn't left without an owner
+ * @returns The team under its new owner, or undefined if nobody can take it
+ */
+export async function handOverTeam(team: Team): Promise<Team | undefined> {
+  const members = await storage.getTeamMembers(team.id);
+  const candidates = members
+    .filter(member => member.userId !== null && member.userId !== team.ownerId)
+    .sort((a, b) => Number(b.role === 'captain') - Number(a.role === 'captain'));
+
+  for (const candidate of candidates) {
+    if (await checkNewOwner(team, candidate) === null) {
+      return transferOwnership(team, candidate);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Take a member off a team at their own request and let the owner know. Invite
+ * links and invitations they sent for the team stop working once they're gone.
+ */
+export async function leaveTeam(team: Team, member: TeamMember): Promise<boolean> {
+  if (member.userId !== null) {
+    const invites = await storage.getTeamInvites(team.id);
+    for (const invite of invites) {
+      if (invite.createdBy === member.userId && !invite.revokedAt) {
+        await revokeInvite(invite);
+      }
+    }
+
+    const invitations = await storage.getMemberInvitationsByTeam(team.id);
+    for (const invitation of invitations) {
+      if (invitation.invitedBy === member.userId && invitation.status === 'pending') {
+        await storage.updateMemberInvitation(invitation.id, { status: 'cancelled', respondedAt: new Date() });
+      }
+    }
+  }
+
+  const left = await storage.deleteTeamMember(member.id);
+
+  await storage.createNotification({
+    userId: team.ownerId,
+    title: `Member Left - ${team.name}`,
+    message: `${member.username} has left ${team.name}.`,
+    type: "general",
+    relatedId: team.id
+  });
+
+  return left;
+}
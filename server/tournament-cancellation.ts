@@ -0,0 +1,77 @@
+/**
+ * Tournament Cancellation
+ * Calls a tournament off without deleting it. Paid entries are refunded and
+ * everyone who signed up or was waiting for a slot is told why.
+ */
+import { storage } from './storage';
+import { Tournament } from '@shared/schema';
+import { getEntryUserIds } from './team-membership';
+
+export type CancellationResult = {
+  tournament: Tournament;
+  notifiedUserIds: number[];
+  refundedCount: number;
+};
+
+/**
+ * Cancel a tournament, refund its paid registrations and notify its players
+ */
+export async function cancelTournament(tournament: Tournament, reason: string): Promise<CancellationResult> {
+  const cancelled = await storage.updateTournament(tournament.id, {
+    status: 'cancelled',
+    cancellationReason: reason,
+    cancelledAt: new Date()
+  });
+
+  const notifiedUserIds = new Set<number>();
+  let refundedCount = 0;
+
+  const registrations = await storage.getRegistrationsByTournament(tournament.id);
+  for (const registration of registrations) {
+    const refunded = registration.paymentStatus === 'paid';
+    if (refunded) {
+      await storage.updateRegistration(registration.id, { paymentStatus: 'refunded' });
+      refundedCount++;
+    }
+
+    // Rejected teams were already told they are out
+    if (registration.status === 'rejected') continue;
+
+    // The refund goes to whoever paid, but the whole team hears about the cancellation
+    for (const userId of await getEntryUserIds(registration)) {
+      if (notifiedUserIds.has(userId) && userId !== registration.userId) continue;
+      await storage.createNotification({
+        userId,
+        title: `Tournament Cancelled - ${tournament.title}`,
+        message: refunded && userId === registration.userId
+          ? `${tournament.title} has been cancelled. Reason: ${reason}. Your entry fee of ₹${tournament.entryFee || 0} will be refunded.`
+          : `${tournament.title} has been cancelled. Reason: ${reason}`,
+        type: "tournament",
+        relatedId: tournament.id
+      });
+      notifiedUserIds.add(userId);
+    }
+  }
+
+  // Nobody will ever be promoted now, so the waitlist is cleared too
+  const waitlist = await storage.getWaitlistByTournament(tournament.id);
+  for (const entry of waitlist) {
+    await storage.deleteWaitlistEntry(entry.id);
+    if (notifiedUserIds.has(entry.userId)) continue;
+
+    await storage.createNotification({
+      userId: entry.userId,
+      title: `Tournament Cancelled - ${tournament.title}`,
+      message: `${tournament.title} has been cancelled. Reason: ${reason}`,
+      type: "tournament",
+      relatedId: tournament.id
+    });
+    notifiedUserIds.add(entry.userId);
+  }
+
+  return {
+    tournament: cancelled || tournament,
+    notifiedUserIds: Array.from(notifiedUserIds),
+    refundedCount
+  };
+}
@@ -1,12 +1,39 @@
 /**
  * Tournament Manager
- * Handles automatic status updates for tournaments based on their date and time
+ * Handles automatic status updates for tournaments based on their date and duration
  */
 import { storage } from './storage';
 import { Tournament } from '@shared/schema';
+import { processCheckIn } from './check-in';
+import { isRoomReleaseDue, releaseRoomCredentials } from './room-manager';
+import { getEndTime, getScheduledStatus } from './tournament-status';
+import { generateScheduledTournaments } from './tournament-templates';
 
-// Duration of a tournament in minutes before it's marked as completed
-const TOURNAMENT_DURATION_MINUTES = 120; // 2 hours
+type RoomReleaseListener = (tournament: Tournament, userIds: number[]) => void | Promise<void>;
+
+// Set by the routes so released room details reach connected clients straight away
+let roomReleaseListener: RoomReleaseListener | null = null;
+
+/**
+ * Register a callback that runs whenever room details are published
+ */
+export function onRoomRelease(listener: RoomReleaseListener): void {
+  roomReleaseListener = listener;
+}
+
+/**
+ * Publish a tournament's room details once their scheduled release time is reached
+ */
+async function processRoomRelease(tournament: Tournament, now: Date): Promise<void> {
+  if (!await isRoomReleaseDue(tournament, now)) return;
+
+  const userIds = await releaseRoomCredentials(tournament);
+  console.log(`  Released room details of tournament #${tournament.id} to ${userIds.length} teams`);
+
+  if (roomReleaseListener) {
+    await roomReleaseListener(tournament, userIds);
+  }
+}
 
 /**
  * Check and update tournament statuses
@@ -19,6 +46,13 @@ export async function updateTournamentStatuses(): Promise<void> {
     
     console.log(`Tournament status check running at ${now.toISOString()}`);
     
+    // Create upcoming occurrences of recurring tournaments before anything else
+    try {
+      await generateScheduledTournaments(now);
+    } catch (error) {
+      console.error('Error generating tournaments from templates:', error);
+    }
+    
     // Process each tournament
     for (const tournament of tournaments) {
       if (!tournament.date) {
@@ -27,8 +61,7 @@ export async function updateTournamentStatuses(): Promise<void> {
       }
       
       const tournamentDate = new Date(tournament.date);
-      const endTime = new Date(tournamentDate);
-      endTime.setMinutes(endTime.getMinutes() + TOURNAMENT_DURATION_MINUTES);
+      const endTime = getEndTime(tournament);
       
       console.log(`Tournament #${tournament.id} "${tournament.title}":`);
       console.log(`  Current status: ${tournament.status}`);
@@ -36,31 +69,38 @@ export async function updateTournamentStatuses(): Promise<void> {
       console.log(`  End time: ${endTime.toISOString()}`);
       console.log(`  Current time: ${now.toISOString()}`);
       
-      // Calculate status based on time
-      let newStatus = tournament.status;
+      // Drafts are not published yet and cancelled tournaments have nothing left to run
+      if (tournament.status === 'draft' || tournament.status === 'cancelled') {
+        console.log(`  Tournament is ${tournament.status}, skipping`);
+        continue;
+      }
       
-      // If tournament date is in the past but not more than TOURNAMENT_DURATION_MINUTES ago, mark as live
-      if (tournamentDate <= now && now < endTime && tournament.status !== 'live') {
-        newStatus = 'live';
-        console.log(`  UPDATING: Tournament date has passed but end time hasn't -> marking as LIVE`);
+      // Release the slots of teams that missed check-in once the window closes
+      try {
+        await processCheckIn(tournament, now);
+      } catch (error) {
+        console.error(`Error processing check-in for tournament #${tournament.id}:`, error);
       }
-      // If tournament end time is in the past, mark as completed
-      else if (endTime <= now && tournament.status !== 'completed') {
-        newStatus = 'completed';
-        console.log(`  UPDATING: Tournament end time has passed -> marking as COMPLETED`);
+      
+      // Send confirmed teams their room details when the release time comes
+      try {
+        await processRoomRelease(tournament, now);
+      } catch (error) {
+        console.error(`Error releasing room details for tournament #${tournament.id}:`, error);
       }
-      // If tournament date is in the future, ensure it's marked as upcoming
-      else if (now < tournamentDate && tournament.status !== 'upcoming') {
-        newStatus = 'upcoming';
-        console.log(`  UPDATING: Tournament date is in the future -> marking as UPCOMING`);
-      } else {
-        console.log(`  No status change needed, remaining as ${tournament.status}`);
+      
+      // An admin has pinned the status by hand
+      if (tournament.statusLocked) {
+        console.log(`  Status is locked, remaining as ${tournament.status}`);
+        continue;
       }
       
-      // Update if status changed
-      if (newStatus !== tournament.status) {
+      const newStatus = getScheduledStatus(tournament, now);
+      if (newStatus) {
         console.log(`  Updating tournament #${tournament.id} status from ${tournament.status} to ${newStatus}`);
         await storage.updateTournament(tournament.id, { status: newStatus });
+      } else {
+        console.log(`  No status change needed, remaining as ${tournament.status}`);
       }
     }
   } catch (error) {
@@ -0,0 +1,70 @@
+/**
+ * Tournament Status
+ * The tournament lifecycle as a state machine. Admins may make any allowed
+ * transition by hand; the scheduler only ever moves a tournament forward
+ * along its schedule, and never touches a locked status.
+ */
+import { Tournament, TournamentStatus } from '@shared/schema';
+
+// Statuses a tournament may move to from each status
+const transitions: Record<TournamentStatus, TournamentStatus[]> = {
+  draft: ['upcoming', 'cancelled'],
+  upcoming: ['draft', 'registration_closed', 'live', 'cancelled'],
+  registration_closed: ['upcoming', 'live', 'cancelled'],
+  live: ['completed', 'cancelled'],
+  // Reopened when a long event was completed too early
+  completed: ['live'],
+  cancelled: []
+};
+
+/**
+ * Statuses a tournament can be moved to from its current one
+ */
+export function getAllowedTransitions(status: string): TournamentStatus[] {
+  return transitions[status as TournamentStatus] ?? [];
+}
+
+/**
+ * Whether a tournament may move from one status to another
+ */
+export function canTransition(from: string, to: TournamentStatus): boolean {
+  return from === to || getAllowedTransitions(from).includes(to);
+}
+
+/**
+ * When a tournament is expected to finish
+ */
+export function getEndTime(tournament: Tournament): Date {
+  const start = new Date(tournament.date).getTime();
+  return new Date(start + tournament.durationMinutes * 60 * 1000);
+}
+
+/**
+ * Whether teams can still sign up
+ */
+export function acceptsRegistrations(tournament: Tournament): boolean {
+  return tournament.status === 'upcoming';
+}
+
+/**
+ * The status the schedule moves a tournament to next. Drafts are never
+ * published on their own, registration closes at its deadline, and the
+ * tournament goes live at its start time and completes once its duration
+ * has passed.
+ * @returns null if the status should stay as it is
+ */
+export function getScheduledStatus(tournament: Tournament, now: Date = new Date()): TournamentStatus | null {
+  if (tournament.statusLocked) return null;
+
+  const start = new Date(tournament.date);
+  if ((tournament.status === 'upcoming' || tournament.status === 'registration_closed') && start <= now) {
+    return 'live';
+  }
+  if (tournament.status === 'upcoming' && tournament.registrationClosesAt && new Date(tournament.registrationClosesAt) <= now) {
+    return 'registration_closed';
+  }
+  if (tournament.status === 'live' && getEndTime(tournament) <= now) {
+    return 'completed';
+  }
+  return null;
+}
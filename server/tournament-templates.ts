@@ -0,0 +1,198 @@
+/**
+ * Tournament Templates
+ * Recurring events such as daily scrims. The scheduler creates a tournament
+ * for every occurrence a few days ahead, and any tournament can be cloned
+ * as a one-off.
+ */
+import { storage } from './storage';
+import { InsertTournament, Tournament, TournamentTemplate } from '@shared/schema';
+import { validateGameMode } from './game-rules';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+/**
+ * Whether a template runs on a day of the week (0 = Sunday)
+ */
+function runsOn(template: TournamentTemplate, weekday: number): boolean {
+  switch (template.recurrence) {
+    case 'weekdays':
+      return weekday >= 1 && weekday <= 5;
+    case 'weekly':
+      return weekday === template.weekday;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Start times of a template's occurrences after `from`, up to and including `to`
+ */
+export function getOccurrences(template: TournamentTemplate, from: Date, to: Date): Date[] {
+  const offsetMs = template.utcOffsetMinutes * 60 * 1000;
+  const [hours, minutes] = template.startTime.split(':').map(Number);
+
+  // Walk the calendar days of the template's timezone
+  const firstDay = Math.floor((from.getTime() + offsetMs) / DAY_MS);
+  const lastDay = Math.floor((to.getTime() + offsetMs) / DAY_MS);
+
+  const occurrences: Date[] = [];
+  for (let day = firstDay; day <= lastDay; day++) {
+    const weekday = new Date(day * DAY_MS).getUTCDay();
+    if (!runsOn(template, weekday)) continue;
+
+    const start = new Date(day * DAY_MS + (hours * 60 + minutes) * 60 * 1000 - offsetMs);
+    if (start > from && start <= to) {
+      occurrences.push(start);
+    }
+  }
+  return occurrences;
+}
+
+/**
+ * The next few occurrences of a template, for previewing the schedule
+ */
+export function getUpcomingOccurrences(template: TournamentTemplate, count: number, now: Date = new Date()): Date[] {
+  // A weekly template needs at most a week per occurrence
+  const horizon = new Date(now.getTime() + (count * 7 + 1) * DAY_MS);
+  return getOccurrences(template, now, horizon).slice(0, count);
+}
+
+/**
+ * "19 Oct" in the template's timezone, so each occurrence gets its own title
+ */
+function formatOccurrenceDate(template: TournamentTemplate, date: Date): string {
+  const local = new Date(date.getTime() + template.utcOffsetMinutes * 60 * 1000);
+  return `${local.getUTCDate()} ${MONTHS[local.getUTCMonth()]}`;
+}
+
+/**
+ * The tournament a template produces for one occurrence
+ */
+export function buildTournament(template: TournamentTemplate, date: Date): InsertTournament {
+  return {
+    title: `${template.title} - ${formatOccurrenceDate(template, date)}`,
+    description: template.description,
+    date,
+    mapType: template.mapType,
+    gameMode: template.gameMode,
+    teamType: template.teamType,
+    gameType: template.gameType,
+    format: template.format as InsertTournament['format'],
+    isPaid: template.isPaid,
+    entryFee: template.entryFee,
+    prizePool: template.prizePool,
+    totalSlots: template.totalSlots,
+    slots: template.totalSlots,
+    slotAllocation: template.slotAllocation as InsertTournament['slotAllocation'],
+    requiresApproval: template.requiresApproval,
+    roomCapacity: template.roomCapacity,
+    checkInOpensMinutes: template.checkInOpensMinutes,
+    checkInClosesMinutes: template.checkInClosesMinutes,
+    durationMinutes: template.durationMinutes,
+    roomReleaseMinutes: template.roomReleaseMinutes,
+    unregisterCutoffMinutes: template.unregisterCutoffMinutes,
+    scoringRulesetId: template.scoringRulesetId,
+    templateId: template.id,
+    status: 'upcoming',
+    createdBy: template.createdBy
+  };
+}
+
+/**
+ * Create the tournaments a template has coming up within its look-ahead window.
+ * Occurrences that were already created are never created again.
+ * @returns The tournaments created
+ */
+export async function generateFromTemplate(template: TournamentTemplate, now: Date = new Date()): Promise<Tournament[]> {
+  if (template.isPaused) return [];
+
+  // Templates saved before game rules were checked create nothing until they're fixed
+  const gameModeError = validateGameMode(template.gameType, template.teamType);
+  if (gameModeError) {
+    throw new Error(gameModeError);
+  }
+
+  const from = template.lastOccurrenceAt && template.lastOccurrenceAt > now ? template.lastOccurrenceAt : now;
+  const to = new Date(now.getTime() + template.daysAhead * DAY_MS);
+
+  const created: Tournament[] = [];
+  for (const date of getOccurrences(template, from, to)) {
+    created.push(await storage.createTournament(buildTournament(template, date)));
+    await storage.updateTournamentTemplate(template.id, { lastOccurrenceAt: date });
+  }
+  return created;
+}
+
+/**
+ * Run every active template
+ */
+export async function generateScheduledTournaments(now: Date = new Date()): Promise<Tournament[]> {
+  const templates = await storage.getAllTournamentTemplates();
+  const created: Tournament[] = [];
+
+  for (const template of templates) {
+    try {
+      created.push(...await generateFromTemplate(template, now));
+    } catch (error) {
+      console.error(`Error generating tournaments from template #${template.id}:`, error);
+    }
+  }
+
+  if (created.length > 0) {
+    console.log(`Created ${created.length} tournaments from templates`);
+  }
+  return created;
+}
+
+/**
+ * Move a timestamp along with a tournament's new date
+ */
+function shiftTime(time: Date | null, from: Date, to: Date): Date | null {
+  if (!time) return null;
+  return new Date(new Date(time).getTime() + to.getTime() - new Date(from).getTime());
+}
+
+/**
+ * Copy a tournament's setup into a new draft on another date. Registrations,
+ * results and room details are not copied.
+ */
+export async function cloneTournament(
+  tournament: Tournament,
+  date: Date,
+  createdBy: number,
+  title?: string
+): Promise<Tournament> {
+  return storage.createTournament({
+    title: title || `${tournament.title} (Copy)`,
+    description: tournament.description,
+    date,
+    mapType: tournament.mapType,
+    gameMode: tournament.gameMode,
+    teamType: tournament.teamType,
+    gameType: tournament.gameType,
+    format: tournament.format as InsertTournament['format'],
+    isPaid: tournament.isPaid,
+    entryFee: tournament.entryFee,
+    prizePool: tournament.prizePool,
+    totalSlots: tournament.totalSlots,
+    slots: tournament.totalSlots,
+    slotAllocation: tournament.slotAllocation as InsertTournament['slotAllocation'],
+    requiresApproval: tournament.requiresApproval,
+    roomCapacity: tournament.roomCapacity,
+    checkInOpensMinutes: tournament.checkInOpensMinutes,
+    checkInClosesMinutes: tournament.checkInClosesMinutes,
+    durationMinutes: tournament.durationMinutes,
+    roomReleaseMinutes: tournament.roomReleaseMinutes,
+    registrationOpensAt: shiftTime(tournament.registrationOpensAt, tournament.date, date),
+    registrationClosesAt: shiftTime(tournament.registrationClosesAt, tournament.date, date),
+    unregisterCutoffMinutes: tournament.unregisterCutoffMinutes,
+    minRosterSize: tournament.minRosterSize,
+    maxRosterSize: tournament.maxRosterSize,
+    maxSubstitutes: tournament.maxSubstitutes,
+    requiredRoles: tournament.requiredRoles,
+    scoringRulesetId: tournament.scoringRulesetId,
+    status: 'draft',
+    createdBy
+  });
+}
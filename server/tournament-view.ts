@@ -0,0 +1,83 @@
+/**
+ * Tournament View
+ * Shapes tournaments for whoever is asking. Room credentials only go to admins
+ * and to players whose team is confirmed for the tournament - everyone else
+ * gets them blanked out and flagged as hidden.
+ */
+import { storage } from './storage';
+import { Registration, Tournament, TournamentView } from '@shared/schema';
+import { holdsSlot } from './slot-allocator';
+import { getRoomCredentials, isRoomReleased } from './room-manager';
+import { getUserTeamIds } from './team-membership';
+
+export type Viewer = {
+  userId?: number;
+  username?: string;
+  role?: string;
+};
+
+/**
+ * Teams the viewer owns or plays in
+ */
+async function getViewerTeamIds(viewer: Viewer): Promise<number[]> {
+  if (viewer.userId === undefined) return [];
+  return getUserTeamIds({ id: viewer.userId, username: viewer.username ?? '' });
+}
+
+/**
+ * The viewer's confirmed registrations, keyed by tournament. A registration
+ * counts if the viewer made it or plays in the registered team.
+ */
+export async function getConfirmedRegistrations(viewer: Viewer): Promise<Map<number, Registration>> {
+  const confirmed = new Map<number, Registration>();
+  if (viewer.userId === undefined) return confirmed;
+
+  const registrations = await storage.getRegistrationsByUser(viewer.userId);
+  for (const teamId of await getViewerTeamIds(viewer)) {
+    registrations.push(...await storage.getRegistrationsByTeam(teamId));
+  }
+
+  registrations.filter(holdsSlot).forEach(registration => {
+    if (!confirmed.has(registration.tournamentId)) {
+      confirmed.set(registration.tournamentId, registration);
+    }
+  });
+
+  return confirmed;
+}
+
+/**
+ * Shape a list of tournaments for one viewer
+ */
+export async function presentTournaments(tournaments: Tournament[], viewer: Viewer): Promise<TournamentView[]> {
+  if (viewer.role === 'admin') {
+    return tournaments.map(tournament => ({ ...tournament, credentialsHidden: false }));
+  }
+
+  const confirmed = await getConfirmedRegistrations(viewer);
+
+  return Promise.all(tournaments.map(async (tournament) => {
+    const registration = confirmed.get(tournament.id);
+    if (!registration || !isRoomReleased(tournament)) {
+      return { ...tournament, roomId: null, password: null, credentialsHidden: true };
+    }
+
+    // In a split lobby the team sees the credentials of its own room
+    const rooms = await storage.getRoomsByTournament(tournament.id);
+    const credentials = getRoomCredentials(tournament, rooms, registration);
+    return {
+      ...tournament,
+      roomId: credentials?.roomId ?? null,
+      password: credentials?.password ?? null,
+      credentialsHidden: !credentials
+    };
+  }));
+}
+
+/**
+ * Shape a single tournament for one viewer
+ */
+export async function presentTournament(tournament: Tournament, viewer: Viewer): Promise<TournamentView> {
+  const [view] = await presentTournaments([tournament], viewer);
+  return view;
+}
@@ -0,0 +1,129 @@
+/**
+ * Waitlist
+ * Queues teams for full tournaments and moves them in as slots open up
+ */
+import { storage } from './storage';
+import { Registration, RosterPlayer, Tournament, WaitlistEntry } from '@shared/schema';
+import { pickSlot, takesPlace } from './slot-allocator';
+import { getInitialStatus } from './registration-review';
+import { snapshotRoster } from './lineups';
+import { getEntrantName, isEntered } from './entrants';
+import { getRegistrationClosesAt } from './registration-deadlines';
+import { checkTeamEligibility } from './roster-rules';
+import { describeConflicts, findPlayerConflicts } from './duplicate-players';
+import { canTeam, describeDenied } from './team-permissions';
+import { getEntryUserIds } from './team-membership';
+
+/**
+ * Whether every place in a tournament is taken
+ */
+export async function isTournamentFull(tournament: Tournament): Promise<boolean> {
+  const registrations = await storage.getRegistrationsByTournament(tournament.id);
+  return registrations.filter(takesPlace).length >= tournament.totalSlots;
+}
+
+/**
+ * Whether waitlisted teams can still be moved into a tournament. Slots freed
+ * by the check-in sweep are filled after registration closes, but never once
+ * the tournament has started.
+ */
+function canPromote(tournament: Tournament, now: Date = new Date()): boolean {
+  if (tournament.status !== 'upcoming' && tournament.status !== 'registration_closed') return false;
+  if (new Date(tournament.date) <= now) return false;
+  return tournament.checkInProcessedAt !== null || getRegistrationClosesAt(tournament) > now;
+}
+
+/**
+ * Check a waitlisted team could still register the way it would through the
+ * register route - its player may still enter it, it is still eligible and
+ * none of its players are entered with another team
+ * @returns An error message, or null if the team can be moved in
+ */
+async function checkWaitlistEntry(tournament: Tournament, entry: WaitlistEntry, roster: RosterPlayer[]): Promise<string | null> {
+  if (entry.teamId !== null) {
+    const team = await storage.getTeam(entry.teamId);
+    if (!team) {
+      return "The team no longer exists";
+    }
+
+    const user = await storage.getUser(entry.userId);
+    if (!user || !await canTeam(team, user, 'register')) {
+      return describeDenied('register');
+    }
+
+    const eligibilityError = checkTeamEligibility(tournament, team, await storage.getTeamMembers(team.id));
+    if (eligibilityError) {
+      return eligibilityError;
+    }
+  }
+
+  const conflicts = await findPlayerConflicts(tournament, roster);
+  if (conflicts.length > 0) {
+    return describeConflicts(conflicts);
+  }
+
+  return null;
+}
+
+/**
+ * Register waitlisted teams, first in first out, until the tournament is full
+ * again or nobody is left waiting. Teams that could no longer register are
+ * skipped. Every player on a promoted team is notified.
+ * @returns The registrations created for the promoted teams
+ */
+export async function promoteFromWaitlist(tournament: Tournament): Promise<Registration[]> {
+  if (!canPromote(tournament)) return [];
+
+  const waitlist = await storage.getWaitlistByTournament(tournament.id);
+  const promoted: Registration[] = [];
+
+  for (const entry of waitlist) {
+    if (await isTournamentFull(tournament)) break;
+
+    await storage.deleteWaitlistEntry(entry.id);
+
+    // The team may have got in some other way while it was waiting
+    if (await isEntered(tournament.id, entry)) continue;
+
+    const name = await getEntrantName(entry);
+    const roster = await snapshotRoster(tournament, entry.teamId, entry.userId);
+    const error = await checkWaitlistEntry(tournament, entry, roster);
+    if (error) {
+      await storage.createNotification({
+        userId: entry.userId,
+        title: `Removed from Waitlist - ${tournament.title}`,
+        message: `A slot opened up but ${name} could not be registered: ${error}`,
+        type: "tournament",
+        relatedId: tournament.id
+      });
+      continue;
+    }
+
+    const status = getInitialStatus(tournament);
+    const registration = await storage.createRegistration({
+      tournamentId: tournament.id,
+      teamId: entry.teamId,
+      userId: entry.userId,
+      status,
+      slot: status === 'approved' ? await pickSlot(tournament) : null,
+      roster
+    });
+    promoted.push(registration);
+
+    for (const userId of await getEntryUserIds(entry)) {
+      await storage.createNotification({
+        userId,
+        title: `Off the Waitlist - ${tournament.title}`,
+        message: registration.status === 'pending'
+          ? `A slot opened up and ${name} is now registered. The organizer will review the registration.`
+          : registration.slot !== null
+            ? `A slot opened up and ${name} is now registered in slot ${registration.slot}.`
+            : `A slot opened up and ${name} is now registered.`,
+        type: "tournament",
+        relatedId: tournament.id
+      });
+    }
+  }
+
+  return promoted;
+}
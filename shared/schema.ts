@@ -24,6 +24,8 @@ export const teams = pgTable("teams", {
   ownerId: integer("owner_id").notNull().references(() => users.id),
   gameType: text("game_type").notNull().default("BGMI"), // BGMI, COD, FREEFIRE
   inviteCode: text("invite_code").notNull().unique(), // 6-digit unique code for team invites
+  requiresJoinApproval: boolean("requires_join_approval").notNull().default(false), // Joining by invite code waits for the owner to approve
+  permissions: json("permissions").$type<TeamPermissions>(), // Who may do what for the team, null for the defaults
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -31,12 +33,152 @@ export const teams = pgTable("teams", {
 export const teamMembers = pgTable("team_members", {
   id: serial("id").primaryKey(),
   teamId: integer("team_id").notNull().references(() => teams.id),
+  userId: integer("user_id").references(() => users.id), // The member's account, null for players without one
   username: text("username").notNull(),
   gameId: text("game_id").notNull(),
   role: text("role").notNull().default("member"), // captain, member, substitute
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Join request model - a player asking to join a team that approves new members
+export const teamJoinRequests = pgTable("team_join_requests", {
+  id: serial("id").primaryKey(),
+  teamId: integer("team_id").notNull().references(() => teams.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  status: text("status").notNull().default("pending"), // pending, approved, declined
+  inviteId: integer("invite_id"), // Invite link the request came through, its use only counts once approved
+  createdAt: timestamp("created_at").defaultNow(),
+  reviewedAt: timestamp("reviewed_at"),
+});
+
+// Invite model - a shareable /join/:token link that can expire, run out of uses or be revoked
+export const teamInvites = pgTable("team_invites", {
+  id: serial("id").primaryKey(),
+  teamId: integer("team_id").notNull().references(() => teams.id),
+  token: text("token").notNull().unique(),
+  createdBy: integer("created_by").notNull().references(() => users.id),
+  recipientUserId: integer("recipient_user_id").references(() => users.id), // Only this player can use the invite, null for anyone
+  maxUses: integer("max_uses"), // null for unlimited
+  uses: integer("uses").notNull().default(0),
+  expiresAt: timestamp("expires_at"), // null for never
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Member invitation model - a team owner asking a player to join, which only counts once they accept
+export const teamMemberInvitations = pgTable("team_member_invitations", {
+  id: serial("id").primaryKey(),
+  teamId: integer("team_id").notNull().references(() => teams.id),
+  userId: integer("user_id").notNull().references(() => users.id), // The invited player
+  invitedBy: integer("invited_by").notNull().references(() => users.id),
+  role: text("role").notNull().default("member"), // Role the player joins with - member or substitute
+  status: text("status").notNull().default("pending"), // pending, accepted, declined, cancelled
+  createdAt: timestamp("created_at").defaultNow(),
+  respondedAt: timestamp("responded_at"),
+});
+
+// Statuses a member invitation moves through
+export const memberInvitationStatuses = ["pending", "accepted", "declined", "cancelled"] as const;
+export type MemberInvitationStatus = typeof memberInvitationStatuses[number];
+
+// Statuses a join request moves through
+export const joinRequestStatuses = ["pending", "approved", "declined"] as const;
+export type JoinRequestStatus = typeof joinRequestStatuses[number];
+
+// Roles a team member can have
+export const memberRoles = ["captain", "member", "substitute"] as const;
+export type MemberRole = typeof memberRoles[number];
+
+// Levels of authority on a team, highest first - substitutes count as members
+export const teamRoleLevels = ["owner", "captain", "member"] as const;
+export type TeamRoleLevel = typeof teamRoleLevels[number];
+
+// Actions a team can open up to its captains or to every member, see server/team-permissions.ts
+export const teamActions = ["register", "manageRoster", "editTeam", "deleteTeam"] as const;
+export type TeamAction = typeof teamActions[number];
+export type TeamPermissions = Record<TeamAction, TeamRoleLevel>;
+
+export const defaultTeamPermissions: TeamPermissions = {
+  register: "captain",
+  manageRoster: "captain",
+  editTeam: "captain",
+  deleteTeam: "owner"
+};
+
+// Tie-breakers that can be applied, in a configurable order, when teams are level on points
+export const tieBreakerOptions = ["wins", "placementPoints", "kills", "bestPlacement", "lastPlacement"] as const;
+export type TieBreaker = typeof tieBreakerOptions[number];
+
+// Scoring ruleset model - a named points system that tournaments can use
+export const scoringRulesets = pgTable("scoring_rulesets", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  description: text("description").default(''),
+  gameType: text("game_type").notNull().default("BGMI"), // BGMI, COD, FREEFIRE
+  placementPoints: json("placement_points").$type<number[]>().notNull(), // index 0 = 1st place
+  pointsPerKill: integer("points_per_kill").notNull().default(1),
+  killCap: integer("kill_cap"), // max kills counted per team per match, null = no cap
+  tieBreakers: json("tie_breakers").$type<TieBreaker[]>().notNull().default(["wins", "placementPoints", "kills", "lastPlacement"]),
+  isDefault: boolean("is_default").notNull().default(false), // used by tournaments of this game type that don't pick one
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// How a tournament is played: lobby-style battle royale or head-to-head brackets
+export const tournamentFormats = ["battle_royale", "single_elimination", "double_elimination"] as const;
+export type TournamentFormat = typeof tournamentFormats[number];
+
+// How registered teams are given their in-game slot numbers
+export const slotAllocationModes = ["first_come", "random"] as const;
+export type SlotAllocationMode = typeof slotAllocationModes[number];
+
+// Review states of a tournament registration
+export const registrationStatuses = ["pending", "approved", "rejected", "no_show"] as const;
+export type RegistrationStatus = typeof registrationStatuses[number];
+
+// Lifecycle of a tournament - see server/tournament-status.ts for the allowed transitions
+export const tournamentStatuses = ["draft", "upcoming", "registration_closed", "live", "completed", "cancelled"] as const;
+export type TournamentStatus = typeof tournamentStatuses[number];
+
+// How often a tournament template produces a new tournament
+export const recurrenceRules = ["daily", "weekdays", "weekly"] as const;
+export type RecurrenceRule = typeof recurrenceRules[number];
+
+// Tournament template model - a recurring event the scheduler creates tournaments from
+export const tournamentTemplates = pgTable("tournament_templates", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  recurrence: text("recurrence").notNull().default("daily"), // daily, weekdays, weekly
+  weekday: integer("weekday"), // 0 = Sunday ... 6 = Saturday, weekly templates only
+  startTime: text("start_time").notNull(), // HH:MM in the template's timezone
+  utcOffsetMinutes: integer("utc_offset_minutes").notNull().default(330), // Timezone of startTime, IST by default
+  daysAhead: integer("days_ahead").notNull().default(3), // How far ahead tournaments are created
+  isPaused: boolean("is_paused").notNull().default(false),
+  lastOccurrenceAt: timestamp("last_occurrence_at"), // Start time of the latest tournament created
+  title: text("title").notNull(),
+  description: text("description").notNull(),
+  mapType: text("map_type").notNull(),
+  gameMode: text("game_mode").notNull().default("Squad"),
+  teamType: text("team_type").notNull(),
+  gameType: text("game_type").notNull().default("BGMI"),
+  format: text("format").notNull().default("battle_royale"),
+  isPaid: boolean("is_paid").notNull(),
+  entryFee: integer("entry_fee").default(0),
+  prizePool: integer("prize_pool").default(0),
+  totalSlots: integer("total_slots").notNull(),
+  slotAllocation: text("slot_allocation").notNull().default("first_come"),
+  requiresApproval: boolean("requires_approval").notNull().default(false),
+  roomCapacity: integer("room_capacity").notNull().default(25),
+  checkInOpensMinutes: integer("check_in_opens_minutes"),
+  checkInClosesMinutes: integer("check_in_closes_minutes").notNull().default(10),
+  durationMinutes: integer("duration_minutes").notNull().default(120),
+  roomReleaseMinutes: integer("room_release_minutes"),
+  unregisterCutoffMinutes: integer("unregister_cutoff_minutes"),
+  scoringRulesetId: integer("scoring_ruleset_id").references(() => scoringRulesets.id),
+  createdBy: integer("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Tournament model
 export const tournaments = pgTable("tournaments", {
   id: serial("id").primaryKey(),
@@ -47,28 +189,238 @@ export const tournaments = pgTable("tournaments", {
   gameMode: text("game_mode").notNull().default("Squad"), // Solo, Duo, Squad
   teamType: text("team_type").notNull(), // Solo, Duo, Squad (legacy field - use gameMode instead)
   gameType: text("game_type").notNull().default("BGMI"), // BGMI, COD, FREEFIRE
+  format: text("format").notNull().default("battle_royale"), // battle_royale, single_elimination, double_elimination
   isPaid: boolean("is_paid").notNull(),
   entryFee: integer("entry_fee").default(0),
   prizePool: integer("prize_pool").default(0),
   totalSlots: integer("total_slots").notNull(),
   slots: integer("slots").notNull().default(100), // Alias for totalSlots for compatibility
+  slotAllocation: text("slot_allocation").notNull().default("first_come"), // first_come, random
+  requiresApproval: boolean("requires_approval").notNull().default(false), // Invite-style events, paid events are always reviewed
+  registrationOpensAt: timestamp("registration_opens_at"), // null = open as soon as it is published
+  registrationClosesAt: timestamp("registration_closes_at"), // null = open until the scheduler closes it at the start
+  unregisterCutoffMinutes: integer("unregister_cutoff_minutes"), // Minutes before start teams can no longer withdraw, null = until the start
+  minRosterSize: integer("min_roster_size"), // Players a team must field, null = the game mode's team size
+  maxRosterSize: integer("max_roster_size"), // Players a team may field, null = the game mode's team size
+  maxSubstitutes: integer("max_substitutes"), // null = one for team modes, none for solo
+  requiredRoles: json("required_roles").$type<MemberRole[]>().notNull().default([]), // Roles every roster must include
+  roomCapacity: integer("room_capacity").notNull().default(25), // Teams per in-game room
+  checkInOpensMinutes: integer("check_in_opens_minutes"), // Minutes before start check-in opens, null = no check-in
+  checkInClosesMinutes: integer("check_in_closes_minutes").notNull().default(10), // Minutes before start check-in closes
+  checkInProcessedAt: timestamp("check_in_processed_at"), // When no-shows were released
   roomId: text("room_id"),
   password: text("password"),
-  status: text("status").notNull().default("upcoming"), // upcoming, live, completed
+  roomReleaseMinutes: integer("room_release_minutes"), // Minutes before start room details are published, null = sent manually
+  roomReleasedAt: timestamp("room_released_at"), // When room details were published to confirmed teams
+  status: text("status").notNull().default("upcoming"), // draft, upcoming, registration_closed, live, completed, cancelled
+  statusLocked: boolean("status_locked").notNull().default(false), // Admin override - the scheduler leaves the status alone
+  durationMinutes: integer("duration_minutes").notNull().default(120), // Expected length, the scheduler completes it after this
+  cancellationReason: text("cancellation_reason"),
+  cancelledAt: timestamp("cancelled_at"),
+  scoringRulesetId: integer("scoring_ruleset_id").references(() => scoringRulesets.id), // null = game type default
+  templateId: integer("template_id").references(() => tournamentTemplates.id), // Recurring template it was created from
   createdBy: integer("created_by").notNull().references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// A team member as they were when their team registered
+export type RosterPlayer = {
+  username: string;
+  gameId: string;
+  role: string;
+};
+
 // Tournament registration model
 export const registrations = pgTable("registrations", {
   id: serial("id").primaryKey(),
   tournamentId: integer("tournament_id").notNull().references(() => tournaments.id),
-  teamId: integer("team_id").notNull().references(() => teams.id),
+  teamId: integer("team_id").references(() => teams.id), // null for solo entries, which are the registering user alone
   userId: integer("user_id").notNull().references(() => users.id),
   slot: integer("slot"),
-  status: text("status").notNull().default("pending"), // pending, approved, rejected
+  roomNumber: integer("room_number"), // Room the team plays in when the lobby is split
+  status: text("status").notNull().default("pending"), // pending, approved, rejected, no_show
+  checkedInAt: timestamp("checked_in_at"),
+  rejectionReason: text("rejection_reason"),
+  reviewedAt: timestamp("reviewed_at"),
   paymentStatus: text("payment_status").notNull().default("pending"), // pending, paid, failed, refunded
+  roster: json("roster").$type<RosterPlayer[]>().notNull().default([]), // Snapshot of the team's members at registration
   registeredAt: timestamp("registered_at").defaultNow(),
+}, (table) => {
+  return {
+    // Two teams can never share a slot in the same tournament
+    tournamentSlotUnique: uniqueIndex("tournament_slot_unique").on(
+      table.tournamentId,
+      table.slot
+    ),
+  };
+});
+
+// Match lineup model - the players a registered team starts and keeps on the bench for one match
+export const matchLineups = pgTable("match_lineups", {
+  id: serial("id").primaryKey(),
+  registrationId: integer("registration_id").notNull().references(() => registrations.id),
+  matchNumber: integer("match_number").notNull(), // Declared ahead, so matches are referred to by number
+  starters: json("starters").$type<string[]>().notNull(), // Usernames from the registration's roster
+  substitutes: json("substitutes").$type<string[]>().notNull().default([]),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => {
+  return {
+    registrationMatchLineupUnique: uniqueIndex("registration_match_lineup_unique").on(
+      table.registrationId,
+      table.matchNumber
+    ),
+  };
+});
+
+// Waitlist model - teams queued for a full tournament, promoted in the order they joined
+export const waitlistEntries = pgTable("waitlist_entries", {
+  id: serial("id").primaryKey(),
+  tournamentId: integer("tournament_id").notNull().references(() => tournaments.id),
+  teamId: integer("team_id").references(() => teams.id), // null for solo entries
+  userId: integer("user_id").notNull().references(() => users.id),
+  joinedAt: timestamp("joined_at").defaultNow(),
+}, (table) => {
+  return {
+    tournamentTeamWaitlistUnique: uniqueIndex("tournament_team_waitlist_unique").on(
+      table.tournamentId,
+      table.teamId
+    ),
+  };
+});
+
+// Tournament room model - one in-game room of a lobby split across several rooms
+export const tournamentRooms = pgTable("tournament_rooms", {
+  id: serial("id").primaryKey(),
+  tournamentId: integer("tournament_id").notNull().references(() => tournaments.id),
+  roomNumber: integer("room_number").notNull(), // 1 = first room
+  roomId: text("room_id"),
+  password: text("password"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => {
+  return {
+    tournamentRoomNumberUnique: uniqueIndex("tournament_room_number_unique").on(
+      table.tournamentId,
+      table.roomNumber
+    ),
+  };
+});
+
+// Tournament stage model - qualifiers, semi-finals, grand final...
+export const tournamentStages = pgTable("tournament_stages", {
+  id: serial("id").primaryKey(),
+  tournamentId: integer("tournament_id").notNull().references(() => tournaments.id),
+  name: text("name").notNull(),
+  stageOrder: integer("stage_order").notNull(), // 1 = first stage played
+  advancingPerGroup: integer("advancing_per_group").notNull().default(0), // Top N of each group move on
+  status: text("status").notNull().default("pending"), // pending, live, completed
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => {
+  return {
+    tournamentStageOrderUnique: uniqueIndex("tournament_stage_order_unique").on(
+      table.tournamentId,
+      table.stageOrder
+    ),
+  };
+});
+
+// Stage group model - one lobby of teams within a stage
+export const stageGroups = pgTable("stage_groups", {
+  id: serial("id").primaryKey(),
+  stageId: integer("stage_id").notNull().references(() => tournamentStages.id),
+  name: text("name").notNull(), // Group A, Group B...
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Group team model - a registered team seeded into a group
+export const groupTeams = pgTable("group_teams", {
+  id: serial("id").primaryKey(),
+  groupId: integer("group_id").notNull().references(() => stageGroups.id),
+  registrationId: integer("registration_id").notNull().references(() => registrations.id),
+  seed: integer("seed"), // 1-based seeding position within the group
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => {
+  return {
+    groupRegistrationUnique: uniqueIndex("group_registration_unique").on(
+      table.groupId,
+      table.registrationId
+    ),
+  };
+});
+
+// Match model - a single game (room) played as part of a tournament
+export const matches = pgTable("matches", {
+  id: serial("id").primaryKey(),
+  tournamentId: integer("tournament_id").notNull().references(() => tournaments.id),
+  groupId: integer("group_id").references(() => stageGroups.id), // null for single-stage tournaments
+  matchNumber: integer("match_number").notNull(), // 1-based order within the tournament
+  mapType: text("map_type").notNull(), // Erangel, Miramar, Sanhok, Vikendi
+  status: text("status").notNull().default("completed"), // scheduled, completed
+  playedAt: timestamp("played_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => {
+  return {
+    // A tournament can only have one match with a given number
+    tournamentMatchUnique: uniqueIndex("tournament_match_unique").on(
+      table.tournamentId,
+      table.matchNumber
+    ),
+  };
+});
+
+// Kills credited to a single player within a match result
+export type PlayerKills = {
+  username: string;
+  gameId?: string;
+  kills: number;
+};
+
+// Match result model - how one registered team finished in a match
+export const matchResults = pgTable("match_results", {
+  id: serial("id").primaryKey(),
+  matchId: integer("match_id").notNull().references(() => matches.id),
+  registrationId: integer("registration_id").notNull().references(() => registrations.id),
+  placement: integer("placement").notNull(), // 1 = chicken dinner
+  kills: integer("kills").notNull().default(0), // total team kills
+  playerKills: json("player_kills").$type<PlayerKills[]>().notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => {
+  return {
+    // Each registration can only have one result per match
+    matchRegistrationUnique: uniqueIndex("match_registration_unique").on(
+      table.matchId,
+      table.registrationId
+    ),
+  };
+});
+
+// Bracket match model - one head-to-head pairing in an elimination bracket
+export const bracketMatches = pgTable("bracket_matches", {
+  id: serial("id").primaryKey(),
+  tournamentId: integer("tournament_id").notNull().references(() => tournaments.id),
+  bracket: text("bracket").notNull().default("winners"), // winners, losers, grand_final
+  round: integer("round").notNull(), // 1-based within the bracket
+  position: integer("position").notNull(), // 0-based, top to bottom within the round
+  team1RegistrationId: integer("team1_registration_id").references(() => registrations.id),
+  team2RegistrationId: integer("team2_registration_id").references(() => registrations.id),
+  team1Score: integer("team1_score"),
+  team2Score: integer("team2_score"),
+  winnerRegistrationId: integer("winner_registration_id").references(() => registrations.id),
+  status: text("status").notNull().default("pending"), // pending, ready, completed
+  isBye: boolean("is_bye").notNull().default(false), // Completed without being played
+  nextMatchId: integer("next_match_id"), // Where the winner goes
+  nextMatchSlot: integer("next_match_slot"), // 1 or 2
+  loserNextMatchId: integer("loser_next_match_id"), // Where the loser goes (double elimination)
+  loserNextMatchSlot: integer("loser_next_match_slot"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => {
+  return {
+    bracketPositionUnique: uniqueIndex("bracket_position_unique").on(
+      table.tournamentId,
+      table.bracket,
+      table.round,
+      table.position
+    ),
+  };
 });
 
 // Notifications model
@@ -77,8 +429,8 @@ export const notifications = pgTable("notifications", {
   userId: integer("user_id").references(() => users.id), // null means broadcast to all users
   title: text("title").notNull(),
   message: text("message").notNull(),
-  type: text("type").notNull().default("general"), // general, tournament, system
-  relatedId: integer("related_id"), // could be tournament ID, etc.
+  type: text("type").notNull().default("general"), // general, tournament, system, team_invitation
+  relatedId: integer("related_id"), // could be tournament ID, member invitation ID for team invitations, etc.
   isRead: boolean("is_read").notNull().default(false), // Only used for user-specific notifications
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -123,7 +475,8 @@ export const insertUserSchema = createInsertSchema(users).omit({
 export const insertTeamSchema = createInsertSchema(teams).omit({
   id: true,
   createdAt: true,
-  inviteCode: true // We'll generate this automatically
+  inviteCode: true, // We'll generate this automatically
+  permissions: true // Teams start with the defaults, see teamPermissionsSchema
 });
 
 export const insertTeamMemberSchema = createInsertSchema(teamMembers).omit({
@@ -131,13 +484,91 @@ export const insertTeamMemberSchema = createInsertSchema(teamMembers).omit({
   createdAt: true
 });
 
+export const insertTeamJoinRequestSchema = createInsertSchema(teamJoinRequests).omit({
+  id: true,
+  createdAt: true,
+  reviewedAt: true
+});
+
+export const insertTeamInviteSchema = createInsertSchema(teamInvites).omit({
+  id: true,
+  createdAt: true,
+  uses: true,
+  revokedAt: true
+});
+
+// Payload used by a team owner to create an invite link
+export const createTeamInviteSchema = z.object({
+  expiresInHours: z.number().int().min(1).max(24 * 30).nullable().default(24 * 7),
+  maxUses: z.number().int().min(1).nullable().default(null),
+  recipient: z.string().trim().min(1).optional() // Username of the only player who may use it
+});
+
+export const insertTeamMemberInvitationSchema = createInsertSchema(teamMemberInvitations).omit({
+  id: true,
+  createdAt: true,
+  respondedAt: true
+});
+
+// Payload used by a team owner to invite a player found by username or game ID
+export const inviteMemberSchema = z.object({
+  userId: z.number().int(),
+  role: z.enum(["member", "substitute"]).default("member")
+});
+
+// Payload used to edit a team's details and how it is run
+export const teamSettingsSchema = z.object({
+  name: z.string().trim().min(3, "Team name must be at least 3 characters").optional(),
+  description: z.string().optional(),
+  requiresJoinApproval: z.boolean().optional()
+});
+
+// Payload used by a team owner to choose who may do what
+export const teamPermissionsSchema = z.object({
+  register: z.enum(teamRoleLevels),
+  manageRoster: z.enum(teamRoleLevels),
+  editTeam: z.enum(teamRoleLevels),
+  deleteTeam: z.enum(teamRoleLevels)
+});
+
+// Payload used by a team owner to hand the team to one of its members
+export const transferTeamSchema = z.object({
+  memberId: z.number().int()
+});
+
+// Payload used by a team owner to change a member's role
+export const memberRoleSchema = z.object({
+  role: z.enum(memberRoles)
+});
+
 export const insertTournamentSchema = createInsertSchema(tournaments).omit({
   id: true,
   createdAt: true,
   roomId: true,
-  password: true
+  password: true,
+  checkInProcessedAt: true,
+  roomReleasedAt: true,
+  cancellationReason: true,
+  cancelledAt: true
 }).extend({
-  date: z.coerce.date()
+  date: z.coerce.date(),
+  format: z.enum(tournamentFormats).optional(),
+  slotAllocation: z.enum(slotAllocationModes).optional(),
+  requiresApproval: z.boolean().optional(),
+  roomCapacity: z.number().int().min(1).optional(),
+  checkInOpensMinutes: z.number().int().min(1).nullable().optional(),
+  checkInClosesMinutes: z.number().int().min(0).optional(),
+  roomReleaseMinutes: z.number().int().min(0).nullable().optional(),
+  registrationOpensAt: z.coerce.date().nullable().optional(),
+  registrationClosesAt: z.coerce.date().nullable().optional(),
+  unregisterCutoffMinutes: z.number().int().min(0).nullable().optional(),
+  minRosterSize: z.number().int().min(1).nullable().optional(),
+  maxRosterSize: z.number().int().min(1).nullable().optional(),
+  maxSubstitutes: z.number().int().min(0).nullable().optional(),
+  requiredRoles: z.array(z.enum(memberRoles)).optional(),
+  status: z.enum(tournamentStatuses).optional(),
+  statusLocked: z.boolean().optional(),
+  durationMinutes: z.number().int().min(1).optional()
 });
 
 export const updateTournamentSchema = z.object({
@@ -148,6 +579,12 @@ export const updateTournamentSchema = z.object({
   mapType: z.string().optional(),
   gameMode: z.string().optional(),
   gameType: z.string().optional(),
+  format: z.enum(tournamentFormats).optional(),
+  slotAllocation: z.enum(slotAllocationModes).optional(),
+  requiresApproval: z.boolean().optional(),
+  roomCapacity: z.number().int().min(1).optional(),
+  checkInOpensMinutes: z.number().int().min(1).nullable().optional(),
+  checkInClosesMinutes: z.number().int().min(0).optional(),
   teamType: z.string().optional(),
   isPaid: z.boolean().optional(),
   entryFee: z.number().optional(),
@@ -156,17 +593,220 @@ export const updateTournamentSchema = z.object({
   slots: z.number().optional(),
   roomId: z.string().optional(),
   password: z.string().optional(),
-  status: z.string().optional(),
+  roomReleaseMinutes: z.number().int().min(0).nullable().optional(),
+  registrationOpensAt: z.coerce.date().nullable().optional(),
+  registrationClosesAt: z.coerce.date().nullable().optional(),
+  unregisterCutoffMinutes: z.number().int().min(0).nullable().optional(),
+  minRosterSize: z.number().int().min(1).nullable().optional(),
+  maxRosterSize: z.number().int().min(1).nullable().optional(),
+  maxSubstitutes: z.number().int().min(0).nullable().optional(),
+  requiredRoles: z.array(z.enum(memberRoles)).optional(),
+  status: z.enum(tournamentStatuses).optional(),
+  statusLocked: z.boolean().optional(),
+  durationMinutes: z.number().int().min(1).optional(),
+  scoringRulesetId: z.number().nullable().optional(),
+});
+
+const startTimePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const insertTournamentTemplateSchema = createInsertSchema(tournamentTemplates).omit({
+  id: true,
+  createdAt: true,
+  lastOccurrenceAt: true
+}).extend({
+  name: z.string().min(3, "Name must be at least 3 characters"),
+  recurrence: z.enum(recurrenceRules),
+  weekday: z.number().int().min(0).max(6).nullable().optional(),
+  startTime: z.string().regex(startTimePattern, "Start time must be HH:MM"),
+  utcOffsetMinutes: z.number().int().min(-720).max(840).optional(),
+  daysAhead: z.number().int().min(1).max(14).optional(),
+  format: z.enum(tournamentFormats).optional(),
+  slotAllocation: z.enum(slotAllocationModes).optional(),
+  checkInOpensMinutes: z.number().int().min(1).nullable().optional(),
+  checkInClosesMinutes: z.number().int().min(0).optional(),
+  durationMinutes: z.number().int().min(1).optional(),
+  roomReleaseMinutes: z.number().int().min(0).nullable().optional(),
+  unregisterCutoffMinutes: z.number().int().min(0).nullable().optional()
+});
+
+export const updateTournamentTemplateSchema = insertTournamentTemplateSchema.omit({
+  createdBy: true
+}).partial();
+
+// A one-off copy of an existing tournament
+export const cloneTournamentSchema = z.object({
+  date: z.coerce.date(),
+  title: z.string().min(3).optional()
+});
+
+// Cancelling keeps the tournament record, so players can see why their event was called off
+export const cancelTournamentSchema = z.object({
+  reason: z.string().trim().min(5, "Please give players a reason of at least 5 characters")
+});
+
+export const insertScoringRulesetSchema = createInsertSchema(scoringRulesets).omit({
+  id: true,
+  createdAt: true
+}).extend({
+  name: z.string().min(3, "Name must be at least 3 characters"),
+  placementPoints: z.array(z.number().int().min(0)).min(1, "At least one placement must score points"),
+  pointsPerKill: z.number().int().min(0),
+  killCap: z.number().int().min(1).nullable().optional(),
+  tieBreakers: z.array(z.enum(tieBreakerOptions))
+    .refine((values) => new Set(values).size === values.length, "Each tie-breaker can only be used once")
+    .optional()
 });
 
 export const insertRegistrationSchema = createInsertSchema(registrations).omit({
   id: true,
   registeredAt: true,
   slot: true,
+  roomNumber: true,
   status: true,
+  checkedInAt: true,
+  rejectionReason: true,
+  reviewedAt: true,
   paymentStatus: true
+}).extend({
+  roster: z.array(z.object({
+    username: z.string(),
+    gameId: z.string(),
+    role: z.string()
+  })).optional()
+});
+
+export const insertMatchLineupSchema = createInsertSchema(matchLineups).omit({
+  id: true,
+  updatedAt: true
+}).extend({
+  starters: z.array(z.string()),
+  substitutes: z.array(z.string()).optional()
+});
+
+// Payload used by a team to declare who plays a match
+export const declareLineupSchema = z.object({
+  matchNumber: z.number().int().min(1),
+  starters: z.array(z.string()).min(1, "Pick at least one starting player"),
+  substitutes: z.array(z.string()).default([])
+});
+
+export const insertWaitlistEntrySchema = createInsertSchema(waitlistEntries).omit({
+  id: true,
+  joinedAt: true
+});
+
+export const insertTournamentRoomSchema = createInsertSchema(tournamentRooms).omit({
+  id: true,
+  createdAt: true
 });
 
+export const insertTournamentStageSchema = createInsertSchema(tournamentStages).omit({
+  id: true,
+  createdAt: true
+}).extend({
+  name: z.string().min(2, "Stage name must be at least 2 characters"),
+  advancingPerGroup: z.number().int().min(0).optional()
+});
+
+export const insertStageGroupSchema = createInsertSchema(stageGroups).omit({
+  id: true,
+  createdAt: true
+});
+
+export const insertGroupTeamSchema = createInsertSchema(groupTeams).omit({
+  id: true,
+  createdAt: true
+});
+
+// Payload used by admins to seed registered teams into the groups of a stage
+export const stageSeedingSchema = z.object({
+  groups: z.array(z.object({
+    groupId: z.number().int(),
+    registrationIds: z.array(z.number().int())
+  }))
+});
+
+// Payload used by admins to re-number every slot of a tournament
+export const allocateSlotsSchema = z.object({
+  mode: z.enum(slotAllocationModes).optional()
+});
+
+// Payload used by admins to move a team to another slot, swapping if it is taken
+export const moveSlotSchema = z.object({
+  registrationId: z.number().int(),
+  slot: z.number().int().min(1)
+});
+
+// Payload used by admins to approve or reject one registration
+export const reviewRegistrationSchema = z.object({
+  status: z.enum(["approved", "rejected"]),
+  reason: z.string().trim().max(500).optional()
+}).refine((data) => data.status !== "rejected" || !!data.reason, {
+  message: "A reason is required when rejecting a registration",
+  path: ["reason"]
+});
+
+// Payload used by admins to approve several registrations at once - every pending one if no ids are given
+export const bulkApproveRegistrationsSchema = z.object({
+  registrationIds: z.array(z.number().int()).min(1).optional()
+});
+
+// Payload used by admins to split a lobby, optionally changing the room capacity
+export const splitRoomsSchema = z.object({
+  roomCapacity: z.number().int().min(1).optional()
+});
+
+// Payload used by admins to set the credentials of one room
+export const roomCredentialsSchema = z.object({
+  roomId: z.string().min(1, "Room ID is required"),
+  password: z.string().min(1, "Password is required")
+});
+
+const playerKillsSchema = z.array(z.object({
+  username: z.string(),
+  gameId: z.string().optional(),
+  kills: z.number().int().min(0)
+}));
+
+export const insertMatchSchema = createInsertSchema(matches).omit({
+  id: true,
+  createdAt: true
+}).extend({
+  playedAt: z.coerce.date().optional().nullable()
+});
+
+export const insertMatchResultSchema = createInsertSchema(matchResults).omit({
+  id: true,
+  createdAt: true
+}).extend({
+  playerKills: playerKillsSchema.optional()
+});
+
+// Payload used by admins to record every team's result for one match
+export const recordMatchResultsSchema = z.object({
+  matchNumber: z.number().int().min(1),
+  groupId: z.number().int().nullable().optional(), // Group the match was played in, for multi-stage tournaments
+  mapType: z.string().optional(),
+  playedAt: z.coerce.date().optional(),
+  results: z.array(z.object({
+    registrationId: z.number().int(),
+    placement: z.number().int().min(1),
+    kills: z.number().int().min(0).default(0),
+    playerKills: playerKillsSchema.optional()
+  })).min(1, "At least one team result is required")
+});
+
+export const insertBracketMatchSchema = createInsertSchema(bracketMatches).omit({
+  id: true,
+  createdAt: true
+});
+
+// Payload used by admins to report the score of a bracket match
+export const reportBracketResultSchema = z.object({
+  team1Score: z.number().int().min(0),
+  team2Score: z.number().int().min(0)
+}).refine((data) => data.team1Score !== data.team2Score, "Bracket matches cannot end in a draw");
+
 export const insertNotificationSchema = createInsertSchema(notifications).omit({
   id: true,
   createdAt: true,
@@ -190,13 +830,81 @@ export type InsertTeam = z.infer<typeof insertTeamSchema>;
 export type TeamMember = typeof teamMembers.$inferSelect;
 export type InsertTeamMember = z.infer<typeof insertTeamMemberSchema>;
 
+export type TeamJoinRequest = typeof teamJoinRequests.$inferSelect;
+export type InsertTeamJoinRequest = z.infer<typeof insertTeamJoinRequestSchema>;
+export type TeamSettings = z.infer<typeof teamSettingsSchema>;
+// What the current user may do for a team
+export type TeamAccess = {
+  role: TeamRoleLevel | null;
+  permissions: TeamPermissions;
+  allowed: Record<TeamAction, boolean>;
+};
+
+export type TeamMemberInvitation = typeof teamMemberInvitations.$inferSelect;
+export type InsertTeamMemberInvitation = z.infer<typeof insertTeamMemberInvitationSchema>;
+export type InviteMember = z.infer<typeof inviteMemberSchema>;
+
+export type TeamInvite = typeof teamInvites.$inferSelect;
+export type InsertTeamInvite = z.infer<typeof insertTeamInviteSchema>;
+export type CreateTeamInvite = z.infer<typeof createTeamInviteSchema>;
+
 export type Tournament = typeof tournaments.$inferSelect;
 export type InsertTournament = z.infer<typeof insertTournamentSchema>;
 export type UpdateTournament = z.infer<typeof updateTournamentSchema>;
+// Fields only the server sets as a tournament runs, never taken from a request body
+export type TournamentServerUpdate = Partial<Pick<Tournament, "checkInProcessedAt" | "roomReleasedAt" | "cancellationReason" | "cancelledAt" | "templateId">>;
+// A tournament as a particular viewer receives it - room credentials are blanked out unless they may see them
+export type TournamentView = Tournament & { credentialsHidden: boolean };
+// The roster a tournament registers teams under, see server/roster-rules.ts
+export type RosterRules = {
+  minPlayers: number;
+  maxPlayers: number;
+  maxSubstitutes: number;
+  requiredRoles: MemberRole[];
+};
+
+export type TournamentTemplate = typeof tournamentTemplates.$inferSelect;
+export type InsertTournamentTemplate = z.infer<typeof insertTournamentTemplateSchema>;
+export type UpdateTournamentTemplate = z.infer<typeof updateTournamentTemplateSchema>;
+
+export type ScoringRuleset = typeof scoringRulesets.$inferSelect;
+export type InsertScoringRuleset = z.infer<typeof insertScoringRulesetSchema>;
 
 export type Registration = typeof registrations.$inferSelect;
 export type InsertRegistration = z.infer<typeof insertRegistrationSchema>;
 
+export type MatchLineup = typeof matchLineups.$inferSelect;
+export type InsertMatchLineup = z.infer<typeof insertMatchLineupSchema>;
+export type DeclareLineup = z.infer<typeof declareLineupSchema>;
+
+export type WaitlistEntry = typeof waitlistEntries.$inferSelect;
+export type InsertWaitlistEntry = z.infer<typeof insertWaitlistEntrySchema>;
+
+export type TournamentRoom = typeof tournamentRooms.$inferSelect;
+export type InsertTournamentRoom = z.infer<typeof insertTournamentRoomSchema>;
+export type RoomCredentials = z.infer<typeof roomCredentialsSchema>;
+
+export type TournamentStage = typeof tournamentStages.$inferSelect;
+export type InsertTournamentStage = z.infer<typeof insertTournamentStageSchema>;
+
+export type StageGroup = typeof stageGroups.$inferSelect;
+export type InsertStageGroup = z.infer<typeof insertStageGroupSchema>;
+
+export type GroupTeam = typeof groupTeams.$inferSelect;
+export type InsertGroupTeam = z.infer<typeof insertGroupTeamSchema>;
+export type StageSeeding = z.infer<typeof stageSeedingSchema>;
+
+export type Match = typeof matches.$inferSelect;
+export type InsertMatch = z.infer<typeof insertMatchSchema>;
+
+export type MatchResult = typeof matchResults.$inferSelect;
+export type InsertMatchResult = z.infer<typeof insertMatchResultSchema>;
+export type RecordMatchResults = z.infer<typeof recordMatchResultsSchema>;
+
+export type BracketMatch = typeof bracketMatches.$inferSelect;
+export type InsertBracketMatch = z.infer<typeof insertBracketMatchSchema>;
+export type ReportBracketResult = z.infer<typeof reportBracketResultSchema>;
+
 export type Notification = typeof notifications.$inferSelect;
 export type InsertNotification = z.infer<typeof insertNotificationSchema>;
 